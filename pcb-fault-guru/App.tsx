@@ -1,21 +1,70 @@
 import React, { version } from 'react';
-import { useState, useCallback, useEffect } from 'react';
-import { PcbAnalysis, ChatMessage, JumperSuggestion, Component } from './types';
-import { analyzePcbImage, createChat, sendMessage } from './services/geminiService';
-import { generatePdfReport } from './services/pdfService';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { flushSync } from 'react-dom';
+import { PcbAnalysis, ChatMessage, ReworkPlan, Component, ValidationWarning, BoardSide, GoldenReference, AnalysisResult, AppSettings, BoardProject, Connectivity, PadLocation, RepairJob, RepairVerification, BoardPlacement, ExpectedBom, DatasheetEntry, CatalogPart } from './types';
+import { createChat, sendMessage } from './services/geminiService';
+import { generatePdfReport, generateVerificationReport, captureAnalysisView, ReportVisual } from './services/pdfService';
+import { AnalysisProvider, AnalysisProgress, getDefaultProvider } from './services/analysisProvider';
+import { newId } from './services/idUtils';
+import { downloadFixture } from './services/replayProvider';
+import { TilingOptions, createTiledProvider } from './services/tiledProvider';
+import { EnsembleOptions, createEnsembleProvider } from './services/ensembleProvider';
+import { AnalysisValidationError } from './services/analysisValidator';
+import { BOARD_SIDES, mergeBoardSide, filterAnalysisBySide, getSide } from './services/analysisMerge';
+import { loadGoldenReference, saveGoldenReference, clearGoldenReference, compareWithGolden } from './services/goldenService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { filterByConfidence, hasActiveThresholds } from './services/confidenceFilter';
+import { saveInspection, loadInspection, listProjects, saveProject, listDatasheets } from './services/historyStore';
+import { downloadBundle, readBundle } from './services/bundleService';
+import { AnnotationEdit, applyAnnotationEdit } from './services/annotationEdits';
+import { EditHistory, emptyHistory, recordEdit, undoEdit, redoEdit } from './services/editHistory';
+import { emptyConnectivity, placePad, removePad } from './services/connectivity';
+import { parseReworkPlan, planFromJumper, draftPlanFromAnalysis, checkReworkPlan, setStepDone } from './services/reworkPlan';
+import { matchPlacement, findUnexpected, designatorAnchors } from './services/placementService';
+import { checkBom, downloadBomReport } from './services/bomCheck';
+import { datasheetVoltageUpdates } from './services/datasheetService';
+import { localCatalogProvider, importCatalog, clearCatalog, catalogSize } from './services/partsCatalog';
+import { replacementMpns, buildRepairEstimate } from './services/repairEstimate';
+import { recordRepairedSide, verifyRepair, verifiedSides, isRepairVerified } from './services/verificationService';
 import ImageUploader from './components/ImageUploader';
-import AnalysisViewer from './components/AnalysisViewer';
+import ImagePreprocessor from './components/ImagePreprocessor';
+import ThermalImportDialog from './components/ThermalImportDialog';
+import ConfidenceControls from './components/ConfidenceControls';
+import HistorySidebar from './components/HistorySidebar';
+import ProjectBar, { formatProject } from './components/ProjectBar';
+import UnitTimelineDialog from './components/UnitTimelineDialog';
+import AnalysisProgressView from './components/AnalysisProgressView';
+import ProviderSelector from './components/ProviderSelector';
+import GoldenReferenceBanner from './components/GoldenReferenceBanner';
+import AnalysisViewer, { PadPlacement } from './components/AnalysisViewer';
+import NetsPanel from './components/NetsPanel';
+import PlacementPanel from './components/PlacementPanel';
+import PlacementImportDialog from './components/PlacementImportDialog';
+import BomImportDialog from './components/BomImportDialog';
+import BomExportDialog from './components/BomExportDialog';
+import DatasheetLibraryDialog from './components/DatasheetLibraryDialog';
+import ReworkPlanPanel from './components/ReworkPlanPanel';
 import ResultsPanel from './components/ResultsPanel';
-import { LogoIcon, SpinnerIcon, DocumentTextIcon } from './components/icons';
+import { LogoIcon, DocumentTextIcon } from './components/icons';
 import type { Chat, GenerateContentResponse } from '@google/genai';
 
+const defaultInspectionName = (imageFile: File) => imageFile.name.replace(/\.[^.]+$/, '');
+
+// Autosaves wait for a pause so a burst of chat or threshold changes is written once.
+const AUTOSAVE_DELAY_MS = 800;
 
 const App: React.FC = () => {
   const [analysis, setAnalysis] = useState<PcbAnalysis | null>(null);
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageFiles, setImageFiles] = useState<Partial<Record<BoardSide, File>>>({});
+  const [imageUrls, setImageUrls] = useState<Partial<Record<BoardSide, string>>>({});
+  const [activeSide, setActiveSide] = useState<BoardSide>('top');
+  // An uploaded photo waiting to be straightened before it is analyzed; `verify` marks a photo of the repaired board.
+  const [pendingUpload, setPendingUpload] = useState<{ file: File; side: BoardSide; verify?: boolean } | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<ValidationWarning[]>([]);
+  const [warnings, setWarnings] = useState<ValidationWarning[]>([]);
   const [hoveredId, setHoveredId] = useState<string | null>(null);
   const [selectedId, setSelectedId] = useState<string | null>(null);
 
@@ -24,9 +73,166 @@ const App: React.FC = () => {
   const [chat, setChat] = useState<Chat | null>(null);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [isChatLoading, setIsChatLoading] = useState<boolean>(false);
-  const [jumperSuggestion, setJumperSuggestion] = useState<JumperSuggestion | null>(null);
+  const [reworkPlan, setReworkPlan] = useState<ReworkPlan | null>(null);
+  const [activeStepId, setActiveStepId] = useState<string | null>(null);
+  const [repairJob, setRepairJob] = useState<RepairJob | null>(null);
+  const [verification, setVerification] = useState<RepairVerification | null>(null);
+  const [isClosingJob, setIsClosingJob] = useState<boolean>(false);
   const [isReporting, setIsReporting] = useState<boolean>(false);
+  const [isThermalOpen, setIsThermalOpen] = useState<boolean>(false);
+  const [provider, setProvider] = useState<AnalysisProvider>(getDefaultProvider);
+  const [tiling, setTiling] = useState<TilingOptions | null>(null);
+  const [ensemble, setEnsemble] = useState<EnsembleOptions | null>(null);
+  const [goldenReference, setGoldenReference] = useState<GoldenReference | null>(loadGoldenReference);
+  const [isGoldenSession, setIsGoldenSession] = useState<boolean>(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [inspectionId, setInspectionId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState<number>(0);
+  const [projects, setProjects] = useState<BoardProject[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [serial, setSerial] = useState<string>('');
+  const [isTimelineOpen, setIsTimelineOpen] = useState<boolean>(false);
+  const [isEditingAnnotations, setIsEditingAnnotations] = useState<boolean>(false);
+  const [editHistory, setEditHistory] = useState<EditHistory<PcbAnalysis>>(emptyHistory);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [connectivity, setConnectivity] = useState<Connectivity>(emptyConnectivity);
+  const [padPlacement, setPadPlacement] = useState<PadPlacement | null>(null);
+  const [placement, setPlacement] = useState<BoardPlacement | null>(null);
+  const [isPlacementOpen, setIsPlacementOpen] = useState<boolean>(false);
+  const [showPlacement, setShowPlacement] = useState<boolean>(true);
+  const [expectedBom, setExpectedBom] = useState<ExpectedBom | null>(null);
+  const [isBomImportOpen, setIsBomImportOpen] = useState<boolean>(false);
+  const [isBomExportOpen, setIsBomExportOpen] = useState<boolean>(false);
+  const [datasheets, setDatasheets] = useState<DatasheetEntry[]>([]);
+  const [isDatasheetsOpen, setIsDatasheetsOpen] = useState<boolean>(false);
+  const [catalogVersion, setCatalogVersion] = useState<number>(0); // bumped when the local catalog changes
+  const [catalogPrices, setCatalogPrices] = useState<Map<string, CatalogPart>>(new Map());
+
+  // Consensus runs wrap tiling so every run covers the whole board.
+  const activeProvider = useMemo(() => {
+    const base = tiling ? createTiledProvider(provider, tiling) : provider;
+    return ensemble ? createEnsembleProvider(base, ensemble) : base;
+  }, [provider, tiling, ensemble]);
+  const sideInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const verifyInputRef = useRef<HTMLInputElement>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // handleImageUpload is memoized, so the reset it calls reads the current URLs from here.
+  const imageUrlsRef = useRef(imageUrls);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const imageUrl = imageUrls.top ?? null;
+
+  // What the viewer, lists, BOM and report show; edits always go to the full analysis.
+  const visibleAnalysis = useMemo(
+    () => analysis ? filterByConfidence(analysis, settings.confidence) : null,
+    [analysis, settings.confidence]
+  );
+  // A board is only compared with the reference when it is not the reference itself. Both go through
+  // the same thresholds, so a hidden low-confidence finding does not come back as a difference.
+  const boardDiff = useMemo(
+    () => visibleAnalysis && goldenReference && !isGoldenSession
+      ? compareWithGolden({ ...goldenReference, analysis: filterByConfidence(goldenReference.analysis, settings.confidence) }, visibleAnalysis)
+      : null,
+    [visibleAnalysis, goldenReference, isGoldenSession, settings.confidence]
+  );
+  const hiddenCount = analysis && visibleAnalysis
+    ? analysis.components.length + analysis.defects.length - visibleAnalysis.components.length - visibleAnalysis.defects.length
+    : 0;
+  const selectedProject = projects.find(p => p.id === projectId) ?? null;
+  // Jumpers are kept as the model gave them and re-snapped whenever the pads change.
+  const checkedPlan = useMemo(
+    () => reworkPlan ? checkReworkPlan(reworkPlan, connectivity) : null,
+    [reworkPlan, connectivity]
+  );
+  // The repaired board is filtered with the same thresholds, so low-confidence noise is not reported as new.
+  const verificationFindings = useMemo(
+    () => verification && visibleAnalysis
+      ? verifyRepair(visibleAnalysis, filterByConfidence(verification.analysis, settings.confidence), verifiedSides(verification))
+      : null,
+    [verification, visibleAnalysis, settings.confidence]
+  );
+  // The layout is checked against what is on screen, so hidden low-confidence boxes do not count as found.
+  const photographedSides = BOARD_SIDES.filter(side => imageFiles[side]);
+  const placementMatches = useMemo(
+    () => placement && visibleAnalysis ? matchPlacement(placement, visibleAnalysis, photographedSides) : [],
+    [placement, visibleAnalysis, imageFiles]
+  );
+  const placementAnchors = useMemo(() => designatorAnchors(placementMatches), [placementMatches]);
+  const bomCheck = useMemo(
+    () => expectedBom && visibleAnalysis ? checkBom(expectedBom, visibleAnalysis) : null,
+    [expectedBom, visibleAnalysis]
+  );
+  // Ratings go to the full analysis, like every other edit.
+  const datasheetVoltages = useMemo(() => analysis ? datasheetVoltageUpdates(analysis, datasheets) : [], [analysis, datasheets]);
+  const boardMpns = useMemo(
+    () => Array.from(new Set([...(analysis?.components.map(c => c.mpn) ?? []), ...(expectedBom?.lines.map(l => l.mpn) ?? [])].filter(Boolean))),
+    [analysis, expectedBom]
+  );
+  const catalogCount = useMemo(catalogSize, [catalogVersion]);
+  const repairEstimate = useMemo(
+    () => visibleAnalysis ? buildRepairEstimate(visibleAnalysis.advice, visibleAnalysis.components, catalogPrices, settings.estimate) : null,
+    [visibleAnalysis, catalogPrices, settings.estimate]
+  );
+  const detectedDefectTypes = useMemo(() => Array.from(new Set(analysis?.defects.map(d => d.type) ?? [])), [analysis]);
 
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    imageUrlsRef.current = imageUrls;
+  }, [imageUrls]);
+
+  useEffect(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(err => console.error("Failed to load board projects:", err));
+    listDatasheets()
+      .then(setDatasheets)
+      .catch(err => console.error("Failed to load the datasheet library:", err));
+  }, []);
+
+  // Prices are looked up again whenever the advice or the catalog changes.
+  useEffect(() => {
+    const advice = analysis?.advice;
+    if (!advice) {
+      setCatalogPrices(new Map());
+      return;
+    }
+    let cancelled = false;
+    localCatalogProvider.lookup(replacementMpns(advice))
+      .then(prices => { if (!cancelled) setCatalogPrices(prices); })
+      .catch(err => console.error("Failed to look up replacement prices:", err));
+    return () => { cancelled = true; };
+  }, [analysis?.advice, catalogVersion]);
+
+  useEffect(() => {
+    if (!analysis || !inspectionId || !imageFiles.top) return;
+    const timer = setTimeout(() => {
+      saveInspection({
+        id: inspectionId,
+        name: defaultInspectionName(imageFiles.top!),
+        images: imageFiles,
+        analysis,
+        warnings,
+        chatHistory,
+        reworkPlan,
+        connectivity,
+        placement,
+        expectedBom,
+        repairJob,
+        verification,
+        boardVoltage,
+        settings,
+        projectId: projectId ?? undefined,
+        serial: serial.trim() || undefined,
+      })
+        .then(() => setHistoryRefreshKey(key => key + 1))
+        .catch(err => console.error("Failed to save inspection:", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [inspectionId, analysis, imageFiles, warnings, chatHistory, reworkPlan, connectivity, placement, expectedBom, repairJob, verification, boardVoltage, settings, projectId, serial]);
 
   useEffect(() => {
     if (analysis && !chat && process.env.API_KEY) {
@@ -34,127 +240,521 @@ const App: React.FC = () => {
     }
   }, [analysis, chat]);
 
+  // Starts a new analysis request, cancelling any that is still running.
+  const beginAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setProgress(null);
+    setIsLoading(true);
+    return controller;
+  };
+
+  const endAnalysis = (controller: AbortController) => {
+    if (analysisAbortRef.current !== controller) return;
+    analysisAbortRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  };
+
   const handleImageUpload = useCallback(async (file: File) => {
     handleReset();
-    setImageFile(file);
-    setImageUrl(URL.createObjectURL(file));
-    setIsLoading(true);
+    setImageFiles({ top: file });
+    setImageUrls({ top: URL.createObjectURL(file) });
+    const controller = beginAnalysis();
 
     try {
-      const result = await analyzePcbImage(file);
-      setAnalysis(result);
+      const result = await activeProvider.analyze(file, { signal: controller.signal, onProgress: setProgress });
+      setAnalysis(result.analysis);
+      setWarnings(result.warnings);
+      setInspectionId(newId());
     } catch (err) {
+      // Whoever cancelled the request has already reset the screen.
+      if (controller.signal.aborted) return;
       setError(err instanceof Error ? err.message : 'Failed to analyze PCB image. Please try again.');
+      if (err instanceof AnalysisValidationError) {
+        setErrorDetails(err.issues);
+      }
       console.error(err);
     } finally {
-      setIsLoading(false);
+      endAnalysis(controller);
     }
-  }, []);
+  }, [activeProvider]);
+
+  const handleAddSide = async (file: File, side: BoardSide) => {
+    if (!analysis) return;
+    const previousUrl = imageUrls[side];
+    const controller = beginAnalysis();
+    setError(null);
+    setErrorDetails([]);
+
+    try {
+      const result = await activeProvider.analyze(file, { signal: controller.signal, onProgress: setProgress });
+      const merged = mergeBoardSide(analysis, result.analysis, side);
+      if (previousUrl) {
+        URL.revokeObjectURL(previousUrl);
+      }
+      setImageFiles(prev => ({ ...prev, [side]: file }));
+      setImageUrls(prev => ({ ...prev, [side]: URL.createObjectURL(file) }));
+      setAnalysis(merged.analysis);
+      setEditHistory(emptyHistory());
+      setWarnings(prev => [
+        ...prev.filter(w => !w.path.startsWith(`${side}.`)),
+        ...result.warnings.map(w => ({ ...w, path: `${side}.${w.path}` })),
+        ...merged.warnings,
+      ]);
+      setActiveSide(side);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : `Failed to analyze the ${side} side. Please try again.`);
+      if (err instanceof AnalysisValidationError) {
+        setErrorDetails(err.issues);
+      }
+      console.error(err);
+    } finally {
+      endAnalysis(controller);
+    }
+  };
+
+  // Analyzes a photo of the repaired board and compares it with this inspection.
+  const handleVerifyRepair = async (file: File, side: BoardSide) => {
+    if (!analysis) return;
+    const controller = beginAnalysis();
+    setError(null);
+    setErrorDetails([]);
+
+    try {
+      const result = await activeProvider.analyze(file, { signal: controller.signal, onProgress: setProgress });
+      setVerification(prev => recordRepairedSide(prev, file, result.analysis, side));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Failed to analyze the repaired board. Please try again.');
+      if (err instanceof AnalysisValidationError) {
+        setErrorDetails(err.issues);
+      }
+      console.error(err);
+    } finally {
+      endAnalysis(controller);
+    }
+  };
+
+  const handlePreprocessed = (file: File) => {
+    if (!pendingUpload) return;
+    const { side, verify } = pendingUpload;
+    setPendingUpload(null);
+    if (verify) {
+      handleVerifyRepair(file, side);
+    } else if (side === 'top') {
+      handleImageUpload(file);
+    } else {
+      handleAddSide(file, side);
+    }
+  };
+
+  const handleThermalApply = (result: AnalysisResult) => {
+    setAnalysis(result.analysis);
+    setEditHistory(emptyHistory());
+    setWarnings(prev => [...prev.filter(w => !w.path.startsWith('thermal.')), ...result.warnings]);
+    setIsThermalOpen(false);
+  };
+
+  // Restores a saved inspection exactly as it was left, without calling the model.
+  const handleOpenInspection = async (id: string) => {
+    try {
+      const record = await loadInspection(id);
+      if (!record) {
+        setError("That inspection is no longer in the history.");
+        return;
+      }
+      handleReset();
+      setInspectionId(record.id);
+      setImageFiles(record.images);
+      setImageUrls(Object.fromEntries(
+        Object.entries(record.images).map(([side, file]) => [side, URL.createObjectURL(file)])
+      ) as Partial<Record<BoardSide, string>>);
+      setAnalysis(record.analysis);
+      setWarnings(record.warnings);
+      setChatHistory(record.chatHistory);
+      // Inspections saved before rework plans may still carry a single jumper.
+      setReworkPlan(record.reworkPlan ?? (record.jumperSuggestion ? planFromJumper(record.jumperSuggestion, record.updatedAt) : null));
+      setConnectivity(record.connectivity ?? emptyConnectivity());
+      setPlacement(record.placement ?? null);
+      setExpectedBom(record.expectedBom ?? null);
+      setRepairJob(record.repairJob ?? null);
+      setVerification(record.verification ?? null);
+      setBoardVoltage(record.boardVoltage);
+      // The shop's rates are not part of an inspection; older records do not even carry them.
+      setSettings(prev => ({ ...record.settings, estimate: prev.estimate }));
+      setProjectId(record.projectId ?? null);
+      setSerial(record.serial ?? '');
+      setChat(process.env.API_KEY ? createChat(process.env.API_KEY, record.chatHistory) : null);
+      setIsHistoryOpen(false);
+    } catch (err) {
+      console.error("Failed to open inspection:", err);
+      setError("Could not open the saved inspection.");
+    }
+  };
+
+  const handleProjectChange = (id: string | null) => {
+    setProjectId(id);
+    const project = projects.find(p => p.id === id);
+    if (project?.expectedVoltage != null && boardVoltage === null) {
+      setBoardVoltage(project.expectedVoltage);
+    }
+  };
+
+  const handleCreateProject = async (fields: Omit<BoardProject, 'id' | 'createdAt'>) => {
+    const project: BoardProject = { ...fields, id: newId(), createdAt: new Date().toISOString() };
+    await saveProject(project);
+    setProjects(await listProjects());
+    setProjectId(project.id);
+    if (project.expectedVoltage != null && boardVoltage === null) {
+      setBoardVoltage(project.expectedVoltage);
+    }
+  };
+
+  const handleInspectionDeleted = (id: string) => {
+    // The open session stays on screen but is no longer saved.
+    if (id === inspectionId) setInspectionId(null);
+  };
+
+  const handleCancelAnalysis = () => {
+    if (!analysis) {
+      handleReset();
+      return;
+    }
+    // Cancelling an added side keeps the inspection that is already on screen.
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  };
 
   const handleReset = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
     setAnalysis(null);
-    setImageFile(null);
-    if(imageUrl) {
-      URL.revokeObjectURL(imageUrl);
-    }
-    setImageUrl(null);
+    setEditHistory(emptyHistory());
+    setIsEditingAnnotations(false);
+    setEditError(null);
+    setImageFiles({});
+    Object.values(imageUrlsRef.current).forEach(url => url && URL.revokeObjectURL(url));
+    setImageUrls({});
+    setActiveSide('top');
+    setPendingUpload(null);
+    setIsGoldenSession(false);
     setIsLoading(false);
+    setProgress(null);
     setError(null);
+    setErrorDetails([]);
+    setWarnings([]);
     setHoveredId(null);
     setSelectedId(null);
     setBoardVoltage(null);
     setChat(null);
     setChatHistory([]);
-    setJumperSuggestion(null);
+    setIsChatLoading(false);
+    setReworkPlan(null);
+    setActiveStepId(null);
+    setRepairJob(null);
+    setVerification(null);
+    setConnectivity(emptyConnectivity());
+    setPadPlacement(null);
+    setPlacement(null);
+    setIsPlacementOpen(false);
+    setExpectedBom(null);
+    setIsBomImportOpen(false);
+    setIsBomExportOpen(false);
+    setIsDatasheetsOpen(false);
+    setIsThermalOpen(false);
+    setIsTimelineOpen(false);
+    setInspectionId(null);
+    // The project stays selected: the next board on the bench is usually the same model.
+    setSerial('');
   };
   
-  const downloadBOM = () => {
-    if (!analysis?.components) return;
-
-    const headers = ["Designator", "MPN", "Presence", "Condition", "Confidence", "Temperature (C)", "Max Voltage (V)", "Datasheet"];
-    const csvRows = [headers.join(',')];
-
-    analysis.components.forEach(c => {
-        const row = [
-          c.designator, 
-          c.mpn, 
-          c.presence, 
-          c.condition, 
-          c.confidence,
-          c.temperature ?? 'N/A',
-          c.maxVoltage ?? 'N/A',
-          c.datasheetUrl ?? 'N/A'
-        ];
-        csvRows.push(row.map(v => `"${v}"`).join(','));
-    });
-
-    const csvContent = csvRows.join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.setAttribute('download', 'bom_report.csv');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleSelectItem = (id: string | null) => {
+    setSelectedId(id);
+    if (!analysis || !id) return;
+    // Jump to the other side when the item is not visible on the current one.
+    const onActiveSide = filterAnalysisBySide(analysis, activeSide);
+    if (onActiveSide.components.some(c => c.designator === id) || onActiveSide.defects.some(d => d.id === id)) return;
+    const item = analysis.components.find(c => c.designator === id) ?? analysis.defects.find(d => d.id === id);
+    if (item && imageUrls[getSide(item)]) {
+      setActiveSide(getSide(item));
+    }
+  };
+
+  // Manual corrections always apply to the full analysis, including findings hidden by the thresholds.
+  const handleAnnotationEdit = (edit: AnnotationEdit) => {
+    if (!analysis) return;
+    try {
+      const result = applyAnnotationEdit(analysis, edit);
+      setEditHistory(prev => recordEdit(prev, analysis));
+      setAnalysis(result.analysis);
+      setSelectedId(result.selectId);
+      setEditError(null);
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : "The edit could not be applied.");
+    }
   };
 
-  const JUMPER_JSON_REGEX = /```json\s*(\{[\s\S]*?\})\s*```/;
+  const handleUndo = () => {
+    const step = analysis && undoEdit(editHistory, analysis);
+    if (!step) return;
+    setEditHistory(step.history);
+    setAnalysis(step.value);
+    setSelectedId(null);
+    setEditError(null);
+  };
 
-  const handleSendMessage = async (message: string) => {
-    if (!chat || isChatLoading) return;
+  const handleRedo = () => {
+    const step = analysis && redoEdit(editHistory, analysis);
+    if (!step) return;
+    setEditHistory(step.history);
+    setAnalysis(step.value);
+    setSelectedId(null);
+    setEditError(null);
+  };
+
+  // Finishing the step on screen moves on to the next one still to do.
+  const handleStepDoneChange = (stepId: string, done: boolean) => {
+    if (!reworkPlan) return;
+    setReworkPlan(setStepDone(reworkPlan, stepId, done));
+    if (done && stepId === activeStepId) {
+      const index = reworkPlan.steps.findIndex(s => s.id === stepId);
+      const next = reworkPlan.steps.slice(index + 1).find(s => !s.doneAt);
+      if (next) setActiveStepId(next.id);
+    }
+  };
+
+  const handleDraftPlan = () => {
+    if (!visibleAnalysis) return;
+    if (reworkPlan && !window.confirm("Replace the current rework plan with one drafted from the findings?")) return;
+    setReworkPlan(draftPlanFromAnalysis(visibleAnalysis));
+    setActiveStepId(null);
+  };
+
+  // A netlist pin is placed once; new hand-drawn pads keep being added until placement is turned off.
+  const handlePlacePad = (location: PadLocation) => {
+    if (!padPlacement) return;
+    setConnectivity(prev => placePad(prev, padPlacement.netId, location, padPlacement.padId));
+    if (padPlacement.padId) setPadPlacement({ netId: padPlacement.netId });
+  };
+
+  const handleSetGolden = async () => {
+    if (!analysis || !imageFiles.top) return;
+    const name = window.prompt("Name for this golden reference:", imageFiles.top.name.replace(/\.[^.]+$/, ''));
+    if (!name) return;
+    try {
+      setGoldenReference(await saveGoldenReference(name, analysis, imageFiles.top));
+      setIsGoldenSession(true);
+    } catch (err) {
+      console.error("Failed to save golden reference:", err);
+      setError(err instanceof Error ? err.message : "Could not save the golden reference.");
+    }
+  };
+
+  const handleClearGolden = () => {
+    clearGoldenReference();
+    setGoldenReference(null);
+  };
+
+  const handleExportBundle = async () => {
+    if (!analysis || !imageFiles.top) return;
+    try {
+      // The saved copy knows the inspection's current name and when it was first saved.
+      const saved = inspectionId ? await loadInspection(inspectionId) : undefined;
+      const now = new Date().toISOString();
+      await downloadBundle({
+        id: inspectionId ?? newId(),
+        name: saved?.name ?? defaultInspectionName(imageFiles.top),
+        createdAt: saved?.createdAt ?? now,
+        updatedAt: now,
+        images: imageFiles,
+        analysis,
+        warnings,
+        chatHistory,
+        reworkPlan,
+        connectivity,
+        placement,
+        expectedBom,
+        repairJob,
+        verification,
+        boardVoltage,
+        settings,
+        projectId: projectId ?? undefined,
+        serial: serial.trim() || undefined,
+      }, selectedProject ?? undefined);
+    } catch (err) {
+      console.error("Failed to export bundle:", err);
+      setError("Could not export the inspection bundle.");
+    }
+  };
+
+  // Imported bundles become new history entries, so re-importing never overwrites local work.
+  const handleImportBundle = async (file: File) => {
+    try {
+      const { record, project } = await readBundle(file);
+      if (project && !projects.some(p => p.id === project.id)) {
+        await saveProject(project);
+        setProjects(await listProjects());
+      }
+      const id = newId();
+      await saveInspection({ ...record, id });
+      setHistoryRefreshKey(key => key + 1);
+      await handleOpenInspection(id);
+    } catch (err) {
+      console.error("Failed to import bundle:", err);
+      setError(err instanceof Error ? err.message : "Could not import the inspection bundle.");
+    }
+  };
 
+  const handleSaveFixture = async () => {
+    const imageFile = imageFiles[activeSide];
+    if (!analysis || !imageFile) return;
+    try {
+      // Fixtures are keyed by a single image, so record only the side on screen.
+      const { sideSummaries, sideAdvice, ...sideAnalysis } = filterAnalysisBySide(analysis, activeSide);
+      await downloadFixture(imageFile, {
+        ...sideAnalysis,
+        summary: sideSummaries?.[activeSide] ?? sideAnalysis.summary,
+        advice: sideAdvice?.[activeSide] ?? sideAnalysis.advice,
+      });
+    } catch (err) {
+      console.error("Failed to record fixture:", err);
+      setError("Could not save the analysis fixture.");
+    }
+  };
+
+  const PLAN_JSON_REGEX = /```json\s*(\{[\s\S]*?\})\s*```/;
+
+  const requestChatReply = async (message: string) => {
+    if (!chat) return;
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
     setIsChatLoading(true);
     const selectedComponent = analysis?.components.find(c => c.designator === selectedId) || undefined;
-    const userMessage: ChatMessage = { role: "user", text: message };
-    setChatHistory(prev => [...prev, userMessage]);
 
     try {
       const response: GenerateContentResponse = await sendMessage(chat, message, {
         component: selectedComponent,
         boardVoltage: boardVoltage || undefined,
-      });
+      }, controller.signal);
 
-      const responseText = response.text;
-      let jumper: JumperSuggestion | null = null;
-      const match = responseText.match(JUMPER_JSON_REGEX);
+      const responseText = response.text ?? '';
+      let plan: ReworkPlan | null = null;
+      const match = responseText.match(PLAN_JSON_REGEX);
 
       if (match && match[1]) {
         try {
           const parsed = JSON.parse(match[1]);
-          if (parsed.jumper?.from && parsed.jumper?.to) {
-            jumper = parsed.jumper;
-            setJumperSuggestion(jumper);
+          if (parsed.plan) {
+            plan = parseReworkPlan(parsed.plan, analysis, activeSide);
+          } else if (parsed.jumper?.from && parsed.jumper?.to) {
+            plan = planFromJumper({ from: parsed.jumper.from, to: parsed.jumper.to, side: activeSide });
           }
         } catch (e) {
-          console.error("Failed to parse jumper suggestion from model response.", e);
+          console.error("Failed to parse rework plan from model response.", e);
         }
       }
+      if (plan) {
+        setReworkPlan(plan);
+        setActiveStepId(plan.steps[0].id);
+      }
 
       const modelMessage: ChatMessage = {
         role: "model",
-        text: responseText.replace(JUMPER_JSON_REGEX, '').trim(),
-        jumperSuggestion: jumper || undefined,
+        text: responseText.replace(PLAN_JSON_REGEX, '').trim(),
+        // Jumpers are checked against the nets known when the plan was suggested.
+        reworkPlan: plan ? checkReworkPlan(plan, connectivity) : undefined,
       };
       setChatHistory(prev => [...prev, modelMessage]);
 
     } catch (err) {
+      // A reset drops the conversation, so there is nothing to report.
+      if (chatAbortRef.current !== controller) return;
       const errorMessage: ChatMessage = {
         role: "model",
-        text: "Sorry, I encountered an error. Please try again."
+        text: controller.signal.aborted ? "Request cancelled." : "Sorry, I encountered an error.",
+        failed: true,
       };
       setChatHistory(prev => [...prev, errorMessage]);
-      console.error("Chat error:", err);
+      if (!controller.signal.aborted) console.error("Chat error:", err);
     } finally {
-      setIsChatLoading(false);
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsChatLoading(false);
+      }
     }
   };
+
+  const handleSendMessage = async (message: string) => {
+    if (!chat || isChatLoading) return;
+    setChatHistory(prev => [...prev, { role: "user", text: message }]);
+    await requestChatReply(message);
+  };
+
+  const handleRetryMessage = async (index: number) => {
+    const question = chatHistory[index - 1];
+    if (!chat || isChatLoading || !chatHistory[index]?.failed || question?.role !== 'user') return;
+    // The failed reply never reached the chat session, so the question can simply be asked again.
+    setChatHistory(prev => prev.filter((_, i) => i !== index));
+    await requestChatReply(question.text);
+  };
+
+  const handleCancelChat = () => {
+    chatAbortRef.current?.abort();
+  };
   
+  // The verification report closes out the job; downloading it again keeps the original closing time.
+  const handleCloseOutJob = async () => {
+    if (!verification || !verificationFindings || !visibleAnalysis) return;
+    if (!verification.closedAt && !isRepairVerified(verificationFindings)
+      && !window.confirm("Some findings are still present or new. Close out the job anyway?")) return;
+    const closed = { ...verification, closedAt: verification.closedAt ?? new Date().toISOString() };
+    setIsClosingJob(true);
+    try {
+      await generateVerificationReport(visibleAnalysis, imageFiles, closed, verificationFindings, repairJob);
+      setVerification(closed);
+    } catch (err) {
+      console.error("Failed to generate verification report:", err);
+      setError("Could not generate the verification report.");
+    } finally {
+      setIsClosingJob(false);
+    }
+  };
+
   const handleGenerateReport = async () => {
-    if (!analysis || !imageUrl) return;
+    if (!visibleAnalysis || !imageUrl) return;
     setIsReporting(true);
     setError(null); // Clear previous errors
     try {
-      await generatePdfReport(analysis, chatHistory, boardVoltage);
+      let visuals: ReportVisual[] | undefined;
+      const sides = BOARD_SIDES.filter(side => imageUrls[side]);
+      if (sides.length > 1) {
+        // Render each side in turn so both end up in the report.
+        const previousSide = activeSide;
+        visuals = [];
+        for (const side of sides) {
+          flushSync(() => setActiveSide(side));
+          const canvas = await captureAnalysisView();
+          if (canvas) visuals.push({ title: `Visual Analysis - ${side === 'top' ? 'Top' : 'Bottom'} Side`, canvas });
+        }
+        flushSync(() => setActiveSide(previousSide));
+      }
+      await generatePdfReport(visibleAnalysis, chatHistory, boardVoltage, {
+        visuals,
+        boardDiff,
+        confidenceThresholds: hasActiveThresholds(settings.confidence) ? settings.confidence : undefined,
+        hiddenCount,
+        reworkPlan: checkedPlan,
+        repairJob,
+        repairEstimate,
+      });
     } catch (err) {
       console.error("Failed to generate PDF report:", err);
       if (err instanceof Error && err.message === 'SCREENSHOT_FAILED') {
@@ -178,6 +778,31 @@ const App: React.FC = () => {
               <h1 className="text-xl font-semibold text-white">PCB Fault Guru</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <button
+                onClick={() => setIsHistoryOpen(open => !open)}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 rounded-md transition-colors"
+              >
+                History
+              </button>
+              <button
+                onClick={() => bundleInputRef.current?.click()}
+                disabled={isLoading}
+                title="Open an inspection bundle exported from this app"
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-700 hover:bg-gray-600 disabled:bg-gray-500 disabled:cursor-wait focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 rounded-md transition-colors"
+              >
+                Import Bundle
+              </button>
+              <input
+                ref={bundleInputRef}
+                type="file"
+                className="sr-only"
+                accept=".zip,application/zip"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImportBundle(file);
+                }}
+              />
               {analysis && (
                  <div className="flex items-center space-x-2">
                     <label htmlFor="board-voltage" className="text-sm font-medium text-gray-300">Board Voltage:</label>
@@ -203,14 +828,88 @@ const App: React.FC = () => {
                     <span>{isReporting ? 'Generating...' : 'Generate Report'}</span>
                   </button>
                   <button
-                    onClick={downloadBOM}
+                    onClick={() => setIsBomExportOpen(true)}
                     className="px-4 py-2 text-sm font-medium text-white bg-brand-primary hover:bg-brand-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-brand-primary rounded-md transition-colors"
                   >
                     Download BOM
                   </button>
+                  <button
+                    onClick={() => sideInputRef.current?.click()}
+                    disabled={isLoading}
+                    title="Analyze the other side of the board as part of this inspection"
+                    className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 disabled:bg-gray-500 disabled:cursor-wait focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 rounded-md transition-colors"
+                  >
+                    {imageUrls.bottom ? 'Replace Bottom Side' : 'Add Bottom Side'}
+                  </button>
+                  <input
+                    ref={sideInputRef}
+                    type="file"
+                    className="sr-only"
+                    accept="image/png, image/jpeg"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) setPendingUpload({ file, side: 'bottom' });
+                    }}
+                  />
+                  <button
+                    onClick={() => verifyInputRef.current?.click()}
+                    disabled={isLoading}
+                    title={`Photograph the repaired ${activeSide} side and check which findings are resolved`}
+                    className="px-4 py-2 text-sm font-medium text-white bg-teal-700 hover:bg-teal-600 disabled:bg-gray-500 disabled:cursor-wait focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500 rounded-md transition-colors"
+                  >
+                    Verify Repair
+                  </button>
+                  <input
+                    ref={verifyInputRef}
+                    type="file"
+                    className="sr-only"
+                    accept="image/png, image/jpeg"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) setPendingUpload({ file, side: activeSide, verify: true });
+                    }}
+                  />
+                  <button
+                    onClick={() => setIsThermalOpen(true)}
+                    title="Measure component temperatures from a radiometric thermal capture"
+                    className="px-4 py-2 text-sm font-medium text-white bg-red-700 hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-500 rounded-md transition-colors"
+                  >
+                    Import Thermal
+                  </button>
+                  <button
+                    onClick={() => setIsDatasheetsOpen(true)}
+                    title="Keep datasheet PDFs locally and read part ratings from them"
+                    className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 rounded-md transition-colors"
+                  >
+                    Datasheets{datasheetVoltages.length > 0 ? ` (${datasheetVoltages.length})` : ''}
+                  </button>
+                  <button
+                    onClick={handleSetGolden}
+                    disabled={isGoldenSession}
+                    title="Use this board as the known-good reference for future comparisons"
+                    className="px-4 py-2 text-sm font-medium text-white bg-cyan-700 hover:bg-cyan-600 disabled:bg-gray-500 disabled:cursor-default focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 rounded-md transition-colors"
+                  >
+                    {isGoldenSession ? 'Golden Reference' : 'Set as Golden'}
+                  </button>
+                  <button
+                    onClick={handleSaveFixture}
+                    title="Save this analysis as a replay fixture for offline use"
+                    className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 rounded-md transition-colors"
+                  >
+                    Save Fixture
+                  </button>
+                  <button
+                    onClick={handleExportBundle}
+                    title="Download the whole session as a single file that can be imported again"
+                    className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 rounded-md transition-colors"
+                  >
+                    Export Bundle
+                  </button>
                 </>
               )}
-              {(imageUrl || isLoading) && (
+              {(imageUrl || isLoading || pendingUpload) && (
                 <button
                   onClick={handleReset}
                   className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 rounded-md transition-colors"
@@ -224,58 +923,256 @@ const App: React.FC = () => {
       </header>
       
       <main className="flex-grow container mx-auto p-4 sm:p-6 lg:p-8">
-        {!imageUrl && <ImageUploader onImageUpload={handleImageUpload} />}
-        
-        {isLoading && (
-            <div className="flex flex-col items-center justify-center h-full min-h-[60vh]">
-                <SpinnerIcon className="h-12 w-12 text-brand-primary" />
-                <p className="mt-4 text-lg text-gray-400">The Guru is inspecting the PCB...</p>
-                <p className="text-sm text-gray-500">This may take a moment.</p>
-            </div>
+        {pendingUpload && (
+          <ImagePreprocessor
+            key={`${pendingUpload.verify ? 'verify-' : ''}${pendingUpload.side}-${pendingUpload.file.name}-${pendingUpload.file.lastModified}`}
+            file={pendingUpload.file}
+            title={pendingUpload.verify
+              ? `Prepare Repaired ${pendingUpload.side === 'top' ? 'Top' : 'Bottom'} Side Image`
+              : pendingUpload.side === 'top' ? 'Prepare Image' : 'Prepare Bottom Side Image'}
+            onConfirm={handlePreprocessed}
+            onCancel={() => setPendingUpload(null)}
+          />
         )}
 
+        {!imageUrl && !pendingUpload && (
+          <>
+            <ProviderSelector provider={provider} onProviderChange={setProvider} tiling={tiling} onTilingChange={setTiling} ensemble={ensemble} onEnsembleChange={setEnsemble} />
+            {goldenReference && <GoldenReferenceBanner reference={goldenReference} onClear={handleClearGolden} />}
+            <ImageUploader onImageUpload={(file) => setPendingUpload({ file, side: 'top' })} />
+          </>
+        )}
+        
+        {isLoading && <AnalysisProgressView progress={progress} onCancel={handleCancelAnalysis} />}
+
         {error && (
             <div className="flex flex-col items-center justify-center h-full min-h-[60vh] text-center">
                 <p className="text-lg text-red-400">{error}</p>
+                {errorDetails.length > 0 && (
+                  <ul className="mt-3 max-w-xl text-left text-sm text-gray-400 space-y-1">
+                    {errorDetails.map((issue, index) => (
+                      <li key={index}><span className="font-mono text-gray-300">{issue.path}</span>: {issue.message}</li>
+                    ))}
+                  </ul>
+                )}
                  <button
-                  onClick={handleReset}
+                  onClick={analysis ? () => { setError(null); setErrorDetails([]); } : handleReset}
                   className="mt-4 px-4 py-2 text-sm font-medium text-white bg-brand-primary hover:bg-brand-primary/90 rounded-md transition-colors"
                 >
-                  Try Again
+                  {analysis ? 'Dismiss' : 'Try Again'}
                 </button>
             </div>
         )}
         
-        {analysis && imageUrl && (
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 h-full">
-            <div className="lg:col-span-2">
-              <AnalysisViewer 
-                imageUrl={imageUrl} 
-                analysis={analysis} 
-                hoveredId={hoveredId}
-                setHoveredId={setHoveredId}
-                selectedId={selectedId}
-                setSelectedId={setSelectedId}
-                boardVoltage={boardVoltage}
-                jumperSuggestion={jumperSuggestion}
-              />
-            </div>
-            <div className="lg:col-span-1">
-              <ResultsPanel 
-                analysis={analysis}
-                hoveredId={hoveredId}
-                setHoveredId={setHoveredId}
-                selectedId={selectedId}
-                setSelectedId={setSelectedId}
-                boardVoltage={boardVoltage}
-                chatHistory={chatHistory}
-                isChatLoading={isChatLoading}
-                onSendMessage={handleSendMessage}
-              />
+        {analysis && visibleAnalysis && imageUrl && !isLoading && !pendingUpload && (
+          <>
+            <ProjectBar
+              projects={projects}
+              projectId={projectId}
+              serial={serial}
+              onProjectChange={handleProjectChange}
+              onSerialChange={setSerial}
+              onCreateProject={handleCreateProject}
+              onShowTimeline={() => setIsTimelineOpen(true)}
+            />
+            <ConfidenceControls
+              thresholds={settings.confidence}
+              onChange={(confidence) => setSettings(prev => ({ ...prev, confidence }))}
+              detectedDefectTypes={detectedDefectTypes}
+              hiddenCount={hiddenCount}
+            />
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 h-full">
+              <div className="lg:col-span-2">
+                <AnalysisViewer 
+                  imageUrls={imageUrls} 
+                  activeSide={activeSide}
+                  onSideChange={setActiveSide}
+                  analysis={visibleAnalysis} 
+                  hoveredId={hoveredId}
+                  setHoveredId={setHoveredId}
+                  selectedId={selectedId}
+                  setSelectedId={handleSelectItem}
+                  boardVoltage={boardVoltage}
+                  rework={checkedPlan && checkedPlan.steps.length > 0 ? {
+                    plan: checkedPlan,
+                    activeStepId,
+                    onActiveStepChange: setActiveStepId,
+                    onDoneChange: handleStepDoneChange,
+                  } : undefined}
+                  boardDiff={boardDiff}
+                  editing={{
+                    isEditing: isEditingAnnotations,
+                    onEditingChange: (isEditing) => { setIsEditingAnnotations(isEditing); setEditError(null); },
+                    onEdit: handleAnnotationEdit,
+                    canUndo: editHistory.past.length > 0,
+                    canRedo: editHistory.future.length > 0,
+                    onUndo: handleUndo,
+                    onRedo: handleRedo,
+                    error: editError,
+                  }}
+                  pads={{
+                    connectivity,
+                    placement: padPlacement,
+                    onPlace: handlePlacePad,
+                    onRemove: (padId) => setConnectivity(prev => removePad(prev, padId)),
+                  }}
+                  expectedParts={showPlacement ? placementMatches : undefined}
+                />
+                <ReworkPlanPanel
+                  plan={checkedPlan}
+                  activeStepId={activeStepId}
+                  onActiveStepChange={setActiveStepId}
+                  onDoneChange={handleStepDoneChange}
+                  onDraft={handleDraftPlan}
+                  onClear={() => { setReworkPlan(null); setActiveStepId(null); }}
+                />
+                <NetsPanel
+                  connectivity={connectivity}
+                  onChange={setConnectivity}
+                  placement={padPlacement}
+                  onPlacementChange={setPadPlacement}
+                />
+                <PlacementPanel
+                  placement={placement}
+                  matches={placementMatches}
+                  unexpectedCount={placement ? findUnexpected(placementMatches, visibleAnalysis, photographedSides).length : 0}
+                  anchorCount={placementAnchors.length}
+                  activeSide={activeSide}
+                  sides={photographedSides}
+                  isShown={showPlacement}
+                  onShownChange={setShowPlacement}
+                  onOpenImport={() => setIsPlacementOpen(true)}
+                  onApplyDesignators={() => handleAnnotationEdit({ type: 'anchorDesignators', anchors: placementAnchors })}
+                  onRemove={() => { if (window.confirm("Remove the board layout from this inspection?")) setPlacement(null); }}
+                />
+              </div>
+              <div className="lg:col-span-1">
+                <ResultsPanel 
+                  analysis={visibleAnalysis}
+                  hoveredId={hoveredId}
+                  setHoveredId={setHoveredId}
+                  selectedId={selectedId}
+                  setSelectedId={handleSelectItem}
+                  boardVoltage={boardVoltage}
+                  warnings={warnings}
+                  boardDiff={boardDiff}
+                  chatHistory={chatHistory}
+                  isChatLoading={isChatLoading}
+                  onSendMessage={handleSendMessage}
+                  onRetryMessage={handleRetryMessage}
+                  onCancelMessage={handleCancelChat}
+                  repairJob={repairJob}
+                  onRepairJobChange={setRepairJob}
+                  verification={verification && verificationFindings ? {
+                    verification,
+                    findings: verificationFindings,
+                    beforeImageUrls: imageUrls,
+                    isClosing: isClosingJob,
+                    onCloseOut: handleCloseOutJob,
+                  } : null}
+                  onTriage={(kind, id, triage) => handleAnnotationEdit({ type: 'triage', kind, id, triage })}
+                  bom={{
+                    expected: expectedBom,
+                    check: bomCheck,
+                    onImport: () => setIsBomImportOpen(true),
+                    onRemove: () => { if (window.confirm("Remove the expected BOM from this inspection?")) setExpectedBom(null); },
+                    onDownloadReport: () => expectedBom && bomCheck && downloadBomReport(expectedBom, bomCheck),
+                  }}
+                  estimate={{
+                    estimate: repairEstimate,
+                    prices: catalogPrices,
+                    settings: settings.estimate,
+                    catalogSize: catalogCount,
+                    onSettingsChange: (estimate) => setSettings(prev => ({ ...prev, estimate })),
+                    onImportCatalog: async (file) => {
+                      await importCatalog(file);
+                      setCatalogVersion(v => v + 1);
+                    },
+                    onClearCatalog: () => {
+                      clearCatalog();
+                      setCatalogVersion(v => v + 1);
+                    },
+                  }}
+                />
+              </div>
             </div>
-          </div>
+          </>
         )}
       </main>
+
+      {isHistoryOpen && (
+        <HistorySidebar
+          currentId={inspectionId}
+          projects={projects}
+          refreshKey={historyRefreshKey}
+          onOpen={handleOpenInspection}
+          onDeleted={handleInspectionDeleted}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isTimelineOpen && selectedProject && serial.trim() && (
+        <UnitTimelineDialog
+          project={selectedProject}
+          serial={serial}
+          currentId={inspectionId}
+          refreshKey={historyRefreshKey}
+          onOpen={handleOpenInspection}
+          onClose={() => setIsTimelineOpen(false)}
+        />
+      )}
+
+      {isPlacementOpen && imageUrls[activeSide] && (
+        <PlacementImportDialog
+          placement={placement}
+          photoUrl={imageUrls[activeSide]!}
+          side={activeSide}
+          onApply={(next) => { setPlacement(next); setShowPlacement(true); setIsPlacementOpen(false); }}
+          onClose={() => setIsPlacementOpen(false)}
+        />
+      )}
+
+      {isBomExportOpen && visibleAnalysis && imageFiles.top && (
+        <BomExportDialog
+          analysis={visibleAnalysis}
+          metadata={{
+            inspection: defaultInspectionName(imageFiles.top),
+            project: selectedProject ? formatProject(selectedProject) : undefined,
+            serial: serial.trim() || undefined,
+            boardVoltage,
+            sides: photographedSides,
+          }}
+          onClose={() => setIsBomExportOpen(false)}
+        />
+      )}
+
+      {isDatasheetsOpen && (
+        <DatasheetLibraryDialog
+          library={datasheets}
+          knownMpns={boardMpns}
+          updateCount={datasheetVoltages.length}
+          onLibraryChange={setDatasheets}
+          onApplyRatings={() => handleAnnotationEdit({ type: 'datasheetVoltages', voltages: datasheetVoltages })}
+          onClose={() => setIsDatasheetsOpen(false)}
+        />
+      )}
+
+      {isBomImportOpen && (
+        <BomImportDialog
+          onImport={(bom) => { setExpectedBom(bom); setIsBomImportOpen(false); }}
+          onClose={() => setIsBomImportOpen(false)}
+        />
+      )}
+
+      {isThermalOpen && analysis && imageUrls[activeSide] && (
+        <ThermalImportDialog
+          analysis={analysis}
+          photoUrl={imageUrls[activeSide]!}
+          side={activeSide}
+          onApply={handleThermalApply}
+          onClose={() => setIsThermalOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import React from 'react';
+import { AnalysisProgress, AnalysisStage } from '../services/analysisProvider';
+import { SpinnerIcon, CheckCircleIcon } from './icons';
+
+interface AnalysisProgressViewProps {
+  progress: AnalysisProgress | null;
+  onCancel: () => void;
+}
+
+const STAGES: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'preparing', label: 'Preparing image' },
+  { stage: 'uploading', label: 'Uploading to the model' },
+  { stage: 'waiting', label: 'Waiting for the model' },
+  { stage: 'validating', label: 'Validating results' },
+];
+
+const AnalysisProgressView: React.FC<AnalysisProgressViewProps> = ({ progress, onCancel }) => {
+  const currentIndex = progress ? STAGES.findIndex(s => s.stage === progress.stage) : 0;
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full min-h-[60vh]">
+      <SpinnerIcon className="h-12 w-12 text-brand-primary" />
+      <p className="mt-4 text-lg text-gray-400">The Guru is inspecting the PCB...</p>
+      {progress?.detail && <p className="text-sm text-gray-500">{progress.detail}</p>}
+      <ol className="mt-6 space-y-2 text-sm">
+        {STAGES.map(({ stage, label }, index) => (
+          <li key={stage} className={`flex items-center space-x-2 ${index < currentIndex ? 'text-gray-400' : index === currentIndex ? 'text-white font-medium' : 'text-gray-600'}`}>
+            {index < currentIndex
+              ? <CheckCircleIcon className="h-4 w-4 text-status-ok" />
+              : index === currentIndex
+                ? <SpinnerIcon className="h-4 w-4 text-brand-primary" />
+                : <span className="h-4 w-4 rounded-full border border-gray-600" />}
+            <span>{label}</span>
+          </li>
+        ))}
+      </ol>
+      <button
+        onClick={onCancel}
+        className="mt-6 px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default AnalysisProgressView;
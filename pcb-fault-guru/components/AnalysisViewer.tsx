@@ -1,20 +1,138 @@
 import React from 'react';
-import { useState, useRef, useEffect } from 'react';
-import { PcbAnalysis, BoundingBox, Presence, Condition, DefectType, JumperSuggestion } from '../types';
+import { useState, useMemo, useRef, useEffect } from 'react';
+import { PcbAnalysis, BoundingBox, Presence, Condition, DefectType, BoardSide, BoardDiff, Connectivity, PadLocation } from '../types';
+import { BOARD_SIDES, filterAnalysisBySide, mirrorAnalysis, mirrorMarker, getSide } from '../services/analysisMerge';
+import { mirrorBBox } from '../services/bboxUtils';
+import { countDiffFindings } from '../services/goldenService';
+import { isUnstable } from '../services/ensembleProvider';
+import { AnnotationEdit, MIN_BOX_SIZE, isHumanEdited } from '../services/annotationEdits';
+import { getComponentClass, getClassInfo, countByClass } from '../services/componentClass';
+import { findNearestPad, getNetColor } from '../services/connectivity';
+import type { PlacementMatch } from '../services/placementService';
 import InfoPopover from './InfoPopover';
-import { ExclamationTriangleIcon, BoltIcon, FireIcon, CheckCircleIcon, WrenchIcon } from './icons';
+import { ReworkView, PlacedMarker, ReworkLayer, StepNavigator } from './ReworkOverlay';
+import { ExclamationTriangleIcon, BoltIcon, FireIcon, CheckCircleIcon, WrenchIcon, LinkIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, PencilSquareIcon } from './icons';
 
 interface AnalysisViewerProps {
-  imageUrl: string;
+  imageUrls: Partial<Record<BoardSide, string>>;
+  activeSide: BoardSide;
+  onSideChange: (side: BoardSide) => void;
   analysis: PcbAnalysis;
   hoveredId: string | null;
   setHoveredId: (id: string | null) => void;
   selectedId: string | null;
   setSelectedId: (id: string | null) => void;
   boardVoltage: number | null;
-  jumperSuggestion: JumperSuggestion | null;
+  rework?: ReworkView; // omitted when there is no rework plan
+  boardDiff: BoardDiff | null;
+  editing?: AnnotationEditing; // omitted where the analysis is read-only
+  pads?: PadLayer; // omitted where nets are not shown
+  expectedParts?: PlacementMatch[]; // where the board layout puts each part; omitted when it is hidden
 }
 
+export interface AnnotationEditing {
+  isEditing: boolean;
+  onEditingChange: (isEditing: boolean) => void;
+  onEdit: (edit: AnnotationEdit) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  error: string | null;
+}
+
+export interface PadPlacement {
+  netId: string;
+  padId?: string; // a netlist pin to place or move; without it, clicks add new pads to the net
+}
+
+// While a pad is being placed, clicks on the photo place it instead of selecting boxes.
+export interface PadLayer {
+  connectivity: Connectivity;
+  placement: PadPlacement | null;
+  onPlace: (location: PadLocation) => void;
+  onRemove: (padId: string) => void;
+}
+
+// Clicking this close to a pad of the net being drawn removes it.
+const PAD_HIT_RADIUS = 0.012;
+
+type EditTool = 'select' | 'component' | 'defect';
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// A drag in progress, in the coordinates of the image as displayed (mirrored or not).
+type Interaction =
+  | { mode: 'move'; kind: 'component' | 'defect'; id: string; start: Point; origin: BoundingBox; bbox: BoundingBox }
+  | { mode: 'resize'; kind: 'component' | 'defect'; id: string; corner: Corner; origin: BoundingBox; bbox: BoundingBox }
+  | { mode: 'draw'; kind: 'component' | 'defect'; start: Point; bbox: BoundingBox };
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const boxFromPoints = (a: Point, b: Point): BoundingBox => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  w: Math.abs(a.x - b.x),
+  h: Math.abs(a.y - b.y),
+});
+
+const movedBox = (origin: BoundingBox, start: Point, p: Point): BoundingBox => ({
+  ...origin,
+  x: Math.min(1 - origin.w, Math.max(0, origin.x + p.x - start.x)),
+  y: Math.min(1 - origin.h, Math.max(0, origin.y + p.y - start.y)),
+});
+
+// The corner being dragged follows the pointer; the opposite corner stays put.
+const resizedBox = (origin: BoundingBox, corner: Corner, p: Point): BoundingBox => boxFromPoints(
+  { x: corner.includes('w') ? origin.x + origin.w : origin.x, y: corner.startsWith('n') ? origin.y + origin.h : origin.y },
+  p
+);
+
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+
+const CORNER_CLASSES: Record<Corner, string> = {
+  nw: '-left-1.5 -top-1.5 cursor-nwse-resize',
+  ne: '-right-1.5 -top-1.5 cursor-nesw-resize',
+  sw: '-left-1.5 -bottom-1.5 cursor-nesw-resize',
+  se: '-right-1.5 -bottom-1.5 cursor-nwse-resize',
+};
+
+type OverlayMode = 'analysis' | 'diff';
+
+type ColorMode = 'status' | 'class';
+
+type DiffKind = 'missing' | 'extra' | 'mpn' | 'condition' | 'defect';
+
+interface DiffMarker {
+  key: string;
+  kind: DiffKind;
+  bbox: BoundingBox;
+  side?: BoardSide;
+  label: string;
+  selectId?: string; // set when the item exists on the suspect board and can be selected
+}
+
+const DIFF_STYLES: Record<DiffKind, { border: string; legend: string; text: string }> = {
+  missing: { border: 'border-red-500', legend: 'bg-red-500', text: 'Missing vs. Reference' },
+  extra: { border: 'border-cyan-400', legend: 'bg-cyan-400', text: 'Extra Component' },
+  mpn: { border: 'border-yellow-400', legend: 'bg-yellow-400', text: 'MPN Changed' },
+  condition: { border: 'border-orange-500', legend: 'bg-orange-500', text: 'Condition Changed' },
+  defect: { border: 'border-status-defect', legend: 'bg-purple-500', text: 'New Defect' },
+};
+
+const buildDiffMarkers = (diff: BoardDiff): DiffMarker[] => [
+  ...diff.missing.map(c => ({ key: `missing-${c.side ?? 'top'}-${c.designator}`, kind: 'missing' as const, bbox: c.bbox, side: c.side, label: `${c.designator} missing` })),
+  ...diff.extra.map(c => ({ key: `extra-${c.side ?? 'top'}-${c.designator}`, kind: 'extra' as const, bbox: c.bbox, side: c.side, label: `${c.designator} extra`, selectId: c.designator })),
+  ...diff.mpnChanged.map(ch => ({ key: `mpn-${ch.suspect.side ?? 'top'}-${ch.suspect.designator}`, kind: 'mpn' as const, bbox: ch.suspect.bbox, side: ch.suspect.side, label: `${ch.suspect.designator}: ${ch.reference.mpn} → ${ch.suspect.mpn}`, selectId: ch.suspect.designator })),
+  ...diff.conditionChanged.map(ch => ({ key: `condition-${ch.suspect.side ?? 'top'}-${ch.suspect.designator}`, kind: 'condition' as const, bbox: ch.suspect.bbox, side: ch.suspect.side, label: `${ch.suspect.designator} changed`, selectId: ch.suspect.designator })),
+  ...diff.newDefects.map(d => ({ key: `defect-${d.id}`, kind: 'defect' as const, bbox: d.bbox, side: d.side, label: d.type.replace(/_/g, ' '), selectId: d.id })),
+];
+
 const getBoxStyle = (presence: Presence, condition: Condition) => {
   if (condition === 'burnt') return 'border-status-error';
   if (presence === 'missing') return 'border-status-warn';
@@ -40,12 +158,21 @@ const BoundingBoxOverlay: React.FC<{
   isHovered: boolean;
   isSelected: boolean;
   showVoltageWarning: boolean;
+  isLinked?: boolean;
+  isDashed?: boolean;
+  isEdited?: boolean;
+  color?: string; // overrides borderColor, e.g. a component class color
+  label?: string;
   onMouseEnter: () => void;
   onMouseLeave: () => void;
   onClick: () => void;
-}> = ({ id, bbox, borderColor, isHovered, isSelected, showVoltageWarning, onMouseEnter, onMouseLeave, onClick }) => {
+  // Edit mode: the box is dragged instead of clicked, and the selected box gets resize handles.
+  onPointerDown?: (e: React.PointerEvent) => void;
+  onHandlePointerDown?: (corner: Corner, e: React.PointerEvent) => void;
+}> = ({ id, bbox, borderColor, isHovered, isSelected, showVoltageWarning, isLinked = false, isDashed = false, isEdited = false, color, label, onMouseEnter, onMouseLeave, onClick, onPointerDown, onHandlePointerDown }) => {
 
   const isActive = isHovered || isSelected;
+  const isEditable = !!onPointerDown;
 
   const style: React.CSSProperties = {
     position: 'absolute',
@@ -54,9 +181,10 @@ const BoundingBoxOverlay: React.FC<{
     width: `${bbox.w * 100}%`,
     height: `${bbox.h * 100}%`,
     borderWidth: isSelected ? '3px' : '2px',
-    boxShadow: isActive ? `0 0 12px ${borderColor.replace('border-','')}`: '0 1px 3px rgba(0,0,0,0.5)',
-    transition: 'all 150ms ease-in-out',
-    transform: isSelected ? 'scale(1.05)' : isHovered ? 'scale(1.02)' : 'scale(1)',
+    borderColor: color,
+    boxShadow: isActive ? `0 0 12px ${color ?? borderColor.replace('border-','')}`: '0 1px 3px rgba(0,0,0,0.5)',
+    transition: isEditable ? 'box-shadow 150ms ease-in-out' : 'all 150ms ease-in-out',
+    transform: isEditable ? undefined : isSelected ? 'scale(1.05)' : isHovered ? 'scale(1.02)' : 'scale(1)',
     zIndex: isSelected ? 10 : isHovered ? 5 : 1,
   };
 
@@ -64,37 +192,361 @@ const BoundingBoxOverlay: React.FC<{
     <div
       key={id}
       style={style}
-      className={`border-solid ${borderColor} rounded-sm cursor-pointer`}
+      className={`${isDashed ? 'border-dashed' : 'border-solid'} ${borderColor} rounded-sm ${isEditable ? 'cursor-move' : 'cursor-pointer'}`}
       onMouseEnter={onMouseEnter}
       onMouseLeave={onMouseLeave}
-      onClick={onClick}
+      onClick={isEditable ? undefined : onClick}
+      onPointerDown={onPointerDown}
     >
+      {isEditable && isSelected && onHandlePointerDown && CORNERS.map(corner => (
+        <span
+          key={corner}
+          className={`absolute h-3 w-3 bg-white border border-gray-900 rounded-sm ${CORNER_CLASSES[corner]}`}
+          onPointerDown={(e) => onHandlePointerDown(corner, e)}
+        />
+      ))}
+      {isEdited && (
+        <span className="absolute -bottom-2 -right-2 h-2.5 w-2.5 rounded-full bg-sky-400 ring-1 ring-gray-900" title="Edited by hand" />
+      )}
+      {label && (
+        <span className="absolute left-0 -top-5 whitespace-nowrap px-1 text-[10px] font-medium text-white bg-gray-900/80 rounded">
+          {label}
+        </span>
+      )}
       {showVoltageWarning && (
         <div className="absolute -top-2 -right-2 bg-yellow-400 p-0.5 rounded-full shadow-lg z-10">
           <BoltIcon className="h-4 w-4 text-gray-900" />
         </div>
       )}
+      {isLinked && (
+        <div className="absolute -bottom-2 -left-2 bg-sky-400 p-0.5 rounded-full shadow-lg z-10" title="Through-hole: also on the other side">
+          <LinkIcon className="h-3 w-3 text-gray-900" />
+        </div>
+      )}
     </div>
   );
 };
 
 
-const Legend: React.FC = () => (
+const ColorModeSwitch: React.FC<{ mode: ColorMode; onModeChange: (mode: ColorMode) => void }> = ({ mode, onModeChange }) => (
+  <div className="flex items-center space-x-1">
+    {(['status', 'class'] as const).map(m => (
+      <button
+        key={m}
+        onClick={() => onModeChange(m)}
+        className={`px-2 py-0.5 rounded font-medium transition-colors ${mode === m ? 'bg-brand-primary text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+      >
+        {m === 'status' ? 'Status' : 'Class'}
+      </button>
+    ))}
+  </div>
+);
+
+const ClassLegend: React.FC<{ analysis: PcbAnalysis; onModeChange: (mode: ColorMode) => void }> = ({ analysis, onModeChange }) => (
+  <div className="absolute bottom-4 left-4 bg-gray-900/70 backdrop-blur-md p-3 rounded-lg text-xs text-gray-300 shadow-xl ring-1 ring-white/10 z-10">
+    <div className="flex items-center justify-between space-x-4 mb-2">
+      <h4 className="font-bold text-white">Component Classes</h4>
+      <ColorModeSwitch mode="class" onModeChange={onModeChange} />
+    </div>
+    <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+      {countByClass(analysis.components).map(({ info, count }) => (
+        <div key={info.id} className="flex items-center space-x-2">
+          <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: info.color }} />
+          <span>{info.label} ({count})</span>
+        </div>
+      ))}
+      <div className="flex items-center space-x-2"><WrenchIcon className="h-4 w-4 text-status-defect" /><span>Defect</span></div>
+    </div>
+  </div>
+);
+
+const Legend: React.FC<{ showUnstable: boolean; showLayout: boolean; onModeChange: (mode: ColorMode) => void }> = ({ showUnstable, showLayout, onModeChange }) => (
   <div className="absolute bottom-4 left-4 bg-gray-900/70 backdrop-blur-md p-3 rounded-lg text-xs text-gray-300 shadow-xl ring-1 ring-white/10 z-10">
-    <h4 className="font-bold text-white mb-2">Legend</h4>
+    <div className="flex items-center justify-between space-x-4 mb-2">
+      <h4 className="font-bold text-white">Legend</h4>
+      <ColorModeSwitch mode="status" onModeChange={onModeChange} />
+    </div>
     <div className="grid grid-cols-2 gap-x-4 gap-y-2">
       <div className="flex items-center space-x-2"><CheckCircleIcon className="h-4 w-4 text-status-ok" /><span>Component OK</span></div>
       <div className="flex items-center space-x-2"><WrenchIcon className="h-4 w-4 text-status-defect" /><span>Defect</span></div>
       <div className="flex items-center space-x-2"><ExclamationTriangleIcon className="h-4 w-4 text-status-warn" /><span>Component Issue</span></div>
       <div className="flex items-center space-x-2"><BoltIcon className="h-4 w-4 text-yellow-400" /><span>Voltage Mismatch</span></div>
       <div className="flex items-center space-x-2"><FireIcon className="h-4 w-4 text-red-500" /><span>Thermal Hotspot</span></div>
-      <div className="flex items-center space-x-2"><div className="w-4 h-0.5 bg-blue-400"/><span>Jumper Suggestion</span></div>
+      <div className="flex items-center space-x-2"><div className="w-4 h-3 border-2 border-dashed border-amber-400 rounded-sm"/><span>Rework Step</span></div>
+      <div className="flex items-center space-x-2"><div className="w-4 h-0.5 bg-red-500"/><span>Jumper Shorts Nets</span></div>
+      <div className="flex items-center space-x-2"><LinkIcon className="h-4 w-4 text-sky-400" /><span>Through-Hole</span></div>
+      {showUnstable && <div className="flex items-center space-x-2"><div className="w-4 h-3 border-2 border-dashed border-gray-300 rounded-sm"/><span>Unstable Finding</span></div>}
+      <div className="flex items-center space-x-2"><div className="w-2.5 h-2.5 mx-0.5 rounded-full bg-sky-400"/><span>Edited by Hand</span></div>
+      {showLayout && (
+        <>
+          <div className="flex items-center space-x-2"><div className="w-2 h-2 mx-1 rounded-full bg-emerald-300 ring-1 ring-gray-900"/><span>Expected Part</span></div>
+          <div className="flex items-center space-x-2"><div className="w-3 h-3 mx-0.5 rounded-full border-2 border-dashed border-red-500"/><span>Likely Missing</span></div>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+
+const DiffLegend: React.FC = () => (
+  <div className="absolute bottom-4 left-4 bg-gray-900/70 backdrop-blur-md p-3 rounded-lg text-xs text-gray-300 shadow-xl ring-1 ring-white/10 z-10">
+    <h4 className="font-bold text-white mb-2">Golden Diff</h4>
+    <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+      {(Object.keys(DIFF_STYLES) as DiffKind[]).map(kind => (
+        <div key={kind} className="flex items-center space-x-2"><div className={`w-3 h-3 rounded-sm ${DIFF_STYLES[kind].legend}`} /><span>{DIFF_STYLES[kind].text}</span></div>
+      ))}
+    </div>
+  </div>
+);
+
+const OverlayModeControls: React.FC<{ mode: OverlayMode; onModeChange: (mode: OverlayMode) => void; diffCount: number }> = ({ mode, onModeChange, diffCount }) => (
+  <div className="absolute top-4 left-4 bg-gray-900/70 backdrop-blur-md p-1 rounded-lg shadow-xl ring-1 ring-white/10 z-10 flex items-center space-x-1 text-xs">
+    <button
+      onClick={() => onModeChange('analysis')}
+      className={`px-3 py-1 font-medium rounded-md transition-colors ${mode === 'analysis' ? 'bg-brand-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+    >
+      Analysis
+    </button>
+    <button
+      onClick={() => onModeChange('diff')}
+      className={`px-3 py-1 font-medium rounded-md transition-colors ${mode === 'diff' ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+    >
+      Golden Diff ({diffCount})
+    </button>
+  </div>
+);
+
+const SideControls: React.FC<{
+  imageUrls: Partial<Record<BoardSide, string>>;
+  activeSide: BoardSide;
+  onSideChange: (side: BoardSide) => void;
+  isMirrored: boolean;
+  onMirrorChange: (mirrored: boolean) => void;
+}> = ({ imageUrls, activeSide, onSideChange, isMirrored, onMirrorChange }) => (
+  <div className="absolute top-4 right-4 bg-gray-900/70 backdrop-blur-md p-1 rounded-lg shadow-xl ring-1 ring-white/10 z-10 flex items-center space-x-1 text-xs">
+    {BOARD_SIDES.filter(side => imageUrls[side]).map(side => (
+      <button
+        key={side}
+        onClick={() => onSideChange(side)}
+        className={`px-3 py-1 font-medium rounded-md transition-colors ${activeSide === side ? 'bg-brand-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+      >
+        {side === 'top' ? 'Top' : 'Bottom'}
+      </button>
+    ))}
+    {activeSide === 'bottom' && (
+      <label className="flex items-center space-x-1 px-2 text-gray-300 cursor-pointer" title="Mirror the bottom image so it lines up with the top view">
+        <input
+          type="checkbox"
+          checked={isMirrored}
+          onChange={(e) => onMirrorChange(e.target.checked)}
+          className="rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+        />
+        <span>Flip</span>
+      </label>
+    )}
+  </div>
+);
+
+const toolButtonClass = (active: boolean) =>
+  `px-3 py-1 font-medium rounded-md transition-colors ${active ? 'bg-brand-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`;
+
+const EditToolbar: React.FC<{ editing: AnnotationEditing; tool: EditTool; onToolChange: (tool: EditTool) => void }> = ({ editing, tool, onToolChange }) => (
+  <div className="absolute bottom-4 right-4 z-10 flex flex-col items-end space-y-1">
+    {editing.error && <p className="px-2 py-1 rounded bg-red-900/80 text-xs text-red-200">{editing.error}</p>}
+    <div className="bg-gray-900/70 backdrop-blur-md p-1 rounded-lg shadow-xl ring-1 ring-white/10 flex items-center space-x-1 text-xs">
+      {editing.isEditing ? (
+        <>
+          <button onClick={() => onToolChange('select')} className={toolButtonClass(tool === 'select')} title="Select, move and resize boxes">Select</button>
+          <button onClick={() => onToolChange('component')} className={toolButtonClass(tool === 'component')} title="Drag on the image to add a component">+ Component</button>
+          <button onClick={() => onToolChange('defect')} className={toolButtonClass(tool === 'defect')} title="Drag on the image to add a defect">+ Defect</button>
+          <button onClick={editing.onUndo} disabled={!editing.canUndo} className="p-1 text-gray-300 hover:text-white disabled:opacity-30" title="Undo (Ctrl+Z)">
+            <ArrowUturnLeftIcon className="h-4 w-4" />
+          </button>
+          <button onClick={editing.onRedo} disabled={!editing.canRedo} className="p-1 text-gray-300 hover:text-white disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">
+            <ArrowUturnRightIcon className="h-4 w-4" />
+          </button>
+          <button onClick={() => editing.onEditingChange(false)} className="px-3 py-1 font-medium rounded-md bg-gray-600 hover:bg-gray-500 text-white transition-colors">Done</button>
+        </>
+      ) : (
+        <button onClick={() => editing.onEditingChange(true)} className="flex items-center space-x-1 px-3 py-1 font-medium rounded-md text-gray-300 hover:bg-gray-700 transition-colors" title="Correct, add or delete boxes">
+          <PencilSquareIcon className="h-4 w-4" />
+          <span>Edit</span>
+        </button>
+      )}
     </div>
   </div>
 );
 
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const AnalysisViewer: React.FC<AnalysisViewerProps> = ({ imageUrls, activeSide, onSideChange, analysis: fullAnalysis, hoveredId, setHoveredId, selectedId, setSelectedId, boardVoltage, rework, boardDiff, editing, pads, expectedParts }) => {
+  const [mirrorBottom, setMirrorBottom] = useState<boolean>(false);
+  const [overlayMode, setOverlayMode] = useState<OverlayMode>('analysis');
+  const [colorMode, setColorMode] = useState<ColorMode>('status');
+  const [tool, setTool] = useState<EditTool>('select');
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+  const isEditing = !!editing?.isEditing;
+  const imageUrl = imageUrls[activeSide] ?? imageUrls.top;
+  const isMirrored = activeSide === 'bottom' && mirrorBottom;
+
+  // Only the side on screen is drawn; a mirrored bottom image needs mirrored boxes too.
+  const analysis = useMemo(() => {
+    const sideAnalysis = filterAnalysisBySide(fullAnalysis, activeSide);
+    return isMirrored ? mirrorAnalysis(sideAnalysis) : sideAnalysis;
+  }, [fullAnalysis, activeSide, isMirrored]);
 
-const AnalysisViewer: React.FC<AnalysisViewerProps> = ({ imageUrl, analysis, hoveredId, setHoveredId, selectedId, setSelectedId, boardVoltage, jumperSuggestion }) => {
+  // One step at a time while stepping through the plan, otherwise everything still to do.
+  const reworkMarkers = useMemo((): PlacedMarker[] => {
+    if (!rework) return [];
+    const { plan, activeStepId } = rework;
+    const steps = activeStepId ? plan.steps.filter(s => s.id === activeStepId) : plan.steps.filter(s => !s.doneAt);
+    return steps
+      .filter(step => step.side === activeSide)
+      .flatMap(step => step.markers.map((marker, i) => ({
+        key: `${step.id}-${i}`,
+        step,
+        number: plan.steps.indexOf(step) + 1,
+        marker: isMirrored ? mirrorMarker(marker) : marker,
+        isFirst: i === 0,
+      })));
+  }, [rework, activeSide, isMirrored]);
+
+  const diffMarkers = useMemo(() => {
+    if (!boardDiff) return [];
+    return buildDiffMarkers(boardDiff)
+      .filter(m => getSide(m) === activeSide)
+      .map(m => isMirrored ? { ...m, bbox: mirrorBBox(m.bbox) } : m);
+  }, [boardDiff, activeSide, isMirrored]);
+  const showDiff = overlayMode === 'diff' && boardDiff !== null && !isEditing;
+  const isPlacingPad = !!pads?.placement && !isEditing;
+
+  const visiblePads = useMemo(() => {
+    if (!pads) return [];
+    const netsById = new Map(pads.connectivity.nets.map(n => [n.id, n]));
+    return pads.connectivity.pads.flatMap(pad => {
+      const net = netsById.get(pad.netId);
+      if (!pad.location || pad.location.side !== activeSide || !net) return [];
+      const { x, y } = pad.location;
+      return [{ pad, net, color: getNetColor(pads.connectivity, net), x: isMirrored ? 1 - x : x, y }];
+    });
+  }, [pads, activeSide, isMirrored]);
+
+  const visibleExpected = useMemo(
+    () => (expectedParts ?? [])
+      .filter(m => m.part.side === activeSide)
+      .map(m => ({ ...m, x: isMirrored ? 1 - m.position.x : m.position.x, y: m.position.y })),
+    [expectedParts, activeSide, isMirrored]
+  );
+
+  // Boxes are edited as displayed; a flipped bottom view is flipped back before saving.
+  const toImageBox = (bbox: BoundingBox) => (isMirrored ? mirrorBBox(bbox) : bbox);
+
+  const pointerPosition = (e: React.PointerEvent): Point => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const startInteraction = (e: React.PointerEvent, next: Interaction) => {
+    e.stopPropagation();
+    layerRef.current?.setPointerCapture(e.pointerId);
+    setInteraction(next);
+  };
+
+  const handleBoxPointerDown = (kind: 'component' | 'defect', id: string, bbox: BoundingBox) => (e: React.PointerEvent) => {
+    if (tool !== 'select' || e.button !== 0) return; // drawing starts on the layer, even over a box
+    setSelectedId(id);
+    startInteraction(e, { mode: 'move', kind, id, start: pointerPosition(e), origin: bbox, bbox });
+  };
+
+  const handleHandlePointerDown = (kind: 'component' | 'defect', id: string, bbox: BoundingBox) => (corner: Corner, e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    startInteraction(e, { mode: 'resize', kind, id, corner, origin: bbox, bbox });
+  };
+
+  const handleLayerPointerDown = (e: React.PointerEvent) => {
+    if (!isEditing || e.button !== 0) return;
+    if (tool === 'select') {
+      setSelectedId(null);
+      return;
+    }
+    const start = pointerPosition(e);
+    startInteraction(e, { mode: 'draw', kind: tool, start, bbox: boxFromPoints(start, start) });
+  };
+
+  const handleLayerPointerMove = (e: React.PointerEvent) => {
+    if (!interaction) return;
+    const p = pointerPosition(e);
+    const bbox = interaction.mode === 'move'
+      ? movedBox(interaction.origin, interaction.start, p)
+      : interaction.mode === 'resize'
+        ? resizedBox(interaction.origin, interaction.corner, p)
+        : boxFromPoints(interaction.start, p);
+    setInteraction({ ...interaction, bbox });
+  };
+
+  const handleLayerPointerUp = () => {
+    if (!interaction || !editing) return;
+    setInteraction(null);
+    const { bbox } = interaction;
+    if (bbox.w < MIN_BOX_SIZE || bbox.h < MIN_BOX_SIZE) return;
+    if (interaction.mode === 'draw') {
+      editing.onEdit({ type: 'add', kind: interaction.kind, side: activeSide, bbox: toImageBox(bbox) });
+      setTool('select');
+    } else if (bbox.x !== interaction.origin.x || bbox.y !== interaction.origin.y || bbox.w !== interaction.origin.w || bbox.h !== interaction.origin.h) {
+      editing.onEdit({ type: 'move', kind: interaction.kind, id: interaction.id, side: activeSide, bbox: toImageBox(bbox) });
+    }
+  };
+
+  useEffect(() => {
+    if (!isEditing) {
+      setTool('select');
+      setInteraction(null);
+    }
+  }, [isEditing]);
+
+  useEffect(() => {
+    if (!isEditing || !editing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) editing.onRedo(); else editing.onUndo();
+      } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+        e.preventDefault();
+        editing.onRedo();
+      } else if ((key === 'delete' || key === 'backspace') && selectedId) {
+        e.preventDefault();
+        // The selection is by name alone; a part wins over a defect with the same id, as in the popover.
+        const kind = analysis.components.some(c => c.designator === selectedId) ? 'component' : 'defect';
+        editing.onEdit({ type: 'delete', kind, id: selectedId, side: activeSide });
+      } else if (key === 'escape') {
+        setTool('select');
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditing, editing, selectedId, activeSide, setSelectedId, analysis]);
+
+  // The box being dragged follows the pointer until it is released.
+  const liveBox = (kind: 'component' | 'defect', id: string, bbox: BoundingBox) =>
+    interaction && interaction.mode !== 'draw' && interaction.kind === kind && interaction.id === id ? interaction.bbox : bbox;
+
+  const handlePlacementClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!pads?.placement) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = clamp01((e.clientX - rect.left) / rect.width);
+    const location: PadLocation = { side: activeSide, x: isMirrored ? 1 - x : x, y: clamp01((e.clientY - rect.top) / rect.height) };
+    const hit = !pads.placement.padId && findNearestPad(pads.connectivity, location, activeSide, PAD_HIT_RADIUS);
+    if (hit && hit.netId === pads.placement.netId) {
+      pads.onRemove(hit.id);
+    } else {
+      pads.onPlace(location);
+    }
+  };
 
   const hasVoltageMismatch = (component: any) => 
     boardVoltage && component.maxVoltage && boardVoltage > component.maxVoltage;
@@ -104,8 +556,9 @@ const AnalysisViewer: React.FC<AnalysisViewerProps> = ({ imageUrl, analysis, hov
       <div className="relative" id="analysis-image-container">
         <img
           src={imageUrl}
-          alt="PCB for Analysis"
+          alt={`PCB for Analysis (${activeSide} side)`}
           className="max-w-full max-h-[80vh] object-contain rounded-md"
+          style={isMirrored ? { transform: 'scaleX(-1)' } : undefined}
         />
         <div className="absolute top-0 left-0 w-full h-full pointer-events-none">
           {/* Thermal Layer */}
@@ -122,65 +575,150 @@ const AnalysisViewer: React.FC<AnalysisViewerProps> = ({ imageUrl, analysis, hov
             />
           ))}
 
-          {/* Jumper Suggestion Layer */}
-          {jumperSuggestion && (
-              <svg className="absolute top-0 left-0 w-full h-full overflow-visible z-20">
-                  <line 
-                    x1={`${jumperSuggestion.from.x * 100}%`}
-                    y1={`${jumperSuggestion.from.y * 100}%`}
-                    x2={`${jumperSuggestion.to.x * 100}%`}
-                    y2={`${jumperSuggestion.to.y * 100}%`}
-                    stroke="#38bdf8"
-                    strokeWidth="3"
-                    strokeDasharray="4"
-                  />
-                  <circle cx={`${jumperSuggestion.from.x * 100}%`} cy={`${jumperSuggestion.from.y * 100}%`} r="5" fill="#38bdf8" />
-                  <circle cx={`${jumperSuggestion.to.x * 100}%`} cy={`${jumperSuggestion.to.y * 100}%`} r="5" fill="#38bdf8" />
-              </svg>
-          )}
+          {/* Rework Plan Layer */}
+          {reworkMarkers.length > 0 && <ReworkLayer markers={reworkMarkers} />}
 
           {/* Bounding Box Layer */}
-          <div className="absolute top-0 left-0 w-full h-full pointer-events-auto">
-            {analysis.components.map((component) => (
+          <div
+            ref={layerRef}
+            className={`absolute top-0 left-0 w-full h-full pointer-events-auto ${isEditing ? 'select-none touch-none' : ''} ${isEditing && tool !== 'select' ? 'cursor-crosshair' : ''}`}
+            onPointerDown={handleLayerPointerDown}
+            onPointerMove={handleLayerPointerMove}
+            onPointerUp={handleLayerPointerUp}
+            onPointerCancel={() => setInteraction(null)}
+          >
+            {showDiff && diffMarkers.map((marker) => (
+              <BoundingBoxOverlay
+                key={marker.key}
+                id={marker.key}
+                bbox={marker.bbox}
+                borderColor={DIFF_STYLES[marker.kind].border}
+                isHovered={!!marker.selectId && hoveredId === marker.selectId}
+                isSelected={!!marker.selectId && selectedId === marker.selectId}
+                showVoltageWarning={false}
+                isDashed={marker.kind === 'missing'}
+                label={marker.label}
+                onMouseEnter={() => marker.selectId && setHoveredId(marker.selectId)}
+                onMouseLeave={() => setHoveredId(null)}
+                onClick={() => marker.selectId && setSelectedId(selectedId === marker.selectId ? null : marker.selectId)}
+              />
+            ))}
+            {!showDiff && analysis.components.map((component) => (
               <BoundingBoxOverlay
                 key={component.designator}
                 id={component.designator}
-                bbox={component.bbox}
+                bbox={liveBox('component', component.designator, component.bbox)}
                 borderColor={getBoxStyle(component.presence, component.condition)}
+                color={colorMode === 'class' ? getClassInfo(getComponentClass(component)).color : undefined}
                 isHovered={hoveredId === component.designator}
                 isSelected={selectedId === component.designator}
                 showVoltageWarning={hasVoltageMismatch(component)}
+                isLinked={component.throughHole}
+                isDashed={isUnstable(component, analysis.ensemble)}
+                isEdited={isHumanEdited(component)}
                 onMouseEnter={() => setHoveredId(component.designator)}
                 onMouseLeave={() => setHoveredId(null)}
                 onClick={() => setSelectedId(selectedId === component.designator ? null : component.designator)}
+                onPointerDown={isEditing ? handleBoxPointerDown('component', component.designator, component.bbox) : undefined}
+                onHandlePointerDown={handleHandlePointerDown('component', component.designator, component.bbox)}
               />
             ))}
-            {analysis.defects.map((defect) => (
+            {!showDiff && analysis.defects.map((defect) => (
               <BoundingBoxOverlay
                   key={defect.id}
                   id={defect.id}
-                  bbox={defect.bbox}
+                  bbox={liveBox('defect', defect.id, defect.bbox)}
                   borderColor={getDefectBoxStyle(defect.type)}
                   isHovered={hoveredId === defect.id}
                   isSelected={selectedId === defect.id}
                   showVoltageWarning={false}
+                  isDashed={isUnstable(defect, analysis.ensemble)}
+                  isEdited={isHumanEdited(defect)}
                   onMouseEnter={() => setHoveredId(defect.id)}
                   onMouseLeave={() => setHoveredId(null)}
                   onClick={() => setSelectedId(selectedId === defect.id ? null : defect.id)}
+                  onPointerDown={isEditing ? handleBoxPointerDown('defect', defect.id, defect.bbox) : undefined}
+                  onHandlePointerDown={handleHandlePointerDown('defect', defect.id, defect.bbox)}
               />
             ))}
-            {selectedId && (
+            {interaction?.mode === 'draw' && (
+              <div
+                className={`absolute border-2 border-dashed rounded-sm pointer-events-none ${interaction.kind === 'component' ? 'border-status-ok' : 'border-status-defect'}`}
+                style={{
+                  left: `${interaction.bbox.x * 100}%`,
+                  top: `${interaction.bbox.y * 100}%`,
+                  width: `${interaction.bbox.w * 100}%`,
+                  height: `${interaction.bbox.h * 100}%`,
+                }}
+              />
+            )}
+            {visiblePads.length > 0 && (
+              <svg className="absolute top-0 left-0 w-full h-full overflow-visible z-20 pointer-events-none">
+                {visiblePads.map(({ pad, net, color, x, y }) => (
+                  <circle
+                    key={pad.id}
+                    cx={`${x * 100}%`}
+                    cy={`${y * 100}%`}
+                    r={pads?.placement?.padId === pad.id ? 6 : 4}
+                    fill={color}
+                    stroke={pads?.placement?.netId === net.id ? '#ffffff' : '#111827'}
+                    strokeWidth="1.5"
+                  />
+                ))}
+              </svg>
+            )}
+            {visibleExpected.length > 0 && !showDiff && (
+              <svg className="absolute top-0 left-0 w-full h-full overflow-visible z-20 pointer-events-none">
+                {visibleExpected.map(({ part, component, x, y }) => component ? (
+                  <circle key={part.designator} cx={`${x * 100}%`} cy={`${y * 100}%`} r="2.5" fill="#6ee7b7" stroke="#111827" strokeWidth="1" />
+                ) : (
+                  <g key={part.designator}>
+                    <circle cx={`${x * 100}%`} cy={`${y * 100}%`} r="7" fill="none" stroke="#ef4444" strokeWidth="2" strokeDasharray="3 2" />
+                    <text x={`${x * 100}%`} y={`${y * 100}%`} dx="9" dy="4" fontSize="10" fontWeight="600" fill="#fecaca" stroke="#111827" strokeWidth="2" paintOrder="stroke">
+                      {part.designator}
+                    </text>
+                  </g>
+                ))}
+              </svg>
+            )}
+            {isPlacingPad && <div className="absolute inset-0 z-30 cursor-crosshair" onClick={handlePlacementClick} />}
+            {selectedId && !interaction && !isPlacingPad && (
               <InfoPopover 
                   analysis={analysis} 
                   selectedId={selectedId}
                   boardVoltage={boardVoltage}
                   onClose={() => setSelectedId(null)} 
+                  onEdit={isEditing ? editing!.onEdit : undefined}
               />
             )}
           </div>
         </div>
       </div>
-      <Legend />
+      {imageUrls.bottom && (
+        <SideControls
+          imageUrls={imageUrls}
+          activeSide={activeSide}
+          onSideChange={onSideChange}
+          isMirrored={mirrorBottom}
+          onMirrorChange={setMirrorBottom}
+        />
+      )}
+      {rework && (
+        <StepNavigator rework={rework} activeSide={activeSide} onSideChange={onSideChange} canShowSide={(side) => !!imageUrls[side]} />
+      )}
+      {editing && <EditToolbar editing={editing} tool={tool} onToolChange={setTool} />}
+      {boardDiff && !isEditing && (
+        <OverlayModeControls
+          mode={overlayMode}
+          onModeChange={setOverlayMode}
+          diffCount={countDiffFindings(boardDiff)}
+        />
+      )}
+      {showDiff
+        ? <DiffLegend />
+        : colorMode === 'class'
+          ? <ClassLegend analysis={analysis} onModeChange={setColorMode} />
+          : <Legend showUnstable={!!analysis.ensemble} showLayout={visibleExpected.length > 0} onModeChange={setColorMode} />}
     </div>
   );
 };
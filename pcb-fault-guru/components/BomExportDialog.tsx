@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { PcbAnalysis } from '../types';
+import { BOM_COLUMNS, BomColumnId, BomFormat, BomLayout, BomMetadata, availableBomColumns, downloadBom } from '../services/bomExport';
+import { XMarkIcon } from './icons';
+
+interface BomExportDialogProps {
+  analysis: PcbAnalysis; // the visible analysis, so hidden low-confidence parts stay out
+  metadata: BomMetadata;
+  onClose: () => void;
+}
+
+const inputClass = "bg-gray-700 text-white px-2 py-1 rounded-md text-sm border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+const FORMAT_LABELS: Record<BomFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+};
+
+const LAYOUT_LABELS: Record<BomLayout, string> = {
+  designator: 'One row per designator',
+  mpn: 'Grouped by MPN',
+};
+
+const BomExportDialog: React.FC<BomExportDialogProps> = ({ analysis, metadata, onClose }) => {
+  const [format, setFormat] = useState<BomFormat>('csv');
+  const [layout, setLayout] = useState<BomLayout>('designator');
+  // Kept across layout changes, so per-part columns come back when switching back.
+  const [columns, setColumns] = useState<BomColumnId[]>(BOM_COLUMNS.map(col => col.id));
+  const [error, setError] = useState<string | null>(null);
+  const available = availableBomColumns(analysis, layout);
+
+  const toggleColumn = (id: BomColumnId, checked: boolean) =>
+    setColumns(prev => (checked ? [...prev, id] : prev.filter(c => c !== id)));
+
+  const handleExport = () => {
+    setError(null);
+    try {
+      downloadBom(analysis, metadata, { format, layout, columns });
+      onClose();
+    } catch (err) {
+      console.error("Failed to export BOM:", err);
+      setError(err instanceof Error ? err.message : "Could not export the BOM.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-gray-800 rounded-lg shadow-2xl ring-1 ring-white/10 p-5 text-sm text-gray-300">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">Download BOM</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="space-y-3">
+          <label className="flex items-center justify-between">
+            <span>Format</span>
+            <select value={format} onChange={(e) => setFormat(e.target.value as BomFormat)} className={inputClass}>
+              {(Object.keys(FORMAT_LABELS) as BomFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between">
+            <span>Layout</span>
+            <select value={layout} onChange={(e) => setLayout(e.target.value as BomLayout)} className={inputClass}>
+              {(Object.keys(LAYOUT_LABELS) as BomLayout[]).map(l => <option key={l} value={l}>{LAYOUT_LABELS[l]}</option>)}
+            </select>
+          </label>
+          <div>
+            <p className="mb-1">Columns</p>
+            <p className="mb-2 text-xs text-gray-500">
+              {layout === 'mpn' ? 'Quantity and designators are always included.' : 'The designator is always included.'}
+            </p>
+            <div className="grid grid-cols-2 gap-1">
+              {available.map(col => (
+                <label key={col.id} className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(col.id)}
+                    onChange={(e) => toggleColumn(col.id, e.target.checked)}
+                    className="rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+                  />
+                  <span>{col.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <p className="mt-4 text-xs text-gray-500">
+          The file starts with the inspection, project, serial and board voltage, and ends with the quantities per class.
+        </p>
+        {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+        <div className="flex justify-end space-x-2 mt-5">
+          <button onClick={onClose} className="px-4 py-2 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleExport} className="px-4 py-2 font-medium text-white bg-brand-primary hover:bg-brand-primary/90 rounded-md transition-colors">
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BomExportDialog;
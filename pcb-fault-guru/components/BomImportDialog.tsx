@@ -0,0 +1,169 @@
+import React, { useState, useMemo } from 'react';
+import { ExpectedBom } from '../types';
+import { BOM_FIELDS, BomColumnMapping, BomSheet, readBomSheets, findHeaderRow, guessMapping, parseBomRows, countBomDesignators } from '../services/bomCheck';
+import { XMarkIcon } from './icons';
+
+interface BomImportDialogProps {
+  onImport: (bom: ExpectedBom) => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-gray-700 text-white px-2 py-1 rounded-md text-sm border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+// Enough rows to recognize the columns without scrolling the dialog.
+const PREVIEW_ROWS = 5;
+
+const BomImportDialog: React.FC<BomImportDialogProps> = ({ onImport, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheets, setSheets] = useState<BomSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<BomColumnMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rows = sheets[sheetIndex]?.rows ?? [];
+
+  // Guesses the header and columns afresh whenever another sheet is chosen.
+  const selectSheet = (all: BomSheet[], index: number) => {
+    const sheetRows = all[index]?.rows ?? [];
+    const header = findHeaderRow(sheetRows);
+    setSheetIndex(index);
+    setHeaderRow(header);
+    setMapping(guessMapping(sheetRows[header] ?? []));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const read = await readBomSheets(file);
+      if (read.every(sheet => sheet.rows.length === 0)) throw new Error('The file is empty.');
+      setSheets(read);
+      setFileName(file.name);
+      selectSheet(read, Math.max(0, read.findIndex(sheet => sheet.rows.length > 0)));
+    } catch (err) {
+      console.error("Failed to read BOM:", err);
+      setSheets([]);
+      setFileName(null);
+      setError(err instanceof Error ? err.message : "Could not read the BOM file.");
+    }
+  };
+
+  const handleHeaderRowChange = (value: string) => {
+    const index = Math.min(Math.max(0, (parseInt(value, 10) || 1) - 1), Math.max(0, rows.length - 1));
+    setHeaderRow(index);
+    setMapping(guessMapping(rows[index] ?? []));
+  };
+
+  const columnCount = useMemo(() => rows.reduce((max, row) => Math.max(max, row.length), 0), [rows]);
+  const columnName = (index: number) => rows[headerRow]?.[index]?.trim() || `Column ${index + 1}`;
+
+  // Parsed on every change, so the line count and errors show before importing.
+  const parsed = useMemo(() => {
+    if (!mapping || !fileName) return null;
+    const source = sheets.length > 1 ? `${fileName} (${sheets[sheetIndex].name})` : fileName;
+    try {
+      return { bom: parseBomRows(rows, headerRow, mapping, source), error: null };
+    } catch (err) {
+      return { bom: null, error: err instanceof Error ? err.message : "The BOM could not be read." };
+    }
+  }, [rows, headerRow, mapping, fileName, sheets, sheetIndex]);
+
+  const mappedFields = mapping ? BOM_FIELDS.filter(f => mapping[f.id] >= 0) : [];
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[95vh] overflow-y-auto bg-gray-800 rounded-lg shadow-2xl ring-1 ring-white/10 p-5 text-sm text-gray-300">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">Import Expected BOM</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="px-3 py-1.5 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md cursor-pointer transition-colors">
+            Choose File
+            <input type="file" accept=".csv,.txt,.xlsx,.xlsm,.xls,.ods" className="sr-only" onChange={handleFile} />
+          </label>
+          <span className="text-gray-400">{fileName ?? 'CSV or spreadsheet with designator, MPN, quantity and value columns'}</span>
+        </div>
+
+        {mapping && (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mt-4">
+              {sheets.length > 1 && (
+                <label className="flex items-center space-x-2">
+                  <span>Sheet</span>
+                  <select value={sheetIndex} onChange={(e) => selectSheet(sheets, parseInt(e.target.value, 10))} className={inputClass}>
+                    {sheets.map((sheet, i) => <option key={sheet.name} value={i}>{sheet.name}</option>)}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center space-x-2">
+                <span>Header row</span>
+                <input type="number" min={1} max={rows.length} value={headerRow + 1} onChange={(e) => handleHeaderRowChange(e.target.value)} className={`w-20 ${inputClass}`} />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              {BOM_FIELDS.map(field => (
+                <label key={field.id} className="flex items-center justify-between space-x-2">
+                  <span>{field.label}</span>
+                  <select
+                    value={mapping[field.id]}
+                    onChange={(e) => setMapping({ ...mapping, [field.id]: parseInt(e.target.value, 10) })}
+                    className={`w-48 ${inputClass}`}
+                  >
+                    <option value={-1}>(none)</option>
+                    {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnName(i)}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            {mappedFields.length > 0 && (
+              <div className="mt-4 overflow-x-auto">
+                <table className="w-full text-xs text-left">
+                  <thead className="text-gray-400">
+                    <tr>{mappedFields.map(f => <th key={f.id} className="px-2 py-1 font-medium">{f.label}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(headerRow + 1, headerRow + 1 + PREVIEW_ROWS).map((row, i) => (
+                      <tr key={i} className="border-t border-gray-700/50">
+                        {mappedFields.map(f => <td key={f.id} className="px-2 py-1 truncate max-w-[12rem]">{row[mapping[f.id]]}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {(error || parsed?.error) && <p className="mt-3 text-xs text-red-400">{error ?? parsed?.error}</p>}
+        {parsed?.bom && (
+          <p className="mt-3 text-xs text-gray-400">
+            {parsed.bom.lines.length} line{parsed.bom.lines.length === 1 ? '' : 's'}, {countBomDesignators(parsed.bom)} designators.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-2 mt-5">
+          <button onClick={onClose} className="px-4 py-2 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => parsed?.bom && onImport(parsed.bom)}
+            disabled={!parsed?.bom}
+            className="px-4 py-2 font-medium text-white bg-brand-primary hover:bg-brand-primary/90 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            Import BOM
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BomImportDialog;
@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { ConfidenceThresholds } from '../types';
+import { COMMON_DEFECT_TYPES } from '../services/confidenceFilter';
+import { ChevronDownIcon } from './icons';
+
+interface ConfidenceControlsProps {
+  thresholds: ConfidenceThresholds;
+  onChange: (thresholds: ConfidenceThresholds) => void;
+  detectedDefectTypes: string[];
+  hiddenCount: number;
+}
+
+const translateDefectType = (type: string): string =>
+  type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const ThresholdSlider: React.FC<{ id: string; value: number; onChange: (value: number) => void; disabled?: boolean }> = ({ id, value, onChange, disabled }) => (
+  <div className="flex items-center space-x-2">
+    <input
+      id={id}
+      type="range"
+      min={0}
+      max={100}
+      step={5}
+      value={Math.round(value * 100)}
+      disabled={disabled}
+      onChange={(e) => onChange(parseInt(e.target.value, 10) / 100)}
+      className="w-32 accent-brand-primary disabled:opacity-40"
+    />
+    <span className={`w-10 text-right tabular-nums ${disabled ? 'text-gray-500' : 'text-gray-200'}`}>{Math.round(value * 100)}%</span>
+  </div>
+);
+
+const ConfidenceControls: React.FC<ConfidenceControlsProps> = ({ thresholds, onChange, detectedDefectTypes, hiddenCount }) => {
+  const defectTypes = useMemo(
+    () => Array.from(new Set([...detectedDefectTypes, ...COMMON_DEFECT_TYPES, ...Object.keys(thresholds.defectTypes)])).sort(),
+    [detectedDefectTypes, thresholds.defectTypes]
+  );
+
+  const setDefectThreshold = (type: string, value: number | undefined) => {
+    const defectTypeThresholds = { ...thresholds.defectTypes };
+    if (value === undefined) {
+      delete defectTypeThresholds[type];
+    } else {
+      defectTypeThresholds[type] = value;
+    }
+    onChange({ ...thresholds, defectTypes: defectTypeThresholds });
+  };
+
+  return (
+    <div className="mb-4 bg-gray-800/50 rounded-lg px-4 py-2 text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <label htmlFor="min-confidence" className="font-medium text-gray-300">Minimum confidence:</label>
+        <ThresholdSlider id="min-confidence" value={thresholds.minConfidence} onChange={(minConfidence) => onChange({ ...thresholds, minConfidence })} />
+        <span className="text-xs text-gray-400">
+          {hiddenCount > 0 ? `${hiddenCount} low-confidence finding${hiddenCount === 1 ? '' : 's'} hidden` : 'All findings shown'}
+        </span>
+      </div>
+      <details className="group mt-1">
+        <summary className="flex items-center space-x-1 list-none cursor-pointer text-xs text-gray-400 hover:text-gray-200">
+          <span>Per-defect-type thresholds</span>
+          <ChevronDownIcon className="h-4 w-4 transition-transform duration-200 group-open:rotate-180" />
+        </summary>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 mt-2 pb-1">
+          {defectTypes.map(type => {
+            const custom = thresholds.defectTypes[type];
+            return (
+              <div key={type} className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={custom !== undefined}
+                    onChange={(e) => setDefectThreshold(type, e.target.checked ? thresholds.minConfidence : undefined)}
+                    className="rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+                  />
+                  <span>{translateDefectType(type)}</span>
+                </label>
+                <ThresholdSlider
+                  id={`threshold-${type}`}
+                  value={custom ?? thresholds.minConfidence}
+                  disabled={custom === undefined}
+                  onChange={(value) => setDefectThreshold(type, value)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default ConfidenceControls;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { InspectionRecord } from '../types';
+import { loadInspection } from '../services/historyStore';
+import { DatasetFormat, DatasetSummary, createDataset } from '../services/datasetExport';
+import { downloadBlob } from '../services/downloadUtils';
+import { XMarkIcon, SpinnerIcon } from './icons';
+
+interface DatasetExportDialogProps {
+  inspectionIds: string[]; // the triaged inspections to export
+  onClose: () => void;
+}
+
+const inputClass = "bg-gray-700 text-white px-2 py-1 rounded-md text-sm border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+const FORMAT_LABELS: Record<DatasetFormat, string> = {
+  coco: 'COCO JSON',
+  yolo: 'YOLO txt',
+  both: 'COCO and YOLO',
+};
+
+const DatasetExportDialog: React.FC<DatasetExportDialogProps> = ({ inspectionIds, onClose }) => {
+  const [format, setFormat] = useState<DatasetFormat>('both');
+  const [valPercent, setValPercent] = useState(20);
+  const [includeComponents, setIncludeComponents] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [summary, setSummary] = useState<DatasetSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setSummary(null);
+    try {
+      const records = (await Promise.all(inspectionIds.map(loadInspection))).filter((r): r is InspectionRecord => !!r);
+      const result = await createDataset(records, { format, valFraction: valPercent / 100, includeComponents });
+      downloadBlob(result.blob, `pcb_dataset_${new Date().toISOString().slice(0, 10)}.zip`);
+      setSummary(result.summary);
+    } catch (err) {
+      console.error("Failed to export dataset:", err);
+      setError(err instanceof Error ? err.message : "Could not export the dataset.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-gray-800 rounded-lg shadow-2xl ring-1 ring-white/10 p-5 text-sm text-gray-300">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">Export Labeled Dataset</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="mb-4 text-xs text-gray-400">
+          {inspectionIds.length} triaged inspection{inspectionIds.length === 1 ? '' : 's'}. Confirmed findings keep their class, wrong classes
+          take the corrected one and false positives are left out. Sides with findings that have no verdict yet are skipped.
+        </p>
+        <div className="space-y-3">
+          <label className="flex items-center justify-between">
+            <span>Format</span>
+            <select value={format} onChange={(e) => setFormat(e.target.value as DatasetFormat)} className={inputClass}>
+              {(Object.keys(FORMAT_LABELS) as DatasetFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between">
+            <span>Validation split</span>
+            <span className="flex items-center space-x-1">
+              <input
+                type="number"
+                min={0}
+                max={50}
+                value={valPercent}
+                onChange={(e) => setValPercent(Math.min(50, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                className={`w-16 ${inputClass}`}
+              />
+              <span>%</span>
+            </span>
+          </label>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeComponents}
+              onChange={(e) => setIncludeComponents(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+            />
+            <span>Also label components by class</span>
+          </label>
+        </div>
+        {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+        {summary && (
+          <p className="mt-3 text-xs text-status-ok">
+            Exported {summary.images} image{summary.images === 1 ? '' : 's'} with {summary.labels} label{summary.labels === 1 ? '' : 's'} in {summary.classes.length} class{summary.classes.length === 1 ? '' : 'es'}.
+            {summary.skippedSides > 0 && <span className="text-amber-300"> {summary.skippedSides} partly triaged side{summary.skippedSides === 1 ? ' was' : 's were'} skipped.</span>}
+          </p>
+        )}
+        <div className="flex justify-end space-x-2 mt-5">
+          <button onClick={onClose} className="px-4 py-2 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+            Close
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || inspectionIds.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 font-medium text-white bg-brand-primary hover:bg-brand-primary/90 disabled:bg-gray-500 disabled:cursor-wait rounded-md transition-colors"
+          >
+            {isExporting && <SpinnerIcon className="h-4 w-4" />}
+            <span>{isExporting ? 'Exporting...' : 'Export'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetExportDialog;
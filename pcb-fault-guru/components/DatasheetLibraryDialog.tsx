@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { DatasheetEntry, DatasheetRating } from '../types';
+import { readDatasheet, openLibraryDatasheet } from '../services/datasheetService';
+import { saveDatasheet, deleteDatasheet, listDatasheets } from '../services/historyStore';
+import { XMarkIcon, SpinnerIcon, DocumentTextIcon } from './icons';
+
+interface DatasheetLibraryDialogProps {
+  library: DatasheetEntry[];
+  knownMpns: string[]; // MPNs on the current board, to index new datasheets by
+  updateCount: number; // parts on the board whose max voltage the library would set
+  onLibraryChange: (library: DatasheetEntry[]) => void;
+  onApplyRatings: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-gray-700 text-white px-2 py-1 rounded-md text-xs border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+const RatingRow: React.FC<{ label: string; rating?: DatasheetRating<number | string>; unit?: string; onOpen: (page: number) => void }> = ({ label, rating, unit = '', onOpen }) =>
+  rating ? (
+    <li className="flex items-baseline justify-between gap-2">
+      <span className="text-gray-400">{label}</span>
+      <button onClick={() => onOpen(rating.page)} title={rating.excerpt} className="text-gray-200 hover:text-brand-primary">
+        {rating.value}{unit} <span className="text-gray-500">· p. {rating.page}</span>
+      </button>
+    </li>
+  ) : null;
+
+const DatasheetLibraryDialog: React.FC<DatasheetLibraryDialogProps> = ({ library, knownMpns, updateCount, onLibraryChange, onApplyRatings, onClose }) => {
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const addFiles = async (files: File[]) => {
+    const pdfs = files.filter(f => f.type === 'application/pdf' || /\.pdf$/i.test(f.name));
+    if (pdfs.length === 0) {
+      setError("Only PDF datasheets can be added.");
+      return;
+    }
+    setIsReading(true);
+    setError(null);
+    const failed: string[] = [];
+    // One at a time: parsing a PDF is heavy, and a bad file should not stop the rest.
+    for (const file of pdfs) {
+      try {
+        await saveDatasheet(await readDatasheet(file, knownMpns));
+      } catch (err) {
+        console.error(`Failed to read datasheet ${file.name}:`, err);
+        failed.push(file.name);
+      }
+    }
+    try {
+      onLibraryChange(await listDatasheets());
+    } catch (err) {
+      console.error("Failed to load the datasheet library:", err);
+    }
+    if (failed.length > 0) setError(`Could not read ${failed.join(', ')}.`);
+    setIsReading(false);
+  };
+
+  const handleMpnsChange = async (entry: DatasheetEntry, value: string) => {
+    const mpns = value.split(',').map(m => m.trim()).filter(Boolean);
+    if (mpns.length === 0 || mpns.join(',') === entry.mpns.join(',')) return;
+    try {
+      const updated = { ...entry, mpns };
+      await saveDatasheet(updated);
+      onLibraryChange(library.map(e => (e.id === entry.id ? updated : e)));
+    } catch (err) {
+      console.error("Failed to save datasheet:", err);
+      setError("Could not save the part numbers.");
+    }
+  };
+
+  const handleDelete = async (entry: DatasheetEntry) => {
+    if (!window.confirm(`Remove ${entry.fileName} from the datasheet library?`)) return;
+    try {
+      await deleteDatasheet(entry.id);
+      onLibraryChange(library.filter(e => e.id !== entry.id));
+    } catch (err) {
+      console.error("Failed to delete datasheet:", err);
+      setError("Could not remove the datasheet.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl max-h-[95vh] overflow-y-auto bg-gray-800 rounded-lg shadow-2xl ring-1 ring-white/10 p-5 text-sm text-gray-300">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">Datasheet Library</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <label
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => { e.preventDefault(); setIsDragging(false); addFiles(Array.from(e.dataTransfer.files)); }}
+          className={`flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${isDragging ? 'border-brand-primary bg-brand-primary/10' : 'border-gray-600 hover:border-gray-500'}`}
+        >
+          {isReading ? <SpinnerIcon className="h-6 w-6" /> : <DocumentTextIcon className="h-6 w-6 text-gray-400" />}
+          <span className="mt-2">{isReading ? 'Reading datasheets...' : 'Drop datasheet PDFs here, or click to choose'}</span>
+          <span className="text-xs text-gray-500">Kept in this browser and matched to parts by MPN.</span>
+          <input
+            type="file"
+            accept=".pdf,application/pdf"
+            multiple
+            className="sr-only"
+            disabled={isReading}
+            onChange={(e) => { const files = Array.from(e.target.files ?? []); e.target.value = ''; if (files.length) addFiles(files); }}
+          />
+        </label>
+        {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+
+        {library.length > 0 && (
+          <ul className="mt-4 space-y-3">
+            {library.map(entry => (
+              <li key={entry.id} className="p-3 rounded-md bg-gray-900/50">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <button onClick={() => openLibraryDatasheet(entry)} className="font-medium text-white hover:text-brand-primary truncate">{entry.fileName}</button>
+                    <p className="text-xs text-gray-500">{entry.pageCount} page{entry.pageCount === 1 ? '' : 's'}</p>
+                  </div>
+                  <button onClick={() => handleDelete(entry)} className="p-0.5 text-gray-500 hover:text-red-400" title="Remove from the library">
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                </div>
+                <label className="flex items-center gap-2 mt-2 text-xs">
+                  <span className="text-gray-400">MPNs</span>
+                  <input
+                    key={entry.mpns.join(',')}
+                    defaultValue={entry.mpns.join(', ')}
+                    onBlur={(e) => handleMpnsChange(entry, e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                    className={`flex-grow ${inputClass}`}
+                  />
+                </label>
+                <ul className="mt-2 space-y-0.5 text-xs">
+                  <RatingRow label="Absolute max voltage" rating={entry.ratings.maxVoltage} unit=" V" onOpen={(page) => openLibraryDatasheet(entry, page)} />
+                  <RatingRow label="Max temperature" rating={entry.ratings.maxTemperature} unit=" °C" onOpen={(page) => openLibraryDatasheet(entry, page)} />
+                  <RatingRow label="Package" rating={entry.ratings.package} onOpen={(page) => openLibraryDatasheet(entry, page)} />
+                </ul>
+                {Object.keys(entry.ratings).length === 0 && <p className="mt-2 text-xs text-gray-500">No ratings found in the text.</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-end space-x-2 mt-5">
+          {updateCount > 0 && (
+            <span className="mr-auto text-xs text-gray-400">
+              {updateCount} part{updateCount === 1 ? '' : 's'} on this board can take the max voltage from a datasheet.
+            </span>
+          )}
+          <button onClick={onClose} className="px-4 py-2 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+            Close
+          </button>
+          <button
+            onClick={onApplyRatings}
+            disabled={updateCount === 0}
+            title="Replace the model's max voltage guesses with the datasheet ratings (can be undone)"
+            className="px-4 py-2 font-medium text-white bg-brand-primary hover:bg-brand-primary/90 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            Apply Ratings{updateCount > 0 ? ` (${updateCount})` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasheetLibraryDialog;
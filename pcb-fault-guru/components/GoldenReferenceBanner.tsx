@@ -0,0 +1,28 @@
+import React from 'react';
+import { GoldenReference } from '../types';
+import { CheckCircleIcon, XMarkIcon } from './icons';
+
+interface GoldenReferenceBannerProps {
+  reference: GoldenReference;
+  onClear: () => void;
+}
+
+const GoldenReferenceBanner: React.FC<GoldenReferenceBannerProps> = ({ reference, onClear }) => (
+  <div className="w-full max-w-2xl mx-auto mb-4 bg-cyan-900/30 ring-1 ring-cyan-500/30 rounded-lg p-3 flex items-center gap-3 text-sm">
+    <img src={reference.imageDataUrl} alt="Golden reference board" className="h-12 w-16 object-cover rounded" />
+    <div className="flex-grow">
+      <p className="flex items-center space-x-1 font-medium text-cyan-200">
+        <CheckCircleIcon className="h-4 w-4" />
+        <span>Golden reference: {reference.name}</span>
+      </p>
+      <p className="text-xs text-gray-400">
+        Saved {new Date(reference.savedAt).toLocaleString()}. The next board analyzed will be compared against it.
+      </p>
+    </div>
+    <button onClick={onClear} title="Clear golden reference" className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+      <XMarkIcon className="h-5 w-5" />
+    </button>
+  </div>
+);
+
+export default GoldenReferenceBanner;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { InspectionSummary, BoardProject } from '../types';
+import { listInspections, renameInspection, deleteInspection } from '../services/historyStore';
+import { formatProject } from './ProjectBar';
+import DatasetExportDialog from './DatasetExportDialog';
+import { MagnifyingGlassIcon, XMarkIcon, SpinnerIcon } from './icons';
+
+interface HistorySidebarProps {
+  currentId: string | null;
+  projects: BoardProject[];
+  refreshKey: number; // bump to reload the list after a save
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const ALL_PROJECTS = '__all__';
+const NO_PROJECT = '__none__';
+
+const Thumbnail: React.FC<{ blob?: Blob }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url
+    ? <img src={url} alt="" className="h-12 w-16 flex-shrink-0 object-cover rounded" />
+    : <div className="h-12 w-16 flex-shrink-0 rounded bg-gray-700" />;
+};
+
+const HistoryItem: React.FC<{
+  item: InspectionSummary;
+  project?: BoardProject;
+  isCurrent: boolean;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}> = ({ item, project, isCurrent, onOpen, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(item.name);
+
+  const commitRename = () => {
+    setIsEditing(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== item.name) {
+      onRename(trimmed);
+    } else {
+      setName(item.name);
+    }
+  };
+
+  return (
+    <li className={`group rounded-md p-2 transition-colors ${isCurrent ? 'bg-brand-primary/20 ring-1 ring-brand-primary' : 'hover:bg-gray-700/50'}`}>
+      <div className="flex items-start gap-3">
+        <button onClick={onOpen} className="flex-shrink-0" title="Reopen this inspection">
+          <Thumbnail blob={item.thumbnail} />
+        </button>
+        <div className="min-w-0 flex-grow">
+          {isEditing ? (
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') { setName(item.name); setIsEditing(false); }
+              }}
+              className="w-full bg-gray-900/50 border border-gray-600 rounded px-1 py-0.5 text-sm text-white"
+            />
+          ) : (
+            <button onClick={onOpen} className="block w-full text-left truncate text-sm font-medium text-white hover:text-brand-primary">
+              {item.name}
+            </button>
+          )}
+          {project && (
+            <p className="truncate text-xs text-brand-primary/90">
+              {formatProject(project)}{item.serial ? ` · SN ${item.serial}` : ''}
+            </p>
+          )}
+          <p className="text-xs text-gray-400">{new Date(item.updatedAt).toLocaleString()}</p>
+          <p className="text-xs text-gray-500">
+            {item.componentCount} components · {item.defectCount} defects
+            {item.triagedCount > 0 && <span className="text-teal-300"> · {item.triagedCount} triaged</span>}
+          </p>
+          <div className="flex space-x-3 mt-1 text-xs opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <button onClick={() => setIsEditing(true)} className="text-gray-400 hover:text-white">Rename</button>
+            <button onClick={onDelete} className="text-red-400 hover:text-red-300">Delete</button>
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ currentId, projects, refreshKey, onOpen, onDeleted, onClose }) => {
+  const [items, setItems] = useState<InspectionSummary[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [projectFilter, setProjectFilter] = useState<string>(ALL_PROJECTS);
+  const [error, setError] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const reload = async () => {
+    try {
+      setItems(await listInspections());
+    } catch (err) {
+      console.error("Failed to load inspection history:", err);
+      setError("Could not load the inspection history.");
+      setItems([]);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [refreshKey]);
+
+  const projectsById = useMemo(() => new Map(projects.map(p => [p.id, p])), [projects]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return (items ?? []).filter(item =>
+      (projectFilter === ALL_PROJECTS || (item.projectId ?? NO_PROJECT) === projectFilter) &&
+      (!q || [item.name, item.summary, item.serial ?? ''].some(text => text.toLowerCase().includes(q)))
+    );
+  }, [items, query, projectFilter]);
+
+  // The dataset follows the search and project filter, so one board model can be exported alone.
+  const triagedIds = useMemo(() => filtered.filter(item => item.triagedCount > 0).map(item => item.id), [filtered]);
+
+  const handleRename = async (id: string, name: string) => {
+    try {
+      await renameInspection(id, name);
+      await reload();
+    } catch (err) {
+      console.error("Failed to rename inspection:", err);
+      setError("Could not rename the inspection.");
+    }
+  };
+
+  const handleDelete = async (item: InspectionSummary) => {
+    if (!window.confirm(`Delete "${item.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteInspection(item.id);
+      onDeleted(item.id);
+      await reload();
+    } catch (err) {
+      console.error("Failed to delete inspection:", err);
+      setError("Could not delete the inspection.");
+    }
+  };
+
+  return (
+    <>
+      <aside className="fixed top-16 left-0 bottom-0 z-30 w-80 bg-gray-800/95 backdrop-blur-sm border-r border-gray-700/50 shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-700/50">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-white">Inspection History</h2>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+          <div className="relative mt-3">
+            <MagnifyingGlassIcon className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search inspections..."
+              className="w-full bg-gray-900/50 border border-gray-700 rounded-md py-1.5 pl-8 pr-2 text-sm focus:ring-brand-primary focus:border-brand-primary"
+            />
+          </div>
+          {projects.length > 0 && (
+            <select
+              value={projectFilter}
+              onChange={(e) => setProjectFilter(e.target.value)}
+              className="w-full mt-2 bg-gray-900/50 border border-gray-700 rounded-md py-1.5 px-2 text-sm focus:ring-brand-primary focus:border-brand-primary"
+            >
+              <option value={ALL_PROJECTS}>All projects</option>
+              {projects.map(p => <option key={p.id} value={p.id}>{formatProject(p)}</option>)}
+              <option value={NO_PROJECT}>No project</option>
+            </select>
+          )}
+          {triagedIds.length > 0 && (
+            <button
+              onClick={() => setIsExportOpen(true)}
+              title="Export the triaged inspections listed below as COCO or YOLO training data"
+              className="w-full mt-2 px-3 py-1.5 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors"
+            >
+              Export Dataset ({triagedIds.length})
+            </button>
+          )}
+          {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        </div>
+        <div className="flex-grow overflow-y-auto p-2">
+          {items === null ? (
+            <div className="flex justify-center p-4"><SpinnerIcon className="h-6 w-6 text-brand-primary" /></div>
+          ) : filtered.length === 0 ? (
+            <p className="p-4 text-sm text-center text-gray-500">{items.length === 0 ? 'Inspections are saved here automatically.' : 'No inspections match your search.'}</p>
+          ) : (
+            <ul className="space-y-1">
+              {filtered.map(item => (
+                <HistoryItem
+                  key={item.id}
+                  item={item}
+                  project={item.projectId ? projectsById.get(item.projectId) : undefined}
+                  isCurrent={item.id === currentId}
+                  onOpen={() => onOpen(item.id)}
+                  onRename={(name) => handleRename(item.id, name)}
+                  onDelete={() => handleDelete(item)}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+      {isExportOpen && <DatasetExportDialog inspectionIds={triagedIds} onClose={() => setIsExportOpen(false)} />}
+    </>
+  );
+};
+
+export default HistorySidebar;
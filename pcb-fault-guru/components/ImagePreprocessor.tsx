@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BoundingBox } from '../types';
+import { Point, Quad, loadOrientedImage, readExifOrientation, rotateCanvas, warpPerspective, cropCanvas, normalizeColors, canvasToFile } from '../services/imageProcessing';
+import { clampBBox } from '../services/analysisValidator';
+import { SpinnerIcon, ArrowPathIcon } from './icons';
+
+interface ImagePreprocessorProps {
+  file: File;
+  title: string;
+  onConfirm: (file: File) => void;
+  onCancel: () => void;
+}
+
+type EditMode = 'none' | 'perspective' | 'crop';
+
+// Longest edge of the on-screen preview; processing always runs on the full image.
+const PREVIEW_MAX_EDGE = 1600;
+
+const DEFAULT_CORNERS: Quad = [{ x: 0.05, y: 0.05 }, { x: 0.95, y: 0.05 }, { x: 0.95, y: 0.95 }, { x: 0.05, y: 0.95 }];
+const CORNER_LABELS = ['Top-left', 'Top-right', 'Bottom-right', 'Bottom-left'];
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const toolButtonClass = (active: boolean) =>
+  `px-3 py-1.5 text-sm font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-wait ${active ? 'bg-brand-primary text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`;
+
+const ImagePreprocessor: React.FC<ImagePreprocessorProps> = ({ file, title, onConfirm, onCancel }) => {
+  const [original, setOriginal] = useState<HTMLCanvasElement | null>(null);
+  const [working, setWorking] = useState<HTMLCanvasElement | null>(null);
+  const [isEdited, setIsEdited] = useState(false);
+  const [orientation, setOrientation] = useState(1); // EXIF orientation of the file, 1 = stored upright
+  const [isBusy, setIsBusy] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<EditMode>('none');
+  const [corners, setCorners] = useState<Quad>(DEFAULT_CORNERS);
+  const [crop, setCrop] = useState<BoundingBox | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ corner: number } | { cropStart: Point } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [canvas, orientation] = await Promise.all([loadOrientedImage(file), readExifOrientation(file)]);
+        if (cancelled) return;
+        setOriginal(canvas);
+        setWorking(canvas);
+        setOrientation(orientation);
+        // A photo stored sideways still needs re-encoding even if nothing else is changed.
+        setIsEdited(orientation !== 1);
+      } catch (err) {
+        console.error("Failed to load image for preprocessing:", err);
+        if (!cancelled) setError("Could not read this image.");
+      } finally {
+        if (!cancelled) setIsBusy(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [file]);
+
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!preview || !working) return;
+    const scale = Math.min(1, PREVIEW_MAX_EDGE / Math.max(working.width, working.height));
+    preview.width = Math.round(working.width * scale);
+    preview.height = Math.round(working.height * scale);
+    preview.getContext('2d')?.drawImage(working, 0, 0, preview.width, preview.height);
+  }, [working]);
+
+  // Runs a full-resolution step after the busy state has had a chance to paint.
+  const applyStep = async (step: (canvas: HTMLCanvasElement) => HTMLCanvasElement) => {
+    if (!working) return;
+    setIsBusy(true);
+    setError(null);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      setWorking(step(working));
+      setIsEdited(true);
+      setMode('none');
+      setCrop(null);
+      setCorners(DEFAULT_CORNERS);
+    } catch (err) {
+      console.error("Image preprocessing failed:", err);
+      setError(err instanceof Error ? err.message : "Could not process the image.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = () => {
+    setWorking(original);
+    // The original is shown upright, so a sideways file still has to be re-encoded.
+    setIsEdited(orientation !== 1);
+    setMode('none');
+    setCrop(null);
+    setCorners(DEFAULT_CORNERS);
+    setError(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!working) return;
+    if (!isEdited) {
+      onConfirm(file);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      onConfirm(await canvasToFile(working, file));
+    } catch (err) {
+      console.error("Failed to encode processed image:", err);
+      setError(err instanceof Error ? err.message : "Could not encode the processed image.");
+      setIsBusy(false);
+    }
+  };
+
+  const pointerPosition = (e: React.PointerEvent): Point => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mode !== 'crop') return;
+    const start = pointerPosition(e);
+    dragRef.current = { cropStart: start };
+    setCrop({ x: start.x, y: start.y, w: 0, h: 0 });
+    surfaceRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = pointerPosition(e);
+    if ('corner' in drag) {
+      setCorners(prev => prev.map((c, i) => (i === drag.corner ? point : c)) as Quad);
+    } else {
+      const { cropStart } = drag;
+      setCrop({
+        x: Math.min(cropStart.x, point.x),
+        y: Math.min(cropStart.y, point.y),
+        w: Math.abs(point.x - cropStart.x),
+        h: Math.abs(point.y - cropStart.y),
+      });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    dragRef.current = null;
+    if (surfaceRef.current?.hasPointerCapture(e.pointerId)) surfaceRef.current.releasePointerCapture(e.pointerId);
+  };
+
+  const validCrop = crop ? clampBBox(crop) : null;
+  const hasCrop = !!validCrop && validCrop.w > 0.02 && validCrop.h > 0.02;
+
+  return (
+    <div className="w-full max-w-5xl mx-auto bg-gray-800/50 rounded-lg shadow-xl p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div>
+          <h2 className="text-lg font-bold text-white">{title}</h2>
+          <p className="text-xs text-gray-400">
+            {mode === 'perspective' && 'Drag the four handles onto the corners of the board, then apply.'}
+            {mode === 'crop' && 'Drag across the image to select the area to keep, then apply.'}
+            {mode === 'none' && 'Straighten and crop the photo so detected parts line up with the board.'}
+          </p>
+        </div>
+        {isBusy && <SpinnerIcon className="h-5 w-5 text-brand-primary" />}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <button onClick={() => applyStep(c => rotateCanvas(c, -1))} disabled={isBusy || !working} className={toolButtonClass(false)}>Rotate Left</button>
+        <button onClick={() => applyStep(c => rotateCanvas(c, 1))} disabled={isBusy || !working} className={toolButtonClass(false)}>Rotate Right</button>
+        <button onClick={() => setMode(mode === 'perspective' ? 'none' : 'perspective')} disabled={isBusy || !working} className={toolButtonClass(mode === 'perspective')}>Perspective</button>
+        <button onClick={() => { setMode(mode === 'crop' ? 'none' : 'crop'); setCrop(null); }} disabled={isBusy || !working} className={toolButtonClass(mode === 'crop')}>Crop</button>
+        <button onClick={() => applyStep(normalizeColors)} disabled={isBusy || !working} title="Gray-world white balance and contrast stretch" className={toolButtonClass(false)}>Normalize Colors</button>
+        {mode === 'perspective' && (
+          <button onClick={() => applyStep(c => warpPerspective(c, corners))} disabled={isBusy} className="px-3 py-1.5 text-sm font-medium text-white bg-teal-600 hover:bg-teal-500 rounded-md transition-colors">
+            Apply Perspective
+          </button>
+        )}
+        {mode === 'crop' && (
+          <button onClick={() => validCrop && applyStep(c => cropCanvas(c, validCrop))} disabled={isBusy || !hasCrop} className="px-3 py-1.5 text-sm font-medium text-white bg-teal-600 hover:bg-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md transition-colors">
+            Apply Crop
+          </button>
+        )}
+        <button onClick={handleReset} disabled={isBusy || working === original} className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium text-gray-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
+          <ArrowPathIcon className="h-4 w-4" /><span>Reset</span>
+        </button>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+      <div className="flex justify-center bg-gray-900/60 rounded-md p-2">
+        <div
+          ref={surfaceRef}
+          className={`relative inline-block select-none touch-none ${mode === 'crop' ? 'cursor-crosshair' : ''}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <canvas ref={previewRef} className="block max-w-full max-h-[65vh]" />
+          {mode === 'perspective' && (
+            <>
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                <polygon
+                  points={corners.map(c => `${c.x * 100},${c.y * 100}`).join(' ')}
+                  fill="rgba(56, 189, 248, 0.1)"
+                  stroke="#38bdf8"
+                  strokeWidth="2"
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+              {corners.map((corner, index) => (
+                <div
+                  key={index}
+                  title={CORNER_LABELS[index]}
+                  className="absolute h-4 w-4 -ml-2 -mt-2 rounded-full bg-sky-400 ring-2 ring-white cursor-move shadow-lg"
+                  style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    dragRef.current = { corner: index };
+                    surfaceRef.current?.setPointerCapture(e.pointerId);
+                  }}
+                />
+              ))}
+            </>
+          )}
+          {mode === 'crop' && crop && (
+            <div
+              className="absolute border-2 border-dashed border-white pointer-events-none"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.w * 100}%`,
+                height: `${crop.h * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+        <p className="text-xs text-gray-500">
+          {working ? `${working.width} × ${working.height}px` : ''}
+          {isEdited && ' · the corrected image is what gets analyzed and shown'}
+        </p>
+        <div className="flex items-center space-x-2">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+            Cancel
+          </button>
+          <button onClick={() => onConfirm(file)} disabled={isBusy} title="Analyze the file exactly as uploaded" className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 disabled:opacity-50 rounded-md transition-colors">
+            Use Original
+          </button>
+          <button onClick={handleConfirm} disabled={isBusy || !working} className="px-4 py-2 text-sm font-medium text-white bg-brand-primary hover:bg-brand-primary/90 disabled:bg-gray-600 disabled:cursor-wait rounded-md transition-colors">
+            Analyze
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImagePreprocessor;
@@ -51,7 +51,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
           >
             Click to upload
           </label>
-          <p className="mt-3 text-xs text-gray-500">PNG or JPG (up to 4096px)</p>
+          <p className="mt-3 text-xs text-gray-500">PNG or JPG (up to 4096px, or larger in tiled mode)</p>
         </div>
         <input
           id="file-upload"
@@ -1,6 +1,10 @@
 import React from 'react';
-import { PcbAnalysis, Component, Defect, DefectType } from '../types';
+import { PcbAnalysis, Component, Defect, DefectType, Presence, Condition, ComponentClass } from '../types';
 import { openDatasheet } from '../services/datasheetService';
+import { AnnotationEdit, isHumanEdited } from '../services/annotationEdits';
+import { COMMON_DEFECT_TYPES } from '../services/confidenceFilter';
+import { getSide } from '../services/analysisMerge';
+import { COMPONENT_CLASSES, resolveComponentClass, getClassInfo } from '../services/componentClass';
 import { 
     XMarkIcon, 
     CheckCircleIcon, 
@@ -21,6 +25,7 @@ interface InfoPopoverProps {
     selectedId: string;
     boardVoltage: number | null;
     onClose: () => void;
+    onEdit?: (edit: AnnotationEdit) => void; // set in edit mode; shows editable fields
 }
 
 const statusIcons = {
@@ -41,6 +46,94 @@ const translateDefectType = (type: DefectType): string => {
     return type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 }
 
+const EditedBadge: React.FC<{ item: Component | Defect }> = ({ item }) =>
+    isHumanEdited(item) ? <span className="ml-2 px-1.5 py-0.5 rounded bg-sky-500/20 text-sky-300 text-[10px] font-medium align-middle">Edited</span> : null;
+
+const fieldClass = "w-full bg-gray-800 text-white px-2 py-1 rounded-md text-xs border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+/**
+ * A text field that commits on blur or Enter, so typing a value is one undo step.
+ */
+const CommitInput: React.FC<{ label: string; value: string; type?: 'text' | 'number'; list?: string; onCommit: (value: string) => void }> = ({ label, value, type = 'text', list, onCommit }) => {
+    const [draft, setDraft] = React.useState(value);
+    React.useEffect(() => setDraft(value), [value]);
+    const commit = () => {
+        if (draft !== value) onCommit(draft);
+    };
+    return (
+        <label className="block">
+            <span className="text-[11px] text-gray-400">{label}</span>
+            <input
+                type={type}
+                list={list}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') commit();
+                    if (e.key === 'Escape') setDraft(value);
+                }}
+                className={fieldClass}
+            />
+        </label>
+    );
+};
+
+const ComponentEditForm: React.FC<{ component: Component; onEdit: (edit: AnnotationEdit) => void }> = ({ component, onEdit }) => {
+    const update = (changes: Extract<AnnotationEdit, { type: 'updateComponent' }>['changes']) =>
+        onEdit({ type: 'updateComponent', designator: component.designator, changes });
+    // What "Auto" means for this part: the model's class, else the designator or MPN.
+    const autoClass = resolveComponentClass({ ...component, classOverride: undefined }).componentClass;
+    return (
+        <div className="grid grid-cols-2 gap-2">
+            <CommitInput label="Designator" value={component.designator} onCommit={(designator) => update({ designator })} />
+            <CommitInput label="MPN" value={component.mpn} onCommit={(mpn) => update({ mpn: mpn.trim() })} />
+            <label className="block">
+                <span className="text-[11px] text-gray-400">Presence</span>
+                <select value={component.presence} onChange={(e) => update({ presence: e.target.value as Presence })} className={fieldClass}>
+                    <option value="ok">Present</option>
+                    <option value="missing">Missing</option>
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-[11px] text-gray-400">Condition</span>
+                <select value={component.condition} onChange={(e) => update({ condition: e.target.value as Condition })} className={fieldClass}>
+                    <option value="ok">OK</option>
+                    <option value="burnt">Burnt</option>
+                    <option value="corroded">Corroded</option>
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-[11px] text-gray-400">Class</span>
+                <select
+                    value={component.classOverride ?? ''}
+                    onChange={(e) => update({ classOverride: (e.target.value || undefined) as ComponentClass | undefined })}
+                    className={fieldClass}
+                >
+                    <option value="">Auto ({getClassInfo(autoClass).label})</option>
+                    {COMPONENT_CLASSES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                </select>
+            </label>
+            <CommitInput
+                label="Max voltage (V)"
+                type="number"
+                value={component.maxVoltage?.toString() ?? ''}
+                onCommit={(value) => update({ maxVoltage: value ? parseFloat(value) : undefined })}
+            />
+        </div>
+    );
+};
+
+const DefectEditForm: React.FC<{ defect: Defect; onEdit: (edit: AnnotationEdit) => void }> = ({ defect, onEdit }) => (
+    <div className="space-y-2">
+        <CommitInput label="Type" value={defect.type} list="defect-type-options" onCommit={(type) => onEdit({ type: 'updateDefect', id: defect.id, changes: { type } })} />
+        <datalist id="defect-type-options">
+            {COMMON_DEFECT_TYPES.map(type => <option key={type} value={type} />)}
+        </datalist>
+        <CommitInput label="Description" value={defect.description ?? ''} onCommit={(description) => onEdit({ type: 'updateDefect', id: defect.id, changes: { description: description.trim() || undefined } })} />
+    </div>
+);
+
 const ComponentInfo: React.FC<{component: Component; boardVoltage: number | null}> = ({ component, boardVoltage }) => {
     const [isFetchingSheet, setIsFetchingSheet] = React.useState(false);
     const status = getStatusText(component);
@@ -60,7 +153,7 @@ const ComponentInfo: React.FC<{component: Component; boardVoltage: number | null
                 <div className="flex items-center space-x-3">
                     {statusIcons[component.presence === 'missing' ? 'missing' : component.condition]}
                     <div>
-                        <h4 className="font-bold text-white">{component.designator}</h4>
+                        <h4 className="font-bold text-white">{component.designator}<EditedBadge item={component} /></h4>
                         <p className="text-xs text-gray-400">{component.mpn}</p>
                     </div>
                 </div>
@@ -74,13 +167,24 @@ const ComponentInfo: React.FC<{component: Component; boardVoltage: number | null
                 {component.temperature && (
                     <div className="flex items-center space-x-2 text-gray-300">
                         <ThermometerIcon className="h-4 w-4 text-red-400" />
-                        <span>Temperature: {component.temperature.toFixed(1)}°C</span>
+                        <span>Temperature: {component.temperature.toFixed(1)}°C {component.temperatureSource === 'thermal' ? '(measured)' : '(estimated)'}</span>
                     </div>
                 )}
                 {component.maxVoltage && (
                      <div className="flex items-center space-x-2 text-gray-300">
                         <BoltIcon className={`h-4 w-4 ${hasVoltageMismatch ? 'text-yellow-400' : 'text-gray-500'}`} />
                         <span>Max Voltage: {component.maxVoltage}V</span>
+                        {component.maxVoltageSource === 'datasheet' ? (
+                            <button
+                                onClick={() => openDatasheet(component.mpn, component.maxVoltagePage)}
+                                title="Open the datasheet at the rating"
+                                className="text-sky-300 hover:text-sky-200"
+                            >
+                                (datasheet{component.maxVoltagePage ? ` p. ${component.maxVoltagePage}` : ''})
+                            </button>
+                        ) : (
+                            <span className="text-gray-500">(estimated)</span>
+                        )}
                     </div>
                 )}
                  {hasVoltageMismatch && (
@@ -108,7 +212,7 @@ const DefectInfo: React.FC<{defect: Defect}> = ({ defect }) => (
             <div className="flex items-center space-x-3">
                 <WrenchIcon className="h-5 w-5 text-status-defect" />
                 <div>
-                    <h4 className="font-bold text-white capitalize">{translateDefectType(defect.type)}</h4>
+                    <h4 className="font-bold text-white capitalize">{translateDefectType(defect.type)}<EditedBadge item={defect} /></h4>
                     <p className="text-xs text-gray-400">ID: {defect.id}</p>
                 </div>
             </div>
@@ -121,7 +225,7 @@ const DefectInfo: React.FC<{defect: Defect}> = ({ defect }) => (
 );
 
 
-const InfoPopover: React.FC<InfoPopoverProps> = ({ analysis, selectedId, boardVoltage, onClose }) => {
+const InfoPopover: React.FC<InfoPopoverProps> = ({ analysis, selectedId, boardVoltage, onClose, onEdit }) => {
     const component = analysis.components.find(c => c.designator === selectedId);
     const defect = analysis.defects.find(d => d.id === selectedId);
     const item = component || defect;
@@ -165,19 +269,38 @@ const InfoPopover: React.FC<InfoPopoverProps> = ({ analysis, selectedId, boardVo
 
     return (
         <>
-            {/* Backdrop to close on outside click */}
-            <div className="fixed inset-0 z-20" style={{pointerEvents: 'auto'}} onClick={onClose} />
+            {/* Backdrop to close on outside click; in edit mode the boxes must stay reachable */}
+            {!onEdit && <div className="fixed inset-0 z-20" style={{pointerEvents: 'auto'}} onClick={onClose} />}
             <div 
                 style={style} 
                 className="relative z-30 w-72 min-h-[60px] bg-gray-900/70 backdrop-blur-md rounded-lg shadow-2xl ring-1 ring-white/10 p-3 animate-fade-in-up"
                 onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside popover
+                onPointerDown={(e) => e.stopPropagation()} // ...or deselecting in edit mode
             >
                 <button onClick={onClose} className="absolute top-1 right-1 p-1 text-gray-500 hover:text-white transition-colors rounded-full z-10">
                     <XMarkIcon className="h-5 w-5" />
                 </button>
                 
-                {component && <ComponentInfo component={component} boardVoltage={boardVoltage} />}
-                {defect && <DefectInfo defect={defect} />}
+                {onEdit ? (
+                    <>
+                        <p className="mb-2 pr-6 text-xs font-medium text-gray-300">
+                            {component ? `Edit ${component.designator}` : `Edit defect ${defect!.id}`}<EditedBadge item={item} />
+                        </p>
+                        {component && <ComponentEditForm component={component} onEdit={onEdit} />}
+                        {defect && <DefectEditForm defect={defect} onEdit={onEdit} />}
+                        <button
+                            onClick={() => onEdit({ type: 'delete', kind: component ? 'component' : 'defect', id: selectedId, side: getSide(item) })}
+                            className="mt-3 w-full p-1.5 rounded-md text-xs font-medium text-red-300 bg-red-900/30 hover:bg-red-900/50 transition-colors"
+                        >
+                            Delete {component ? 'Component' : 'Defect'}
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        {component && <ComponentInfo component={component} boardVoltage={boardVoltage} />}
+                        {defect && <DefectInfo defect={defect} />}
+                    </>
+                )}
                 
                 <div 
                     className="absolute left-1/2 -translate-x-1/2 w-3 h-3 bg-gray-900/70 ring-1 ring-white/10"
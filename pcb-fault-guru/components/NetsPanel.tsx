@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Connectivity, Net, NetKind } from '../types';
+import { NET_KINDS, addNet, setNetKind, removeNet, importNetlist, getNetColor, describePad } from '../services/connectivity';
+import type { PadPlacement } from './AnalysisViewer';
+import { ChevronDownIcon, XMarkIcon } from './icons';
+
+interface NetsPanelProps {
+  connectivity: Connectivity;
+  onChange: (connectivity: Connectivity) => void;
+  placement: PadPlacement | null;
+  onPlacementChange: (placement: PadPlacement | null) => void;
+}
+
+const inputClass = "bg-gray-700 text-white px-2 py-1 rounded-md text-sm border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+const NetRow: React.FC<{
+  net: Net;
+  connectivity: Connectivity;
+  placement: PadPlacement | null;
+  onKindChange: (kind: NetKind) => void;
+  onPlacementChange: (placement: PadPlacement | null) => void;
+  onDelete: () => void;
+}> = ({ net, connectivity, placement, onKindChange, onPlacementChange, onDelete }) => {
+  const pads = connectivity.pads.filter(p => p.netId === net.id);
+  const placed = pads.filter(p => p.location).length;
+  const netlistPads = pads.filter(p => p.designator);
+  const isPlacing = placement?.netId === net.id && !placement.padId;
+
+  return (
+    <li className="py-1.5">
+      <div className="flex items-center gap-2">
+        <span className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: getNetColor(connectivity, net) }} />
+        <span className="flex-grow truncate font-mono text-gray-200">{net.name}</span>
+        <select value={net.kind} onChange={(e) => onKindChange(e.target.value as NetKind)} className={`text-xs ${inputClass}`}>
+          {NET_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+        </select>
+        <span className="w-16 text-right text-xs text-gray-400 tabular-nums">{placed}/{pads.length} placed</span>
+        <button
+          onClick={() => onPlacementChange(isPlacing ? null : { netId: net.id })}
+          title="Click the photo to add pads to this net"
+          className={`px-2 py-0.5 text-xs font-medium rounded-md transition-colors ${isPlacing ? 'bg-brand-primary text-white' : 'bg-gray-600 hover:bg-gray-500 text-white'}`}
+        >
+          Add Pads
+        </button>
+        <button onClick={onDelete} className="p-0.5 text-gray-500 hover:text-red-400" title="Delete this net and its pads">
+          <XMarkIcon className="h-4 w-4" />
+        </button>
+      </div>
+      {netlistPads.length > 0 && (
+        <details className="group ml-5 mt-1">
+          <summary className="flex items-center space-x-1 list-none cursor-pointer text-xs text-gray-400 hover:text-gray-200">
+            <span>Netlist pins</span>
+            <ChevronDownIcon className="h-3 w-3 transition-transform duration-200 group-open:rotate-180" />
+          </summary>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {netlistPads.map(pad => {
+              const isActive = placement?.padId === pad.id;
+              return (
+                <button
+                  key={pad.id}
+                  onClick={() => onPlacementChange(isActive ? null : { netId: net.id, padId: pad.id })}
+                  title={pad.location ? 'Placed; click to move it' : 'Click, then click the pin on the photo'}
+                  className={`px-1.5 py-0.5 font-mono text-[11px] rounded transition-colors ${
+                    isActive ? 'bg-brand-primary text-white' : pad.location ? 'bg-gray-600 text-gray-100' : 'bg-gray-900/60 text-gray-400 ring-1 ring-gray-600'
+                  }`}
+                >
+                  {describePad(pad)}
+                </button>
+              );
+            })}
+          </div>
+        </details>
+      )}
+    </li>
+  );
+};
+
+const NetsPanel: React.FC<NetsPanelProps> = ({ connectivity, onChange, placement, onPlacementChange }) => {
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    try {
+      const result = addNet(connectivity, name);
+      onChange(result.connectivity);
+      onPlacementChange({ netId: result.net.id });
+      setName('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not add the net.");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(importNetlist(await file.text(), connectivity));
+      setError(null);
+    } catch (err) {
+      console.error("Failed to import netlist:", err);
+      setError(err instanceof Error ? err.message : "Could not read the netlist.");
+    }
+  };
+
+  const handleDelete = (net: Net) => {
+    if (placement?.netId === net.id) onPlacementChange(null);
+    onChange(removeNet(connectivity, net.id));
+  };
+
+  const placingNet = placement && connectivity.nets.find(n => n.id === placement.netId);
+  const placingPad = placement?.padId && connectivity.pads.find(p => p.id === placement.padId);
+
+  return (
+    <div className="mt-4 bg-gray-800/50 rounded-lg px-4 py-3 text-sm">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+        <h3 className="font-medium text-gray-300">Nets</h3>
+        <span className="text-xs text-gray-500">Jumper suggestions snap to these pads and are checked for shorts.</span>
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+            placeholder="e.g., GND, +3V3"
+            className={`w-32 ${inputClass}`}
+          />
+          <button onClick={handleAdd} disabled={!name.trim()} className="px-3 py-1 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors">
+            Add Net
+          </button>
+          <label className="px-3 py-1 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md cursor-pointer transition-colors" title="KiCad .net export, or CSV with Net, Designator and Pin columns">
+            Import Netlist
+            <input type="file" accept=".net,.csv,.txt" className="sr-only" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      {placingNet && (
+        <div className="flex items-center justify-between mt-2 px-2 py-1 rounded bg-brand-primary/20 text-xs text-gray-200">
+          <span>
+            {placingPad
+              ? `Click pin ${describePad(placingPad)} of ${placingNet.name} on the photo.`
+              : `Click the photo to add pads to ${placingNet.name}. Click a pad again to remove it.`}
+          </span>
+          <button onClick={() => onPlacementChange(null)} className="font-medium text-white hover:underline">Done</button>
+        </div>
+      )}
+      {connectivity.nets.length > 0 && (
+        <ul className="mt-2 divide-y divide-gray-700/50">
+          {connectivity.nets.map(net => (
+            <NetRow
+              key={net.id}
+              net={net}
+              connectivity={connectivity}
+              placement={placement}
+              onKindChange={(kind) => onChange(setNetKind(connectivity, net.id, kind))}
+              onPlacementChange={onPlacementChange}
+              onDelete={() => handleDelete(net)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NetsPanel;
@@ -0,0 +1,208 @@
+import React, { useState, useMemo } from 'react';
+import { BoardPlacement, BoardOutline, BoardSide } from '../types';
+import { Point } from '../services/imageProcessing';
+import { importPlacement, boardToPhoto, defaultCorners, rotateCorners } from '../services/placementService';
+import { XMarkIcon } from './icons';
+
+interface PlacementImportDialogProps {
+  placement: BoardPlacement | null; // the current layout, so another side can be registered without importing again
+  photoUrl: string;
+  side: BoardSide;
+  onApply: (placement: BoardPlacement) => void;
+  onClose: () => void;
+}
+
+type RegistrationMode = 'cropped' | 'corners';
+
+const inputClass = "bg-gray-700 text-white px-2 py-1 rounded-md text-sm border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+const OUTLINE_FIELDS: { key: keyof BoardOutline; label: string }[] = [
+  { key: 'x', label: 'X' },
+  { key: 'y', label: 'Y' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+];
+
+// A photo cropped to the board has its corners at the corners of the image, in some quarter turn.
+const isCropped = (corners: Point[]) => corners.every(p => (p.x === 0 || p.x === 1) && (p.y === 0 || p.y === 1));
+
+const pct = (v: number) => `${v * 100}%`;
+
+const normalizedClick = (e: React.MouseEvent<HTMLElement>): Point => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+};
+
+const PlacementImportDialog: React.FC<PlacementImportDialogProps> = ({ placement, photoUrl, side, onApply, onClose }) => {
+  const [draft, setDraft] = useState<BoardPlacement | null>(placement);
+  const [corners, setCorners] = useState<Point[]>(placement?.registration[side] ?? defaultCorners());
+  const [mode, setMode] = useState<RegistrationMode>(isCropped(corners) ? 'cropped' : 'corners');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPlacement(await file.text(), file.name);
+      // Registrations belong to the photos, so they survive importing a newer layout.
+      setDraft({ ...imported, registration: draft?.registration ?? {} });
+      setError(null);
+    } catch (err) {
+      console.error("Failed to import placement:", err);
+      setError(err instanceof Error ? err.message : "Could not read the placement file.");
+    }
+  };
+
+  const handleModeChange = (next: RegistrationMode) => {
+    setMode(next);
+    setCorners(next === 'cropped' ? defaultCorners() : []);
+  };
+
+  const handlePhotoClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (mode !== 'corners' || corners.length >= 4) return;
+    setCorners(prev => [...prev, normalizedClick(e)]);
+  };
+
+  const handleOutlineChange = (key: keyof BoardOutline, value: string) => {
+    const number = parseFloat(value);
+    if (!draft || isNaN(number)) return;
+    setDraft({ ...draft, outline: { ...draft.outline, [key]: number } });
+  };
+
+  const registered = useMemo(
+    () => draft && corners.length === 4 ? { ...draft, registration: { ...draft.registration, [side]: corners } } : null,
+    [draft, corners, side]
+  );
+
+  // Shows where the parts land with the registration so far, so a wrong turn is easy to spot.
+  const preview = useMemo(() => {
+    if (!registered || registered.outline.width <= 0 || registered.outline.height <= 0) return { markers: [], error: null };
+    try {
+      const toPhoto = boardToPhoto(registered, side);
+      return {
+        markers: registered.parts.filter(p => p.side === side).map(part => ({ part, position: toPhoto(part.x, part.y) })),
+        error: null,
+      };
+    } catch (err) {
+      return { markers: [], error: err instanceof Error ? err.message : "The corners do not form a usable outline." };
+    }
+  }, [registered, side]);
+
+  const counts = draft ? { top: draft.parts.filter(p => p.side === 'top').length, bottom: draft.parts.filter(p => p.side === 'bottom').length } : null;
+  const hint = mode === 'cropped'
+    ? 'The photo is assumed to show exactly the board outline.'
+    : corners.length < 4
+      ? `Click corner ${corners.length + 1} of 4 on the photo, clockwise from the board's top-left.`
+      : 'Registration complete.';
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl max-h-[95vh] overflow-y-auto bg-gray-800 rounded-lg shadow-2xl ring-1 ring-white/10 p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">Board Layout{side === 'bottom' ? ' (Bottom Side)' : ''}</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+          <label className="px-3 py-1.5 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md cursor-pointer transition-colors">
+            {draft ? 'Replace File' : 'Choose File'}
+            <input type="file" accept=".kicad_pcb,.pos,.csv,.txt" className="sr-only" onChange={handleFile} />
+          </label>
+          <span className="text-gray-400">
+            {draft && counts
+              ? `${draft.source}: ${draft.parts.length} parts (${counts.top} top, ${counts.bottom} bottom)`
+              : 'KiCad .kicad_pcb board, or a pick-and-place / centroid CSV'}
+          </span>
+        </div>
+
+        {draft && (
+          <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-gray-300">
+            <span>Outline (mm):</span>
+            {OUTLINE_FIELDS.map(({ key, label }) => (
+              <label key={key} className="flex items-center space-x-1">
+                <span className="text-xs text-gray-400">{label}</span>
+                <input
+                  type="number"
+                  step="0.1"
+                  defaultValue={Math.round(draft.outline[key] * 100) / 100}
+                  key={`${draft.importedAt}-${key}`}
+                  onChange={(e) => handleOutlineChange(key, e.target.value)}
+                  className={`w-24 ${inputClass}`}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-gray-300">
+          <label htmlFor="placement-registration">Registration:</label>
+          <select id="placement-registration" value={mode} onChange={(e) => handleModeChange(e.target.value as RegistrationMode)} className={inputClass}>
+            <option value="cropped">Photo cropped to the outline</option>
+            <option value="corners">Four board corners</option>
+          </select>
+          {mode === 'corners' && corners.length > 0 && (
+            <button onClick={() => setCorners([])} className="text-xs text-gray-400 hover:text-white">Clear corners</button>
+          )}
+          <button
+            onClick={() => setCorners(rotateCorners(corners))}
+            disabled={corners.length < 4}
+            className="text-xs text-gray-400 hover:text-white disabled:opacity-40"
+            title="Turn the layout a quarter turn, for a photo taken with the board rotated"
+          >
+            Rotate 90°
+          </button>
+          <span className="text-xs text-gray-500">{hint}</span>
+        </div>
+
+        <div className={`relative mt-4 ${mode === 'corners' && corners.length < 4 ? 'cursor-crosshair' : ''}`} onClick={handlePhotoClick}>
+          <img src={photoUrl} alt="Board photo" className="w-full rounded-md select-none" draggable={false} />
+          <svg className="absolute top-0 left-0 w-full h-full overflow-visible pointer-events-none">
+            {corners.map((p, i) => {
+              const next = corners[(i + 1) % corners.length];
+              return (i < corners.length - 1 || corners.length === 4) && (
+                <line key={i} x1={pct(p.x)} y1={pct(p.y)} x2={pct(next.x)} y2={pct(next.y)} stroke="#38bdf8" strokeWidth="2" strokeDasharray="6 4" />
+              );
+            })}
+            {preview.markers.map(({ part, position }) => (
+              <g key={`${part.side}-${part.designator}`}>
+                <circle cx={pct(position.x)} cy={pct(position.y)} r="3" fill="#38bdf8" stroke="#111827" strokeWidth="1" />
+                <text x={pct(position.x)} y={pct(position.y)} dx="5" dy="-4" fontSize="10" fill="#e5e7eb" stroke="#111827" strokeWidth="2" paintOrder="stroke">
+                  {part.designator}
+                </text>
+              </g>
+            ))}
+          </svg>
+          {mode === 'corners' && corners.map((p, i) => (
+            <span
+              key={i}
+              className="absolute -ml-2.5 -mt-2.5 h-5 w-5 rounded-full bg-sky-400 ring-2 ring-white text-[10px] font-bold text-gray-900 flex items-center justify-center pointer-events-none"
+              style={{ left: pct(p.x), top: pct(p.y) }}
+            >
+              {i + 1}
+            </span>
+          ))}
+        </div>
+
+        {(error || preview.error) && <p className="mt-3 text-sm text-red-400">{error ?? preview.error}</p>}
+
+        <div className="flex justify-end space-x-2 mt-4">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => registered && onApply(registered)}
+            disabled={!registered || !!preview.error}
+            className="px-4 py-2 text-sm font-medium text-white bg-brand-primary hover:bg-brand-primary/90 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            Apply Layout
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlacementImportDialog;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { BoardPlacement, BoardSide } from '../types';
+import { PlacementMatch, likelyMissing, describePlacedPart } from '../services/placementService';
+import { XMarkIcon } from './icons';
+
+interface PlacementPanelProps {
+  placement: BoardPlacement | null;
+  matches: PlacementMatch[];
+  unexpectedCount: number; // detections the layout does not account for
+  anchorCount: number; // detections that would be renamed to their real designator
+  activeSide: BoardSide;
+  sides: BoardSide[]; // the photographed sides
+  isShown: boolean;
+  onShownChange: (isShown: boolean) => void;
+  onOpenImport: () => void;
+  onApplyDesignators: () => void;
+  onRemove: () => void;
+}
+
+const sideLabel = (side: BoardSide) => (side === 'top' ? 'Top' : 'Bottom');
+
+const PlacementPanel: React.FC<PlacementPanelProps> = ({
+  placement, matches, unexpectedCount, anchorCount, activeSide, sides, isShown, onShownChange, onOpenImport, onApplyDesignators, onRemove,
+}) => {
+  const missing = likelyMissing(matches);
+  const unregistered = placement ? sides.filter(side => !placement.registration[side]) : [];
+
+  return (
+    <div className="mt-4 bg-gray-800/50 rounded-lg px-4 py-3 text-sm">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+        <h3 className="font-medium text-gray-300">Board Layout</h3>
+        <span className="text-xs text-gray-500">
+          {placement
+            ? `${placement.source} · ${matches.length - missing.length} of ${matches.length} expected parts found`
+            : 'Import a pick-and-place file or KiCad board to check detections against the real designators.'}
+        </span>
+        <div className="flex items-center gap-2 ml-auto">
+          {placement && (
+            <>
+              <label className="flex items-center space-x-1 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isShown}
+                  onChange={(e) => onShownChange(e.target.checked)}
+                  className="rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+                />
+                <span>Show on photo</span>
+              </label>
+              <button
+                onClick={onApplyDesignators}
+                disabled={anchorCount === 0}
+                title="Rename matched detections to their designators from the layout (can be undone)"
+                className="px-3 py-1 text-sm font-medium text-white bg-brand-primary hover:bg-brand-primary/90 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors"
+              >
+                Use Real Designators{anchorCount > 0 ? ` (${anchorCount})` : ''}
+              </button>
+            </>
+          )}
+          <button onClick={onOpenImport} className="px-3 py-1 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+            {placement ? `Register ${sideLabel(activeSide)}` : 'Import Layout'}
+          </button>
+          {placement && (
+            <button onClick={onRemove} className="p-0.5 text-gray-500 hover:text-red-400" title="Remove the board layout">
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      {unregistered.length > 0 && (
+        <p className="mt-2 text-xs text-gray-500">
+          The {unregistered.map(s => sideLabel(s).toLowerCase()).join(' and ')} photo{unregistered.length > 1 ? 's are' : ' is'} assumed
+          to be cropped to the board outline.
+        </p>
+      )}
+      {missing.length > 0 && (
+        <div className="mt-2">
+          <p className="text-xs text-red-300 mb-1">Likely missing: no detection where the layout expects these parts.</p>
+          <div className="flex flex-wrap gap-1">
+            {missing.map(({ part }) => (
+              <span
+                key={`${part.side}-${part.designator}`}
+                title={describePlacedPart(part)}
+                className="px-1.5 py-0.5 font-mono text-[11px] rounded bg-red-900/40 text-red-200 ring-1 ring-red-700/60"
+              >
+                {part.designator}{sides.length > 1 ? ` (${sideLabel(part.side)})` : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      {placement && unexpectedCount > 0 && (
+        <p className="mt-2 text-xs text-amber-300">
+          {unexpectedCount} detection{unexpectedCount === 1 ? ' is' : 's are'} not in the layout: extra parts, or boxes the model got wrong.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PlacementPanel;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { BoardProject } from '../types';
+
+interface ProjectBarProps {
+  projects: BoardProject[];
+  projectId: string | null;
+  serial: string;
+  onProjectChange: (projectId: string | null) => void;
+  onSerialChange: (serial: string) => void;
+  onCreateProject: (project: Omit<BoardProject, 'id' | 'createdAt'>) => Promise<void>;
+  onShowTimeline: () => void;
+}
+
+const NEW_PROJECT = '__new__';
+
+const inputClass = "bg-gray-700 text-white px-2 py-1 rounded-md text-sm border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+export const formatProject = (project: BoardProject): string =>
+  project.revision ? `${project.name} rev ${project.revision}` : project.name;
+
+const ProjectBar: React.FC<ProjectBarProps> = ({ projects, projectId, serial, onProjectChange, onSerialChange, onCreateProject, onShowTimeline }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [revision, setRevision] = useState('');
+  const [voltage, setVoltage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    try {
+      await onCreateProject({ name: name.trim(), revision: revision.trim(), expectedVoltage: voltage ? parseFloat(voltage) : null });
+      setIsCreating(false);
+      setName('');
+      setRevision('');
+      setVoltage('');
+      setError(null);
+    } catch (err) {
+      console.error("Failed to create project:", err);
+      setError("Could not save the project.");
+    }
+  };
+
+  return (
+    <div className="mb-4 bg-gray-800/50 rounded-lg px-4 py-2 text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <label htmlFor="board-project" className="font-medium text-gray-300">Board project:</label>
+        <select
+          id="board-project"
+          value={isCreating ? NEW_PROJECT : projectId ?? ''}
+          onChange={(e) => {
+            if (e.target.value === NEW_PROJECT) {
+              setIsCreating(true);
+            } else {
+              setIsCreating(false);
+              onProjectChange(e.target.value || null);
+            }
+          }}
+          className={inputClass}
+        >
+          <option value="">None</option>
+          {projects.map(p => <option key={p.id} value={p.id}>{formatProject(p)}</option>)}
+          <option value={NEW_PROJECT}>New project...</option>
+        </select>
+        <label htmlFor="unit-serial" className="font-medium text-gray-300">Unit serial:</label>
+        <input
+          id="unit-serial"
+          value={serial}
+          onChange={(e) => onSerialChange(e.target.value)}
+          disabled={!projectId}
+          placeholder={projectId ? 'e.g., SN-00412' : 'Choose a project first'}
+          className={`w-40 disabled:opacity-40 ${inputClass}`}
+        />
+        <button
+          onClick={onShowTimeline}
+          disabled={!projectId || !serial.trim()}
+          title="Every inspection of this unit, with the defects added and fixed between visits"
+          className="px-3 py-1 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors"
+        >
+          Unit Timeline
+        </button>
+      </div>
+      {isCreating && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-2 mt-2 pb-1">
+          <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="Board model" className={`w-48 ${inputClass}`} />
+          <input value={revision} onChange={(e) => setRevision(e.target.value)} placeholder="Revision" className={`w-24 ${inputClass}`} />
+          <input type="number" value={voltage} onChange={(e) => setVoltage(e.target.value)} placeholder="Expected V" className={`w-28 ${inputClass}`} />
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim()}
+            className="px-3 py-1 text-sm font-medium text-white bg-brand-primary hover:bg-brand-primary/90 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            Create
+          </button>
+          <button onClick={() => setIsCreating(false)} className="text-xs text-gray-400 hover:text-white">Cancel</button>
+          {error && <span className="text-xs text-red-400">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectBar;
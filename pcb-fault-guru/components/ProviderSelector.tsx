@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { AnalysisProvider, analysisProviders } from '../services/analysisProvider';
+import { getFixtures, importFixtures } from '../services/replayProvider';
+import { TilingOptions, DEFAULT_TILING_OPTIONS } from '../services/tiledProvider';
+import { EnsembleOptions, DEFAULT_ENSEMBLE_OPTIONS } from '../services/ensembleProvider';
+
+interface ProviderSelectorProps {
+  provider: AnalysisProvider;
+  onProviderChange: (provider: AnalysisProvider) => void;
+  tiling: TilingOptions | null;
+  onTilingChange: (tiling: TilingOptions | null) => void;
+  ensemble: EnsembleOptions | null;
+  onEnsembleChange: (ensemble: EnsembleOptions | null) => void;
+}
+
+const TILE_SIZES = [1024, 1536, 2048, 3072];
+const ENSEMBLE_RUNS = [2, 3, 4, 5];
+const AGREEMENT_THRESHOLDS = [0.5, 0.6, 0.75, 1];
+
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({ provider, onProviderChange, tiling, onTilingChange, ensemble, onEnsembleChange }) => {
+  const [fixtureCount, setFixtureCount] = useState(() => getFixtures().length);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importFixtures(file);
+      setFixtureCount(getFixtures().length);
+      setImportMessage(`Imported ${count} fixture${count === 1 ? '' : 's'}.`);
+    } catch (err) {
+      console.error("Failed to import fixtures:", err);
+      setImportMessage(err instanceof Error ? err.message : 'Could not import fixtures.');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mb-4 bg-gray-800/60 rounded-lg p-3 flex flex-wrap items-center gap-3 text-sm">
+      <label htmlFor="analysis-provider" className="font-medium text-gray-300">Analysis Provider:</label>
+      <select
+        id="analysis-provider"
+        value={provider.id}
+        onChange={(e) => {
+          const next = analysisProviders.find(p => p.id === e.target.value);
+          if (next) onProviderChange(next);
+        }}
+        className="bg-gray-700 text-white px-2 py-1 rounded-md border-gray-600 focus:ring-brand-primary focus:border-brand-primary"
+      >
+        {analysisProviders.map(p => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      {provider.id === 'replay' && (
+        <>
+          <span className="text-gray-400">{fixtureCount} fixture{fixtureCount === 1 ? '' : 's'} available</span>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors"
+          >
+            Import Fixtures
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json" className="sr-only" onChange={handleImport} />
+        </>
+      )}
+      <div className="w-full flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-2 text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={tiling !== null}
+            onChange={(e) => onTilingChange(e.target.checked ? DEFAULT_TILING_OPTIONS : null)}
+            className="rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+          />
+          <span>Tiled high-resolution mode</span>
+        </label>
+        {tiling && (
+          <>
+            <select
+              aria-label="Tile size"
+              value={tiling.tileSize}
+              onChange={(e) => onTilingChange({ ...tiling, tileSize: parseInt(e.target.value, 10) })}
+              className="bg-gray-700 text-white px-2 py-1 rounded-md border-gray-600 focus:ring-brand-primary focus:border-brand-primary"
+            >
+              {TILE_SIZES.map(size => <option key={size} value={size}>{size}px tiles</option>)}
+            </select>
+            <select
+              aria-label="Tile overlap"
+              value={tiling.overlap}
+              onChange={(e) => onTilingChange({ ...tiling, overlap: parseFloat(e.target.value) })}
+              className="bg-gray-700 text-white px-2 py-1 rounded-md border-gray-600 focus:ring-brand-primary focus:border-brand-primary"
+            >
+              {[0.1, 0.2, 0.3].map(overlap => <option key={overlap} value={overlap}>{overlap * 100}% overlap</option>)}
+            </select>
+          </>
+        )}
+      </div>
+      <div className="w-full flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-2 text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={ensemble !== null}
+            onChange={(e) => onEnsembleChange(e.target.checked ? DEFAULT_ENSEMBLE_OPTIONS : null)}
+            className="rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+          />
+          <span>Consensus mode</span>
+        </label>
+        {ensemble && (
+          <>
+            <select
+              aria-label="Number of runs"
+              value={ensemble.runs}
+              onChange={(e) => onEnsembleChange({ ...ensemble, runs: parseInt(e.target.value, 10) })}
+              className="bg-gray-700 text-white px-2 py-1 rounded-md border-gray-600 focus:ring-brand-primary focus:border-brand-primary"
+            >
+              {ENSEMBLE_RUNS.map(runs => <option key={runs} value={runs}>{runs} runs</option>)}
+            </select>
+            <select
+              aria-label="Agreement threshold"
+              value={ensemble.minAgreement}
+              onChange={(e) => onEnsembleChange({ ...ensemble, minAgreement: parseFloat(e.target.value) })}
+              className="bg-gray-700 text-white px-2 py-1 rounded-md border-gray-600 focus:ring-brand-primary focus:border-brand-primary"
+            >
+              {AGREEMENT_THRESHOLDS.map(threshold => <option key={threshold} value={threshold}>stable at {Math.round(threshold * 100)}% agreement</option>)}
+            </select>
+          </>
+        )}
+      </div>
+      <p className="w-full text-xs text-gray-500">
+        {importMessage ?? provider.description}
+        {tiling && ' Large images are split into overlapping tiles; parts on tile seams are merged.'}
+        {ensemble && ` Each image is analyzed ${ensemble.runs} times; findings seen in fewer runs than the threshold are marked unstable.`}
+      </p>
+    </div>
+  );
+};
+
+export default ProviderSelector;
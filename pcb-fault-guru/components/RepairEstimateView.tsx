@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { CatalogPart, EstimateSettings, RepairEstimate } from '../types';
+import { formatUsd } from '../services/repairJob';
+
+export interface EstimatePanel {
+  estimate: RepairEstimate | null; // null until there is an analysis
+  prices: Map<string, CatalogPart>; // catalog entries for the suggested replacements
+  settings: EstimateSettings;
+  catalogSize: number; // parts in the local catalog
+  onSettingsChange: (settings: EstimateSettings) => void;
+  onImportCatalog: (file: File) => Promise<void>;
+  onClearCatalog: () => void;
+}
+
+interface RepairEstimateViewProps extends EstimatePanel {
+  modelEstimate?: number; // the model's single-figure guess, shown alongside
+}
+
+const fieldClass = "w-full bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-brand-primary focus:border-brand-primary";
+
+const RATE_FIELDS: { key: keyof EstimateSettings; label: string; step: string }[] = [
+  { key: 'hourlyRate', label: 'Hourly rate ($)', step: '1' },
+  { key: 'marginPercent', label: 'Margin (%)', step: '1' },
+  { key: 'baseMinutes', label: 'Setup (min)', step: '5' },
+  { key: 'minutesPerPart', label: 'Per part (min)', step: '1' },
+];
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10} h`;
+
+const RepairEstimateView: React.FC<RepairEstimateViewProps> = ({
+  estimate, settings, catalogSize, modelEstimate, onSettingsChange, onImportCatalog, onClearCatalog,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      await onImportCatalog(file);
+    } catch (err) {
+      console.error("Failed to import parts catalog:", err);
+      setError(err instanceof Error ? err.message : "Could not read the catalog file.");
+    }
+  };
+
+  const handleRateChange = (key: keyof EstimateSettings, value: string) => {
+    const number = parseFloat(value);
+    if (!isNaN(number) && number >= 0) onSettingsChange({ ...settings, [key]: number });
+  };
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg text-sm">
+      <div className="grid grid-cols-2 gap-4 text-center">
+        <div>
+          <p className="text-xs font-medium text-gray-400">Model's Estimate</p>
+          <p className="text-2xl font-bold text-gray-300">{modelEstimate ? formatUsd(modelEstimate) : 'N/A'}</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-400">Itemized Estimate</p>
+          <p className="text-2xl font-bold text-brand-accent">
+            {estimate ? `${formatUsd(estimate.total)}${estimate.unpricedCount > 0 ? '+' : ''}` : 'N/A'}
+          </p>
+        </div>
+      </div>
+
+      {estimate && (
+        <table className="w-full mt-3 text-xs">
+          <tbody>
+            {estimate.lines.map(line => (
+              <tr key={line.originalMpn} className="border-t border-gray-600/50">
+                <td className="py-1 pr-2">
+                  <p className="text-gray-200">{line.mpn ?? line.originalMpn}</p>
+                  <p className="text-gray-500">
+                    {line.designators.join(', ') || line.originalMpn}
+                    {line.mpn && line.stock !== null && ` · ${line.stock} in stock`}
+                    {line.mpn && line.leadTimeDays !== null && ` · ${line.leadTimeDays} d lead time`}
+                  </p>
+                </td>
+                <td className="py-1 text-right text-gray-400 whitespace-nowrap">
+                  {line.unitPrice !== null ? `${line.quantity} × ${formatUsd(line.unitPrice)}` : `${line.quantity} ×`}
+                </td>
+                <td className={`py-1 pl-2 text-right whitespace-nowrap ${line.lineTotal === null ? 'text-amber-300' : 'text-gray-200'}`}>
+                  {line.lineTotal !== null ? formatUsd(line.lineTotal) : 'Not in catalog'}
+                </td>
+              </tr>
+            ))}
+            <tr className="border-t border-gray-600/50">
+              <td colSpan={2} className="py-1 text-gray-400">Labor ({formatHours(estimate.laborHours)} at {formatUsd(settings.hourlyRate)}/h)</td>
+              <td className="py-1 pl-2 text-right text-gray-200">{formatUsd(estimate.laborCost)}</td>
+            </tr>
+            <tr>
+              <td colSpan={2} className="py-1 text-gray-400">Margin ({settings.marginPercent}%)</td>
+              <td className="py-1 pl-2 text-right text-gray-200">{formatUsd(estimate.margin)}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+      {estimate && estimate.unpricedCount > 0 && (
+        <p className="mt-2 text-xs text-amber-300">
+          {estimate.unpricedCount} part{estimate.unpricedCount === 1 ? ' is' : 's are'} not in the catalog, so the total leaves them out.
+        </p>
+      )}
+      {estimate?.lines.length === 0 && <p className="mt-2 text-xs text-gray-500">The advice suggests no replacement parts, so this is labor only.</p>}
+
+      <details className="mt-3">
+        <summary className="text-xs text-gray-400 cursor-pointer hover:text-white">Rates and catalog</summary>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          {RATE_FIELDS.map(({ key, label, step }) => (
+            <label key={key} className="block">
+              <span className="text-[11px] text-gray-400">{label}</span>
+              <input type="number" min={0} step={step} value={settings[key]} onChange={(e) => handleRateChange(key, e.target.value)} className={fieldClass} />
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 mt-3 text-xs">
+          <span className="text-gray-400">{catalogSize > 0 ? `Catalog: ${catalogSize} parts` : 'No parts catalog'}</span>
+          <label className="ml-auto px-2 py-1 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md cursor-pointer transition-colors">
+            Import Catalog
+            <input type="file" accept=".json,.csv,application/json,text/csv" className="sr-only" onChange={handleFile} />
+          </label>
+          {catalogSize > 0 && (
+            <button
+              onClick={() => window.confirm('Remove every part from the local catalog?') && onClearCatalog()}
+              className="text-gray-500 hover:text-red-400"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <p className="mt-1 text-[11px] text-gray-500">JSON or CSV with MPN, price (one row per price break), stock and lead time.</p>
+        {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+      </details>
+    </div>
+  );
+};
+
+export default RepairEstimateView;
@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Advice, RepairJob, JobTask, JobTaskStatus } from '../types';
+import {
+  JOB_TASK_STATUSES, JobTaskChanges, updateTask, findUntrackedAdvice, addTasks, isJobFinished,
+  recordPartUsed, removePartUsed, isSuggestedPart, partsTotal, compareCost, formatUsd,
+} from '../services/repairJob';
+import { newId } from '../services/idUtils';
+import { ClipboardDocumentCheckIcon, ArrowRightIcon, WrenchIcon, XMarkIcon } from './icons';
+
+interface RepairJobViewProps {
+  advice: Advice;
+  job: RepairJob;
+  onChange: (job: RepairJob) => void;
+}
+
+const fieldClass = "w-full bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-brand-primary focus:border-brand-primary";
+
+const STATUS_STYLES: Record<JobTaskStatus, string> = {
+  todo: 'bg-gray-700 text-gray-200',
+  in_progress: 'bg-amber-600/80 text-white',
+  done: 'bg-status-ok/80 text-white',
+  skipped: 'bg-gray-600 text-gray-300 line-through',
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+// Text fields are saved when they lose focus, so typing does not write a history entry per key.
+const CommitField: React.FC<{ value: string; placeholder: string; multiline?: boolean; list?: string; onCommit: (value: string) => void }> = ({ value, placeholder, multiline, list, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+  return multiline ? (
+    <textarea value={draft} rows={2} placeholder={placeholder} onChange={(e) => setDraft(e.target.value)} onBlur={commit} className={fieldClass} />
+  ) : (
+    <input
+      value={draft}
+      list={list}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      className={fieldClass}
+    />
+  );
+};
+
+const PhotoThumbnail: React.FC<{ file: File; onRemove: () => void }> = ({ file, onRemove }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return (
+    <div className="relative group">
+      {url && (
+        <a href={url} target="_blank" rel="noreferrer" title={file.name}>
+          <img src={url} alt={file.name} className="h-14 w-14 object-cover rounded" />
+        </a>
+      )}
+      <button
+        onClick={onRemove}
+        className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-gray-900 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Remove photo"
+      >
+        <XMarkIcon className="h-3 w-3" />
+      </button>
+    </div>
+  );
+};
+
+const TaskCard: React.FC<{ task: JobTask; technicians: string[]; onUpdate: (changes: JobTaskChanges) => void }> = ({ task, technicians, onUpdate }) => {
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const addedAt = new Date().toISOString();
+    onUpdate({ photos: [...task.photos, ...files.map(file => ({ id: newId(), file, addedAt }))] });
+  };
+
+  return (
+    <li className="bg-gray-800/60 p-3 rounded-md space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <span className={`text-sm ${task.status === 'skipped' ? 'text-gray-500 line-through' : 'text-gray-200'}`}>{task.title}</span>
+        <select
+          value={task.status}
+          onChange={(e) => onUpdate({ status: e.target.value as JobTaskStatus })}
+          className={`flex-shrink-0 rounded px-1.5 py-0.5 text-xs border-0 focus:ring-brand-primary ${STATUS_STYLES[task.status]}`}
+        >
+          {JOB_TASK_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <CommitField value={task.technician} placeholder="Technician" list="job-technicians" onCommit={(technician) => onUpdate({ technician: technician.trim() })} />
+        <p className="text-[11px] text-gray-500 self-center">
+          {task.startedAt && <>Started {formatTime(task.startedAt)}<br /></>}
+          {task.finishedAt && <>{task.status === 'skipped' ? 'Skipped' : 'Finished'} {formatTime(task.finishedAt)}</>}
+        </p>
+      </div>
+      <CommitField value={task.notes} placeholder="Notes" multiline onCommit={(notes) => onUpdate({ notes })} />
+      <div className="flex flex-wrap items-center gap-2">
+        {task.photos.map(photo => (
+          <PhotoThumbnail key={photo.id} file={photo.file} onRemove={() => onUpdate({ photos: task.photos.filter(p => p.id !== photo.id) })} />
+        ))}
+        <label className="px-2 py-1 text-xs font-medium text-gray-300 bg-gray-700 hover:bg-gray-600 rounded cursor-pointer transition-colors">
+          Add Photo
+          <input type="file" accept="image/*" capture="environment" multiple className="sr-only" onChange={handlePhotos} />
+        </label>
+      </div>
+      {technicians.length > 0 && (
+        <datalist id="job-technicians">
+          {technicians.map(name => <option key={name} value={name} />)}
+        </datalist>
+      )}
+    </li>
+  );
+};
+
+const OTHER_PART = '__other__';
+
+const PartsUsedEditor: React.FC<{ advice: Advice; job: RepairJob; onChange: (job: RepairJob) => void }> = ({ advice, job, onChange }) => {
+  const [originalMpn, setOriginalMpn] = useState(advice.alternatives[0]?.original_mpn ?? OTHER_PART);
+  const [otherOriginal, setOtherOriginal] = useState('');
+  const [usedMpn, setUsedMpn] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [unitCost, setUnitCost] = useState('');
+  const suggestions = advice.alternatives.find(a => a.original_mpn === originalMpn)?.replacements ?? [];
+  const replaced = originalMpn === OTHER_PART ? otherOriginal.trim() : originalMpn;
+  const qty = parseInt(quantity, 10);
+
+  const handleAdd = () => {
+    onChange(recordPartUsed(job, {
+      originalMpn: replaced,
+      usedMpn: usedMpn.trim(),
+      quantity: qty,
+      unitCost: unitCost ? parseFloat(unitCost) : null,
+    }));
+    setUsedMpn('');
+    setQuantity('1');
+    setUnitCost('');
+  };
+
+  return (
+    <div>
+      <h3 className="flex items-center space-x-2 text-md font-semibold text-white mb-2">
+        <WrenchIcon className="h-5 w-5 text-orange-400" />
+        <span>Parts Used</span>
+      </h3>
+      {job.partsUsed.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {job.partsUsed.map(usage => (
+            <li key={usage.id} className="flex items-center gap-2 bg-gray-800/60 px-3 py-1.5 rounded-md text-xs text-gray-300">
+              <span className="flex-grow">
+                <span className="font-semibold text-white">{usage.quantity} × {usage.usedMpn}</span> for {usage.originalMpn}
+                {usage.unitCost !== null && <span className="text-gray-400"> at {formatUsd(usage.unitCost)}</span>}
+              </span>
+              {isSuggestedPart(usage, advice.alternatives)
+                ? <span className="px-1.5 rounded bg-status-ok/20 text-status-ok">Suggested</span>
+                : <span className="px-1.5 rounded bg-amber-500/20 text-amber-300" title="Not one of the replacements the analysis suggested">Substitute</span>}
+              <button onClick={() => onChange(removePartUsed(job, usage.id))} className="text-gray-500 hover:text-red-400" title="Remove">
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-2 gap-2 bg-gray-800/60 p-3 rounded-md">
+        <label className="text-[11px] text-gray-400">
+          Replaces
+          <select value={originalMpn} onChange={(e) => { setOriginalMpn(e.target.value); setUsedMpn(''); }} className={fieldClass}>
+            {advice.alternatives.map(alt => <option key={alt.original_mpn} value={alt.original_mpn}>{alt.original_mpn}</option>)}
+            <option value={OTHER_PART}>Other part...</option>
+          </select>
+        </label>
+        {originalMpn === OTHER_PART ? (
+          <label className="text-[11px] text-gray-400">
+            Original MPN
+            <input value={otherOriginal} onChange={(e) => setOtherOriginal(e.target.value)} className={fieldClass} />
+          </label>
+        ) : <span />}
+        <label className="text-[11px] text-gray-400">
+          Fitted MPN
+          <input value={usedMpn} list="job-suggested-parts" onChange={(e) => setUsedMpn(e.target.value)} className={fieldClass} />
+          <datalist id="job-suggested-parts">
+            {suggestions.map(r => <option key={r.mpn} value={r.mpn} />)}
+          </datalist>
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-[11px] text-gray-400">
+            Qty
+            <input type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} className={fieldClass} />
+          </label>
+          <label className="text-[11px] text-gray-400">
+            Unit $
+            <input type="number" min={0} step="0.01" value={unitCost} onChange={(e) => setUnitCost(e.target.value)} className={fieldClass} />
+          </label>
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={!replaced || !usedMpn.trim() || !(qty > 0)}
+          className="col-span-2 px-3 py-1 text-xs font-medium text-white bg-gray-600 hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors"
+        >
+          Record Part
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CostSummary: React.FC<{ advice: Advice; job: RepairJob; onChange: (job: RepairJob) => void }> = ({ advice, job, onChange }) => {
+  const parts = partsTotal(job);
+  const comparison = compareCost(job, advice);
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg text-sm">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs font-medium text-gray-400">Estimated</p>
+          <p className="text-2xl font-bold text-brand-accent">{advice.repair_cost ? formatUsd(advice.repair_cost) : 'N/A'}</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-400">Final cost</p>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={job.finalCost ?? ''}
+            onChange={(e) => onChange({ ...job, finalCost: e.target.value ? parseFloat(e.target.value) : null })}
+            placeholder="0.00"
+            className="w-full bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-lg font-bold text-white focus:ring-brand-primary focus:border-brand-primary"
+          />
+        </div>
+      </div>
+      {parts !== null && (
+        <p className="mt-2 text-xs text-gray-400">
+          Recorded parts: {formatUsd(parts)}
+          {job.finalCost === null && (
+            <button onClick={() => onChange({ ...job, finalCost: Math.round(parts * 100) / 100 })} className="ml-2 text-brand-primary hover:underline">Use as final cost</button>
+          )}
+        </p>
+      )}
+      {comparison && (
+        <p className={`mt-2 text-xs font-medium ${comparison.difference > 0 ? 'text-amber-300' : 'text-status-ok'}`}>
+          {comparison.difference === 0
+            ? 'On estimate.'
+            : `${formatUsd(Math.abs(comparison.difference))} ${comparison.difference > 0 ? 'over' : 'under'} the estimate (${Math.round((comparison.ratio - 1) * 100)}%).`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const RepairJobView: React.FC<RepairJobViewProps> = ({ advice, job, onChange }) => {
+  const untracked = useMemo(() => findUntrackedAdvice(job, advice), [job, advice]);
+  const technicians = useMemo(() => Array.from(new Set(job.tasks.map(t => t.technician).filter(Boolean))), [job.tasks]);
+  const finished = job.tasks.filter(t => t.status === 'done' || t.status === 'skipped').length;
+  const update = (taskId: string, changes: JobTaskChanges) => onChange(updateTask(job, taskId, changes));
+
+  const renderTasks = (source: JobTask['source']) => job.tasks.filter(t => t.source === source).map(task => (
+    <TaskCard key={task.id} task={task} technicians={technicians} onUpdate={(changes) => update(task.id, changes)} />
+  ));
+
+  return (
+    <div className="space-y-6">
+      <CostSummary advice={advice} job={job} onChange={onChange} />
+
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>Repair job started {formatTime(job.createdAt)}</span>
+        <span className={isJobFinished(job) ? 'text-status-ok font-medium' : ''}>{finished}/{job.tasks.length} tasks finished</span>
+      </div>
+      {untracked.length > 0 && (
+        <div className="flex items-center justify-between bg-brand-primary/10 px-3 py-2 rounded-md text-xs text-gray-300">
+          <span>{untracked.length} advice item{untracked.length === 1 ? ' is' : 's are'} not in the job yet.</span>
+          <button onClick={() => onChange(addTasks(job, untracked))} className="font-medium text-brand-primary hover:underline">Add to job</button>
+        </div>
+      )}
+
+      {job.tasks.some(t => t.source === 'quick_action') && (
+        <div>
+          <h3 className="flex items-center space-x-2 text-md font-semibold text-white mb-2">
+            <ClipboardDocumentCheckIcon className="h-5 w-5 text-teal-400" />
+            <span>Quick Actions</span>
+          </h3>
+          <ul className="space-y-2">{renderTasks('quick_action')}</ul>
+        </div>
+      )}
+      {job.tasks.some(t => t.source === 'next_step') && (
+        <div>
+          <h3 className="flex items-center space-x-2 text-md font-semibold text-white mb-2">
+            <ArrowRightIcon className="h-5 w-5 text-blue-400" />
+            <span>Next Steps</span>
+          </h3>
+          <ul className="space-y-2">{renderTasks('next_step')}</ul>
+        </div>
+      )}
+
+      <PartsUsedEditor advice={advice} job={job} onChange={onChange} />
+    </div>
+  );
+};
+
+export default RepairJobView;
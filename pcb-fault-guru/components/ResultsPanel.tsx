@@ -1,7 +1,19 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { PcbAnalysis, Component, Defect, Alternative, DefectType, ChatMessage } from '../types';
+import { PcbAnalysis, Component, Defect, Alternative, DefectType, ChatMessage, ValidationWarning, BoardSide, BoardDiff, EnsembleInfo, FindingOrigin, ComponentClass, RepairJob, Triage, ExpectedBom, BomCheck } from '../types';
+import { countDiffFindings } from '../services/goldenService';
+import { isUnstable, formatAgreement } from '../services/ensembleProvider';
 import { openDatasheet } from '../services/datasheetService';
-import { CheckCircleIcon, ExclamationTriangleIcon, FireIcon, QuestionMarkCircleIcon, WrenchIcon, LinkIcon, ChevronDownIcon, ClipboardDocumentCheckIcon, ArrowRightIcon, MagnifyingGlassIcon, BoltIcon, DocumentTextIcon, ChatBubbleLeftRightIcon, PaperAirplaneIcon, SparklesIcon, SpinnerIcon } from './icons';
+import { COMPONENT_CLASSES, resolveComponentClass, getComponentClass, getClassInfo, countByClass } from '../services/componentClass';
+import { COMMON_DEFECT_TYPES } from '../services/confidenceFilter';
+import { countTriaged } from '../services/triage';
+import { getStepWarnings } from '../services/reworkPlan';
+import { createRepairJob, formatUsd } from '../services/repairJob';
+import { countBomFindings, countBomDesignators } from '../services/bomCheck';
+import RepairJobView from './RepairJobView';
+import VerificationView, { VerificationPanel } from './VerificationView';
+import RepairEstimateView, { EstimatePanel } from './RepairEstimateView';
+import TriageControls from './TriageControls';
+import { XMarkIcon, CheckCircleIcon, ExclamationTriangleIcon, FireIcon, QuestionMarkCircleIcon, WrenchIcon, LinkIcon, ChevronDownIcon, ClipboardDocumentCheckIcon, ArrowRightIcon, MagnifyingGlassIcon, BoltIcon, DocumentTextIcon, ChatBubbleLeftRightIcon, PaperAirplaneIcon, SparklesIcon, SpinnerIcon, ArrowPathIcon, StopIcon } from './icons';
 
 interface ResultsPanelProps {
   analysis: PcbAnalysis;
@@ -10,9 +22,27 @@ interface ResultsPanelProps {
   selectedId: string | null;
   setSelectedId: (id: string | null) => void;
   boardVoltage: number | null;
+  warnings: ValidationWarning[];
+  boardDiff: BoardDiff | null;
   chatHistory: ChatMessage[];
   isChatLoading: boolean;
   onSendMessage: (message: string) => void;
+  onRetryMessage: (index: number) => void;
+  onCancelMessage: () => void;
+  repairJob: RepairJob | null;
+  onRepairJobChange: (job: RepairJob | null) => void;
+  verification: VerificationPanel | null; // once the repaired board was photographed
+  onTriage: (kind: 'component' | 'defect', id: string, triage: Triage | null) => void;
+  bom: BomPanel;
+  estimate: EstimatePanel;
+}
+
+export interface BomPanel {
+  expected: ExpectedBom | null;
+  check: BomCheck | null; // null until a BOM is imported
+  onImport: () => void;
+  onRemove: () => void;
+  onDownloadReport: () => void;
 }
 
 const statusIcons = {
@@ -33,6 +63,38 @@ const translateDefectType = (type: DefectType): string => {
     return type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 }
 
+const SideBadge: React.FC<{ side?: BoardSide; throughHole?: boolean }> = ({ side, throughHole }) => {
+    if (!side) return null;
+    return (
+        <span className="inline-flex items-center space-x-1 ml-2 px-1.5 py-0.5 text-[10px] font-medium uppercase rounded bg-gray-700 text-gray-300 align-middle">
+            {throughHole && <LinkIcon className="h-3 w-3 text-sky-400" />}
+            <span>{throughHole ? 'Both sides' : side}</span>
+        </span>
+    );
+};
+
+const OriginBadge: React.FC<{ origin?: FindingOrigin }> = ({ origin }) => {
+    if (origin !== 'human') return null;
+    return (
+        <span className="ml-2 px-1.5 py-0.5 text-[10px] font-medium uppercase rounded bg-sky-500/20 text-sky-300 align-middle" title="Drawn or corrected by hand">
+            Edited
+        </span>
+    );
+};
+
+const AgreementInfo: React.FC<{ agreement?: number; ensemble?: EnsembleInfo }> = ({ agreement, ensemble }) => {
+    if (!ensemble || agreement === undefined) return null;
+    const unstable = isUnstable({ agreement }, ensemble);
+    return (
+        <p className={`text-xs ${unstable ? 'text-amber-300' : 'text-gray-500'}`} title={`Reported by ${formatAgreement(agreement, ensemble)} analysis runs`}>
+            {unstable && <span className="mr-1 px-1 py-0.5 text-[10px] font-medium uppercase rounded bg-amber-500/20 text-amber-300">Unstable</span>}
+            Agree: {formatAgreement(agreement, ensemble)}
+        </p>
+    );
+};
+
+const itemKey = (item: { side?: BoardSide }, id: string) => `${item.side ?? 'top'}-${id}`;
+
 const CollapsibleSection: React.FC<{ title: string; count: number; badgeColor: string; children: React.ReactNode; icon: React.ReactNode; defaultOpen?: boolean }> = ({ title, count, badgeColor, icon, children, defaultOpen = true }) => (
     <details className="group" open={defaultOpen}>
         <summary className="flex items-center justify-between p-2 list-none cursor-pointer hover:bg-gray-700/50 rounded-md">
@@ -49,16 +111,39 @@ const CollapsibleSection: React.FC<{ title: string; count: number; badgeColor: s
     </details>
 );
 
+const CLASS_SOURCE_TEXT = {
+    manual: 'Set by hand',
+    model: 'Reported by the model',
+    designator: 'Inferred from the designator',
+    mpn: 'Inferred from the MPN',
+    unknown: 'Could not be inferred',
+};
+
+const ClassLabel: React.FC<{ component: Component }> = ({ component }) => {
+    const { componentClass, source } = resolveComponentClass(component);
+    const info = getClassInfo(componentClass);
+    return (
+        <span className="inline-flex items-center space-x-1 text-xs text-gray-400" title={CLASS_SOURCE_TEXT[source]}>
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: info.color }} />
+            <span>{info.label}{source === 'manual' ? ' (set)' : ''}</span>
+        </span>
+    );
+};
+
+const COMPONENT_CLASS_OPTIONS = COMPONENT_CLASSES.map(c => ({ value: c.id, label: c.label }));
+
 const ComponentItem: React.FC<{
     component: Component;
     alternatives?: Alternative;
     boardVoltage: number | null;
+    ensemble?: EnsembleInfo;
     isHovered: boolean;
     isSelected: boolean;
     onMouseEnter: () => void;
     onMouseLeave: () => void;
     onClick: () => void;
-}> = ({ component, alternatives, boardVoltage, isHovered, isSelected, onMouseEnter, onMouseLeave, onClick }) => {
+    onTriage: (triage: Triage | null) => void;
+}> = ({ component, alternatives, boardVoltage, ensemble, isHovered, isSelected, onMouseEnter, onMouseLeave, onClick, onTriage }) => {
     
     const [isFetchingSheet, setIsFetchingSheet] = useState(false);
     const status = getStatusText(component);
@@ -94,13 +179,15 @@ const ComponentItem: React.FC<{
                   <div className="flex items-center space-x-3">
                       {statusIcons[component.presence === 'missing' ? 'missing' : component.condition]}
                       <div>
-                          <p className="font-bold text-white">{component.designator}</p>
+                          <p className="font-bold text-white">{component.designator}<SideBadge side={component.side} throughHole={component.throughHole} /><OriginBadge origin={component.origin} /></p>
                           <p className="text-xs text-gray-400">{component.mpn}</p>
+                          <ClassLabel component={component} />
                       </div>
                   </div>
                   <div className="text-right">
                       <p className={`font-medium text-sm ${hasIssue || hasVoltageMismatch ? 'text-orange-300' : 'text-green-300'}`}>{status}</p>
                       <p className="text-xs text-gray-500">Conf: {(component.confidence * 100).toFixed(0)}%</p>
+                      <AgreementInfo agreement={component.agreement} ensemble={ensemble} />
                   </div>
               </div>
               {(hasVoltageMismatch || component.mpn) && (
@@ -108,7 +195,7 @@ const ComponentItem: React.FC<{
                   {hasVoltageMismatch && (
                     <div className="flex items-center space-x-1 text-xs text-yellow-300">
                       <BoltIcon className="h-3 w-3"/>
-                      <span>Voltage Mismatch ({boardVoltage}V &gt; {component.maxVoltage}V)</span>
+                      <span>Voltage Mismatch ({boardVoltage}V &gt; {component.maxVoltage}V{component.maxVoltageSource === 'datasheet' ? ', per datasheet' : ''})</span>
                     </div>
                   )}
                   {component.mpn && (
@@ -119,6 +206,7 @@ const ComponentItem: React.FC<{
                   )}
                 </div>
               )}
+              <TriageControls triage={component.triage} classOptions={COMPONENT_CLASS_OPTIONS} onChange={onTriage} />
             </div>
         </li>
     );
@@ -126,12 +214,15 @@ const ComponentItem: React.FC<{
 
 const DefectItem: React.FC<{
     defect: Defect;
+    ensemble?: EnsembleInfo;
     isHovered: boolean;
     isSelected: boolean;
     onMouseEnter: () => void;
     onMouseLeave: () => void;
     onClick: () => void;
-}> = ({ defect, isHovered, isSelected, onMouseEnter, onMouseLeave, onClick }) => {
+    typeOptions: { value: string; label: string }[];
+    onTriage: (triage: Triage | null) => void;
+}> = ({ defect, ensemble, isHovered, isSelected, onMouseEnter, onMouseLeave, onClick, typeOptions, onTriage }) => {
     const baseClasses = "p-3 rounded-md transition-all duration-150 ease-in-out cursor-pointer";
     const selectedClasses = isSelected ? 'bg-purple-500/30 ring-2 ring-purple-500' : '';
     const hoveredClasses = isHovered ? 'bg-purple-500/20 ring-1 ring-purple-500' : 'bg-gray-800/50';
@@ -142,12 +233,16 @@ const DefectItem: React.FC<{
                 <div className="flex items-center space-x-3">
                   <WrenchIcon className="h-5 w-5 text-status-defect" />
                   <div>
-                    <p className="font-bold text-white capitalize">{translateDefectType(defect.type)}</p>
+                    <p className="font-bold text-white capitalize">{translateDefectType(defect.type)}<SideBadge side={defect.side} /><OriginBadge origin={defect.origin} /></p>
                     {defect.description && <p className="text-xs text-gray-400">{defect.description}</p>}
                   </div>
                 </div>
-                <div className="text-right"><p className="text-xs text-gray-500">Conf: {(defect.confidence * 100).toFixed(0)}%</p></div>
+                <div className="text-right">
+                    <p className="text-xs text-gray-500">Conf: {(defect.confidence * 100).toFixed(0)}%</p>
+                    <AgreementInfo agreement={defect.agreement} ensemble={ensemble} />
+                </div>
             </div>
+            <TriageControls triage={defect.triage} classOptions={typeOptions.filter(o => o.value !== defect.type)} onChange={onTriage} />
         </li>
     );
 };
@@ -159,23 +254,158 @@ const StatCard: React.FC<{label: string; value: number | string; colorClass: str
     </div>
 );
 
-const ExplorerView: React.FC<Omit<ResultsPanelProps, 'chatHistory' | 'isChatLoading' | 'onSendMessage'>> = ({ analysis, hoveredId, setHoveredId, selectedId, setSelectedId, boardVoltage }) => {
+const WarningsBanner: React.FC<{ warnings: ValidationWarning[] }> = ({ warnings }) => (
+    <details className="mt-3 bg-yellow-500/10 border border-yellow-500/30 rounded-md text-xs">
+        <summary className="flex items-center space-x-2 px-3 py-2 cursor-pointer text-yellow-300 font-medium">
+            <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+            <span>{warnings.length} validation warning{warnings.length === 1 ? '' : 's'} in the AI response</span>
+        </summary>
+        <ul className="px-3 pb-2 space-y-1 max-h-32 overflow-y-auto text-gray-300">
+            {warnings.map((w, index) => (
+                <li key={index}><span className="font-mono text-gray-400">{w.path}</span>: {w.message}</li>
+            ))}
+        </ul>
+    </details>
+);
+
+const DiffRow: React.FC<{ title: string; detail: string; side?: BoardSide; onClick?: () => void }> = ({ title, detail, side, onClick }) => (
+    <li
+        className={`p-3 rounded-md bg-gray-800/50 ${onClick ? 'cursor-pointer hover:bg-cyan-500/20' : ''}`}
+        onClick={onClick}
+    >
+        <p className="font-bold text-white text-sm">{title}<SideBadge side={side} /></p>
+        <p className="text-xs text-gray-400">{detail}</p>
+    </li>
+);
+
+const DiffView: React.FC<{ diff: BoardDiff; setSelectedId: (id: string) => void }> = ({ diff, setSelectedId }) => (
+    <div className="flex-grow overflow-y-auto p-4 space-y-4">
+        <p className="text-sm text-gray-400">
+            Compared with golden reference <span className="font-bold text-cyan-300">{diff.referenceName}</span>: {countDiffFindings(diff)} difference{countDiffFindings(diff) === 1 ? '' : 's'}.
+        </p>
+        {diff.missing.length > 0 && (
+            <CollapsibleSection title="Missing vs. Reference" count={diff.missing.length} badgeColor="bg-red-500/50 text-red-200" icon={<QuestionMarkCircleIcon className="h-5 w-5 text-red-300"/>}>
+                <ul className="space-y-2">{diff.missing.map(c => <DiffRow key={itemKey(c, c.designator)} title={c.designator} side={c.side} detail={`Expected ${c.mpn || 'a part'} here`} />)}</ul>
+            </CollapsibleSection>
+        )}
+        {diff.extra.length > 0 && (
+            <CollapsibleSection title="Extra Components" count={diff.extra.length} badgeColor="bg-cyan-500/50 text-cyan-200" icon={<ExclamationTriangleIcon className="h-5 w-5 text-cyan-300"/>}>
+                <ul className="space-y-2">{diff.extra.map(c => <DiffRow key={itemKey(c, c.designator)} title={c.designator} side={c.side} detail={`${c.mpn || 'Unknown MPN'} is not on the reference`} onClick={() => setSelectedId(c.designator)} />)}</ul>
+            </CollapsibleSection>
+        )}
+        {diff.mpnChanged.length > 0 && (
+            <CollapsibleSection title="MPN Changes" count={diff.mpnChanged.length} badgeColor="bg-yellow-500/50 text-yellow-200" icon={<DocumentTextIcon className="h-5 w-5 text-yellow-300"/>}>
+                <ul className="space-y-2">{diff.mpnChanged.map(ch => <DiffRow key={itemKey(ch.suspect, ch.suspect.designator)} title={ch.suspect.designator} side={ch.suspect.side} detail={`${ch.reference.mpn} → ${ch.suspect.mpn}`} onClick={() => setSelectedId(ch.suspect.designator)} />)}</ul>
+            </CollapsibleSection>
+        )}
+        {diff.conditionChanged.length > 0 && (
+            <CollapsibleSection title="Condition Changes" count={diff.conditionChanged.length} badgeColor="bg-orange-500/50 text-orange-200" icon={<FireIcon className="h-5 w-5 text-orange-300"/>}>
+                <ul className="space-y-2">{diff.conditionChanged.map(ch => <DiffRow key={itemKey(ch.suspect, ch.suspect.designator)} title={ch.suspect.designator} side={ch.suspect.side} detail={`${getStatusText(ch.reference)} → ${getStatusText(ch.suspect)}`} onClick={() => setSelectedId(ch.suspect.designator)} />)}</ul>
+            </CollapsibleSection>
+        )}
+        {diff.newDefects.length > 0 && (
+            <CollapsibleSection title="New Defects" count={diff.newDefects.length} badgeColor="bg-purple-500/50 text-purple-200" icon={<WrenchIcon className="h-5 w-5 text-purple-300"/>}>
+                <ul className="space-y-2">{diff.newDefects.map(d => <DiffRow key={itemKey(d, d.id)} title={translateDefectType(d.type)} side={d.side} detail={d.description || 'Not present on the reference'} onClick={() => setSelectedId(d.id)} />)}</ul>
+            </CollapsibleSection>
+        )}
+    </div>
+);
+
+const BomView: React.FC<BomPanel & { setSelectedId: (id: string) => void }> = ({ expected, check, onImport, onRemove, onDownloadReport, setSelectedId }) => {
+    if (!expected || !check) {
+        return (
+            <div className="flex-grow overflow-y-auto p-4 space-y-4 text-sm text-gray-400">
+                <p>
+                    Import the board's official BOM to check the detected parts against it: wrong or possibly counterfeit
+                    parts, missing and extra designators, and quantities that do not add up.
+                </p>
+                <button onClick={onImport} className="w-full px-4 py-2 font-medium text-white bg-brand-primary hover:bg-brand-primary/90 rounded-md transition-colors">
+                    Import Expected BOM
+                </button>
+            </div>
+        );
+    }
+    const findings = countBomFindings(check);
+    return (
+        <div className="flex-grow overflow-y-auto p-4 space-y-4">
+            <div className="flex items-start justify-between gap-2">
+                <p className="text-sm text-gray-400">
+                    <span className="font-bold text-gray-200">{expected.source}</span>: {expected.lines.length} lines, {countBomDesignators(expected)} designators.
+                    {' '}{check.matched} found as expected, {findings} finding{findings === 1 ? '' : 's'}.
+                </p>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button onClick={onImport} className="px-2 py-1 text-xs font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">Replace</button>
+                    <button onClick={onRemove} className="p-1 text-gray-500 hover:text-red-400" title="Remove the expected BOM">
+                        <XMarkIcon className="h-4 w-4" />
+                    </button>
+                </div>
+            </div>
+            {findings === 0 && (
+                <p className="flex items-center space-x-2 text-sm font-medium text-status-ok">
+                    <CheckCircleIcon className="h-5 w-5" /><span>Every part on the BOM was found as expected.</span>
+                </p>
+            )}
+            {check.mpnMismatches.length > 0 && (
+                <CollapsibleSection title="MPN Mismatches" count={check.mpnMismatches.length} badgeColor="bg-red-500/50 text-red-200" icon={<ExclamationTriangleIcon className="h-5 w-5 text-red-300"/>}>
+                    <ul className="space-y-2">{check.mpnMismatches.map(m => <DiffRow key={itemKey(m.component, m.designator)} title={m.designator} side={m.component.side} detail={`BOM ${m.line.mpn}, board reads ${m.component.mpn}: possible counterfeit or wrong part`} onClick={() => setSelectedId(m.designator)} />)}</ul>
+                </CollapsibleSection>
+            )}
+            {check.missing.length > 0 && (
+                <CollapsibleSection title="Missing Designators" count={check.missing.length} badgeColor="bg-orange-500/50 text-orange-200" icon={<QuestionMarkCircleIcon className="h-5 w-5 text-orange-300"/>}>
+                    <ul className="space-y-2">{check.missing.map(m => (
+                        <DiffRow
+                            key={m.designator}
+                            title={m.designator}
+                            side={m.component?.side}
+                            detail={`${m.line.mpn || m.line.value || 'Part'} ${m.component ? 'seen empty on the board' : 'not detected'}`}
+                            onClick={m.component ? () => setSelectedId(m.component!.designator) : undefined}
+                        />
+                    ))}</ul>
+                </CollapsibleSection>
+            )}
+            {check.extra.length > 0 && (
+                <CollapsibleSection title="Extra Designators" count={check.extra.length} badgeColor="bg-cyan-500/50 text-cyan-200" icon={<ExclamationTriangleIcon className="h-5 w-5 text-cyan-300"/>}>
+                    <ul className="space-y-2">{check.extra.map(c => <DiffRow key={itemKey(c, c.designator)} title={c.designator} side={c.side} detail={`${c.mpn || 'Unknown MPN'} is not on the BOM`} onClick={() => setSelectedId(c.designator)} />)}</ul>
+                </CollapsibleSection>
+            )}
+            {check.quantities.length > 0 && (
+                <CollapsibleSection title="Quantity Discrepancies" count={check.quantities.length} badgeColor="bg-yellow-500/50 text-yellow-200" icon={<DocumentTextIcon className="h-5 w-5 text-yellow-300"/>}>
+                    <ul className="space-y-2">{check.quantities.map(q => <DiffRow key={q.mpn} title={q.mpn} detail={`${q.expected} on the BOM, ${q.detected} on the board`} />)}</ul>
+                </CollapsibleSection>
+            )}
+            <button onClick={onDownloadReport} className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+                <DocumentTextIcon className="h-5 w-5" /><span>Download Cross-Check Report</span>
+            </button>
+        </div>
+    );
+};
+
+const ExplorerView: React.FC<Omit<ResultsPanelProps, 'warnings' | 'boardDiff' | 'chatHistory' | 'isChatLoading' | 'onSendMessage' | 'onRetryMessage' | 'onCancelMessage'>> = ({ analysis, hoveredId, setHoveredId, selectedId, setSelectedId, boardVoltage, onTriage }) => {
     const { advice, defects, components } = analysis;
+    const triageProgress = countTriaged(analysis);
+    const defectTypeOptions = useMemo(
+      () => Array.from(new Set([...defects.map(d => d.type), ...COMMON_DEFECT_TYPES])).sort().map(type => ({ value: type, label: translateDefectType(type) })),
+      [defects]
+    );
     const [searchTerm, setSearchTerm] = useState('');
     const [componentFilter, setComponentFilter] = useState<'all' | 'issues' | 'ok'>('all');
+    const [classFilter, setClassFilter] = useState<ComponentClass | 'all'>('all');
+    const [groupByClass, setGroupByClass] = useState(false);
+    const classCounts = useMemo(() => countByClass(components), [components]);
     
     const { componentsWithIssues, okComponents } = useMemo(() => {
       const lowercasedSearch = searchTerm.toLowerCase();
-      const filtered = searchTerm ? components.filter(c => 
+      const searched = searchTerm ? components.filter(c => 
           c.designator.toLowerCase().includes(lowercasedSearch) || 
           c.mpn.toLowerCase().includes(lowercasedSearch)
       ) : components;
+      const filtered = classFilter === 'all' ? searched : searched.filter(c => getComponentClass(c) === classFilter);
       
       return {
           componentsWithIssues: filtered.filter(c => c.presence !== 'ok' || c.condition !== 'ok' || (boardVoltage && c.maxVoltage && boardVoltage > c.maxVoltage)),
           okComponents: filtered.filter(c => c.presence === 'ok' && c.condition === 'ok' && !(boardVoltage && c.maxVoltage && boardVoltage > c.maxVoltage)),
       };
-    }, [components, searchTerm, boardVoltage]);
+    }, [components, searchTerm, boardVoltage, classFilter]);
 
     const displayedComponentsWithIssues = componentFilter === 'all' || componentFilter === 'issues' ? componentsWithIssues : [];
     const displayedOkComponents = componentFilter === 'all' || componentFilter === 'ok' ? okComponents : [];
@@ -184,6 +414,29 @@ const ExplorerView: React.FC<Omit<ResultsPanelProps, 'chatHistory' | 'isChatLoad
       setSelectedId(selectedId === id ? null : id);
     };
 
+    const renderComponent = (component: Component) => (
+      <ComponentItem
+        key={itemKey(component, component.designator)}
+        component={component}
+        alternatives={advice?.alternatives?.find(alt => alt.original_mpn === component.mpn)}
+        boardVoltage={boardVoltage}
+        ensemble={analysis.ensemble}
+        isHovered={hoveredId === component.designator}
+        isSelected={selectedId === component.designator}
+        onMouseEnter={() => setHoveredId(component.designator)}
+        onMouseLeave={() => setHoveredId(null)}
+        onClick={() => handleItemClick(component.designator)}
+        onTriage={(triage) => onTriage('component', component.designator, triage)}
+      />
+    );
+
+    // Grouped, issues come first within each class.
+    const classGroups = useMemo(() => {
+      if (!groupByClass) return [];
+      const displayed = [...displayedComponentsWithIssues, ...displayedOkComponents];
+      return countByClass(displayed).map(({ info }) => ({ info, components: displayed.filter(c => getComponentClass(c) === info.id) }));
+    }, [groupByClass, displayedComponentsWithIssues, displayedOkComponents]);
+
     return (
         <div className="h-full flex flex-col">
             <div className="p-4 border-b border-gray-700/50 space-y-3">
@@ -198,21 +451,48 @@ const ExplorerView: React.FC<Omit<ResultsPanelProps, 'chatHistory' | 'isChatLoad
                       </button>
                   )) }
               </div>
+              <div className="flex items-center justify-center space-x-3 text-sm">
+                  <select
+                    value={classFilter}
+                    onChange={e => setClassFilter(e.target.value as ComponentClass | 'all')}
+                    className="bg-gray-900/50 border border-gray-700 rounded-md py-1 px-2 text-sm focus:ring-brand-primary focus:border-brand-primary"
+                  >
+                    <option value="all">All classes ({components.length})</option>
+                    {classCounts.map(({ info, count }) => <option key={info.id} value={info.id}>{info.label} ({count})</option>)}
+                  </select>
+                  <label className="flex items-center space-x-1 text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={groupByClass}
+                      onChange={e => setGroupByClass(e.target.checked)}
+                      className="rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+                    />
+                    <span>Group by class</span>
+                  </label>
+              </div>
+              <p className="text-xs text-center text-gray-500" title="Verdicts are exported as training labels from the inspection history">
+                  Triaged {triageProgress.triaged} of {triageProgress.total} findings
+              </p>
             </div>
             <div className="flex-grow overflow-y-auto p-4 space-y-4">
                 {defects.length > 0 && (
                   <CollapsibleSection title="Detected Defects" count={defects.length} badgeColor="bg-purple-500/50 text-purple-200" icon={<WrenchIcon className="h-5 w-5 text-purple-300"/>} defaultOpen={true}>
-                    <ul className="space-y-2">{defects.map((defect) => (<DefectItem key={defect.id} defect={defect} isHovered={hoveredId === defect.id} isSelected={selectedId === defect.id} onMouseEnter={() => setHoveredId(defect.id)} onMouseLeave={() => setHoveredId(null)} onClick={() => handleItemClick(defect.id)} />))}</ul>
+                    <ul className="space-y-2">{defects.map((defect) => (<DefectItem key={itemKey(defect, defect.id)} defect={defect} ensemble={analysis.ensemble} isHovered={hoveredId === defect.id} isSelected={selectedId === defect.id} onMouseEnter={() => setHoveredId(defect.id)} onMouseLeave={() => setHoveredId(null)} onClick={() => handleItemClick(defect.id)} typeOptions={defectTypeOptions} onTriage={(triage) => onTriage('defect', defect.id, triage)} />))}</ul>
                   </CollapsibleSection>
                 )}
-                {displayedComponentsWithIssues.length > 0 && (
+                {groupByClass && classGroups.map(({ info, components: members }) => (
+                  <CollapsibleSection key={info.id} title={info.label} count={members.length} badgeColor="bg-gray-600 text-gray-200" icon={<span className="h-3 w-3 rounded-full" style={{ backgroundColor: info.color }} />} defaultOpen={members.length <= 10}>
+                    <ul className="space-y-2">{members.map(renderComponent)}</ul>
+                  </CollapsibleSection>
+                ))}
+                {!groupByClass && displayedComponentsWithIssues.length > 0 && (
                   <CollapsibleSection title="Component Issues" count={displayedComponentsWithIssues.length} badgeColor="bg-orange-500/50 text-orange-200" icon={<ExclamationTriangleIcon className="h-5 w-5 text-orange-300"/>} defaultOpen={true}>
-                    <ul className="space-y-2">{displayedComponentsWithIssues.map((component) => (<ComponentItem key={component.designator} component={component} alternatives={advice?.alternatives?.find(alt => alt.original_mpn === component.mpn)} boardVoltage={boardVoltage} isHovered={hoveredId === component.designator} isSelected={selectedId === component.designator} onMouseEnter={() => setHoveredId(component.designator)} onMouseLeave={() => setHoveredId(null)} onClick={() => handleItemClick(component.designator)}/>))}</ul>
+                    <ul className="space-y-2">{displayedComponentsWithIssues.map((component) => (<ComponentItem key={itemKey(component, component.designator)} component={component} alternatives={advice?.alternatives?.find(alt => alt.original_mpn === component.mpn)} boardVoltage={boardVoltage} ensemble={analysis.ensemble} isHovered={hoveredId === component.designator} isSelected={selectedId === component.designator} onMouseEnter={() => setHoveredId(component.designator)} onMouseLeave={() => setHoveredId(null)} onClick={() => handleItemClick(component.designator)} onTriage={(triage) => onTriage('component', component.designator, triage)}/>))}</ul>
                   </CollapsibleSection>
                 )}
-                {displayedOkComponents.length > 0 && (
+                {!groupByClass && displayedOkComponents.length > 0 && (
                     <CollapsibleSection title="OK Components" count={displayedOkComponents.length} badgeColor="bg-green-500/50 text-green-200" icon={<CheckCircleIcon className="h-5 w-5 text-green-300"/>} defaultOpen={false}>
-                        <ul className="space-y-2">{displayedOkComponents.map((component) => (<ComponentItem key={component.designator} component={component} boardVoltage={boardVoltage} isHovered={hoveredId === component.designator} isSelected={selectedId === component.designator} onMouseEnter={() => setHoveredId(component.designator)} onMouseLeave={() => setHoveredId(null)} onClick={() => handleItemClick(component.designator)}/>))}</ul>
+                        <ul className="space-y-2">{displayedOkComponents.map((component) => (<ComponentItem key={itemKey(component, component.designator)} component={component} boardVoltage={boardVoltage} ensemble={analysis.ensemble} isHovered={hoveredId === component.designator} isSelected={selectedId === component.designator} onMouseEnter={() => setHoveredId(component.designator)} onMouseLeave={() => setHoveredId(null)} onClick={() => handleItemClick(component.designator)} onTriage={(triage) => onTriage('component', component.designator, triage)}/>))}</ul>
                     </CollapsibleSection>
                 )}
             </div>
@@ -220,19 +500,75 @@ const ExplorerView: React.FC<Omit<ResultsPanelProps, 'chatHistory' | 'isChatLoad
     );
 }
 
-const SummaryView: React.FC<{ analysis: PcbAnalysis; setSelectedId: (id: string) => void }> = ({ analysis, setSelectedId }) => {
+const SummaryView: React.FC<{ analysis: PcbAnalysis; setSelectedId: (id: string) => void; job: RepairJob | null; onJobChange: (job: RepairJob | null) => void; estimate: EstimatePanel }> = ({ analysis, setSelectedId, job, onJobChange, estimate }) => {
     const { advice, components } = analysis;
 
     const findComponentByMpn = (mpn: string) => components.find(c => c.mpn === mpn);
 
+    const replacementSuggestions = advice.alternatives && advice.alternatives.length > 0 && (
+        <div>
+            <h3 className="flex items-center space-x-2 text-md font-semibold text-white mb-2">
+                <WrenchIcon className="h-5 w-5 text-orange-400" />
+                <span>Replacement Suggestions</span>
+            </h3>
+            <div className="space-y-3">
+                {advice.alternatives.map((alt, index) => {
+                    const originalComponent = findComponentByMpn(alt.original_mpn);
+                    return (
+                        <div key={index} className="bg-gray-800/60 p-3 rounded-md">
+                            <p className="text-sm font-medium text-gray-300">
+                                For: <span 
+                                    className={`font-bold text-white ${originalComponent ? 'cursor-pointer hover:underline' : ''}`}
+                                    onClick={() => originalComponent && setSelectedId(originalComponent.designator)}
+                                >
+                                    {originalComponent?.designator || alt.original_mpn}
+                                </span>
+                            </p>
+                            <div className="mt-2 space-y-1">
+                                {alt.replacements.map((rep, rIndex) => {
+                                    const part = estimate.prices.get(rep.mpn.trim());
+                                    return (
+                                        <div key={rIndex} className="text-xs pl-4 border-l-2 border-gray-700">
+                                            <p className="font-semibold text-brand-primary">
+                                                {rep.mpn}
+                                                {part && part.priceBreaks.length > 0 && (
+                                                    <span className="ml-2 font-normal text-gray-400">
+                                                        from {formatUsd(part.priceBreaks[0].unitPrice)}
+                                                        {part.stock !== null && ` · ${part.stock} in stock`}
+                                                        {part.leadTimeDays !== null && ` · ${part.leadTimeDays} d lead time`}
+                                                    </span>
+                                                )}
+                                            </p>
+                                            <p className="text-gray-400">{rep.reason}</p>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+
+    if (job) {
+        return (
+            <div className="flex-grow overflow-y-auto p-4 space-y-6">
+                <RepairJobView advice={advice} job={job} onChange={onJobChange} />
+                {replacementSuggestions}
+                <button
+                    onClick={() => window.confirm('Discard the repair job, including its notes, photos and parts?') && onJobChange(null)}
+                    className="text-xs text-gray-500 hover:text-red-400"
+                >
+                    Discard repair job
+                </button>
+            </div>
+        );
+    }
+
     return (
         <div className="flex-grow overflow-y-auto p-4 space-y-6">
-            {advice.repair_cost && (
-                <div className="bg-gray-700/50 p-4 rounded-lg text-center">
-                    <p className="text-sm font-medium text-gray-400">Estimated Repair Cost</p>
-                    <p className="text-3xl font-bold text-brand-accent">${advice.repair_cost.toFixed(2)}</p>
-                </div>
-            )}
+            <RepairEstimateView {...estimate} modelEstimate={advice.repair_cost} />
 
             {advice.quick_actions && advice.quick_actions.length > 0 && (
                 <div>
@@ -251,39 +587,7 @@ const SummaryView: React.FC<{ analysis: PcbAnalysis; setSelectedId: (id: string)
                 </div>
             )}
             
-            {advice.alternatives && advice.alternatives.length > 0 && (
-                <div>
-                    <h3 className="flex items-center space-x-2 text-md font-semibold text-white mb-2">
-                        <WrenchIcon className="h-5 w-5 text-orange-400" />
-                        <span>Replacement Suggestions</span>
-                    </h3>
-                    <div className="space-y-3">
-                        {advice.alternatives.map((alt, index) => {
-                            const originalComponent = findComponentByMpn(alt.original_mpn);
-                            return (
-                                <div key={index} className="bg-gray-800/60 p-3 rounded-md">
-                                    <p className="text-sm font-medium text-gray-300">
-                                        For: <span 
-                                            className={`font-bold text-white ${originalComponent ? 'cursor-pointer hover:underline' : ''}`}
-                                            onClick={() => originalComponent && setSelectedId(originalComponent.designator)}
-                                        >
-                                            {originalComponent?.designator || alt.original_mpn}
-                                        </span>
-                                    </p>
-                                    <div className="mt-2 space-y-1">
-                                        {alt.replacements.map((rep, rIndex) => (
-                                            <div key={rIndex} className="text-xs pl-4 border-l-2 border-gray-700">
-                                                <p className="font-semibold text-brand-primary">{rep.mpn}</p>
-                                                <p className="text-gray-400">{rep.reason}</p>
-                                            </div>
-                                        ))}
-                                    </div>
-                                </div>
-                            );
-                        })}
-                    </div>
-                </div>
-            )}
+            {replacementSuggestions}
 
              {advice.next_steps && advice.next_steps.length > 0 && (
                 <div>
@@ -301,11 +605,20 @@ const SummaryView: React.FC<{ analysis: PcbAnalysis; setSelectedId: (id: string)
                     </ol>
                 </div>
             )}
+
+            {(advice.quick_actions?.length > 0 || advice.next_steps?.length > 0) && (
+                <button
+                    onClick={() => onJobChange(createRepairJob(advice))}
+                    className="w-full px-4 py-2 text-sm font-medium text-white bg-brand-primary hover:bg-brand-primary/90 rounded-md transition-colors"
+                >
+                    Start Repair Job
+                </button>
+            )}
         </div>
     )
 }
 
-const ChatView: React.FC<Pick<ResultsPanelProps, 'chatHistory' | 'isChatLoading' | 'onSendMessage' | 'selectedId' | 'analysis'>> = ({ chatHistory, isChatLoading, onSendMessage, selectedId, analysis }) => {
+const ChatView: React.FC<Pick<ResultsPanelProps, 'chatHistory' | 'isChatLoading' | 'onSendMessage' | 'onRetryMessage' | 'onCancelMessage' | 'selectedId' | 'analysis'>> = ({ chatHistory, isChatLoading, onSendMessage, onRetryMessage, onCancelMessage, selectedId, analysis }) => {
     const [message, setMessage] = useState('');
     const chatEndRef = useRef<HTMLDivElement>(null);
 
@@ -328,13 +641,40 @@ const ChatView: React.FC<Pick<ResultsPanelProps, 'chatHistory' | 'isChatLoading'
                 {chatHistory.map((msg, index) => (
                     <div key={index} className={`flex items-end gap-2 ${msg.role === 'user' ? 'justify-end' : ''}`}>
                         {msg.role === 'model' && <SparklesIcon className="h-6 w-6 text-purple-400 flex-shrink-0" />}
-                        <div className={`max-w-xs lg:max-w-sm rounded-lg px-4 py-2 ${msg.role === 'user' ? 'bg-brand-primary text-white' : 'bg-gray-700 text-gray-200'}`}>
+                        <div className={`max-w-xs lg:max-w-sm rounded-lg px-4 py-2 ${msg.role === 'user' ? 'bg-brand-primary text-white' : msg.failed ? 'bg-red-900/40 text-red-200 ring-1 ring-red-500/30' : 'bg-gray-700 text-gray-200'}`}>
                             <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
-                            {msg.jumperSuggestion && (
+                            {msg.failed && (
+                                <button
+                                    onClick={() => onRetryMessage(index)}
+                                    disabled={isChatLoading}
+                                    className="mt-2 flex items-center space-x-1 text-xs font-medium text-red-200 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <ArrowPathIcon className="h-4 w-4" /><span>Retry this message</span>
+                                </button>
+                            )}
+                            {msg.reworkPlan && (
                                 <div className="mt-2 pt-2 border-t border-gray-500/50 text-xs text-blue-300">
-                                    <p>Jumper suggestion drawn on image.</p>
+                                    <p>Rework plan with {msg.reworkPlan.steps.length} step{msg.reworkPlan.steps.length === 1 ? '' : 's'} shown on the image.</p>
+                                    {msg.reworkPlan.steps.flatMap(getStepWarnings).map((warning, i) => (
+                                        <p key={i} className="mt-1 text-red-300"><span className="font-semibold">Do not fit this jumper.</span> {warning}</p>
+                                    ))}
                                 </div>
                             )}
+                            {msg.jumperSuggestion && (
+                                msg.jumperSuggestion.warning ? (
+                                    <div className="mt-2 pt-2 border-t border-gray-500/50 text-xs text-red-300">
+                                        <p className="font-semibold">Do not fit this jumper.</p>
+                                        <p>{msg.jumperSuggestion.warning}</p>
+                                    </div>
+                                ) : (
+                                    <div className="mt-2 pt-2 border-t border-gray-500/50 text-xs text-blue-300">
+                                        <p>Jumper suggestion drawn on image.</p>
+                                        {msg.jumperSuggestion.fromNet && msg.jumperSuggestion.fromNet === msg.jumperSuggestion.toNet && (
+                                            <p>Both ends are on {msg.jumperSuggestion.fromNet}.</p>
+                                        )}
+                                    </div>
+                                )
+                            )}
                         </div>
                     </div>
                 ))}
@@ -368,9 +708,15 @@ const ChatView: React.FC<Pick<ResultsPanelProps, 'chatHistory' | 'isChatLoading'
                         className="w-full bg-gray-900/50 border border-gray-700 rounded-md py-2 px-3 focus:ring-brand-primary focus:border-brand-primary transition"
                         disabled={isChatLoading}
                     />
-                    <button onClick={handleSend} disabled={isChatLoading || !message.trim()} className="p-2 bg-brand-primary rounded-md text-white hover:bg-brand-primary/90 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
-                        <PaperAirplaneIcon className="h-5 w-5" />
-                    </button>
+                    {isChatLoading ? (
+                        <button onClick={onCancelMessage} title="Stop waiting for a reply" className="p-2 bg-gray-600 rounded-md text-white hover:bg-gray-500 transition-colors">
+                            <StopIcon className="h-5 w-5" />
+                        </button>
+                    ) : (
+                        <button onClick={handleSend} disabled={!message.trim()} className="p-2 bg-brand-primary rounded-md text-white hover:bg-brand-primary/90 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
+                            <PaperAirplaneIcon className="h-5 w-5" />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -379,7 +725,13 @@ const ChatView: React.FC<Pick<ResultsPanelProps, 'chatHistory' | 'isChatLoading'
 
 const ResultsPanel: React.FC<ResultsPanelProps> = (props) => {
   const { summary, components, defects } = props.analysis;
-  const [activeTab, setActiveTab] = useState<'summary' | 'explorer' | 'chat'>('summary');
+  const [activeTab, setActiveTab] = useState<'summary' | 'explorer' | 'diff' | 'verify' | 'bom' | 'chat'>('summary');
+  const verifiedAt = props.verification?.verification.verifiedAt;
+
+  // A fresh photo of the repaired board opens its comparison.
+  useEffect(() => {
+    if (verifiedAt) setActiveTab('verify');
+  }, [verifiedAt]);
   
   const componentsWithIssues = useMemo(() => components.filter(c => 
       c.presence !== 'ok' || 
@@ -392,6 +744,7 @@ const ResultsPanel: React.FC<ResultsPanelProps> = (props) => {
       <div className="p-4 border-b border-gray-700/50">
         <h2 className="text-lg font-bold text-white">Analysis & Repair</h2>
         <p className="text-sm text-gray-400 mt-1">{summary}</p>
+        {props.warnings.length > 0 && <WarningsBanner warnings={props.warnings} />}
          <div className="grid grid-cols-3 gap-2 mt-4">
             <StatCard label="Components" value={components.length} colorClass="text-blue-300" />
             <StatCard label="Issues" value={componentsWithIssues.length} colorClass="text-orange-300" />
@@ -406,6 +759,22 @@ const ResultsPanel: React.FC<ResultsPanelProps> = (props) => {
           </button>
           <button onClick={() => setActiveTab('explorer')} className={`flex-grow flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium rounded-md ${activeTab === 'explorer' ? 'bg-brand-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
              <MagnifyingGlassIcon className="h-5 w-5" /><span>Explorer</span>
+          </button>
+          {props.boardDiff && (
+            <button onClick={() => setActiveTab('diff')} className={`flex-grow flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium rounded-md ${activeTab === 'diff' ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+              <ClipboardDocumentCheckIcon className="h-5 w-5" /><span>Diff</span>
+            </button>
+          )}
+          {props.verification && (
+            <button onClick={() => setActiveTab('verify')} className={`flex-grow flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium rounded-md ${activeTab === 'verify' ? 'bg-teal-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+              <CheckCircleIcon className="h-5 w-5" /><span>Verify</span>
+            </button>
+          )}
+          <button onClick={() => setActiveTab('bom')} className={`flex-grow flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium rounded-md ${activeTab === 'bom' ? 'bg-brand-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+            <DocumentTextIcon className="h-5 w-5" /><span>BOM</span>
+            {props.bom.check && countBomFindings(props.bom.check) > 0 && (
+              <span className="px-1.5 text-xs font-medium rounded-full bg-red-500/50 text-red-100">{countBomFindings(props.bom.check)}</span>
+            )}
           </button>
            <button onClick={() => setActiveTab('chat')} className={`flex-grow flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium rounded-md ${activeTab === 'chat' ? 'bg-brand-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
              <ChatBubbleLeftRightIcon className="h-5 w-5" /><span>Repair Chat</span>
@@ -413,8 +782,11 @@ const ResultsPanel: React.FC<ResultsPanelProps> = (props) => {
         </nav>
       </div>
       
-      {activeTab === 'summary' && <SummaryView analysis={props.analysis} setSelectedId={props.setSelectedId} />}
+      {activeTab === 'summary' && <SummaryView analysis={props.analysis} setSelectedId={props.setSelectedId} job={props.repairJob} onJobChange={props.onRepairJobChange} estimate={props.estimate} />}
       {activeTab === 'explorer' && <ExplorerView {...props} />}
+      {activeTab === 'diff' && props.boardDiff && <DiffView diff={props.boardDiff} setSelectedId={props.setSelectedId} />}
+      {activeTab === 'verify' && props.verification && <VerificationView {...props.verification} setSelectedId={props.setSelectedId} />}
+      {activeTab === 'bom' && <BomView {...props.bom} setSelectedId={props.setSelectedId} />}
       {activeTab === 'chat' && <ChatView {...props} />}
       
     </div>
@@ -0,0 +1,162 @@
+import React from 'react';
+import { ReworkPlan, ReworkStep, ReworkMarker, BoardSide } from '../types';
+import { getActionInfo, getStepWarnings, countDoneSteps } from '../services/reworkPlan';
+import { CheckCircleIcon, ExclamationTriangleIcon } from './icons';
+
+export interface ReworkView {
+  plan: ReworkPlan;
+  activeStepId: string | null; // null shows every pending step at once
+  onActiveStepChange: (stepId: string | null) => void;
+  onDoneChange: (stepId: string, done: boolean) => void;
+}
+
+// A marker as drawn on the side on screen, already mirrored when the view is flipped.
+export interface PlacedMarker {
+  key: string;
+  step: ReworkStep;
+  number: number; // 1-based position of the step in the plan
+  marker: ReworkMarker;
+  isFirst: boolean; // the step number is drawn next to the step's first marker
+}
+
+const WARNING_COLOR = '#ef4444';
+
+// Outlined text that stays readable on any part of the photo.
+export const SVG_LABEL_PROPS = {
+  textAnchor: 'middle' as const,
+  fontSize: 11,
+  fontWeight: 600,
+  fill: '#ffffff',
+  stroke: '#111827',
+  strokeWidth: 3,
+  paintOrder: 'stroke',
+};
+
+const pct = (v: number) => `${v * 100}%`;
+
+const anchorOf = (marker: ReworkMarker) => (marker.type === 'area' ? { x: marker.bbox.x, y: marker.bbox.y } : marker.from);
+
+// Nested SVGs accept percentage positions, so fixed-size symbols can sit at a normalized point.
+const StepBadge: React.FC<{ x: number; y: number; number: number; color: string }> = ({ x, y, number, color }) => (
+  <svg x={pct(x)} y={pct(y)} overflow="visible">
+    <circle r="9" fill={color} stroke="#111827" strokeWidth="1.5" />
+    <text dy="4" textAnchor="middle" fontSize="11" fontWeight="700" fill="#111827">{number}</text>
+  </svg>
+);
+
+const MarkerShape: React.FC<{ placed: PlacedMarker }> = ({ placed: { marker, step, number, isFirst } }) => {
+  const warning = marker.type === 'line' ? marker.warning : undefined;
+  const color = warning ? WARNING_COLOR : getActionInfo(step.action).color;
+  const anchor = anchorOf(marker);
+  return (
+    <g opacity={step.doneAt ? 0.45 : 1}>
+      {marker.type === 'area' && (
+        <rect
+          x={pct(marker.bbox.x)} y={pct(marker.bbox.y)} width={pct(marker.bbox.w)} height={pct(marker.bbox.h)}
+          fill={color} fillOpacity="0.15" stroke={color} strokeWidth="2" strokeDasharray="6 3" rx="3"
+        />
+      )}
+      {marker.type === 'cut' && (
+        <>
+          <line x1={pct(marker.from.x)} y1={pct(marker.from.y)} x2={pct(marker.to.x)} y2={pct(marker.to.y)} stroke={color} strokeWidth="4" />
+          <svg x={pct((marker.from.x + marker.to.x) / 2)} y={pct((marker.from.y + marker.to.y) / 2)} overflow="visible">
+            <path d="M-7,-7 L7,7 M-7,7 L7,-7" stroke="#ffffff" strokeWidth="5" strokeLinecap="round" />
+            <path d="M-7,-7 L7,7 M-7,7 L7,-7" stroke={color} strokeWidth="3" strokeLinecap="round" />
+          </svg>
+        </>
+      )}
+      {/* A jumper that would short two nets is drawn as a warning, not a recommendation. */}
+      {marker.type === 'line' && (
+        <>
+          <line
+            x1={pct(marker.from.x)} y1={pct(marker.from.y)} x2={pct(marker.to.x)} y2={pct(marker.to.y)}
+            stroke={color} strokeWidth="3" strokeDasharray={warning ? '2 6' : '4'}
+          />
+          {[{ point: marker.from, net: marker.fromNet }, { point: marker.to, net: marker.toNet }].map(({ point, net }, i) => (
+            <g key={i}>
+              <circle cx={pct(point.x)} cy={pct(point.y)} r="5" fill={color} />
+              {net && <text x={pct(point.x)} y={pct(point.y)} dy="-9" {...SVG_LABEL_PROPS}>{net}</text>}
+            </g>
+          ))}
+          {warning && (
+            <text
+              x={pct((marker.from.x + marker.to.x) / 2)}
+              y={pct((marker.from.y + marker.to.y) / 2)}
+              dy="18"
+              {...SVG_LABEL_PROPS}
+              fill="#fca5a5"
+            >
+              {`⚠ ${warning}`}
+            </text>
+          )}
+        </>
+      )}
+      {isFirst && <StepBadge x={anchor.x} y={anchor.y} number={number} color={color} />}
+    </g>
+  );
+};
+
+export const ReworkLayer: React.FC<{ markers: PlacedMarker[] }> = ({ markers }) => (
+  <svg className="absolute top-0 left-0 w-full h-full overflow-visible z-20">
+    {markers.map(placed => <MarkerShape key={placed.key} placed={placed} />)}
+  </svg>
+);
+
+const navButtonClass = "px-2 py-0.5 font-medium rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-30 transition-colors";
+
+export const StepNavigator: React.FC<{
+  rework: ReworkView;
+  activeSide: BoardSide;
+  onSideChange: (side: BoardSide) => void;
+  canShowSide: (side: BoardSide) => boolean;
+}> = ({ rework, activeSide, onSideChange, canShowSide }) => {
+  const { plan, activeStepId, onActiveStepChange, onDoneChange } = rework;
+  const index = plan.steps.findIndex(s => s.id === activeStepId);
+  const step = index >= 0 ? plan.steps[index] : null;
+  const done = countDoneSteps(plan);
+  const firstPending = plan.steps.find(s => !s.doneAt) ?? plan.steps[0];
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 max-w-md bg-gray-900/80 backdrop-blur-md px-2 py-1.5 rounded-lg shadow-xl ring-1 ring-white/10 text-xs text-gray-200">
+      {step ? (
+        <>
+          <div className="flex items-center gap-1">
+            <button onClick={() => onActiveStepChange(plan.steps[index - 1].id)} disabled={index === 0} className={navButtonClass} title="Previous step">‹</button>
+            <span className="font-semibold whitespace-nowrap">Step {index + 1} of {plan.steps.length}</span>
+            <span className="px-1.5 rounded text-gray-900 font-semibold" style={{ backgroundColor: getActionInfo(step.action).color }}>{getActionInfo(step.action).label}</span>
+            <button onClick={() => onActiveStepChange(plan.steps[index + 1].id)} disabled={index === plan.steps.length - 1} className={navButtonClass} title="Next step">›</button>
+            <button
+              onClick={() => onDoneChange(step.id, !step.doneAt)}
+              className={`flex items-center space-x-1 px-2 py-0.5 font-medium rounded-md transition-colors ${step.doneAt ? 'bg-status-ok/80 text-white' : 'bg-gray-600 hover:bg-gray-500 text-white'}`}
+            >
+              <CheckCircleIcon className="h-3.5 w-3.5" />
+              <span>{step.doneAt ? 'Done' : 'Mark Done'}</span>
+            </button>
+            <button onClick={() => onActiveStepChange(null)} className={navButtonClass} title="Show every pending step">All</button>
+          </div>
+          <p className="mt-1 px-1 text-gray-300">{step.instruction}</p>
+          {getStepWarnings(step).map((warning, i) => (
+            <p key={i} className="mt-1 px-1 flex items-center space-x-1 text-red-300">
+              <ExclamationTriangleIcon className="h-3.5 w-3.5 flex-shrink-0" /><span>{warning}</span>
+            </p>
+          ))}
+          {step.side !== activeSide && canShowSide(step.side) && (
+            <button onClick={() => onSideChange(step.side)} className="mt-1 px-1 text-brand-primary hover:underline">
+              This step is on the {step.side} side - show it
+            </button>
+          )}
+        </>
+      ) : (
+        <div className="flex items-center gap-2">
+          <span className="font-semibold truncate">{plan.title}</span>
+          <span className="text-gray-400 whitespace-nowrap">{done}/{plan.steps.length} done</span>
+          {firstPending && (
+            <button onClick={() => onActiveStepChange(firstPending.id)} className="px-2 py-0.5 font-medium rounded-md bg-brand-primary text-white hover:bg-brand-primary/90 transition-colors">
+              Step Through
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ReworkPlan } from '../types';
+import { getActionInfo, getStepWarnings, countDoneSteps } from '../services/reworkPlan';
+import { ExclamationTriangleIcon } from './icons';
+
+interface ReworkPlanPanelProps {
+  plan: ReworkPlan | null;
+  activeStepId: string | null;
+  onActiveStepChange: (stepId: string | null) => void;
+  onDoneChange: (stepId: string, done: boolean) => void;
+  onDraft: () => void;
+  onClear: () => void;
+}
+
+const ReworkPlanPanel: React.FC<ReworkPlanPanelProps> = ({ plan, activeStepId, onActiveStepChange, onDoneChange, onDraft, onClear }) => (
+  <div className="mt-4 bg-gray-800/50 rounded-lg px-4 py-3 text-sm">
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+      <h3 className="font-medium text-gray-300">Rework Plan{plan ? `: ${plan.title}` : ''}</h3>
+      {plan && <span className="text-xs text-gray-400">{countDoneSteps(plan)}/{plan.steps.length} steps done</span>}
+      <div className="flex items-center gap-2 ml-auto">
+        <button
+          onClick={onDraft}
+          title="Propose steps for the missing, burnt and corroded parts and the solder defects"
+          className="px-3 py-1 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors"
+        >
+          Draft from Analysis
+        </button>
+        {plan && (
+          <button onClick={onClear} className="px-3 py-1 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+    {!plan ? (
+      <p className="mt-2 text-xs text-gray-500">No plan yet. Ask Guru for a rework plan in the chat, or draft one from the findings.</p>
+    ) : plan.steps.length === 0 ? (
+      <p className="mt-2 text-xs text-gray-500">The findings on screen need no rework.</p>
+    ) : (
+      <ol className="mt-2 space-y-1">
+        {plan.steps.map((step, index) => {
+          const info = getActionInfo(step.action);
+          const isActive = step.id === activeStepId;
+          return (
+            <li
+              key={step.id}
+              onClick={() => onActiveStepChange(isActive ? null : step.id)}
+              className={`flex items-start gap-2 rounded-md px-2 py-1 cursor-pointer transition-colors ${isActive ? 'bg-brand-primary/20 ring-1 ring-brand-primary' : 'hover:bg-gray-700/50'}`}
+            >
+              <input
+                type="checkbox"
+                checked={!!step.doneAt}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => onDoneChange(step.id, e.target.checked)}
+                title={step.doneAt ? `Done ${new Date(step.doneAt).toLocaleString()}` : 'Mark this step done'}
+                className="mt-0.5 rounded bg-gray-700 border-gray-600 text-brand-primary focus:ring-brand-primary"
+              />
+              <span className="w-5 text-right text-gray-500 tabular-nums">{index + 1}.</span>
+              <span className="px-1.5 rounded text-xs font-semibold text-gray-900 whitespace-nowrap" style={{ backgroundColor: info.color }}>{info.label}</span>
+              <div className={`flex-grow ${step.doneAt ? 'line-through text-gray-500' : 'text-gray-200'}`}>
+                <p>{step.instruction}</p>
+                {getStepWarnings(step).map((warning, i) => (
+                  <p key={i} className="flex items-center space-x-1 text-xs text-red-300 no-underline">
+                    <ExclamationTriangleIcon className="h-3.5 w-3.5 flex-shrink-0" /><span>{warning}</span>
+                  </p>
+                ))}
+              </div>
+              {step.side === 'bottom' && <span className="text-xs text-gray-400">Bottom</span>}
+            </li>
+          );
+        })}
+      </ol>
+    )}
+  </div>
+);
+
+export default ReworkPlanPanel;
@@ -0,0 +1,225 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { PcbAnalysis, BoardSide, AnalysisResult } from '../types';
+import { Point } from '../services/imageProcessing';
+import {
+  ThermalStatistic, GrayscaleImage, ThermalMatrix, DEFAULT_OVERHEAT_THRESHOLD,
+  parseThermalCsv, decodeGrayscalePng, grayscaleToMatrix, renderThermalMatrix, buildPhotoToThermal, applyThermalMeasurements,
+} from '../services/thermalService';
+import { ThermometerIcon, XMarkIcon } from './icons';
+
+interface ThermalImportDialogProps {
+  analysis: PcbAnalysis;
+  photoUrl: string;
+  side: BoardSide;
+  onApply: (result: AnalysisResult) => void;
+  onClose: () => void;
+}
+
+type RegistrationMode = 0 | 2 | 4;
+
+const inputClass = "bg-gray-700 text-white px-2 py-1 rounded-md text-sm border-gray-600 focus:ring-brand-primary focus:border-brand-primary";
+
+const PointMarkers: React.FC<{ points: Point[]; color: string }> = ({ points, color }) => (
+  <>
+    {points.map((p, i) => (
+      <span
+        key={i}
+        className={`absolute -ml-2.5 -mt-2.5 h-5 w-5 rounded-full ${color} ring-2 ring-white text-[10px] font-bold text-gray-900 flex items-center justify-center pointer-events-none`}
+        style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+      >
+        {i + 1}
+      </span>
+    ))}
+  </>
+);
+
+const normalizedClick = (e: React.MouseEvent<HTMLElement>): Point => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+};
+
+const ThermalImportDialog: React.FC<ThermalImportDialogProps> = ({ analysis, photoUrl, side, onApply, onClose }) => {
+  const [csvMatrix, setCsvMatrix] = useState<ThermalMatrix | null>(null);
+  const [grayscale, setGrayscale] = useState<GrayscaleImage | null>(null);
+  const [scaleMin, setScaleMin] = useState(20);
+  const [scaleMax, setScaleMax] = useState(120);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<RegistrationMode>(0);
+  const [photoPoints, setPhotoPoints] = useState<Point[]>([]);
+  const [thermalPoints, setThermalPoints] = useState<Point[]>([]);
+  const [statistic, setStatistic] = useState<ThermalStatistic>('max');
+  const [threshold, setThreshold] = useState(DEFAULT_OVERHEAT_THRESHOLD);
+  const [error, setError] = useState<string | null>(null);
+  const photoRef = useRef<HTMLImageElement>(null);
+
+  // 16-bit images only become temperatures once the camera's scale is known.
+  const matrix = useMemo(
+    () => csvMatrix ?? (grayscale && scaleMax > scaleMin ? grayscaleToMatrix(grayscale, scaleMin, scaleMax) : null),
+    [csvMatrix, grayscale, scaleMin, scaleMax]
+  );
+  const thermalPreview = useMemo(() => (matrix ? renderThermalMatrix(matrix).toDataURL() : null), [matrix]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setCsvMatrix(null);
+    setGrayscale(null);
+    setPhotoPoints([]);
+    setThermalPoints([]);
+    try {
+      if (/\.png$/i.test(file.name) || file.type === 'image/png') {
+        setGrayscale(await decodeGrayscalePng(file));
+      } else {
+        setCsvMatrix(parseThermalCsv(await file.text()));
+      }
+      setFileName(file.name);
+    } catch (err) {
+      console.error("Failed to read thermal capture:", err);
+      setFileName(null);
+      setError(err instanceof Error ? err.message : "Could not read the thermal capture.");
+    }
+  };
+
+  const handleModeChange = (next: RegistrationMode) => {
+    setMode(next);
+    setPhotoPoints([]);
+    setThermalPoints([]);
+  };
+
+  // Points are picked in pairs: photo first, then the same spot on the capture.
+  const handlePhotoClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (photoPoints.length >= mode || photoPoints.length > thermalPoints.length) return;
+    setPhotoPoints(prev => [...prev, normalizedClick(e)]);
+  };
+
+  const handleThermalClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (thermalPoints.length >= photoPoints.length) return;
+    setThermalPoints(prev => [...prev, normalizedClick(e)]);
+  };
+
+  const isRegistered = photoPoints.length === mode && thermalPoints.length === mode;
+  const nextHint = !matrix
+    ? 'Choose a thermal capture to begin.'
+    : mode === 0
+      ? 'The capture is assumed to show exactly the same area as the photo.'
+      : isRegistered
+        ? 'Registration complete.'
+        : photoPoints.length > thermalPoints.length
+          ? `Click point ${thermalPoints.length + 1} on the thermal image.`
+          : `Click point ${photoPoints.length + 1} of ${mode} on the photo, e.g. a board corner or connector.`;
+
+  const handleApply = () => {
+    const photo = photoRef.current;
+    if (!matrix || !photo) return;
+    try {
+      const photoToThermal = buildPhotoToThermal(
+        { photo: photoPoints, thermal: thermalPoints },
+        { width: photo.naturalWidth, height: photo.naturalHeight },
+        matrix
+      );
+      onApply(applyThermalMeasurements(analysis, matrix, photoToThermal, { statistic, overheatThreshold: threshold, side }));
+    } catch (err) {
+      console.error("Failed to apply thermal data:", err);
+      setError(err instanceof Error ? err.message : "Could not apply the thermal data.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-5xl max-h-[95vh] overflow-y-auto bg-gray-800 rounded-lg shadow-2xl ring-1 ring-white/10 p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center space-x-2 text-lg font-bold text-white">
+            <ThermometerIcon className="h-5 w-5 text-red-400" />
+            <span>Import Thermal Capture{side === 'bottom' ? ' (Bottom Side)' : ''}</span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+          <label className="px-3 py-1.5 font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md cursor-pointer transition-colors">
+            Choose File
+            <input type="file" accept=".csv,.txt,image/png" className="sr-only" onChange={handleFile} />
+          </label>
+          <span className="text-gray-400">{fileName ?? 'CSV temperature matrix or 8/16-bit grayscale PNG'}</span>
+          {grayscale && (
+            <span className="flex items-center space-x-2">
+              <span>Black =</span>
+              <input type="number" value={scaleMin} onChange={(e) => setScaleMin(parseFloat(e.target.value) || 0)} className={`w-20 ${inputClass}`} />
+              <span>°C, white =</span>
+              <input type="number" value={scaleMax} onChange={(e) => setScaleMax(parseFloat(e.target.value) || 0)} className={`w-20 ${inputClass}`} />
+              <span>°C</span>
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-gray-300">
+          <label htmlFor="thermal-registration">Registration:</label>
+          <select id="thermal-registration" value={mode} onChange={(e) => handleModeChange(parseInt(e.target.value, 10) as RegistrationMode)} className={inputClass}>
+            <option value={0}>None (same framing)</option>
+            <option value={2}>Two points</option>
+            <option value={4}>Four points</option>
+          </select>
+          {mode > 0 && (
+            <button onClick={() => handleModeChange(mode)} className="text-xs text-gray-400 hover:text-white">Clear points</button>
+          )}
+          <span className="text-xs text-gray-500">{nextHint}</span>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div className="relative cursor-crosshair" onClick={handlePhotoClick}>
+            <img ref={photoRef} src={photoUrl} alt="Board photo" className="w-full rounded-md select-none" draggable={false} />
+            <PointMarkers points={photoPoints} color="bg-sky-400" />
+          </div>
+          <div className="relative cursor-crosshair bg-gray-900/60 rounded-md min-h-[12rem]" onClick={handleThermalClick}>
+            {thermalPreview ? (
+              <>
+                <img src={thermalPreview} alt="Thermal capture" className="w-full rounded-md select-none [image-rendering:pixelated]" draggable={false} />
+                <PointMarkers points={thermalPoints} color="bg-amber-400" />
+              </>
+            ) : (
+              <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">No thermal capture loaded</p>
+            )}
+          </div>
+        </div>
+        {matrix && (
+          <p className="mt-2 text-xs text-gray-500">
+            {matrix.width} × {matrix.height} readings, {matrix.min.toFixed(1)}°C to {matrix.max.toFixed(1)}°C
+          </p>
+        )}
+
+        {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+            <label htmlFor="thermal-statistic">Component temperature:</label>
+            <select id="thermal-statistic" value={statistic} onChange={(e) => setStatistic(e.target.value as ThermalStatistic)} className={inputClass}>
+              <option value="max">Maximum in box</option>
+              <option value="mean">Mean in box</option>
+            </select>
+            <label htmlFor="thermal-threshold">Overheating above</label>
+            <input id="thermal-threshold" type="number" value={threshold} onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)} className={`w-20 ${inputClass}`} />
+            <span>°C</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!matrix || !isRegistered}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md transition-colors"
+            >
+              Apply Measurements
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThermalImportDialog;
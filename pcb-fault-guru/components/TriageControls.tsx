@@ -0,0 +1,51 @@
+import React from 'react';
+import { Triage, TriageVerdict } from '../types';
+import { TRIAGE_VERDICTS, createTriage } from '../services/triage';
+
+interface TriageControlsProps {
+  triage?: Triage;
+  classOptions: { value: string; label: string }[]; // what a wrong class can be corrected to
+  onChange: (triage: Triage | null) => void;
+}
+
+// Rows are clickable to select the finding; the controls must not select it too.
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/**
+ * Confirm, reject or reclassify a finding. Clicking the current verdict clears it.
+ */
+const TriageControls: React.FC<TriageControlsProps> = ({ triage, classOptions, onChange }) => {
+  const handleVerdict = (verdict: TriageVerdict) =>
+    onChange(triage?.verdict === verdict ? null : createTriage(verdict, triage?.correctedClass));
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2" onClick={stop}>
+      {TRIAGE_VERDICTS.map(v => {
+        const isActive = triage?.verdict === v.id;
+        return (
+          <button
+            key={v.id}
+            onClick={() => handleVerdict(v.id)}
+            className={`px-1.5 py-0.5 text-[10px] font-medium uppercase rounded transition-colors ${isActive ? 'text-gray-900' : 'bg-gray-700 text-gray-400 hover:text-white'}`}
+            style={isActive ? { backgroundColor: v.color } : undefined}
+            title={isActive ? 'Clear the verdict' : `Mark as ${v.label.toLowerCase()}`}
+          >
+            {v.label}
+          </button>
+        );
+      })}
+      {triage?.verdict === 'wrong_class' && (
+        <select
+          value={triage.correctedClass ?? ''}
+          onChange={(e) => onChange(createTriage('wrong_class', e.target.value || undefined))}
+          className="bg-gray-900/50 border border-gray-700 rounded py-0 px-1 text-[11px] text-gray-200 focus:ring-brand-primary focus:border-brand-primary"
+        >
+          <option value="">Correct class...</option>
+          {classOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default TriageControls;
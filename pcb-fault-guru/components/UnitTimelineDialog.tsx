@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BoardProject, UnitTimeline, UnitFinding } from '../types';
+import { loadUnitInspections } from '../services/historyStore';
+import { buildUnitTimeline, describeFinding } from '../services/timelineService';
+import { formatProject } from './ProjectBar';
+import { ExclamationTriangleIcon, XMarkIcon, SpinnerIcon } from './icons';
+
+interface UnitTimelineDialogProps {
+  project: BoardProject;
+  serial: string;
+  currentId: string | null;
+  refreshKey: number; // bump to rebuild after the open inspection is saved
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}
+
+const FindingChip: React.FC<{ finding: UnitFinding; tone: 'added' | 'fixed'; isRepeat: boolean }> = ({ finding, tone, isRepeat }) => (
+  <span
+    className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded text-xs ${
+      tone === 'added' ? 'bg-red-500/20 text-red-300' : 'bg-green-500/20 text-green-300 line-through decoration-green-300/60'
+    } ${isRepeat && tone === 'added' ? 'ring-1 ring-amber-400' : ''}`}
+  >
+    {isRepeat && tone === 'added' && <ExclamationTriangleIcon className="h-3 w-3 text-amber-400" />}
+    <span>{describeFinding(finding)}</span>
+  </span>
+);
+
+const UnitTimelineDialog: React.FC<UnitTimelineDialogProps> = ({ project, serial, currentId, refreshKey, onOpen, onClose }) => {
+  const [timeline, setTimeline] = useState<UnitTimeline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadUnitInspections(project.id, serial)
+      .then(records => { if (!cancelled) setTimeline(buildUnitTimeline(records)); })
+      .catch(err => {
+        console.error("Failed to load unit timeline:", err);
+        if (!cancelled) setError("Could not load the inspections of this unit.");
+      });
+    return () => { cancelled = true; };
+  }, [project.id, serial, refreshKey]);
+
+  const repeatCounts = useMemo(
+    () => new Map(timeline?.repeatFailures.map(r => [r.designator, r.count]) ?? []),
+    [timeline]
+  );
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-gray-800 rounded-lg shadow-2xl ring-1 ring-white/10 p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">
+            {formatProject(project)} <span className="text-gray-400 font-normal">· Unit {serial.trim()}</span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full transition-colors">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {!timeline && !error && <div className="flex justify-center p-6"><SpinnerIcon className="h-6 w-6 text-brand-primary" /></div>}
+
+        {timeline && (
+          <>
+            {timeline.repeatFailures.length > 0 && (
+              <div className="mb-4 bg-amber-900/30 ring-1 ring-amber-500/30 rounded-lg p-3 text-sm">
+                <p className="flex items-center space-x-1 font-medium text-amber-200">
+                  <ExclamationTriangleIcon className="h-4 w-4" />
+                  <span>Repeat failures</span>
+                </p>
+                <p className="mt-1 text-gray-300">
+                  {timeline.repeatFailures.map(r => `${r.designator} (${r.count} visits)`).join(', ')}
+                </p>
+              </div>
+            )}
+            {timeline.visits.length === 0 ? (
+              <p className="p-4 text-sm text-center text-gray-500">No saved inspections of this unit yet.</p>
+            ) : (
+              <ol className="relative border-l border-gray-600 ml-2 space-y-5">
+                {timeline.visits.map((visit, i) => (
+                  <li key={visit.inspectionId} className="ml-4">
+                    <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${visit.inspectionId === currentId ? 'bg-brand-primary' : 'bg-gray-500'}`} />
+                    <div className="flex items-baseline justify-between gap-3">
+                      <button onClick={() => onOpen(visit.inspectionId)} className="text-left text-sm font-medium text-white hover:text-brand-primary">
+                        {visit.name}
+                        {visit.inspectionId === currentId && <span className="ml-2 text-xs text-brand-primary">(open)</span>}
+                      </button>
+                      <span className="flex-shrink-0 text-xs text-gray-400">{new Date(visit.createdAt).toLocaleString()}</span>
+                    </div>
+                    <p className="text-xs text-gray-500">{visit.findings.length} open finding{visit.findings.length === 1 ? '' : 's'}</p>
+                    {visit.added.length === 0 && visit.fixed.length === 0 ? (
+                      <p className="mt-1 text-xs text-gray-500">{i === 0 ? 'No problems found.' : 'No change since the previous visit.'}</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-1.5 mt-1.5">
+                        {visit.added.map((f, j) => (
+                          <FindingChip key={`added-${j}`} finding={f} tone="added" isRepeat={!!f.designator && repeatCounts.has(f.designator)} />
+                        ))}
+                        {visit.fixed.map((f, j) => (
+                          <FindingChip key={`fixed-${j}`} finding={f} tone="fixed" isRepeat={false} />
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnitTimelineDialog;
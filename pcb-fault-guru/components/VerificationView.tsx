@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo } from 'react';
+import { BoardSide, BoundingBox, RepairVerification, VerifiedFinding, VerificationOutcome } from '../types';
+import { VERIFICATION_OUTCOMES, getOutcomeInfo, countOutcomes, currentFinding, verifiedSides, isRepairVerified } from '../services/verificationService';
+import { describeFinding } from '../services/timelineService';
+import { CheckCircleIcon, ExclamationTriangleIcon, DocumentTextIcon } from './icons';
+
+export interface VerificationPanel {
+  verification: RepairVerification;
+  findings: VerifiedFinding[];
+  beforeImageUrls: Partial<Record<BoardSide, string>>;
+  isClosing: boolean;
+  onCloseOut: () => void;
+}
+
+const pct = (v: number) => `${v * 100}%`;
+
+// One photo with the verified findings boxed in their outcome colors.
+const FindingsImage: React.FC<{ url: string; label: string; boxes: { key: string; bbox: BoundingBox; outcome: VerificationOutcome }[] }> = ({ url, label, boxes }) => (
+  <figure className="flex-1 min-w-0">
+    <div className="relative">
+      <img src={url} alt={label} className="w-full rounded" />
+      <svg className="absolute top-0 left-0 w-full h-full overflow-visible">
+        {boxes.map(({ key, bbox, outcome }) => (
+          <rect
+            key={key}
+            x={pct(bbox.x)} y={pct(bbox.y)} width={pct(bbox.w)} height={pct(bbox.h)}
+            fill="none" stroke={getOutcomeInfo(outcome).color} strokeWidth="2"
+          />
+        ))}
+      </svg>
+    </div>
+    <figcaption className="mt-1 text-xs text-center text-gray-400">{label}</figcaption>
+  </figure>
+);
+
+const VerificationView: React.FC<VerificationPanel & { setSelectedId: (id: string) => void }> = ({ verification, findings, beforeImageUrls, isClosing, onCloseOut, setSelectedId }) => {
+  const counts = countOutcomes(findings);
+  const sides = verifiedSides(verification);
+  const afterImageUrls = useMemo(
+    () => Object.fromEntries(sides.map(side => [side, URL.createObjectURL(verification.images[side]!)])) as Partial<Record<BoardSide, string>>,
+    [verification.images]
+  );
+  useEffect(() => () => Object.values(afterImageUrls).forEach(url => url && URL.revokeObjectURL(url)), [afterImageUrls]);
+
+  return (
+    <div className="flex-grow overflow-y-auto p-4 space-y-4">
+      <p className="text-sm text-gray-400">
+        Repaired board photographed {new Date(verification.verifiedAt).toLocaleString()} and compared with this inspection.
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        {VERIFICATION_OUTCOMES.map(o => (
+          <div key={o.id} className="bg-gray-700/50 p-2 rounded-lg text-center">
+            <p className="text-2xl font-bold" style={{ color: o.color }}>{counts[o.id]}</p>
+            <p className="text-xs text-gray-400">{o.label}</p>
+          </div>
+        ))}
+      </div>
+      <p className={`flex items-center space-x-2 text-sm font-medium ${isRepairVerified(findings) ? 'text-status-ok' : 'text-amber-300'}`}>
+        {isRepairVerified(findings) ? <CheckCircleIcon className="h-5 w-5" /> : <ExclamationTriangleIcon className="h-5 w-5" />}
+        <span>
+          {isRepairVerified(findings)
+            ? 'Every original finding is resolved.'
+            : `${counts.still_present} still present, ${counts.new} new since the inspection.`}
+        </span>
+      </p>
+
+      {sides.map(side => (
+        <div key={side}>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">{side === 'top' ? 'Top' : 'Bottom'} Side</h4>
+          <div className="flex gap-2">
+            {beforeImageUrls[side] && (
+              <FindingsImage
+                url={beforeImageUrls[side]!}
+                label="Before"
+                boxes={findings.flatMap((f, i) => f.before && f.before.side === side ? [{ key: `b${i}`, bbox: f.before.bbox, outcome: f.outcome }] : [])}
+              />
+            )}
+            <FindingsImage
+              url={afterImageUrls[side]!}
+              label="After"
+              boxes={findings.flatMap((f, i) => f.after && f.after.side === side ? [{ key: `a${i}`, bbox: f.after.bbox, outcome: f.outcome }] : [])}
+            />
+          </div>
+        </div>
+      ))}
+
+      {VERIFICATION_OUTCOMES.filter(o => counts[o.id] > 0).map(o => (
+        <div key={o.id}>
+          <h3 className="text-md font-semibold text-white mb-2">{o.label}</h3>
+          <ul className="space-y-1">
+            {findings.filter(f => f.outcome === o.id).map((f, i) => {
+              const finding = currentFinding(f);
+              // Only findings of the original inspection can be selected in the viewer.
+              const designator = f.before?.designator;
+              return (
+                <li
+                  key={i}
+                  onClick={() => designator && setSelectedId(designator)}
+                  className={`flex items-center justify-between bg-gray-800/60 px-3 py-2 rounded-md text-sm text-gray-300 ${designator ? 'cursor-pointer hover:bg-gray-700/60' : ''}`}
+                >
+                  <span className="flex items-center space-x-2">
+                    <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: o.color }} />
+                    <span className="capitalize">{describeFinding(finding)}</span>
+                  </span>
+                  {sides.length > 1 && <span className="text-xs text-gray-500">{finding.side === 'top' ? 'Top' : 'Bottom'}</span>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+
+      <div className="pt-2 border-t border-gray-700/50">
+        {verification.closedAt && (
+          <p className="mb-2 text-xs text-gray-400">Job closed out {new Date(verification.closedAt).toLocaleString()}.</p>
+        )}
+        <button
+          onClick={onCloseOut}
+          disabled={isClosing}
+          className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-teal-600 hover:bg-teal-500 disabled:bg-gray-500 disabled:cursor-wait rounded-md transition-colors"
+        >
+          <DocumentTextIcon className="h-5 w-5" />
+          <span>{isClosing ? 'Generating...' : verification.closedAt ? 'Download Verification Report' : 'Close Out Job'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VerificationView;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { Advice, Component, PcbAnalysis } from '../types';
+import { mergeAdvice, mergeBoardSide } from './analysisMerge';
+
+const advice = (repair_cost: number, replacement?: string): Advice => ({
+    quick_actions: [],
+    alternatives: replacement ? [{ original_mpn: 'LM7805', replacements: [{ mpn: replacement, reason: '' }] }] : [],
+    next_steps: [],
+    repair_cost,
+});
+
+const part = (designator: string, x: number): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x, y: 0.4, w: 0.1, h: 0.1 },
+});
+
+const analysis = (components: Component[], sideAdvice: Advice, summary = ''): PcbAnalysis =>
+    ({ components, defects: [], summary, advice: sideAdvice });
+
+describe('mergeAdvice', () => {
+    it('sums costs by default and can take the largest instead', () => {
+        expect(mergeAdvice([advice(10), advice(15)]).repair_cost).toBe(25);
+        expect(mergeAdvice([advice(10), advice(15)], 'max').repair_cost).toBe(15);
+    });
+
+    it('merges replacements for the same original MPN', () => {
+        const merged = mergeAdvice([advice(0, 'L7805CV'), advice(0, 'LM7805CT'), advice(0, 'L7805CV')]);
+        expect(merged.alternatives).toHaveLength(1);
+        expect(merged.alternatives[0].replacements.map(r => r.mpn)).toEqual(['L7805CV', 'LM7805CT']);
+    });
+});
+
+describe('mergeBoardSide', () => {
+    const top = analysis([part('J1', 0.2)], advice(30, 'L7805CV'), 'top');
+
+    it('links a designator at the mirrored position as through-hole', () => {
+        // Mirrored, x 0.7 with width 0.1 lands on 0.2.
+        const { analysis: merged } = mergeBoardSide(top, analysis([part('J1', 0.7)], advice(10)), 'bottom');
+        expect(merged.components.every(c => c.throughHole)).toBe(true);
+        expect(merged.advice.repair_cost).toBe(40);
+    });
+
+    it('renames a clashing designator at a different position', () => {
+        const { analysis: merged, warnings } = mergeBoardSide(top, analysis([part('J1', 0.1)], advice(10)), 'bottom');
+        expect(merged.components.map(c => c.designator)).toEqual(['J1', 'J1-2']);
+        expect(warnings).toHaveLength(1);
+    });
+
+    it('replaces the advice of a side analyzed again instead of adding to it', () => {
+        const once = mergeBoardSide(top, analysis([], advice(10, 'LM7805CT')), 'bottom').analysis;
+        const twice = mergeBoardSide(once, analysis([], advice(12)), 'bottom').analysis;
+        const thrice = mergeBoardSide(twice, analysis([], advice(12)), 'bottom').analysis;
+        expect(thrice.advice.repair_cost).toBe(42);
+        expect(thrice.advice.alternatives[0].replacements.map(r => r.mpn)).toEqual(['L7805CV']);
+    });
+
+    it('clears through-hole on kept parts whose partner side was replaced', () => {
+        const linked = mergeBoardSide(top, analysis([part('J1', 0.7)], advice(10)), 'bottom').analysis;
+        const { analysis: merged } = mergeBoardSide(linked, analysis([part('U2', 0.5)], advice(10)), 'bottom');
+        expect(merged.components.find(c => c.designator === 'J1')!.throughHole).toBeUndefined();
+    });
+});
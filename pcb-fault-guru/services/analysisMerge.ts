@@ -0,0 +1,143 @@
+import type { PcbAnalysis, Component, Advice, BoardSide, ValidationWarning, AnalysisResult, ReworkMarker } from '../types';
+import { centerDistance, mirrorBBox } from './bboxUtils';
+import { reserveDesignator } from './analysisValidator';
+
+// A designator seen on both sides is one through-hole part only if, once the bottom
+// image is mirrored, the two boxes are at least this close (normalized units).
+const THROUGH_HOLE_MAX_DISTANCE = 0.2;
+
+export const BOARD_SIDES: BoardSide[] = ['top', 'bottom'];
+
+const uniqueStrings = (lists: string[][]): string[] => Array.from(new Set(lists.flat()));
+
+/**
+ * Combines several advice sections, de-duplicating actions and merging replacement
+ * suggestions that target the same original MPN.
+ * @param advice - The advice sections to combine.
+ * @param costs - 'sum' when the sections cover separate findings (two board sides);
+ * 'max' when they can report the same ones (overlapping tiles), so nothing is priced twice.
+ */
+export const mergeAdvice = (advice: Advice[], costs: 'sum' | 'max' = 'sum'): Advice => {
+    const alternatives = new Map<string, Advice['alternatives'][number]>();
+    advice.flatMap(a => a.alternatives).forEach(alt => {
+        const existing = alternatives.get(alt.original_mpn);
+        if (!existing) {
+            alternatives.set(alt.original_mpn, { ...alt, replacements: [...alt.replacements] });
+            return;
+        }
+        alt.replacements.forEach(rep => {
+            if (!existing.replacements.some(r => r.mpn === rep.mpn)) existing.replacements.push(rep);
+        });
+    });
+
+    const repairCosts = advice.map(a => a.repair_cost).filter((c): c is number => c !== undefined);
+    return {
+        quick_actions: uniqueStrings(advice.map(a => a.quick_actions)),
+        alternatives: Array.from(alternatives.values()),
+        next_steps: uniqueStrings(advice.map(a => a.next_steps)),
+        repair_cost: repairCosts.length === 0 ? undefined
+            : costs === 'max' ? Math.max(...repairCosts)
+            : repairCosts.reduce((sum, c) => sum + c, 0),
+    };
+};
+
+/**
+ * The side an item is on. Items from single-sided inspections carry no side and count as top.
+ */
+export const getSide = (item: { side?: BoardSide }): BoardSide => item.side ?? 'top';
+
+export const isTwoSided = (analysis: PcbAnalysis): boolean =>
+    analysis.components.some(c => c.side === 'bottom') || analysis.defects.some(d => d.side === 'bottom');
+
+/**
+ * Returns only the components and defects on one side of the board.
+ */
+export const filterAnalysisBySide = (analysis: PcbAnalysis, side: BoardSide): PcbAnalysis => ({
+    ...analysis,
+    components: analysis.components.filter(c => getSide(c) === side),
+    defects: analysis.defects.filter(d => getSide(d) === side),
+});
+
+/**
+ * Mirrors every box left-to-right, for showing the bottom side in the same orientation as the top.
+ */
+export const mirrorAnalysis = (analysis: PcbAnalysis): PcbAnalysis => ({
+    ...analysis,
+    components: analysis.components.map(c => ({ ...c, bbox: mirrorBBox(c.bbox) })),
+    defects: analysis.defects.map(d => ({ ...d, bbox: mirrorBBox(d.bbox) })),
+});
+
+export const mirrorMarker = (marker: ReworkMarker): ReworkMarker =>
+    marker.type === 'area'
+        ? { ...marker, bbox: mirrorBBox(marker.bbox) }
+        : { ...marker, from: { x: 1 - marker.from.x, y: marker.from.y }, to: { x: 1 - marker.to.x, y: marker.to.y } };
+
+const buildSummary = (sideSummaries: Partial<Record<BoardSide, string>>): string =>
+    BOARD_SIDES
+        .filter(side => sideSummaries[side])
+        .map(side => `${side === 'top' ? 'Top' : 'Bottom'}: ${sideSummaries[side]}`)
+        .join(' ');
+
+/**
+ * Adds the analysis of one board side to an existing inspection, replacing any earlier
+ * analysis of that side. Designators found on both sides at mirrored positions are
+ * linked as through-hole parts; other clashes are renamed.
+ * @param existing - The current inspection. Items without a side are treated as top.
+ * @param incoming - The analysis of the new side's image.
+ * @param side - Which side `incoming` shows.
+ */
+export const mergeBoardSide = (existing: PcbAnalysis, incoming: PcbAnalysis, side: BoardSide): AnalysisResult => {
+    const warnings: ValidationWarning[] = [];
+    const kept = {
+        // A kept part was only through-hole together with one on the side being replaced; that is checked again below.
+        components: existing.components
+            .filter(c => getSide(c) !== side)
+            .map(({ throughHole, ...c }): Component => ({ ...c, side: getSide(c) })),
+        defects: existing.defects.map(d => ({ ...d, side: getSide(d) })).filter(d => d.side !== side),
+    };
+
+    const designators = new Set(kept.components.map(c => c.designator));
+    const components = incoming.components.map(c => {
+        const counterpart = kept.components.find(k => k.designator === c.designator);
+        if (!counterpart) {
+            designators.add(c.designator);
+            return { ...c, side };
+        }
+        if (centerDistance(mirrorBBox(c.bbox), counterpart.bbox) <= THROUGH_HOLE_MAX_DISTANCE) {
+            counterpart.throughHole = true;
+            return { ...c, side, throughHole: true };
+        }
+        const renamed = reserveDesignator(c.designator, designators);
+        warnings.push({ path: `${side}.components.${c.designator}`, message: `Designator also used on the other side at a different position; renamed to "${renamed}".` });
+        return { ...c, designator: renamed, side };
+    });
+
+    const defectIds = new Set(kept.defects.map(d => d.id));
+    const defects = incoming.defects.map(d => ({
+        ...d,
+        id: defectIds.has(d.id) ? reserveDesignator(`${side}-${d.id}`, defectIds) : reserveDesignator(d.id, defectIds),
+        side,
+    }));
+
+    const sideSummaries = {
+        ...(existing.sideSummaries ?? { top: existing.summary }),
+        [side]: incoming.summary,
+    };
+    const sideAdvice: Partial<Record<BoardSide, Advice>> = {
+        ...(existing.sideAdvice ?? { top: existing.advice }),
+        [side]: incoming.advice,
+    };
+
+    return {
+        analysis: {
+            components: [...kept.components, ...components],
+            defects: [...kept.defects, ...defects],
+            summary: buildSummary(sideSummaries),
+            advice: mergeAdvice(BOARD_SIDES.flatMap(s => sideAdvice[s] ? [sideAdvice[s]] : [])),
+            sideSummaries,
+            sideAdvice,
+            ensemble: existing.ensemble ?? incoming.ensemble,
+        },
+        warnings,
+    };
+};
@@ -0,0 +1,41 @@
+import type { AnalysisResult } from '../types';
+import { geminiProvider } from './geminiService';
+import { replayProvider } from './replayProvider';
+
+export type AnalysisStage = 'preparing' | 'uploading' | 'waiting' | 'validating';
+
+export interface AnalysisProgress {
+    stage: AnalysisStage;
+    detail?: string; // e.g. "Tile 2 of 6" or a pending retry
+}
+
+export interface AnalyzeOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/**
+ * A backend that turns a PCB image into a validated PcbAnalysis.
+ * The app only talks to this interface, so the model can be swapped
+ * for an offline source without touching the UI.
+ */
+export interface AnalysisProvider {
+    id: string;
+    name: string;
+    description: string;
+    analyze: (imageFile: File, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+}
+
+export const analysisProviders: AnalysisProvider[] = [geminiProvider, replayProvider];
+
+/**
+ * Picks the provider to start with: Gemini when an API key is configured,
+ * otherwise the offline replay provider.
+ */
+export const getDefaultProvider = (): AnalysisProvider => {
+    return process.env.API_KEY ? geminiProvider : replayProvider;
+};
+
+export const getProviderById = (id: string): AnalysisProvider | undefined => {
+    return analysisProviders.find(p => p.id === id);
+};
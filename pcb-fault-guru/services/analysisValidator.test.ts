@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisValidationError, clampBBox, parseAndValidateAnalysis, reserveDesignator, validatePcbAnalysis } from './analysisValidator';
+
+const bbox = { x: 0.1, y: 0.1, w: 0.1, h: 0.1 };
+const advice = { quick_actions: [], alternatives: [], next_steps: [] };
+
+describe('clampBBox', () => {
+    it('clamps boxes into the image and drops those outside it', () => {
+        expect(clampBBox({ x: -0.1, y: 0.9, w: 0.3, h: 0.2 })).toEqual({ x: 0, y: 0.9, w: expect.closeTo(0.2), h: expect.closeTo(0.1) });
+        expect(clampBBox({ x: 1.2, y: 0.5, w: 0.1, h: 0.1 })).toBeNull();
+    });
+});
+
+describe('reserveDesignator', () => {
+    it('appends a number on collisions', () => {
+        const seen = new Set(['R1']);
+        expect(reserveDesignator('R1', seen)).toBe('R1-2');
+        expect(reserveDesignator('R1', seen)).toBe('R1-3');
+        expect(reserveDesignator('C1', seen)).toBe('C1');
+    });
+});
+
+describe('validatePcbAnalysis', () => {
+    it('normalizes components and reports each fix', () => {
+        const { analysis, warnings } = validatePcbAnalysis({
+            summary: ' Board ok ',
+            components: [
+                { designator: 'R1', mpn: ' RC0603 ', bbox, presence: 'Present', condition: 'charred', confidence: 85, componentClass: 'Resistors' },
+                { designator: 'R1', bbox, presence: 'ok', condition: 'ok', confidence: 0.9, maxVoltage: -5 },
+                { bbox: { x: 0.5, y: 0.5, w: 0.8, h: 0.1 }, presence: 'gone', condition: 'ok', confidence: 0.5 },
+                { designator: 'C1', bbox: { x: 'a' } },
+                'U1',
+            ],
+            defects: [],
+            advice,
+        });
+        expect(analysis.summary).toBe('Board ok');
+        expect(analysis.components.map(c => [c.designator, c.presence, c.condition, c.confidence])).toEqual([
+            ['R1', 'ok', 'burnt', 0.85], ['R1-2', 'ok', 'ok', 0.9], ['UNK3', 'ok', 'ok', 0.5],
+        ]);
+        expect(analysis.components[0]).toMatchObject({ mpn: 'RC0603', componentClass: 'resistor' });
+        expect(analysis.components[1].maxVoltage).toBeUndefined();
+        expect(analysis.components[2].bbox.w).toBeCloseTo(0.5);
+        expect(warnings.map(w => w.path)).toEqual([
+            'components[0].confidence', 'components[1].designator', 'components[1].maxVoltage',
+            'components[2].bbox', 'components[2].designator', 'components[2].presence', 'components[3].bbox', 'components[4]',
+        ]);
+    });
+
+    it('names defects and makes their ids unique', () => {
+        const { analysis } = validatePcbAnalysis({
+            summary: 's', components: [], advice,
+            defects: [{ id: 'D1', type: 'Solder Bridge', bbox, confidence: 0.7 }, { id: 'D1', bbox, confidence: 0.7 }, { bbox, confidence: 0.7, description: ' near U1 ' }],
+        });
+        expect(analysis.defects.map(d => [d.id, d.type, d.description])).toEqual([
+            ['D1', 'solder_bridge', undefined], ['D1-2', 'unknown', undefined], ['defect-3', 'unknown', 'near U1'],
+        ]);
+    });
+
+    it('fills in missing advice and drops malformed alternatives', () => {
+        const { analysis, warnings } = validatePcbAnalysis({ components: [], defects: [] });
+        expect(analysis.advice).toEqual(advice);
+        expect(warnings.map(w => w.path)).toEqual(['summary', 'advice']);
+
+        const withAdvice = validatePcbAnalysis({
+            summary: 's', components: [], defects: [],
+            advice: { quick_actions: ['Reflow', 3, ''], next_steps: 'none', repair_cost: -1, alternatives: [
+                { original_mpn: 'LM358', replacements: [{ mpn: 'TL072', reason: 'pin compatible' }, { mpn: 'X' }] },
+                { replacements: [] },
+            ] },
+        });
+        expect(withAdvice.analysis.advice).toEqual({
+            quick_actions: ['Reflow'], next_steps: [],
+            alternatives: [{ original_mpn: 'LM358', replacements: [{ mpn: 'TL072', reason: 'pin compatible' }] }],
+        });
+        expect(withAdvice.warnings.map(w => w.path)).toEqual(['advice.alternatives[1]', 'advice.next_steps', 'advice.repair_cost']);
+    });
+
+    it('rejects output without component and defect lists', () => {
+        expect(() => validatePcbAnalysis([])).toThrow(AnalysisValidationError);
+        try {
+            validatePcbAnalysis({ components: {} });
+        } catch (e) {
+            expect((e as AnalysisValidationError).issues.map(i => i.path)).toEqual(['components', 'defects']);
+        }
+    });
+});
+
+describe('parseAndValidateAnalysis', () => {
+    it('reports invalid JSON as a validation error', () => {
+        expect(() => parseAndValidateAnalysis('{"components": [')).toThrow(/not valid JSON/);
+        expect(parseAndValidateAnalysis(JSON.stringify({ summary: 's', components: [], defects: [], advice })).warnings).toEqual([]);
+    });
+});
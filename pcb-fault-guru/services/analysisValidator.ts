@@ -0,0 +1,324 @@
+import type { PcbAnalysis, Component, Defect, BoundingBox, Presence, Condition, Advice, Alternative, ValidationWarning, AnalysisResult } from '../types';
+import { parseComponentClass } from './componentClass';
+
+/**
+ * Thrown when model output cannot be turned into a usable PcbAnalysis.
+ * `issues` lists every problem found, so the UI can show more than a generic message.
+ */
+export class AnalysisValidationError extends Error {
+    issues: ValidationWarning[];
+
+    constructor(message: string, issues: ValidationWarning[]) {
+        super(message);
+        this.name = 'AnalysisValidationError';
+        this.issues = issues;
+    }
+}
+
+const PRESENCE_ALIASES: Record<string, Presence> = {
+    ok: 'ok', present: 'ok', populated: 'ok', installed: 'ok',
+    missing: 'missing', absent: 'missing', unpopulated: 'missing', removed: 'missing',
+};
+
+const CONDITION_ALIASES: Record<string, Condition> = {
+    ok: 'ok', good: 'ok', normal: 'ok', intact: 'ok',
+    burnt: 'burnt', burned: 'burnt', burn: 'burnt', charred: 'burnt',
+    corroded: 'corroded', corrosion: 'corroded', oxidized: 'corroded', rusted: 'corroded',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Clamps a bounding box so it lies entirely inside the normalized 0–1 image space.
+ * @param bbox - The box to clamp.
+ * @returns The clamped box, or null if nothing of it is left inside the image.
+ */
+export const clampBBox = (bbox: BoundingBox): BoundingBox | null => {
+    const x = clamp01(bbox.x);
+    const y = clamp01(bbox.y);
+    const w = clamp01(bbox.x + bbox.w) - x;
+    const h = clamp01(bbox.y + bbox.h) - y;
+    if (w <= 0 || h <= 0) return null;
+    return { x, y, w, h };
+};
+
+/**
+ * Collects the warnings raised while normalizing one response.
+ */
+const createCollector = () => {
+    const warnings: ValidationWarning[] = [];
+    const warn = (path: string, message: string) => warnings.push({ path, message });
+    return { warnings, warn };
+};
+
+type Warn = (path: string, message: string) => void;
+
+const normalizeBBox = (raw: unknown, path: string, warn: Warn): BoundingBox | null => {
+    if (!isRecord(raw) || !isFiniteNumber(raw.x) || !isFiniteNumber(raw.y) || !isFiniteNumber(raw.w) || !isFiniteNumber(raw.h)) {
+        warn(path, 'Bounding box is missing or not numeric; item dropped.');
+        return null;
+    }
+    const bbox = { x: raw.x, y: raw.y, w: raw.w, h: raw.h };
+    const clamped = clampBBox(bbox);
+    if (!clamped) {
+        warn(path, 'Bounding box lies outside the image; item dropped.');
+        return null;
+    }
+    if (clamped.x !== bbox.x || clamped.y !== bbox.y || clamped.w !== bbox.w || clamped.h !== bbox.h) {
+        warn(path, 'Bounding box exceeded the 0–1 range and was clamped.');
+    }
+    return clamped;
+};
+
+const normalizeConfidence = (raw: unknown, path: string, warn: Warn): number => {
+    if (!isFiniteNumber(raw)) {
+        warn(path, 'Confidence is missing; set to 0%.');
+        return 0;
+    }
+    // Some responses use percentages instead of fractions.
+    if (raw > 1 && raw <= 100) {
+        warn(path, `Confidence ${raw} looks like a percentage; converted to ${raw / 100}.`);
+        return raw / 100;
+    }
+    if (raw < 0 || raw > 1) {
+        warn(path, `Confidence ${raw} is out of range and was clamped.`);
+        return clamp01(raw);
+    }
+    return raw;
+};
+
+const normalizeEnum = <T extends string>(raw: unknown, aliases: Record<string, T>, fallback: T, path: string, warn: Warn): T => {
+    const key = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+    const value = aliases[key];
+    if (!value) {
+        warn(path, `Unknown value "${String(raw)}"; treated as "${fallback}".`);
+        return fallback;
+    }
+    return value;
+};
+
+const optionalNumber = (raw: unknown, path: string, warn: Warn): number | undefined => {
+    if (raw === undefined || raw === null) return undefined;
+    if (!isFiniteNumber(raw)) {
+        warn(path, 'Value is not a number and was ignored.');
+        return undefined;
+    }
+    return raw;
+};
+
+/**
+ * Makes a designator unique within `seen`, appending "-2", "-3", ... on collisions.
+ * @param designator - The designator to reserve.
+ * @param seen - Designators already in use; the result is added to it.
+ */
+export const reserveDesignator = (designator: string, seen: Set<string>): string => {
+    let unique = designator;
+    for (let n = 2; seen.has(unique); n++) {
+        unique = `${designator}-${n}`;
+    }
+    seen.add(unique);
+    return unique;
+};
+
+const normalizeComponents = (raw: unknown[], warn: Warn): Component[] => {
+    const seen = new Set<string>();
+    const components: Component[] = [];
+
+    raw.forEach((item, index) => {
+        const path = `components[${index}]`;
+        if (!isRecord(item)) {
+            warn(path, 'Entry is not an object; dropped.');
+            return;
+        }
+        const bbox = normalizeBBox(item.bbox, `${path}.bbox`, warn);
+        if (!bbox) return;
+
+        let designator = typeof item.designator === 'string' ? item.designator.trim() : '';
+        if (!designator) {
+            designator = `UNK${index + 1}`;
+            warn(`${path}.designator`, `Missing designator; named "${designator}".`);
+        }
+        const unique = reserveDesignator(designator, seen);
+        if (unique !== designator) {
+            warn(`${path}.designator`, `Duplicate designator "${designator}" renamed to "${unique}".`);
+        }
+
+        const component: Component = {
+            designator: unique,
+            mpn: typeof item.mpn === 'string' ? item.mpn.trim() : '',
+            bbox,
+            presence: normalizeEnum(item.presence, PRESENCE_ALIASES, 'ok', `${path}.presence`, warn),
+            condition: normalizeEnum(item.condition, CONDITION_ALIASES, 'ok', `${path}.condition`, warn),
+            confidence: normalizeConfidence(item.confidence, `${path}.confidence`, warn),
+        };
+        const temperature = optionalNumber(item.temperature, `${path}.temperature`, warn);
+        if (temperature !== undefined) component.temperature = temperature;
+        const maxVoltage = optionalNumber(item.maxVoltage, `${path}.maxVoltage`, warn);
+        if (maxVoltage !== undefined) {
+            if (maxVoltage > 0) component.maxVoltage = maxVoltage;
+            else warn(`${path}.maxVoltage`, 'Max voltage must be positive and was ignored.');
+        }
+        if (typeof item.datasheetUrl === 'string' && item.datasheetUrl.trim()) {
+            component.datasheetUrl = item.datasheetUrl.trim();
+        }
+        if (item.componentClass !== undefined && item.componentClass !== null) {
+            const componentClass = parseComponentClass(item.componentClass);
+            if (componentClass) {
+                component.componentClass = componentClass;
+            } else {
+                warn(`${path}.componentClass`, `Unknown class "${String(item.componentClass)}"; inferred from the designator instead.`);
+            }
+        }
+        components.push(component);
+    });
+
+    return components;
+};
+
+const normalizeDefects = (raw: unknown[], warn: Warn): Defect[] => {
+    const seen = new Set<string>();
+    const defects: Defect[] = [];
+
+    raw.forEach((item, index) => {
+        const path = `defects[${index}]`;
+        if (!isRecord(item)) {
+            warn(path, 'Entry is not an object; dropped.');
+            return;
+        }
+        const bbox = normalizeBBox(item.bbox, `${path}.bbox`, warn);
+        if (!bbox) return;
+
+        let id = typeof item.id === 'string' && item.id.trim() ? item.id.trim() : `defect-${index + 1}`;
+        if (seen.has(id)) {
+            const unique = reserveDesignator(id, seen);
+            warn(`${path}.id`, `Duplicate defect id "${id}" renamed to "${unique}".`);
+            id = unique;
+        } else {
+            seen.add(id);
+        }
+
+        let type = typeof item.type === 'string' ? item.type.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+        if (!type) {
+            type = 'unknown';
+            warn(`${path}.type`, 'Missing defect type; set to "unknown".');
+        }
+
+        const defect: Defect = {
+            id,
+            type,
+            bbox,
+            confidence: normalizeConfidence(item.confidence, `${path}.confidence`, warn),
+        };
+        if (typeof item.description === 'string' && item.description.trim()) {
+            defect.description = item.description.trim();
+        }
+        defects.push(defect);
+    });
+
+    return defects;
+};
+
+const stringList = (raw: unknown, path: string, warn: Warn): string[] => {
+    if (raw === undefined) {
+        warn(path, 'Missing; treated as empty.');
+        return [];
+    }
+    if (!Array.isArray(raw)) {
+        warn(path, 'Not a list; treated as empty.');
+        return [];
+    }
+    return raw.filter((s): s is string => typeof s === 'string' && s.trim() !== '');
+};
+
+const normalizeAdvice = (raw: unknown, warn: Warn): Advice => {
+    if (!isRecord(raw)) {
+        warn('advice', 'Missing advice section; filled with empty lists.');
+        return { quick_actions: [], alternatives: [], next_steps: [] };
+    }
+    const alternatives: Alternative[] = [];
+    if (Array.isArray(raw.alternatives)) {
+        raw.alternatives.forEach((alt: unknown, index: number) => {
+            if (!isRecord(alt) || typeof alt.original_mpn !== 'string' || !Array.isArray(alt.replacements)) {
+                warn(`advice.alternatives[${index}]`, 'Malformed alternative; dropped.');
+                return;
+            }
+            alternatives.push({
+                original_mpn: alt.original_mpn,
+                replacements: alt.replacements.filter((r: unknown): r is Alternative['replacements'][number] =>
+                    isRecord(r) && typeof r.mpn === 'string' && typeof r.reason === 'string'),
+            });
+        });
+    } else {
+        warn('advice.alternatives', 'Missing; treated as empty.');
+    }
+
+    const advice: Advice = {
+        quick_actions: stringList(raw.quick_actions, 'advice.quick_actions', warn),
+        alternatives,
+        next_steps: stringList(raw.next_steps, 'advice.next_steps', warn),
+    };
+    const cost = optionalNumber(raw.repair_cost, 'advice.repair_cost', warn);
+    if (cost !== undefined) {
+        if (cost >= 0) advice.repair_cost = cost;
+        else warn('advice.repair_cost', 'Negative repair cost was ignored.');
+    }
+    return advice;
+};
+
+/**
+ * Validates and normalizes raw model output into a PcbAnalysis.
+ * Recoverable problems are fixed and reported as warnings; output without
+ * usable component and defect lists raises an AnalysisValidationError.
+ * @param raw - The parsed JSON returned by the model or a fixture.
+ * @returns The normalized analysis and the list of warnings.
+ */
+export const validatePcbAnalysis = (raw: unknown): AnalysisResult => {
+    const { warnings, warn } = createCollector();
+
+    if (!isRecord(raw)) {
+        throw new AnalysisValidationError("AI response is not a JSON object.", [{ path: '$', message: 'Expected an object.' }]);
+    }
+    const { components, defects } = raw;
+    if (!Array.isArray(components) || !Array.isArray(defects)) {
+        const fatal: ValidationWarning[] = [];
+        if (!Array.isArray(components)) fatal.push({ path: 'components', message: 'Missing or not a list.' });
+        if (!Array.isArray(defects)) fatal.push({ path: 'defects', message: 'Missing or not a list.' });
+        throw new AnalysisValidationError("AI response is missing required fields.", fatal);
+    }
+
+    let summary = typeof raw.summary === 'string' ? raw.summary.trim() : '';
+    if (!summary) {
+        summary = 'No summary was provided.';
+        warn('summary', 'Missing summary.');
+    }
+
+    const analysis: PcbAnalysis = {
+        components: normalizeComponents(components, warn),
+        defects: normalizeDefects(defects, warn),
+        summary,
+        advice: normalizeAdvice(raw.advice, warn),
+    };
+    return { analysis, warnings };
+};
+
+/**
+ * Parses a JSON string from the model and validates it.
+ * @param jsonText - The raw response text.
+ */
+export const parseAndValidateAnalysis = (jsonText: string): AnalysisResult => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(jsonText);
+    } catch (e) {
+        throw new AnalysisValidationError("AI response is not valid JSON.", [
+            { path: '$', message: e instanceof Error ? e.message : 'Could not parse JSON.' },
+        ]);
+    }
+    return validatePcbAnalysis(parsed);
+};
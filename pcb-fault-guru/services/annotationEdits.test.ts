@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, Defect, PcbAnalysis } from '../types';
+import { applyAnnotationEdit } from './annotationEdits';
+
+const part = (designator: string, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+    ...extra,
+});
+
+const defect = (id: string, extra: Partial<Defect> = {}): Defect => ({
+    id, type: 'solder_bridge', confidence: 0.9, bbox: { x: 0.5, y: 0.5, w: 0.05, h: 0.05 }, ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[] = []): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const bbox = { x: 0.2, y: 0.2, w: 0.1, h: 0.1 };
+
+describe('applyAnnotationEdit', () => {
+    // Nothing in validation keeps a defect id apart from a designator.
+    const clash = analysis([part('U3')], [defect('U3'), defect('U3', { side: 'bottom' })]);
+
+    it('moves only the kind of item named', () => {
+        const moved = applyAnnotationEdit(clash, { type: 'move', kind: 'component', id: 'U3', side: 'top', bbox }).analysis;
+        expect(moved.components[0].origin).toBe('human');
+        expect(moved.components[0].bbox.x).toBeCloseTo(bbox.x);
+        expect(moved.defects.every(d => d.origin === undefined)).toBe(true);
+
+        const movedDefect = applyAnnotationEdit(clash, { type: 'move', kind: 'defect', id: 'U3', side: 'bottom', bbox }).analysis;
+        expect(movedDefect.components[0].origin).toBeUndefined();
+        expect(movedDefect.defects.map(d => d.origin)).toEqual([undefined, 'human']);
+    });
+
+    it('deletes only the kind of item named, on its side', () => {
+        const withoutPart = applyAnnotationEdit(clash, { type: 'delete', kind: 'component', id: 'U3', side: 'top' }).analysis;
+        expect(withoutPart.components).toHaveLength(0);
+        expect(withoutPart.defects).toHaveLength(2);
+
+        const withoutDefect = applyAnnotationEdit(clash, { type: 'delete', kind: 'defect', id: 'U3', side: 'top' }).analysis;
+        expect(withoutDefect.components).toHaveLength(1);
+        expect(withoutDefect.defects.map(d => d.side)).toEqual(['bottom']);
+    });
+
+    it('unlinks the counterpart of a deleted through-hole part', () => {
+        const twoSided = analysis([part('J1', { side: 'top', throughHole: true }), part('J1', { side: 'bottom', throughHole: true })]);
+        const result = applyAnnotationEdit(twoSided, { type: 'delete', kind: 'component', id: 'J1', side: 'bottom' }).analysis;
+        expect(result.components).toEqual([expect.objectContaining({ side: 'top', throughHole: false })]);
+    });
+
+    it('adds boxes under fresh names', () => {
+        const added = applyAnnotationEdit(analysis([part('NEW1')]), { type: 'add', kind: 'component', side: 'top', bbox });
+        expect(added.selectId).toBe('NEW2');
+        expect(() => applyAnnotationEdit(analysis([]), { type: 'add', kind: 'defect', side: 'top', bbox: { x: 2, y: 2, w: 0.1, h: 0.1 } })).toThrow();
+    });
+
+    it('refuses a rename onto another part', () => {
+        const a = analysis([part('R1'), part('R2')]);
+        expect(() => applyAnnotationEdit(a, { type: 'updateComponent', designator: 'R1', changes: { designator: 'R2' } })).toThrow(/already on the board/);
+    });
+
+    it('leaves the origin alone when triaging', () => {
+        const triage = { verdict: 'confirmed' as const, triagedAt: '' };
+        const result = applyAnnotationEdit(clash, { type: 'triage', kind: 'defect', id: 'U3', triage }).analysis;
+        expect(result.defects[0]).toMatchObject({ triage });
+        expect(result.defects[0].origin).toBeUndefined();
+    });
+
+    it('applies layout designators at once, keeping the origin', () => {
+        const board = analysis([part('R1'), part('R2', { origin: 'human' }), part('R3')]);
+        const anchors = [{ from: 'R1', to: 'R2', mpn: 'RC0603' }, { from: 'R2', to: 'R1' }, { from: 'R4', to: 'R3' }];
+        const result = applyAnnotationEdit(board, { type: 'anchorDesignators', anchors }).analysis;
+        expect(result.components.map(c => [c.designator, c.mpn, c.origin])).toEqual([
+            ['R2', 'RC0603', undefined], ['R1', '', 'human'], ['R3_1', '', undefined],
+        ]);
+    });
+});
@@ -0,0 +1,189 @@
+import type { PcbAnalysis, Component, Defect, BoundingBox, BoardSide, Triage } from '../types';
+import { getSide } from './analysisMerge';
+import { clampBBox } from './analysisValidator';
+
+export type ComponentChanges = Partial<Pick<Component, 'designator' | 'mpn' | 'presence' | 'condition' | 'maxVoltage' | 'classOverride'>>;
+export type DefectChanges = Partial<Pick<Defect, 'type' | 'description'>>;
+
+// A detected part renamed to its real designator from the board layout.
+export interface DesignatorAnchor {
+    from: string;
+    to: string;
+    mpn?: string; // filled in where the model read no MPN
+}
+
+// A max voltage read from a datasheet in the local library.
+export interface DatasheetVoltage {
+    designator: string;
+    maxVoltage: number;
+    page: number;
+}
+
+/**
+ * A manual correction. Items are addressed the way the viewer selects them: components by
+ * designator and defects by id, plus the side for box edits, since a through-hole part has
+ * the same designator on both sides. Box edits also name the kind of item, as nothing keeps
+ * a defect id from matching a designator.
+ */
+export type AnnotationEdit =
+    | { type: 'move'; kind: 'component' | 'defect'; id: string; side: BoardSide; bbox: BoundingBox }
+    | { type: 'delete'; kind: 'component' | 'defect'; id: string; side: BoardSide }
+    | { type: 'add'; kind: 'component' | 'defect'; side: BoardSide; bbox: BoundingBox }
+    | { type: 'updateComponent'; designator: string; changes: ComponentChanges }
+    | { type: 'updateDefect'; id: string; changes: DefectChanges }
+    | { type: 'triage'; kind: 'component' | 'defect'; id: string; triage: Triage | null }
+    | { type: 'anchorDesignators'; anchors: DesignatorAnchor[] }
+    | { type: 'datasheetVoltages'; voltages: DatasheetVoltage[] };
+
+export interface AnnotationEditResult {
+    analysis: PcbAnalysis;
+    selectId: string | null; // the item to select afterwards, e.g. a new box or a renamed part
+}
+
+// Boxes smaller than this (normalized) are treated as stray clicks when drawing.
+export const MIN_BOX_SIZE = 0.005;
+
+const uniqueId = (prefix: string, taken: Set<string>) => {
+    let n = 1;
+    while (taken.has(`${prefix}${n}`)) n++;
+    return `${prefix}${n}`;
+};
+
+const isComponentAt = (c: Component, id: string, side: BoardSide) => c.designator === id && getSide(c) === side;
+const isDefectAt = (d: Defect, id: string, side: BoardSide) => d.id === id && getSide(d) === side;
+
+const withTriage = <T extends { triage?: Triage }>(item: T, triage: Triage | null): T => {
+    const { triage: _previous, ...rest } = item;
+    return (triage ? { ...rest, triage } : rest) as T;
+};
+
+/**
+ * Applies one manual correction and marks every touched item as human-edited. A triage
+ * verdict only reviews the finding, while layout designators and datasheet ratings come
+ * from a file rather than a person, so those keep the item's origin.
+ * @throws Error when a rename would clash with another part, or a box is degenerate.
+ */
+export const applyAnnotationEdit = (analysis: PcbAnalysis, edit: AnnotationEdit): AnnotationEditResult => {
+    const twoSided = analysis.components.some(c => c.side) || analysis.defects.some(d => d.side);
+    const sideField = (side: BoardSide) => (twoSided || side === 'bottom' ? { side } : {});
+
+    switch (edit.type) {
+        case 'move': {
+            const bbox = clampBBox(edit.bbox);
+            if (!bbox) throw new Error("The box is outside the image.");
+            return {
+                analysis: edit.kind === 'component'
+                    ? { ...analysis, components: analysis.components.map(c => isComponentAt(c, edit.id, edit.side) ? { ...c, bbox, origin: 'human' } : c) }
+                    : { ...analysis, defects: analysis.defects.map(d => isDefectAt(d, edit.id, edit.side) ? { ...d, bbox, origin: 'human' } : d) },
+                selectId: edit.id,
+            };
+        }
+        case 'delete': {
+            if (edit.kind === 'defect') {
+                return { analysis: { ...analysis, defects: analysis.defects.filter(d => !isDefectAt(d, edit.id, edit.side)) }, selectId: null };
+            }
+            const remaining = analysis.components.filter(c => !isComponentAt(c, edit.id, edit.side));
+            return {
+                analysis: {
+                    ...analysis,
+                    // The counterpart of a deleted through-hole part is no longer through-hole.
+                    components: remaining.map(c => c.designator === edit.id && c.throughHole ? { ...c, throughHole: false } : c),
+                },
+                selectId: null,
+            };
+        }
+        case 'add': {
+            const bbox = clampBBox(edit.bbox);
+            if (!bbox) throw new Error("The box is outside the image.");
+            if (edit.kind === 'component') {
+                const designator = uniqueId('NEW', new Set(analysis.components.map(c => c.designator)));
+                const component: Component = {
+                    designator, mpn: '', bbox, presence: 'ok', condition: 'ok', confidence: 1, origin: 'human', ...sideField(edit.side),
+                };
+                return { analysis: { ...analysis, components: [...analysis.components, component] }, selectId: designator };
+            }
+            const id = uniqueId('M', new Set(analysis.defects.map(d => d.id)));
+            const defect: Defect = { id, type: 'other', bbox, confidence: 1, origin: 'human', ...sideField(edit.side) };
+            return { analysis: { ...analysis, defects: [...analysis.defects, defect] }, selectId: id };
+        }
+        case 'updateComponent': {
+            const { changes } = edit;
+            const renamed = changes.designator !== undefined ? changes.designator.trim() : edit.designator;
+            if (!renamed) throw new Error("The designator cannot be empty.");
+            if (renamed !== edit.designator && analysis.components.some(c => c.designator === renamed)) {
+                throw new Error(`${renamed} is already on the board.`);
+            }
+            // A voltage typed in by hand no longer comes from the datasheet.
+            const voltageSource = 'maxVoltage' in changes ? { maxVoltageSource: undefined, maxVoltagePage: undefined } : {};
+            return {
+                analysis: {
+                    ...analysis,
+                    // Both sides of a through-hole part share its identity.
+                    components: analysis.components.map(c => c.designator === edit.designator
+                        ? { ...c, ...changes, ...voltageSource, designator: renamed, origin: 'human' }
+                        : c),
+                },
+                selectId: renamed,
+            };
+        }
+        case 'updateDefect': {
+            const type = edit.changes.type?.trim().toLowerCase().replace(/\s+/g, '_');
+            if (edit.changes.type !== undefined && !type) throw new Error("The defect type cannot be empty.");
+            return {
+                analysis: {
+                    ...analysis,
+                    defects: analysis.defects.map(d => d.id === edit.id
+                        ? { ...d, ...edit.changes, ...(type ? { type } : {}), origin: 'human' }
+                        : d),
+                },
+                selectId: edit.id,
+            };
+        }
+        case 'triage': {
+            return {
+                analysis: edit.kind === 'component'
+                    ? { ...analysis, components: analysis.components.map(c => c.designator === edit.id ? withTriage(c, edit.triage) : c) }
+                    : { ...analysis, defects: analysis.defects.map(d => d.id === edit.id ? withTriage(d, edit.triage) : d) },
+                selectId: edit.id,
+            };
+        }
+        case 'anchorDesignators': {
+            // All renames happen at once, so parts may swap names. A part the layout does not
+            // account for keeps its name unless that is now taken, and then gets a suffix.
+            const anchors = new Map(edit.anchors.map(a => [a.from, a]));
+            const claimed = new Set(edit.anchors.map(a => a.to));
+            const taken = new Set([...claimed, ...analysis.components.filter(c => !anchors.has(c.designator)).map(c => c.designator)]);
+            const displaced = new Map<string, string>();
+            const components = analysis.components.map((c): Component => {
+                const anchor = anchors.get(c.designator);
+                if (anchor) {
+                    return { ...c, designator: anchor.to, ...(anchor.mpn ? { mpn: anchor.mpn } : {}) };
+                }
+                if (!claimed.has(c.designator)) return c;
+                // Both sides of a through-hole part get the same new name.
+                if (!displaced.has(c.designator)) {
+                    const renamed = uniqueId(`${c.designator}_`, taken);
+                    taken.add(renamed);
+                    displaced.set(c.designator, renamed);
+                }
+                return { ...c, designator: displaced.get(c.designator)! };
+            });
+            return { analysis: { ...analysis, components }, selectId: null };
+        }
+        case 'datasheetVoltages': {
+            const voltages = new Map(edit.voltages.map(v => [v.designator, v]));
+            return {
+                analysis: {
+                    ...analysis,
+                    components: analysis.components.map(c => {
+                        const reading = voltages.get(c.designator);
+                        return reading ? { ...c, maxVoltage: reading.maxVoltage, maxVoltageSource: 'datasheet', maxVoltagePage: reading.page } : c;
+                    }),
+                },
+                selectId: null,
+            };
+        }
+    }
+};
+
+export const isHumanEdited = (item: { origin?: Component['origin'] }): boolean => item.origin === 'human';
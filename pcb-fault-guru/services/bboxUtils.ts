@@ -0,0 +1,60 @@
+import type { BoundingBox } from '../types';
+
+export const bboxArea = (b: BoundingBox): number => Math.max(0, b.w) * Math.max(0, b.h);
+
+/**
+ * Area of the intersection of two boxes (0 if they do not overlap).
+ */
+export const intersectionArea = (a: BoundingBox, b: BoundingBox): number => {
+    const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+    const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+    return w > 0 && h > 0 ? w * h : 0;
+};
+
+/**
+ * Intersection over union of two boxes, between 0 and 1.
+ */
+export const iou = (a: BoundingBox, b: BoundingBox): number => {
+    const inter = intersectionArea(a, b);
+    const union = bboxArea(a) + bboxArea(b) - inter;
+    return union > 0 ? inter / union : 0;
+};
+
+/**
+ * Intersection divided by the area of the smaller box. Close to 1 when one box
+ * sits inside the other, e.g. a part cut off at a tile edge inside its full detection.
+ */
+export const overlapOfSmaller = (a: BoundingBox, b: BoundingBox): number => {
+    const smaller = Math.min(bboxArea(a), bboxArea(b));
+    return smaller > 0 ? intersectionArea(a, b) / smaller : 0;
+};
+
+/**
+ * Smallest box containing both boxes.
+ */
+export const unionBBox = (a: BoundingBox, b: BoundingBox): BoundingBox => {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+        x,
+        y,
+        w: Math.max(a.x + a.w, b.x + b.w) - x,
+        h: Math.max(a.y + a.h, b.y + b.h) - y,
+    };
+};
+
+/**
+ * Mirrors a box left-to-right, as when a board is flipped over to photograph its other side.
+ */
+export const mirrorBBox = (b: BoundingBox): BoundingBox => ({ ...b, x: 1 - b.x - b.w });
+
+export const bboxCenter = (b: BoundingBox): { x: number; y: number } => ({ x: b.x + b.w / 2, y: b.y + b.h / 2 });
+
+/**
+ * Distance between the centers of two boxes, in normalized image units.
+ */
+export const centerDistance = (a: BoundingBox, b: BoundingBox): number => {
+    const ca = bboxCenter(a);
+    const cb = bboxCenter(b);
+    return Math.hypot(ca.x - cb.x, ca.y - cb.y);
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, ExpectedBom, PcbAnalysis } from '../types';
+import { checkBom, countBomFindings, expandDesignators, findHeaderRow, guessMapping, isSameMpn, parseBomRows } from './bomCheck';
+
+const part = (designator: string, mpn: string, extra: Partial<Component> = {}): Component => ({
+    designator, mpn, presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+    ...extra,
+});
+
+const analysis = (components: Component[]): PcbAnalysis => ({
+    components, defects: [], summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const bom = (lines: [string[], string, number?][]): ExpectedBom => ({
+    source: 'bom.csv', importedAt: '',
+    lines: lines.map(([designators, mpn, quantity]) => ({ designators, mpn, value: '', quantity: quantity ?? designators.length })),
+});
+
+describe('expandDesignators', () => {
+    it('splits lists and expands ranges', () => {
+        expect(expandDesignators('C1, C3-C5 C9')).toEqual(['C1', 'C3', 'C4', 'C5', 'C9']);
+        expect(expandDesignators('R1-4;R7')).toEqual(['R1', 'R2', 'R3', 'R4', 'R7']);
+    });
+
+    it('drops words and leaves implausible ranges alone', () => {
+        expect(expandDesignators('DNP Total U1')).toEqual(['U1']);
+        expect(expandDesignators('R5-R2')).toEqual(['R5-R2']);
+        expect(expandDesignators('R1-R9999')).toEqual(['R1-R9999']);
+    });
+});
+
+describe('parseBomRows', () => {
+    const rows = [['Generated by CAD'], ['Designator', 'Qty', 'Manufacturer Part Number', 'Value'], ['R1-3', '3', 'RC0603', '10k'], ['', 'Total', '', ''], ['J1', '', '', '']];
+
+    it('finds the header below preamble and reads the lines under it', () => {
+        const header = findHeaderRow(rows);
+        expect(header).toBe(1);
+        const mapping = guessMapping(rows[header]);
+        const parsed = parseBomRows(rows, header, mapping, 'bom.csv');
+        expect(parsed.lines).toEqual([
+            { designators: ['R1', 'R2', 'R3'], mpn: 'RC0603', value: '10k', quantity: 3 },
+            { designators: ['J1'], mpn: '', value: '', quantity: 1 },
+        ]);
+    });
+
+    it('needs designators or MPNs', () => {
+        expect(() => parseBomRows(rows, 1, { designators: -1, mpn: -1, quantity: 1, value: 3 }, 'bom.csv')).toThrow(/Choose the column/);
+        expect(() => parseBomRows(rows.slice(0, 2), 1, guessMapping(rows[1]), 'bom.csv')).toThrow(/No parts/);
+    });
+});
+
+describe('isSameMpn', () => {
+    it('ignores case, spaces, dashes and packaging suffixes', () => {
+        expect(isSameMpn('rc0603fr-0710kl', 'RC0603FR-0710KL')).toBe(true);
+        expect(isSameMpn('LM358DR', 'LM358')).toBe(true);
+        expect(isSameMpn('LM358', 'LM324')).toBe(false);
+        expect(isSameMpn('', 'LM358')).toBe(false);
+    });
+});
+
+describe('checkBom', () => {
+    it('reports mismatched, missing and extra parts and wrong quantities', () => {
+        const expected = bom([[['R1', 'R2'], 'RC0603'], [['U1'], 'LM358'], [['C1'], 'GRM188']]);
+        const board = analysis([
+            part('R1', 'RC0603FR'), part('R2', ''), part('U1', 'NE555'), part('C1', '', { presence: 'missing' }), part('D1', '1N4148'),
+        ]);
+        const check = checkBom(expected, board);
+        expect(check.matched).toBe(2);
+        expect(check.mpnMismatches.map(m => m.designator)).toEqual(['U1']);
+        expect(check.missing.map(m => [m.designator, m.component?.presence])).toEqual([['C1', 'missing']]);
+        expect(check.extra.map(c => c.designator)).toEqual(['D1']);
+        expect(check.quantities).toEqual([{ mpn: 'LM358', expected: 1, detected: 0 }, { mpn: 'GRM188', expected: 1, detected: 0 }]);
+        expect(countBomFindings(check)).toBe(5);
+    });
+
+    it('counts a through-hole part once, as fitted if either side shows it', () => {
+        const board = analysis([part('J1', '', { side: 'top', presence: 'missing' }), part('J1', '', { side: 'bottom' })]);
+        expect(checkBom(bom([[['J1'], 'HDR']]), board)).toMatchObject({ matched: 1, missing: [], quantities: [] });
+    });
+
+    it('only flags foreign MPNs when the BOM has no designators', () => {
+        const check = checkBom(bom([[[], 'RC0603', 2]]), analysis([part('R1', 'RC0603'), part('R2', 'RC0603'), part('X1', 'ABM8')]));
+        expect(check.extra.map(c => c.designator)).toEqual(['X1']);
+        expect(check.quantities).toEqual([]);
+    });
+});
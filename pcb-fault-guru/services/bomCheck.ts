@@ -0,0 +1,204 @@
+import * as XLSX from 'xlsx';
+import type { BomCheck, BomLine, Component, ExpectedBom, PcbAnalysis } from '../types';
+import { parseCsv, parseLocaleNumber, formatCsvRow } from './csvUtils';
+import { downloadBlob } from './downloadUtils';
+
+export type BomField = 'designators' | 'mpn' | 'quantity' | 'value';
+
+// The column each field is read from, or -1 when the BOM has none.
+export type BomColumnMapping = Record<BomField, number>;
+
+export const BOM_FIELDS: { id: BomField; label: string }[] = [
+    { id: 'designators', label: 'Designators' },
+    { id: 'mpn', label: 'MPN' },
+    { id: 'quantity', label: 'Quantity' },
+    { id: 'value', label: 'Value' },
+];
+
+const FIELD_PATTERNS: Record<BomField, RegExp> = {
+    designators: /^(designators?|ref(erence)?s?|ref ?des(ignators?)?|refdes|parts?|positions?)$/i,
+    mpn: /^(mpn|manufacturer ?part ?(number|no\.?|#)?|mfr\.? ?(part ?)?(number|no\.?|#)?|mfg\.? ?(part ?)?(number|no\.?|#)?|part ?(number|no\.?|#)|p\/?n)$/i,
+    quantity: /^(qty\.?|quantity|count|amount)$/i,
+    value: /^(value|val|comment|description)$/i,
+};
+
+// Spreadsheets often start with a title block; the header is looked for this far down.
+const HEADER_SEARCH_ROWS = 20;
+
+// Longest range expanded from notation like "R1-R40", so a typo cannot create millions of parts.
+const MAX_RANGE = 500;
+
+export interface BomSheet {
+    name: string;
+    rows: string[][];
+}
+
+/**
+ * Reads the rows of a BOM file: every sheet of an XLSX/XLS/ODS workbook, or a CSV as one sheet.
+ */
+export const readBomSheets = async (file: File): Promise<BomSheet[]> => {
+    if (!/\.(xlsx|xlsm|xls|ods)$/i.test(file.name)) {
+        return [{ name: file.name, rows: parseCsv(await file.text()) }];
+    }
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    return workbook.SheetNames.map(name => ({
+        name,
+        rows: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '', blankrows: false })
+            .map(row => row.map(cell => String(cell ?? ''))),
+    }));
+};
+
+export const guessMapping = (header: string[]): BomColumnMapping => {
+    const cells = header.map(h => h.trim());
+    const mapping = {} as BomColumnMapping;
+    BOM_FIELDS.forEach(({ id }) => { mapping[id] = cells.findIndex(h => FIELD_PATTERNS[id].test(h)); });
+    return mapping;
+};
+
+/**
+ * The first row that names a designator or MPN column along with one other field.
+ */
+export const findHeaderRow = (rows: string[][]): number => {
+    const index = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+        const mapping = guessMapping(row);
+        const found = Object.values(mapping).filter(i => i >= 0).length;
+        return (mapping.designators >= 0 || mapping.mpn >= 0) && found >= 2;
+    });
+    return Math.max(0, index);
+};
+
+/**
+ * Splits a designator list such as "C1, C3-C5 C9" or "R1-4" into single designators.
+ * Words without a number ("Total", "DNP") are not designators and are dropped.
+ */
+export const expandDesignators = (text: string): string[] =>
+    text.split(/[\s,;]+/).filter(token => /\d/.test(token)).flatMap(token => {
+        const range = token.match(/^([A-Za-z_]+)(\d+)-(?:\1)?(\d+)$/);
+        if (!range) return [token];
+        const [, prefix, from, to] = range;
+        const start = parseInt(from, 10);
+        const end = parseInt(to, 10);
+        if (end < start || end - start >= MAX_RANGE) return [token];
+        return Array.from({ length: end - start + 1 }, (_, i) => `${prefix}${start + i}`);
+    });
+
+/**
+ * Builds the expected BOM from the rows below the header, using the chosen columns.
+ * Rows with neither designators nor an MPN (subtotals, notes) are skipped.
+ * @throws {Error} If no columns are mapped or no lines remain.
+ */
+export const parseBomRows = (rows: string[][], headerRow: number, mapping: BomColumnMapping, source: string): ExpectedBom => {
+    if (mapping.designators < 0 && mapping.mpn < 0) {
+        throw new Error('Choose the column with the designators or the MPNs.');
+    }
+    const cell = (row: string[], field: BomField) => (mapping[field] >= 0 ? row[mapping[field]]?.trim() ?? '' : '');
+    const lines = rows.slice(headerRow + 1).flatMap((row): BomLine[] => {
+        const designators = expandDesignators(cell(row, 'designators'));
+        const mpn = cell(row, 'mpn');
+        if (designators.length === 0 && !mpn) return [];
+        const quantity = parseLocaleNumber(cell(row, 'quantity'));
+        return [{ designators, mpn, value: cell(row, 'value'), quantity: quantity >= 0 ? quantity : designators.length || 1 }];
+    });
+    if (lines.length === 0) {
+        throw new Error('No parts were found below the header row.');
+    }
+    return { source, importedAt: new Date().toISOString(), lines };
+};
+
+const normalizeMpn = (mpn: string) => mpn.toUpperCase().replace(/[\s-]/g, '');
+
+/**
+ * Whether a marking read off the board is the BOM's part. BOMs carry ordering codes the
+ * part itself does not (packaging, reel size), so one may be a prefix of the other.
+ */
+export const isSameMpn = (a: string, b: string): boolean => {
+    const x = normalizeMpn(a);
+    const y = normalizeMpn(b);
+    if (!x || !y) return false;
+    return x === y || (Math.min(x.length, y.length) >= 3 && (x.startsWith(y) || y.startsWith(x)));
+};
+
+// Both sides of a through-hole part are one part; the side where it was seen fitted wins.
+const uniqueParts = (components: Component[]): Map<string, Component> => {
+    const parts = new Map<string, Component>();
+    components.forEach(c => {
+        const key = c.designator.toUpperCase();
+        const known = parts.get(key);
+        if (!known || (known.presence === 'missing' && c.presence !== 'missing')) parts.set(key, c);
+    });
+    return parts;
+};
+
+/**
+ * Cross-checks the detected parts against the expected BOM: by designator for MPN mismatches,
+ * missing and extra parts, and by MPN for quantities. A part whose marking could not be read
+ * counts as the part its designator calls for.
+ */
+export const checkBom = (bom: ExpectedBom, analysis: PcbAnalysis): BomCheck => {
+    const parts = uniqueParts(analysis.components);
+    const expected = new Map<string, { designator: string; line: BomLine }>();
+    bom.lines.forEach(line => line.designators.forEach(designator => {
+        const key = designator.toUpperCase();
+        if (!expected.has(key)) expected.set(key, { designator, line });
+    }));
+
+    const check: BomCheck = { matched: 0, mpnMismatches: [], missing: [], extra: [], quantities: [] };
+    expected.forEach(({ designator, line }, key) => {
+        const component = parts.get(key) ?? null;
+        if (!component || component.presence === 'missing') {
+            check.missing.push({ designator, line, component });
+        } else if (component.mpn.trim() && line.mpn && !isSameMpn(component.mpn, line.mpn)) {
+            check.mpnMismatches.push({ designator: component.designator, line, component });
+        } else {
+            check.matched++;
+        }
+    });
+
+    const fitted = Array.from(parts.values()).filter(c => c.presence !== 'missing');
+    // A BOM without designators can only say which MPNs do not belong.
+    check.extra = expected.size > 0
+        ? fitted.filter(c => !expected.has(c.designator.toUpperCase()))
+        : fitted.filter(c => c.mpn.trim() && !bom.lines.some(line => isSameMpn(c.mpn, line.mpn)));
+
+    const byMpn = new Map<string, { mpn: string; expected: number; lines: BomLine[] }>();
+    bom.lines.filter(line => line.mpn).forEach(line => {
+        const key = normalizeMpn(line.mpn);
+        const group = byMpn.get(key) ?? { mpn: line.mpn, expected: 0, lines: [] };
+        group.expected += line.quantity;
+        group.lines.push(line);
+        byMpn.set(key, group);
+    });
+    byMpn.forEach(group => {
+        const detected = fitted.filter(c => c.mpn.trim()
+            ? isSameMpn(c.mpn, group.mpn)
+            : group.lines.some(line => line.designators.some(d => d.toUpperCase() === c.designator.toUpperCase()))).length;
+        if (detected !== group.expected) check.quantities.push({ mpn: group.mpn, expected: group.expected, detected });
+    });
+    return check;
+};
+
+export const countBomFindings = (check: BomCheck): number =>
+    check.mpnMismatches.length + check.missing.length + check.extra.length + check.quantities.length;
+
+export const countBomDesignators = (bom: ExpectedBom): number =>
+    bom.lines.reduce((sum, line) => sum + line.designators.length, 0);
+
+/**
+ * Downloads the cross-check as a CSV report, one finding per row.
+ */
+export const downloadBomReport = (bom: ExpectedBom, check: BomCheck): void => {
+    const rows = [
+        formatCsvRow(['Expected BOM cross-check']),
+        formatCsvRow(['BOM', bom.source]),
+        formatCsvRow(['Checked', new Date().toLocaleString()]),
+        formatCsvRow(['Matched designators', check.matched]),
+        '',
+        formatCsvRow(['Finding', 'Designator', 'Expected MPN', 'Detected MPN', 'Expected Qty', 'Detected Qty', 'Note']),
+        ...check.mpnMismatches.map(m => formatCsvRow(['MPN mismatch', m.designator, m.line.mpn, m.component.mpn, '', '', 'Possible counterfeit or wrong part'])),
+        ...check.missing.map(m => formatCsvRow(['Missing', m.designator, m.line.mpn, '', '', '', m.component ? 'Seen empty on the board' : 'Not detected'])),
+        ...check.extra.map(c => formatCsvRow(['Extra', c.designator, '', c.mpn, '', '', 'Not on the BOM'])),
+        ...check.quantities.map(q => formatCsvRow(['Quantity', '', q.mpn, '', q.expected, q.detected, q.detected < q.expected ? 'Too few' : 'Too many'])),
+    ];
+    const blob = new Blob([rows.join('\r\n')], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(blob, 'bom_cross_check.csv');
+};
@@ -0,0 +1,85 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import type { Component, PcbAnalysis } from '../types';
+import { availableBomColumns, BomMetadata, buildBomTable, createBomFile } from './bomExport';
+import { parseCsv } from './csvUtils';
+
+const part = (designator: string, mpn: string, extra: Partial<Component> = {}): Component => ({
+    designator, mpn, presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+    ...extra,
+});
+
+const analysis = (components: Component[]): PcbAnalysis => ({
+    components, defects: [], summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const board = analysis([
+    part('R10', 'RC0603, 1%', { maxVoltage: 50 }),
+    part('R2', 'rc0603, 1%', { maxVoltage: 75 }),
+    part('J1', 'HDR-2', { side: 'top', throughHole: true }),
+    part('J1', 'HDR-2', { side: 'bottom', throughHole: true }),
+    part('C1', '', { condition: 'burnt' }),
+    part('C2', ''),
+]);
+
+const metadata: BomMetadata = { inspection: 'Unit "7"', serial: 'SN7', boardVoltage: 12, sides: ['top', 'bottom'] };
+
+describe('availableBomColumns', () => {
+    it('offers side columns on two-sided boards and only groupable ones when grouping', () => {
+        expect(availableBomColumns(analysis([part('R1', '')]), 'designator').map(c => c.id)).not.toContain('side');
+        const grouped = availableBomColumns(board, 'mpn').map(c => c.id);
+        expect(grouped).toContain('side');
+        expect(grouped).not.toContain('condition');
+    });
+});
+
+describe('buildBomTable', () => {
+    it('lists one row per detected part', () => {
+        const table = buildBomTable(board, 'designator', ['condition', 'mpn']);
+        expect(table.headers).toEqual(['Designator', 'MPN', 'Condition']);
+        expect(table.rows).toHaveLength(6);
+    });
+
+    it('groups by MPN, counting through-hole parts once and unread markings by class', () => {
+        const table = buildBomTable(board, 'mpn', ['mpn', 'maxVoltage', 'condition']);
+        expect(table.keys).toEqual(['quantity', 'designators', 'mpn', 'maxVoltage']);
+        expect(table.rows).toEqual([
+            [2, ['C1', 'C2'], null, null],
+            [1, ['J1'], 'HDR-2', null],
+            [2, ['R2', 'R10'], 'RC0603, 1%, rc0603, 1%', '50, 75'],
+        ]);
+    });
+});
+
+describe('createBomFile', () => {
+    const options = { layout: 'mpn' as const, columns: ['mpn' as const] };
+
+    it('writes RFC 4180 CSV with a byte order mark and the metadata above the parts', async () => {
+        const { blob, fileName } = createBomFile(board, metadata, { ...options, format: 'csv' });
+        expect(fileName).toBe('bom_grouped.csv');
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        expect(Array.from(bytes.slice(0, 3))).toEqual([0xEF, 0xBB, 0xBF]);
+        const text = new TextDecoder().decode(bytes.slice(3));
+        expect(text).toContain('\r\n');
+        const rows = parseCsv(text, ',');
+        expect(rows[0]).toEqual(['Inspection', 'Unit "7"']);
+        expect(rows).toContainEqual(['2', 'R2, R10', 'RC0603, 1%, rc0603, 1%']);
+        expect(rows[rows.length - 1]).toEqual(['Connector', '1']);
+    });
+
+    it('keeps values typed in JSON', async () => {
+        const { blob } = createBomFile(board, metadata, { ...options, format: 'json' });
+        const json = JSON.parse(await blob.text());
+        expect(json.metadata).toMatchObject({ inspection: 'Unit "7"', boardVoltage: 12, layout: 'mpn' });
+        expect(json.parts[0]).toEqual({ quantity: 2, designators: ['C1', 'C2'], mpn: null });
+        expect(json.classes).toEqual([{ class: 'Resistor', quantity: 2 }, { class: 'Capacitor', quantity: 2 }, { class: 'Connector', quantity: 1 }]);
+    });
+
+    it('puts the class totals on a second XLSX sheet', async () => {
+        const { blob } = createBomFile(board, metadata, { ...options, format: 'xlsx' });
+        const workbook = XLSX.read(new Uint8Array(await blob.arrayBuffer()), { type: 'array' });
+        expect(workbook.SheetNames).toEqual(['BOM', 'Classes']);
+        expect(XLSX.utils.sheet_to_json(workbook.Sheets.Classes, { header: 1 })).toContainEqual(['Connector', 1]);
+    });
+});
@@ -0,0 +1,187 @@
+import * as XLSX from 'xlsx';
+import type { BoardSide, Component, PcbAnalysis } from '../types';
+import { getSide, isTwoSided } from './analysisMerge';
+import { getComponentClass, getClassInfo, countByClass } from './componentClass';
+import { formatCsvRow } from './csvUtils';
+import { downloadBlob } from './downloadUtils';
+
+export type BomFormat = 'csv' | 'xlsx' | 'json';
+
+// One row per detected part, or one row per MPN with its quantity and designator list.
+export type BomLayout = 'designator' | 'mpn';
+
+export type BomColumnId =
+    | 'side' | 'throughHole' | 'class' | 'mpn' | 'presence' | 'condition'
+    | 'confidence' | 'temperature' | 'maxVoltage' | 'datasheet' | 'origin';
+
+// Lists stay lists in JSON and are joined for the spreadsheet formats.
+type CellValue = string | number | boolean | null | string[];
+
+export interface BomColumn {
+    id: BomColumnId;
+    label: string;
+    value: (c: Component) => CellValue;
+    groupable: boolean; // meaningful for a group of parts; per-part readings are left out of the grouped layout
+    twoSidedOnly?: boolean;
+}
+
+export const BOM_COLUMNS: BomColumn[] = [
+    { id: 'side', label: 'Side', value: getSide, groupable: true, twoSidedOnly: true },
+    { id: 'throughHole', label: 'Through-Hole', value: c => !!c.throughHole, groupable: true, twoSidedOnly: true },
+    { id: 'class', label: 'Class', value: c => getClassInfo(getComponentClass(c)).label, groupable: true },
+    { id: 'mpn', label: 'MPN', value: c => c.mpn, groupable: true },
+    { id: 'presence', label: 'Presence', value: c => c.presence, groupable: false },
+    { id: 'condition', label: 'Condition', value: c => c.condition, groupable: false },
+    { id: 'confidence', label: 'Confidence', value: c => c.confidence, groupable: false },
+    { id: 'temperature', label: 'Temperature (C)', value: c => c.temperature ?? null, groupable: false },
+    { id: 'maxVoltage', label: 'Max Voltage (V)', value: c => c.maxVoltage ?? null, groupable: true },
+    { id: 'datasheet', label: 'Datasheet', value: c => c.datasheetUrl ?? null, groupable: true },
+    { id: 'origin', label: 'Origin', value: c => c.origin ?? 'model', groupable: false },
+];
+
+export interface BomExportOptions {
+    format: BomFormat;
+    layout: BomLayout;
+    columns: BomColumnId[];
+}
+
+// Written as a header block above the parts, so a file found later still says which board it describes.
+export interface BomMetadata {
+    inspection: string;
+    project?: string; // board model and revision
+    serial?: string;
+    boardVoltage: number | null;
+    sides: BoardSide[];
+}
+
+export interface BomTable {
+    headers: string[];
+    keys: string[]; // JSON property names, in the order of the headers
+    rows: CellValue[][];
+}
+
+/**
+ * The columns that can be chosen for an analysis and layout: side columns only on
+ * two-sided inspections, and only the groupable ones when grouping by MPN.
+ */
+export const availableBomColumns = (analysis: PcbAnalysis, layout: BomLayout): BomColumn[] => {
+    const twoSided = isTwoSided(analysis);
+    return BOM_COLUMNS.filter(col => (twoSided || !col.twoSidedOnly) && (layout === 'designator' || col.groupable));
+};
+
+const byDesignator = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// Through-hole parts appear once per side; a BOM line counts the part once.
+const uniqueByDesignator = (components: Component[]): Component[] => {
+    const seen = new Set<string>();
+    return components.filter(c => {
+        const key = c.designator.toUpperCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Unread markings are grouped by class rather than lumped into one line of unknown parts.
+const groupKey = (c: Component) => c.mpn.trim().toUpperCase() || `?${getComponentClass(c)}`;
+
+// The values of a column across a group: one value when the parts agree, otherwise all of them.
+const groupValue = (column: BomColumn, parts: Component[]): CellValue => {
+    const values = Array.from(new Set(parts.map(column.value).filter(v => v !== null && v !== '')));
+    if (values.length === 0) return null;
+    return values.length === 1 ? values[0] : values.map(String).join(', ');
+};
+
+/**
+ * Lays out the parts as a table with the chosen columns, in the order of `BOM_COLUMNS`.
+ * Per-designator rows lead with the designator; grouped rows with the quantity and designator list.
+ */
+export const buildBomTable = (analysis: PcbAnalysis, layout: BomLayout, columnIds: BomColumnId[]): BomTable => {
+    const columns = availableBomColumns(analysis, layout).filter(col => columnIds.includes(col.id));
+    if (layout === 'designator') {
+        return {
+            headers: ['Designator', ...columns.map(col => col.label)],
+            keys: ['designator', ...columns.map(col => col.id)],
+            rows: analysis.components.map(c => [c.designator, ...columns.map(col => col.value(c))]),
+        };
+    }
+    const groups = new Map<string, Component[]>();
+    uniqueByDesignator(analysis.components).forEach(c => {
+        const key = groupKey(c);
+        groups.set(key, [...(groups.get(key) ?? []), c]);
+    });
+    const rows = Array.from(groups.values())
+        .map(parts => ({ parts, designators: parts.map(c => c.designator).sort(byDesignator) }))
+        .sort((a, b) => byDesignator(a.designators[0], b.designators[0]))
+        .map(({ parts, designators }) => [parts.length, designators, ...columns.map(col => groupValue(col, parts))]);
+    return {
+        headers: ['Quantity', 'Designators', ...columns.map(col => col.label)],
+        keys: ['quantity', 'designators', ...columns.map(col => col.id)],
+        rows,
+    };
+};
+
+const metadataRows = (metadata: BomMetadata, layout: BomLayout, exportedAt: Date): [string, string][] => [
+    ['Inspection', metadata.inspection],
+    ...(metadata.project ? [['Project', metadata.project] as [string, string]] : []),
+    ...(metadata.serial ? [['Serial', metadata.serial] as [string, string]] : []),
+    ['Board Voltage', metadata.boardVoltage !== null ? `${metadata.boardVoltage} V` : 'Not set'],
+    ['Sides', metadata.sides.join(', ')],
+    ['Layout', layout === 'mpn' ? 'Grouped by MPN' : 'One row per designator'],
+    ['Exported', exportedAt.toISOString()],
+];
+
+const displayValue = (value: CellValue): string | number => {
+    if (value === null) return '';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'boolean') return value ? 'yes' : 'no';
+    return value;
+};
+
+/**
+ * Builds the BOM file: the metadata block, the parts table and the quantities per class.
+ * CSV is RFC 4180 (CRLF line breaks, quoted where needed, with a byte order mark for Excel);
+ * XLSX keeps the class totals on a second sheet; JSON keeps numbers and missing values typed.
+ */
+export const createBomFile = (analysis: PcbAnalysis, metadata: BomMetadata, options: BomExportOptions): { blob: Blob; fileName: string } => {
+    const exportedAt = new Date();
+    const table = buildBomTable(analysis, options.layout, options.columns);
+    const meta = metadataRows(metadata, options.layout, exportedAt);
+    const classes = countByClass(analysis.components).map(({ info, count }) => [info.label, count] as [string, number]);
+    const baseName = options.layout === 'mpn' ? 'bom_grouped' : 'bom_report';
+
+    if (options.format === 'json') {
+        const json = {
+            metadata: { ...metadata, layout: options.layout, exportedAt: exportedAt.toISOString() },
+            parts: table.rows.map(row => Object.fromEntries(table.keys.map((key, i) => [key, row[i]]))),
+            classes: classes.map(([label, count]) => ({ class: label, quantity: count })),
+        };
+        return { blob: new Blob([JSON.stringify(json, null, 2)], { type: 'application/json' }), fileName: `${baseName}.json` };
+    }
+
+    const partRows = [table.headers, ...table.rows.map(row => row.map(displayValue))];
+    const classRows = [['Class', 'Quantity'], ...classes];
+
+    if (options.format === 'xlsx') {
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([...meta, [], ...partRows]), 'BOM');
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(classRows), 'Classes');
+        const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+        return {
+            blob: new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+            fileName: `${baseName}.xlsx`,
+        };
+    }
+
+    // Sections are separated by a blank line, as spreadsheet programs show them.
+    const lines = [...meta, [], ...partRows, [], ...classRows].map(row => (row.length > 0 ? formatCsvRow(row) : ''));
+    return { blob: new Blob(['\uFEFF' + lines.join('\r\n') + '\r\n'], { type: 'text/csv;charset=utf-8;' }), fileName: `${baseName}.csv` };
+};
+
+/**
+ * Builds the BOM file and hands it to the browser as a download.
+ */
+export const downloadBom = (analysis: PcbAnalysis, metadata: BomMetadata, options: BomExportOptions): void => {
+    const { blob, fileName } = createBomFile(analysis, metadata, options);
+    downloadBlob(blob, fileName);
+};
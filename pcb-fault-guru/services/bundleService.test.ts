@@ -0,0 +1,83 @@
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { InspectionRecord, PcbAnalysis } from '../types';
+import { BUNDLE_SCHEMA_VERSION, createBundle, readBundle } from './bundleService';
+import { DEFAULT_SETTINGS } from './settingsService';
+
+// JSZip reads Blobs with FileReader, which Node lacks.
+class BlobReader {
+    result: ArrayBuffer | null = null;
+    onload: ((event: { target: BlobReader }) => void) | null = null;
+    onerror: ((error: unknown) => void) | null = null;
+    readAsArrayBuffer(blob: Blob) {
+        blob.arrayBuffer().then(buffer => {
+            this.result = buffer;
+            this.onload?.({ target: this });
+        }, error => this.onerror?.(error));
+    }
+}
+
+const analysis: PcbAnalysis = {
+    components: [{ designator: 'R1', mpn: '', presence: 'ok', condition: 'burnt', confidence: 0.9, bbox: { x: 0.1, y: 0.1, w: 0.1, h: 0.1 } }],
+    defects: [],
+    summary: 'One burnt resistor.',
+    advice: { quick_actions: [], alternatives: [], next_steps: [] },
+};
+
+const image = (name: string) => new File([Uint8Array.from([1, 2, 3])], name, { type: 'image/jpeg' });
+
+// A bundle as an older version of the app wrote it.
+const legacyBundle = async (schemaVersion: number, session: Record<string, unknown>, withImage = true) => {
+    const zip = new JSZip();
+    if (withImage) zip.file('images/top.jpg', Uint8Array.from([1, 2, 3]));
+    zip.file('manifest.json', JSON.stringify({
+        format: 'pcb-fault-guru-bundle', schemaVersion, exportedAt: '', name: 'Old',
+        images: withImage ? { top: { path: 'images/top.jpg', fileName: 'top.jpg', type: 'image/jpeg' } } : {},
+    }));
+    zip.file('session.json', JSON.stringify(session));
+    return new Blob([await zip.generateAsync({ type: 'uint8array' })]);
+};
+
+const v1Session = { name: 'Old', createdAt: '2023-05-01T00:00:00.000Z', analysis, warnings: [], chatHistory: [], boardVoltage: null, settings: DEFAULT_SETTINGS };
+
+describe('readBundle', () => {
+    beforeEach(() => vi.stubGlobal('FileReader', BlobReader));
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('round-trips an inspection with its images', async () => {
+        const record: InspectionRecord = {
+            id: 'a', name: 'Unit 7', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '', serial: 'SN7',
+            images: { top: image('top.jpg'), bottom: image('bottom.jpg') },
+            analysis, warnings: [], chatHistory: [], boardVoltage: 12, settings: DEFAULT_SETTINGS,
+        };
+        const project = { id: 'p1', name: 'Controller', revision: 'B', expectedVoltage: 12, createdAt: '' };
+        const { record: imported, project: importedProject } = await readBundle(await createBundle(record, project));
+        expect(imported).toMatchObject({ name: 'Unit 7', serial: 'SN7', projectId: 'p1', boardVoltage: 12, repairJob: null, verification: null, placement: null });
+        expect(imported.analysis).toEqual(analysis);
+        expect(imported.images.bottom?.name).toBe('bottom.jpg');
+        expect(new Uint8Array(await imported.images.top!.arrayBuffer())).toEqual(Uint8Array.from([1, 2, 3]));
+        expect(importedProject).toEqual(project);
+    });
+
+    it(`migrates version 1 bundles to version ${BUNDLE_SCHEMA_VERSION}`, async () => {
+        const jumperSuggestion = { from: { x: 0.1, y: 0.1 }, to: { x: 0.2, y: 0.2 } };
+        const { record } = await readBundle(await legacyBundle(1, { ...v1Session, jumperSuggestion }));
+        expect(record).not.toHaveProperty('jumperSuggestion');
+        expect(record.reworkPlan).toMatchObject({ createdAt: v1Session.createdAt, steps: [expect.objectContaining({ action: 'jumper' })] });
+        expect(record).toMatchObject({ repairJob: null, verification: null, placement: null, expectedBom: null });
+    });
+
+    it('leaves later fields alone when migrating from a later version', async () => {
+        const placement = { source: 'pnp.csv', importedAt: '', parts: [], outline: { x: 0, y: 0, width: 1, height: 1 }, registration: {} };
+        const { record } = await readBundle(await legacyBundle(5, { ...v1Session, reworkPlan: null, repairJob: null, verification: null, placement }));
+        expect(record.placement).toEqual(placement);
+        expect(record.expectedBom).toBeNull();
+    });
+
+    it('rejects files that are not bundles, newer bundles and bundles without an image', async () => {
+        await expect(readBundle(new Blob(['not a zip']))).rejects.toThrow(/not an inspection bundle/);
+        await expect(readBundle(await legacyBundle(BUNDLE_SCHEMA_VERSION + 1, v1Session))).rejects.toThrow(/newer version/);
+        await expect(readBundle(await legacyBundle(1, v1Session, false))).rejects.toThrow(/board image/);
+        await expect(readBundle(await legacyBundle(1, { ...v1Session, analysis: {} }))).rejects.toThrow(/analysis/);
+    });
+});
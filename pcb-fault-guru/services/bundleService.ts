@@ -0,0 +1,247 @@
+import JSZip from 'jszip';
+import type { InspectionRecord, BoardProject, BoardSide, JumperSuggestion, RepairJob, JobTask, RepairVerification } from '../types';
+import { planFromJumper } from './reworkPlan';
+import { downloadBlob } from './downloadUtils';
+
+/**
+ * Current schema of bundle.json. Bump it whenever a change to `types.ts` alters what is
+ * stored, and add a migration below that upgrades the previous version.
+ */
+export const BUNDLE_SCHEMA_VERSION = 6;
+
+const BUNDLE_FORMAT = 'pcb-fault-guru-bundle';
+const MANIFEST_PATH = 'manifest.json';
+const SESSION_PATH = 'session.json';
+
+interface BundledImage {
+    path: string;
+    fileName: string;
+    type: string;
+}
+
+export interface BundleManifest {
+    format: typeof BUNDLE_FORMAT;
+    schemaVersion: number;
+    exportedAt: string;
+    name: string;
+    images: Partial<Record<BoardSide, BundledImage>>;
+}
+
+// A repair job photo, stored as a separate file like the board images.
+export interface BundledPhoto extends BundledImage {
+    id: string;
+    addedAt: string;
+}
+
+export type BundledRepairJob = Omit<RepairJob, 'tasks'> & {
+    tasks: (Omit<JobTask, 'photos'> & { photos: BundledPhoto[] })[];
+};
+
+export type BundledVerification = Omit<RepairVerification, 'images'> & {
+    images: Partial<Record<BoardSide, BundledImage>>;
+};
+
+// Everything in the inspection except the images and photos, which are stored as separate files.
+export type BundleSession = Omit<InspectionRecord, 'id' | 'updatedAt' | 'images' | 'projectId' | 'repairJob' | 'verification'> & {
+    project?: BoardProject;
+    repairJob?: BundledRepairJob | null;
+    verification?: BundledVerification | null;
+};
+
+export interface ImportedBundle {
+    record: Omit<InspectionRecord, 'id' | 'updatedAt'>;
+    project?: BoardProject;
+}
+
+/**
+ * Upgrades a session one schema version: `MIGRATIONS[n]` turns version n into n + 1.
+ * Sessions are untyped here because they predate the current `types.ts`.
+ */
+const MIGRATIONS: Record<number, (session: Record<string, unknown>) => Record<string, unknown>> = {
+    // Version 2 replaced the single jumper suggestion with a rework plan.
+    1: ({ jumperSuggestion, ...session }) => ({
+        ...session,
+        reworkPlan: jumperSuggestion ? planFromJumper(jumperSuggestion as JumperSuggestion, session.createdAt as string) : null,
+    }),
+    // Version 3 added the repair job; older sessions simply have none.
+    2: (session) => ({ ...session, repairJob: null }),
+    // Version 4 added the post-repair verification.
+    3: (session) => ({ ...session, verification: null }),
+    // Version 5 added the board layout imported from a pick-and-place file or KiCad board.
+    4: (session) => ({ ...session, placement: null }),
+    // Version 6 added the expected BOM the detected parts are cross-checked against.
+    5: (session) => ({ ...session, expectedBom: null }),
+};
+
+const migrateSession = (session: Record<string, unknown>, fromVersion: number): Record<string, unknown> => {
+    let migrated = session;
+    for (let version = fromVersion; version < BUNDLE_SCHEMA_VERSION; version++) {
+        const migration = MIGRATIONS[version];
+        if (!migration) {
+            throw new Error(`Bundles with schema version ${version} can no longer be imported.`);
+        }
+        migrated = migration(migrated);
+    }
+    return migrated;
+};
+
+const extensionFor = (file: File) => file.name.match(/\.[^.]+$/)?.[0] ?? (file.type === 'image/png' ? '.png' : '.jpg');
+
+const packRepairJob = async (zip: JSZip, job: RepairJob): Promise<BundledRepairJob> => ({
+    ...job,
+    tasks: await Promise.all(job.tasks.map(async task => ({
+        ...task,
+        photos: await Promise.all(task.photos.map(async ({ id, addedAt, file }) => {
+            const path = `photos/${id}${extensionFor(file)}`;
+            zip.file(path, await file.arrayBuffer());
+            return { id, addedAt, path, fileName: file.name, type: file.type };
+        })),
+    }))),
+});
+
+const packVerification = async (zip: JSZip, verification: RepairVerification): Promise<BundledVerification> => {
+    const images: BundledVerification['images'] = {};
+    for (const [side, file] of Object.entries(verification.images) as [BoardSide, File][]) {
+        const path = `verification/${side}${extensionFor(file)}`;
+        zip.file(path, await file.arrayBuffer());
+        images[side] = { path, fileName: file.name, type: file.type };
+    }
+    return { ...verification, images };
+};
+
+const unpackVerification = async (zip: JSZip, verification: BundledVerification): Promise<RepairVerification> => {
+    const images: RepairVerification['images'] = {};
+    for (const [side, image] of Object.entries(verification.images) as [BoardSide, BundledImage][]) {
+        const entry = zip.file(image.path);
+        if (!entry) {
+            throw new Error(`The bundle is missing the repaired ${side} image.`);
+        }
+        images[side] = new File([await entry.async('blob')], image.fileName, { type: image.type });
+    }
+    return { ...verification, images };
+};
+
+const unpackRepairJob = async (zip: JSZip, job: BundledRepairJob): Promise<RepairJob> => ({
+    ...job,
+    tasks: await Promise.all(job.tasks.map(async task => ({
+        ...task,
+        photos: await Promise.all(task.photos.map(async ({ id, addedAt, path, fileName, type }) => {
+            const entry = zip.file(path);
+            if (!entry) {
+                throw new Error(`The bundle is missing the repair photo ${path}.`);
+            }
+            return { id, addedAt, file: new File([await entry.async('blob')], fileName, { type }) };
+        })),
+    }))),
+});
+
+/**
+ * Packs an inspection into a single zip: a manifest, the session JSON and the original images.
+ * @param record - The inspection to export.
+ * @param project - The board project it belongs to, embedded so the recipient gets it too.
+ */
+export const createBundle = async (record: InspectionRecord, project?: BoardProject): Promise<Blob> => {
+    const zip = new JSZip();
+    const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        schemaVersion: BUNDLE_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        name: record.name,
+        images: {},
+    };
+    for (const [side, file] of Object.entries(record.images) as [BoardSide, File][]) {
+        const path = `images/${side}${extensionFor(file)}`;
+        zip.file(path, await file.arrayBuffer());
+        manifest.images[side] = { path, fileName: file.name, type: file.type };
+    }
+
+    const session: BundleSession = {
+        name: record.name,
+        createdAt: record.createdAt,
+        serial: record.serial,
+        project,
+        analysis: record.analysis,
+        warnings: record.warnings,
+        chatHistory: record.chatHistory,
+        reworkPlan: record.reworkPlan ?? null,
+        connectivity: record.connectivity,
+        placement: record.placement ?? null,
+        expectedBom: record.expectedBom ?? null,
+        repairJob: record.repairJob ? await packRepairJob(zip, record.repairJob) : null,
+        verification: record.verification ? await packVerification(zip, record.verification) : null,
+        boardVoltage: record.boardVoltage,
+        settings: record.settings,
+    };
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    zip.file(SESSION_PATH, JSON.stringify(session, null, 2));
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+/**
+ * Exports an inspection and downloads it as a `.pcbguru.zip` file.
+ */
+export const downloadBundle = async (record: InspectionRecord, project?: BoardProject): Promise<void> => {
+    const blob = await createBundle(record, project);
+    downloadBlob(blob, `${record.name.replace(/[^\w.-]+/g, '_')}.pcbguru.zip`);
+};
+
+const readJson = async (zip: JSZip, path: string): Promise<any> => {
+    const entry = zip.file(path);
+    if (!entry) {
+        throw new Error(`The bundle is missing ${path}.`);
+    }
+    try {
+        return JSON.parse(await entry.async('string'));
+    } catch {
+        throw new Error(`The bundle's ${path} is not valid JSON.`);
+    }
+};
+
+/**
+ * Reads a bundle back, migrating older schema versions to the current one.
+ * @param file - A zip written by `createBundle`.
+ */
+export const readBundle = async (file: Blob): Promise<ImportedBundle> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error("The file is not an inspection bundle.");
+    }
+
+    const manifest = await readJson(zip, MANIFEST_PATH);
+    if (manifest?.format !== BUNDLE_FORMAT || typeof manifest.schemaVersion !== 'number') {
+        throw new Error("The file is not an inspection bundle.");
+    }
+    if (manifest.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+        throw new Error("This bundle was made by a newer version of the app. Update the app to open it.");
+    }
+    const session = migrateSession(await readJson(zip, SESSION_PATH), manifest.schemaVersion) as BundleSession;
+    if (!session.analysis || !Array.isArray(session.analysis.components) || !Array.isArray(session.analysis.defects)) {
+        throw new Error("The bundle does not contain an analysis.");
+    }
+
+    const images: Partial<Record<BoardSide, File>> = {};
+    for (const [side, image] of Object.entries(manifest.images ?? {}) as [BoardSide, BundleManifest['images'][BoardSide]][]) {
+        const entry = image && zip.file(image.path);
+        if (!image || !entry) {
+            throw new Error(`The bundle is missing the ${side} image.`);
+        }
+        images[side] = new File([await entry.async('blob')], image.fileName, { type: image.type });
+    }
+    if (!images.top) {
+        throw new Error("The bundle does not contain a board image.");
+    }
+
+    const { project, repairJob, verification, ...rest } = session;
+    return {
+        record: {
+            ...rest,
+            images,
+            repairJob: repairJob ? await unpackRepairJob(zip, repairJob) : null,
+            verification: verification ? await unpackVerification(zip, verification) : null,
+            projectId: project?.id,
+        },
+        project,
+    };
+};
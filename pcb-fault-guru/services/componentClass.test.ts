@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Component } from '../types';
+import { classFromDesignator, classFromMpn, countByClass, parseComponentClass, resolveComponentClass } from './componentClass';
+
+const part = (designator: string, mpn = '', extra: Partial<Component> = {}): Component => ({
+    designator, mpn, presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+    ...extra,
+});
+
+describe('classFromDesignator', () => {
+    it('reads known prefixes', () => {
+        expect(classFromDesignator('R12')).toBe('resistor');
+        expect(classFromDesignator('cr3')).toBe('diode');
+        expect(classFromDesignator('TP4')).toBe('test_point');
+    });
+
+    it('reads unknown two-letter prefixes by their first letter only where that is safe', () => {
+        expect(classFromDesignator('RV1')).toBe('resistor');
+        expect(classFromDesignator('QA2')).toBe('transistor');
+        expect(classFromDesignator('LD1')).toBeNull();
+        expect(classFromDesignator('FD2')).toBeNull();
+        expect(classFromDesignator('SP1')).toBeNull();
+        expect(classFromDesignator('UNK1')).toBeNull();
+    });
+});
+
+describe('classFromMpn', () => {
+    it('tells chip resistors from coin cells', () => {
+        expect(classFromMpn('CRCW06031K00FKEA')).toBe('resistor');
+        expect(classFromMpn('CR0603-FX-1002ELF')).toBe('resistor');
+        expect(classFromMpn('CR2032')).toBe('battery');
+        expect(classFromMpn('CR1220')).toBe('battery');
+    });
+
+    it('tells Vishay MOSFETs from Silicon Labs ICs', () => {
+        expect(classFromMpn('SI2302CDS-T1-GE3')).toBe('transistor');
+        expect(classFromMpn('Si4435DY')).toBe('transistor');
+        expect(classFromMpn('SI7336ADP')).toBe('transistor');
+        expect(classFromMpn('Si4463-B1B-FMR')).toBe('ic');
+        expect(classFromMpn('SI5351A-B-GT')).toBe('ic');
+    });
+
+    it('returns null for blank or unknown parts', () => {
+        expect(classFromMpn('  ')).toBeNull();
+        expect(classFromMpn('XYZ-123')).toBeNull();
+    });
+});
+
+describe('resolveComponentClass', () => {
+    it('prefers the override, then the model, then the designator, then the MPN', () => {
+        expect(resolveComponentClass(part('R1', '', { classOverride: 'fuse', componentClass: 'ic' }))).toEqual({ componentClass: 'fuse', source: 'manual' });
+        expect(resolveComponentClass(part('R1', '', { componentClass: 'ic' }))).toEqual({ componentClass: 'ic', source: 'model' });
+        expect(resolveComponentClass(part('R1', 'GRM188'))).toEqual({ componentClass: 'resistor', source: 'designator' });
+        expect(resolveComponentClass(part('UNK2', 'GRM188'))).toEqual({ componentClass: 'capacitor', source: 'mpn' });
+        expect(resolveComponentClass(part('UNK1'))).toEqual({ componentClass: 'other', source: 'unknown' });
+    });
+});
+
+describe('countByClass', () => {
+    it('counts a through-hole part listed on both sides once', () => {
+        const counts = countByClass([part('J1', '', { side: 'top' }), part('J1', '', { side: 'bottom' }), part('R1'), part('R2')]);
+        expect(counts.map(c => [c.info.id, c.count])).toEqual([['resistor', 2], ['connector', 1]]);
+    });
+});
+
+describe('parseComponentClass', () => {
+    it('accepts ids, aliases and plurals', () => {
+        expect(parseComponentClass('Test Point')).toBe('test_point');
+        expect(parseComponentClass('MOSFET')).toBe('transistor');
+        expect(parseComponentClass('capacitors')).toBe('capacitor');
+        expect(parseComponentClass('widget')).toBeNull();
+        expect(parseComponentClass(3)).toBeNull();
+    });
+});
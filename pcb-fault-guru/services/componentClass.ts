@@ -0,0 +1,145 @@
+import type { Component, ComponentClass } from '../types';
+
+export interface ComponentClassInfo {
+    id: ComponentClass;
+    label: string;
+    color: string; // box color in the viewer's color-by-class mode
+}
+
+export const COMPONENT_CLASSES: ComponentClassInfo[] = [
+    { id: 'resistor', label: 'Resistor', color: '#f59e0b' },
+    { id: 'capacitor', label: 'Capacitor', color: '#3b82f6' },
+    { id: 'inductor', label: 'Inductor', color: '#14b8a6' },
+    { id: 'diode', label: 'Diode', color: '#ef4444' },
+    { id: 'led', label: 'LED', color: '#facc15' },
+    { id: 'transistor', label: 'Transistor', color: '#a855f7' },
+    { id: 'ic', label: 'IC', color: '#22c55e' },
+    { id: 'connector', label: 'Connector', color: '#94a3b8' },
+    { id: 'fuse', label: 'Fuse', color: '#fb923c' },
+    { id: 'crystal', label: 'Crystal', color: '#ec4899' },
+    { id: 'switch', label: 'Switch', color: '#84cc16' },
+    { id: 'relay', label: 'Relay', color: '#06b6d4' },
+    { id: 'transformer', label: 'Transformer', color: '#8b5cf6' },
+    { id: 'battery', label: 'Battery', color: '#eab308' },
+    { id: 'test_point', label: 'Test Point', color: '#d1d5db' },
+    { id: 'other', label: 'Other', color: '#6b7280' },
+];
+
+const CLASS_INFO = new Map(COMPONENT_CLASSES.map(c => [c.id, c]));
+
+export const getClassInfo = (id: ComponentClass): ComponentClassInfo => CLASS_INFO.get(id) ?? CLASS_INFO.get('other')!;
+
+export const isComponentClass = (value: unknown): value is ComponentClass =>
+    typeof value === 'string' && CLASS_INFO.has(value as ComponentClass);
+
+// Reference designator prefixes (IPC/IEEE 315 conventions). Longer prefixes are checked first.
+const DESIGNATOR_PREFIXES: Record<string, ComponentClass> = {
+    R: 'resistor', RN: 'resistor', RP: 'resistor', RA: 'resistor',
+    C: 'capacitor', CP: 'capacitor',
+    L: 'inductor', FB: 'inductor', FL: 'inductor',
+    D: 'diode', CR: 'diode', ZD: 'diode', TVS: 'diode',
+    LED: 'led', DS: 'led',
+    Q: 'transistor', M: 'transistor',
+    U: 'ic', IC: 'ic', VR: 'ic',
+    J: 'connector', P: 'connector', CN: 'connector', CON: 'connector', USB: 'connector',
+    F: 'fuse', PTC: 'fuse',
+    Y: 'crystal', X: 'crystal', XTAL: 'crystal', OSC: 'crystal',
+    S: 'switch', SW: 'switch', BTN: 'switch',
+    K: 'relay', RL: 'relay', RLY: 'relay',
+    T: 'transformer', TR: 'transformer',
+    B: 'battery', BT: 'battery', BAT: 'battery',
+    TP: 'test_point',
+};
+
+// Two-letter prefixes not listed above are read by their first letter only for these, where
+// a second letter just narrows the kind ("RV", "QA"); "LD", "FD" or "SP" say nothing about L, F or S.
+const REFINABLE_PREFIXES = new Set(['R', 'C', 'D', 'Q', 'U', 'J']);
+
+// Common manufacturer part number families, checked when the designator says nothing.
+// Order matters: the first match wins.
+const MPN_PATTERNS: [RegExp, ComponentClass][] = [
+    // Bourns chip resistors carry a dash after the size (CR0603-FX-1002); coin cells do not (CR2032).
+    [/^(RC\d|ERJ|CRCW|RMCF|RK73|MCR\d|CR\d{4}-|ERA)/, 'resistor'],
+    [/^(CR|BR|LIR|ML)\d{4}(?!-)/, 'battery'],
+    [/^(GRM|GCM|GRT|CL\d{2}|C\d{4}[A-Z]|UMK|EMK|TMK|JMK|T49|TAJ|TPS[A-Z]|EEE|UWT|UUD|ECA|EEU)/, 'capacitor'],
+    [/^(LQH|LQM|LQW|SRR|SRN|SRP|NR\d|MLZ|BLM|XAL|XFL|IHLP|CBC|LPS|MSS)/, 'inductor'],
+    [/^(LTST|APT\d|APHHS|KP-|SML-|LS[A-Z]\d|19-21|XZM)/, 'led'],
+    [/^(1N\d|BAT\d|BAV|BAS|SS\d|SMBJ|SMAJ|SMCJ|MBR|ES\d|US\d|SMF|PESD|BZX|BZT|MMSZ|SBR|STPS|RB\d)/, 'diode'],
+    [/^(2N\d|2SC|2SA|BC\d|MMBT|IRF|IRL|AO\d|SI\d{4}[A-Z]{0,2}D[SYPNVHL]|BSS|FDN|FDS|DMG|DMN|DMP|NTR|MJD|TIP\d|BSC|IPD|STP\d)/, 'transistor'],
+    [/(MHZ|KHZ)|^(ABM|ABLS|FA-|TSX|HC-?49|ECS-|NX\d{4}|SIT\d)/, 'crystal'],
+    [/^(MF-|RXEF|MICROSMD|NANOSMDC|0451|0452|0453|0154|0251|SMD\d{3}|TR\/|PTCTL)/, 'fuse'],
+    [/^(USB|RJ45|RJ11|HDR|B\dB-|S\dB-|SM\d{2}B|DF\d{2}|FH\d{2}|XH|PH-|JST|TSW-|SSW-|MOLEX|1011|5055|4401|6130)/, 'connector'],
+    [/^(G5V|G6K|G5LE|JQC|SRD-|HF\d|TQ2|AQY|EC2)/, 'relay'],
+    [/^(TL\d|NE555|LM\d|MAX\d|ADM?\d|TPS\d|LT\d|MCP\d|SN74|74[A-Z]{1,4}\d|CD4\d|STM32|ATMEGA|ATTINY|AT\d{2}|PIC\d|ESP32|ESP8266|NRF\d|CH340|FT\d{3}|AMS1117|UA\d|OPA|INA\d|LMV|XC\d|RT\d{4}|MP\d{4}|AP\d{4}|ULN|L78|L79|LD\d|TLV|MIC\d|W25Q|24C|93C|SI\d{4})/, 'ic'],
+];
+
+/**
+ * The class implied by a reference designator, e.g. "R12" is a resistor.
+ */
+export const classFromDesignator = (designator: string): ComponentClass | null => {
+    const prefix = designator.trim().toUpperCase().match(/^[A-Z]+/)?.[0];
+    if (!prefix) return null;
+    // Longer unknown prefixes, such as the validator's "UNK", are not refinements either.
+    const refined = prefix.length === 2 && REFINABLE_PREFIXES.has(prefix[0]) ? DESIGNATOR_PREFIXES[prefix[0]] : undefined;
+    return DESIGNATOR_PREFIXES[prefix] ?? refined ?? null;
+};
+
+export const classFromMpn = (mpn: string): ComponentClass | null => {
+    const normalized = mpn.trim().toUpperCase();
+    if (!normalized) return null;
+    return MPN_PATTERNS.find(([pattern]) => pattern.test(normalized))?.[1] ?? null;
+};
+
+export type ResolvedClassSource = 'manual' | 'model' | 'designator' | 'mpn' | 'unknown';
+
+/**
+ * A component's class and where it came from: a manual override wins, then the model's
+ * answer, then the designator prefix, then the MPN.
+ */
+export const resolveComponentClass = (component: Component): { componentClass: ComponentClass; source: ResolvedClassSource } => {
+    if (component.classOverride) return { componentClass: component.classOverride, source: 'manual' };
+    if (component.componentClass) return { componentClass: component.componentClass, source: 'model' };
+    const byDesignator = classFromDesignator(component.designator);
+    if (byDesignator) return { componentClass: byDesignator, source: 'designator' };
+    const byMpn = classFromMpn(component.mpn);
+    if (byMpn) return { componentClass: byMpn, source: 'mpn' };
+    return { componentClass: 'other', source: 'unknown' };
+};
+
+export const getComponentClass = (component: Component): ComponentClass => resolveComponentClass(component).componentClass;
+
+/**
+ * Part counts per class, in taxonomy order, leaving out empty classes. A through-hole
+ * part listed on both sides counts once.
+ */
+export const countByClass = (components: Component[]): { info: ComponentClassInfo; count: number }[] => {
+    const designators = new Map<ComponentClass, Set<string>>();
+    components.forEach(c => {
+        const cls = getComponentClass(c);
+        if (!designators.has(cls)) designators.set(cls, new Set());
+        designators.get(cls)!.add(c.designator);
+    });
+    return COMPONENT_CLASSES.filter(info => designators.has(info.id)).map(info => ({ info, count: designators.get(info.id)!.size }));
+};
+
+// Words the model uses for a class instead of its id.
+const CLASS_ALIASES: Record<string, ComponentClass> = {
+    res: 'resistor', resistor_network: 'resistor', cap: 'capacitor', electrolytic_capacitor: 'capacitor',
+    ferrite_bead: 'inductor', choke: 'inductor', zener: 'diode', tvs: 'diode', rectifier: 'diode',
+    mosfet: 'transistor', bjt: 'transistor', fet: 'transistor', integrated_circuit: 'ic', microcontroller: 'ic',
+    regulator: 'ic', voltage_regulator: 'ic', header: 'connector', jack: 'connector', socket: 'connector',
+    oscillator: 'crystal', resonator: 'crystal', button: 'switch', polyfuse: 'fuse', testpoint: 'test_point',
+};
+
+/**
+ * Maps a class name from the model to the taxonomy, or null if it is not recognised.
+ */
+export const parseComponentClass = (raw: unknown): ComponentClass | null => {
+    if (typeof raw !== 'string') return null;
+    const key = raw.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    for (const candidate of [key, key.replace(/s$/, '')]) {
+        if (isComponentClass(candidate)) return candidate;
+        if (CLASS_ALIASES[candidate]) return CLASS_ALIASES[candidate];
+    }
+    return null;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, ConfidenceThresholds, Defect, PcbAnalysis } from '../types';
+import { defectThreshold, filterByConfidence, hasActiveThresholds } from './confidenceFilter';
+import { compareWithGolden } from './goldenService';
+
+const part = (designator: string, confidence: number, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence,
+    bbox: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+    ...extra,
+});
+
+const defect = (id: string, type: string, confidence: number, extra: Partial<Defect> = {}): Defect => ({
+    id, type, confidence, bbox: { x: 0.5, y: 0.5, w: 0.05, h: 0.05 }, ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[]): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const thresholds: ConfidenceThresholds = { minConfidence: 0.5, defectTypes: { solder_bridge: 0.8 } };
+
+describe('filterByConfidence', () => {
+    it('leaves the analysis alone without thresholds', () => {
+        const a = analysis([part('R1', 0.1)], []);
+        expect(hasActiveThresholds({ minConfidence: 0, defectTypes: {} })).toBe(false);
+        expect(filterByConfidence(a, { minConfidence: 0, defectTypes: {} })).toBe(a);
+    });
+
+    it('applies per-type defect thresholds before the general one', () => {
+        expect(defectThreshold(defect('D1', 'solder_bridge', 0.7), thresholds)).toBe(0.8);
+        expect(defectThreshold(defect('D2', 'cold_joint', 0.7), thresholds)).toBe(0.5);
+        const filtered = filterByConfidence(analysis([], [defect('D1', 'solder_bridge', 0.7), defect('D2', 'cold_joint', 0.7)]), thresholds);
+        expect(filtered.defects.map(d => d.id)).toEqual(['D2']);
+    });
+
+    it('always keeps findings a person drew or corrected', () => {
+        const filtered = filterByConfidence(analysis([part('R1', 0.1, { origin: 'human' }), part('R2', 0.1)], []), thresholds);
+        expect(filtered.components.map(c => c.designator)).toEqual(['R1']);
+    });
+
+    it('keeps hidden findings out of the golden diff when both sides are filtered', () => {
+        const reference = { name: 'ref', savedAt: '', imageDataUrl: '', analysis: analysis([part('R1', 0.9)], []) };
+        const suspect = analysis([part('R1', 0.9)], [defect('D1', 'solder_bridge', 0.6)]);
+        expect(compareWithGolden(reference, suspect).newDefects).toHaveLength(1);
+        const diff = compareWithGolden({ ...reference, analysis: filterByConfidence(reference.analysis, thresholds) }, filterByConfidence(suspect, thresholds));
+        expect(diff.newDefects).toHaveLength(0);
+    });
+});
@@ -0,0 +1,35 @@
+import type { PcbAnalysis, Defect, ConfidenceThresholds } from '../types';
+
+// Offered in the settings even before the model has reported them.
+export const COMMON_DEFECT_TYPES = ['solder_bridge', 'cold_joint', 'misalignment', 'tombstoning', 'lifted_pad', 'overheating', 'corrosion'];
+
+export const defectThreshold = (defect: Defect, thresholds: ConfidenceThresholds): number =>
+    thresholds.defectTypes[defect.type] ?? thresholds.minConfidence;
+
+export const hasActiveThresholds = (thresholds: ConfidenceThresholds): boolean =>
+    thresholds.minConfidence > 0 || Object.values(thresholds.defectTypes).some(t => t !== undefined);
+
+/**
+ * Drops components and defects below their confidence threshold. Measured findings
+ * (confidence 1) and anything a person drew or corrected always pass.
+ */
+export const filterByConfidence = (analysis: PcbAnalysis, thresholds: ConfidenceThresholds): PcbAnalysis => {
+    if (!hasActiveThresholds(thresholds)) return analysis;
+    return {
+        ...analysis,
+        components: analysis.components.filter(c => c.origin === 'human' || c.confidence >= thresholds.minConfidence),
+        defects: analysis.defects.filter(d => d.origin === 'human' || d.confidence >= defectThreshold(d, thresholds)),
+    };
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * One line per applied threshold, for the report.
+ */
+export const describeThresholds = (thresholds: ConfidenceThresholds): string[] => [
+    `Minimum confidence: ${percent(thresholds.minConfidence)}`,
+    ...Object.entries(thresholds.defectTypes)
+        .filter((entry): entry is [string, number] => entry[1] !== undefined)
+        .map(([type, value]) => `${type.replace(/_/g, ' ')}: ${percent(value)}`),
+];
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { Connectivity } from '../types';
+import { addNet, checkJumper, classifyNet, emptyConnectivity, importNetlist, placePad, removeNet, removePad } from './connectivity';
+
+// Nets named "+5V", "GND" and "SDA", each with one pad on the top photo.
+const board = (): Connectivity => {
+    let connectivity = emptyConnectivity();
+    [['+5V', 0.1], ['GND', 0.5], ['SDA', 0.9]].forEach(([name, x]) => {
+        const added = addNet(connectivity, name as string);
+        connectivity = placePad(added.connectivity, added.net.id, { side: 'top', x: x as number, y: 0.5 });
+    });
+    return connectivity;
+};
+
+describe('classifyNet', () => {
+    it('recognizes supply rails and ground by name', () => {
+        expect(['+3V3', 'VCC_IO', '12V', '/power/VBUS'].map(classifyNet)).toEqual(['power', 'power', 'power', 'power']);
+        expect(['GND', 'AGND', 'VSS', '0V'].map(classifyNet)).toEqual(['ground', 'ground', 'ground', 'ground']);
+        expect(['SDA', 'VOUT_SENSE'].map(classifyNet)).toEqual(['signal', 'signal']);
+    });
+});
+
+describe('addNet', () => {
+    it('refuses empty and duplicate names', () => {
+        expect(() => addNet(emptyConnectivity(), ' ')).toThrow(/needs a name/);
+        expect(() => addNet(board(), 'gnd')).toThrow(/already a net/);
+    });
+});
+
+describe('checkJumper', () => {
+    it('snaps ends to nearby pads and warns about shorts', () => {
+        const checked = checkJumper({ from: { x: 0.11, y: 0.5 }, to: { x: 0.51, y: 0.49 } }, board());
+        expect(checked).toEqual({
+            from: { x: 0.1, y: 0.5 }, to: { x: 0.5, y: 0.5 }, fromNet: '+5V', toNet: 'GND',
+            warning: 'Shorts the +5V supply rail to GND.',
+        });
+    });
+
+    it('leaves far ends alone, drops stale labels and ignores pads on the other side', () => {
+        const checked = checkJumper({ from: { x: 0.9, y: 0.51 }, to: { x: 0.3, y: 0.3 }, fromNet: 'OLD', toNet: 'OLD', warning: 'stale' }, board());
+        expect(checked).toEqual({ from: { x: 0.9, y: 0.5 }, to: { x: 0.3, y: 0.3 }, fromNet: 'SDA' });
+        expect(checkJumper({ from: { x: 0.1, y: 0.5 }, to: { x: 0.5, y: 0.5 }, side: 'bottom' }, board())).not.toHaveProperty('warning');
+    });
+});
+
+describe('importNetlist', () => {
+    it('reads a KiCad netlist, skipping unconnected pins and reusing nets', () => {
+        const netlist = `(export (version "E")
+            (nets
+                (net (code "1") (name "/GND") (node (ref "U1") (pin "4")) (node (ref "C1") (pin "2")))
+                (net (code "2") (name "unconnected-(U1-Pad5)") (node (ref "U1") (pin "5")))
+                (net (code "3") (name "/SDA") (node (ref "U1") (pin "6")))))`;
+        const connectivity = importNetlist(netlist, board());
+        expect(connectivity.nets.map(n => n.name)).toEqual(['+5V', 'GND', 'SDA']);
+        const imported = connectivity.pads.filter(p => p.designator);
+        expect(imported.map(p => `${p.designator}.${p.pin}`)).toEqual(['U1.4', 'C1.2', 'U1.6']);
+        expect(imported.every(p => p.location === null)).toBe(true);
+        expect(importNetlist(netlist, connectivity).pads).toHaveLength(connectivity.pads.length);
+    });
+
+    it('reads a CSV netlist and needs net and designator columns', () => {
+        const connectivity = importNetlist('Net,Designator,Pin\nVCC,U1,8\nSCL,U1,\n', emptyConnectivity());
+        expect(connectivity.nets.map(n => [n.name, n.kind])).toEqual([['VCC', 'power'], ['SCL', 'signal']]);
+        expect(connectivity.pads.map(p => p.pin)).toEqual(['8', undefined]);
+        expect(() => importNetlist('Name,Value\nR1,10k', emptyConnectivity())).toThrow(/"Net" and "Designator"/);
+        expect(() => importNetlist('Net,Designator\n', emptyConnectivity())).toThrow(/No connections/);
+    });
+});
+
+describe('removePad and removeNet', () => {
+    it('keeps netlist pads unplaced but drops drawn ones, and removes a net with its pads', () => {
+        const connectivity = importNetlist('Net,Designator,Pin\nSDA,U1,6\n', board());
+        const [drawn, imported] = connectivity.pads.filter(p => p.netId === connectivity.nets[2].id);
+        const placed = placePad(connectivity, imported.netId, { side: 'top', x: 0.2, y: 0.2 }, imported.id);
+        const afterDrawn = removePad(placed, drawn.id);
+        const afterImported = removePad(afterDrawn, imported.id);
+        expect(afterDrawn.pads.some(p => p.id === drawn.id)).toBe(false);
+        expect(afterImported.pads.find(p => p.id === imported.id)?.location).toBeNull();
+        expect(removeNet(connectivity, connectivity.nets[2].id).pads.some(p => p.netId === connectivity.nets[2].id)).toBe(false);
+    });
+});
@@ -0,0 +1,230 @@
+import type { Connectivity, Net, NetKind, Pad, PadLocation, JumperSuggestion, BoardSide } from '../types';
+import { parseCsv } from './csvUtils';
+import { newId } from './idUtils';
+
+// Jumper ends further than this (normalized) from every pad are left where the model put them.
+export const SNAP_RADIUS = 0.03;
+
+export const NET_KINDS: { id: NetKind; label: string }[] = [
+    { id: 'power', label: 'Power' },
+    { id: 'ground', label: 'Ground' },
+    { id: 'signal', label: 'Signal' },
+];
+
+// Signal nets cycle through these; supply rails and ground always use the same color.
+const SIGNAL_COLORS = ['#22d3ee', '#a3e635', '#f472b6', '#fbbf24', '#a78bfa', '#34d399', '#fb923c', '#60a5fa'];
+const KIND_COLORS: Partial<Record<NetKind, string>> = { power: '#ef4444', ground: '#9ca3af' };
+
+export const emptyConnectivity = (): Connectivity => ({ nets: [], pads: [] });
+
+/**
+ * Pad color in the viewer and the nets panel.
+ */
+export const getNetColor = (connectivity: Connectivity, net: Net): string =>
+    KIND_COLORS[net.kind] ?? SIGNAL_COLORS[connectivity.nets.filter(n => n.kind === 'signal').indexOf(net) % SIGNAL_COLORS.length];
+
+const GROUND_NAME = /^(A|D|P|S|C)?GND\w*$|^VSS\w*$|^0V$|^EARTH$|^PE$/i;
+const POWER_NAME = /^[+-]?\d+(\.\d+)?V\d*\w*$|^[+-]?\d+V\d+$|^V(CC|DD|EE|IN|BAT|BUS|SYS|REF|PP|IO|CORE|MOT|AA|LED)\w*$|^PWR\w*$|^VBATT?$/i;
+
+/**
+ * Guesses whether a net is a supply rail or ground from its name, e.g. "+3V3", "VCC_IO", "AGND".
+ * Hierarchical prefixes such as KiCad's "/" are ignored.
+ */
+export const classifyNet = (name: string): NetKind => {
+    const base = name.trim().replace(/^.*\//, '');
+    if (GROUND_NAME.test(base)) return 'ground';
+    if (POWER_NAME.test(base)) return 'power';
+    return 'signal';
+};
+
+const findNetByName = (connectivity: Connectivity, name: string) =>
+    connectivity.nets.find(n => n.name.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Adds a net, classified by its name.
+ * @throws {Error} If the name is empty or already used.
+ */
+export const addNet = (connectivity: Connectivity, name: string): { connectivity: Connectivity; net: Net } => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error('A net needs a name.');
+    }
+    if (findNetByName(connectivity, trimmed)) {
+        throw new Error(`There is already a net called ${trimmed}.`);
+    }
+    const net: Net = { id: newId(), name: trimmed, kind: classifyNet(trimmed) };
+    return { connectivity: { ...connectivity, nets: [...connectivity.nets, net] }, net };
+};
+
+export const setNetKind = (connectivity: Connectivity, netId: string, kind: NetKind): Connectivity => ({
+    ...connectivity,
+    nets: connectivity.nets.map(n => (n.id === netId ? { ...n, kind } : n)),
+});
+
+/**
+ * Removes a net together with its pads.
+ */
+export const removeNet = (connectivity: Connectivity, netId: string): Connectivity => ({
+    nets: connectivity.nets.filter(n => n.id !== netId),
+    pads: connectivity.pads.filter(p => p.netId !== netId),
+});
+
+/**
+ * Puts a pad on a photo: moves `padId` when given, otherwise adds a new hand-drawn pad to the net.
+ */
+export const placePad = (connectivity: Connectivity, netId: string, location: PadLocation, padId?: string): Connectivity => ({
+    ...connectivity,
+    pads: padId
+        ? connectivity.pads.map(p => (p.id === padId ? { ...p, location } : p))
+        : [...connectivity.pads, { id: newId(), netId, location }],
+});
+
+/**
+ * Takes a pad off the photo. Netlist pads stay in their net, unplaced, so they can be placed again.
+ */
+export const removePad = (connectivity: Connectivity, padId: string): Connectivity => ({
+    ...connectivity,
+    pads: connectivity.pads.flatMap(p => (p.id !== padId ? [p] : p.designator ? [{ ...p, location: null }] : [])),
+});
+
+export const describePad = (pad: Pad): string | null =>
+    pad.designator ? (pad.pin ? `${pad.designator}.${pad.pin}` : pad.designator) : null;
+
+/**
+ * The placed pad on `side` closest to `point`, if any lies within `radius`.
+ */
+export const findNearestPad = (
+    connectivity: Connectivity,
+    point: { x: number; y: number },
+    side: BoardSide,
+    radius: number = SNAP_RADIUS
+): Pad | null => {
+    let nearest: Pad | null = null;
+    let nearestDistance = radius;
+    for (const pad of connectivity.pads) {
+        if (!pad.location || pad.location.side !== side) continue;
+        const distance = Math.hypot(pad.location.x - point.x, pad.location.y - point.y);
+        if (distance <= nearestDistance) {
+            nearest = pad;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+};
+
+const shortWarning = (a: Net, b: Net): string => {
+    const kinds = new Set([a.kind, b.kind]);
+    if (kinds.has('power') && kinds.has('ground')) {
+        const [rail, ground] = a.kind === 'power' ? [a, b] : [b, a];
+        return `Shorts the ${rail.name} supply rail to ${ground.name}.`;
+    }
+    if (a.kind === 'power' && b.kind === 'power') {
+        return `Shorts the ${a.name} and ${b.name} supply rails together.`;
+    }
+    return `Joins ${a.name} and ${b.name}, which are different nets.`;
+};
+
+/**
+ * Snaps each end of a jumper to the nearest pad and labels it with that pad's net.
+ * A jumper that would join two different nets gets a `warning`; ends with no pad
+ * nearby are left unchanged and unlabeled.
+ */
+export const checkJumper = (jumper: JumperSuggestion, connectivity: Connectivity): JumperSuggestion => {
+    const { fromNet: _fromNet, toNet: _toNet, warning: _warning, ...raw } = jumper;
+    const side = jumper.side ?? 'top';
+    const netsById = new Map(connectivity.nets.map(n => [n.id, n]));
+    const snap = (point: { x: number; y: number }) => {
+        const pad = findNearestPad(connectivity, point, side);
+        return pad?.location
+            ? { point: { x: pad.location.x, y: pad.location.y }, net: netsById.get(pad.netId) }
+            : { point, net: undefined };
+    };
+    const from = snap(jumper.from);
+    const to = snap(jumper.to);
+    return {
+        ...raw,
+        from: from.point,
+        to: to.point,
+        ...(from.net && { fromNet: from.net.name }),
+        ...(to.net && { toNet: to.net.name }),
+        ...(from.net && to.net && from.net.id !== to.net.id && { warning: shortWarning(from.net, to.net) }),
+    };
+};
+
+/**
+ * One pin of an imported netlist and the net it is on.
+ */
+interface NetlistNode {
+    net: string;
+    designator: string;
+    pin: string;
+}
+
+const KICAD_NET = /\(net\s+\(code\s+"?[^)"]*"?\)\s+\(name\s+(?:"((?:[^"\\]|\\.)*)"|([^\s)]+))/g;
+const KICAD_NODE = /\(node\s+\(ref\s+"?([^"\s)]+)"?\)\s+\(pin\s+"?([^"\s)]+)"?\)/g;
+
+// KiCad lists pins nobody wired as nets of their own.
+const isUnconnected = (name: string) => /^unconnected-/i.test(name);
+
+const parseKicadNetlist = (text: string): NetlistNode[] => {
+    const nodes: NetlistNode[] = [];
+    const starts = Array.from(text.matchAll(KICAD_NET));
+    starts.forEach((match, i) => {
+        const net = (match[1] ?? match[2]).replace(/\\"/g, '"').replace(/^\/(?=[^/]*$)/, ''); // top-level sheet prefix
+        if (isUnconnected(net)) return;
+        const body = text.slice(match.index! + match[0].length, starts[i + 1]?.index ?? text.length);
+        for (const node of body.matchAll(KICAD_NODE)) {
+            nodes.push({ net, designator: node[1], pin: node[2] });
+        }
+    });
+    return nodes;
+};
+
+const NET_COLUMN = /^(net|net ?name|signal)$/i;
+const DESIGNATOR_COLUMN = /^(designator|ref|reference|refdes|component|part)$/i;
+const PIN_COLUMN = /^(pin|pad|pin ?(number|no\.?|#)|pad ?(number|no\.?|#))$/i;
+
+const parseNetlistRows = (text: string): NetlistNode[] => {
+    const [header, ...rows] = parseCsv(text);
+    const columns = header?.map(h => h.trim()) ?? [];
+    const netColumn = columns.findIndex(h => NET_COLUMN.test(h));
+    const designatorColumn = columns.findIndex(h => DESIGNATOR_COLUMN.test(h));
+    const pinColumn = columns.findIndex(h => PIN_COLUMN.test(h));
+    if (netColumn < 0 || designatorColumn < 0) {
+        throw new Error('The netlist needs "Net" and "Designator" columns (and optionally "Pin").');
+    }
+    return rows
+        .map(row => ({
+            net: row[netColumn]?.trim() ?? '',
+            designator: row[designatorColumn]?.trim() ?? '',
+            pin: pinColumn >= 0 ? row[pinColumn]?.trim() ?? '' : '',
+        }))
+        .filter(node => node.net && node.designator && !isUnconnected(node.net));
+};
+
+/**
+ * Reads a netlist: a KiCad `.net` export or a CSV with Net, Designator and Pin columns.
+ * Netlists carry no positions, so every pad starts unplaced.
+ * @param existing - Nets with the same name are reused, and pins that are already known are skipped.
+ * @throws {Error} If the file holds no connections.
+ */
+export const importNetlist = (text: string, existing: Connectivity): Connectivity => {
+    const nodes = /^\s*\(export\b/.test(text) ? parseKicadNetlist(text) : parseNetlistRows(text);
+    if (nodes.length === 0) {
+        throw new Error('No connections were found in the netlist.');
+    }
+    let connectivity = existing;
+    const known = new Set(existing.pads.filter(p => p.designator).map(p => `${p.designator}.${p.pin ?? ''}`.toLowerCase()));
+    const pads: Pad[] = [];
+    for (const node of nodes) {
+        const key = `${node.designator}.${node.pin}`.toLowerCase();
+        if (known.has(key)) continue;
+        known.add(key);
+        let net = findNetByName(connectivity, node.net);
+        if (!net) {
+            ({ connectivity, net } = addNet(connectivity, node.net));
+        }
+        pads.push({ id: newId(), netId: net.id, location: null, designator: node.designator, pin: node.pin || undefined });
+    }
+    return { ...connectivity, pads: [...connectivity.pads, ...pads] };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, formatCsvRow, parseCsv, parseLocaleNumber } from './csvUtils';
+
+describe('detectDelimiter', () => {
+    it('picks the separator used most often on the header line', () => {
+        expect(detectDelimiter('Designator,Description;Notes,MPN\nR1,"10k; 1%",RC0603')).toBe(',');
+        expect(detectDelimiter('Designator;Mid X;Mid Y\nR1;1,5;2,5')).toBe(';');
+        expect(detectDelimiter('Ref\tVal\tPackage\nR1\t10k, 1%\t0603')).toBe('\t');
+    });
+
+    it('ignores separators inside quoted headers and in later lines', () => {
+        expect(detectDelimiter('"Designator; ref","Value; nominal",MPN\nR1,10k,RC0603')).toBe(',');
+        expect(detectDelimiter('Designator,MPN\nR1;R2;R3,RC0603')).toBe(',');
+    });
+
+    it('skips preamble lines without separators', () => {
+        expect(detectDelimiter('\uFEFFPick and Place Locations\n\nDesignator;X;Y\nR1;1;2')).toBe(';');
+        expect(detectDelimiter('one column')).toBe(',');
+    });
+});
+
+describe('parseCsv', () => {
+    it('handles quotes, embedded line breaks and blank lines', () => {
+        expect(parseCsv('\uFEFFa,"b, ""c""",d\r\n\r\n"multi\nline",e,')).toEqual([['a', 'b, "c"', 'd'], ['multi\nline', 'e', '']]);
+    });
+
+    it('detects the separator when none is given', () => {
+        expect(parseCsv('X;Y\n1,5;2')).toEqual([['X', 'Y'], ['1,5', '2']]);
+    });
+});
+
+describe('parseLocaleNumber', () => {
+    it('accepts a decimal comma and rejects anything else', () => {
+        expect(parseLocaleNumber(' 1,5 ')).toBe(1.5);
+        expect(parseLocaleNumber('-2.5e3')).toBe(-2500);
+        expect(parseLocaleNumber('1.000,5')).toBeNaN();
+        expect(parseLocaleNumber('12mm')).toBeNaN();
+    });
+});
+
+describe('formatCsvRow', () => {
+    it('quotes only the fields that need it', () => {
+        expect(formatCsvRow(['R1', 'say "hi"', 'a,b', null, 3])).toBe('R1,"say ""hi""","a,b",,3');
+        expect(formatCsvRow(['a,b', 'c;d'], ';')).toBe('a,b;"c;d"');
+    });
+});
@@ -0,0 +1,96 @@
+// Candidate separators; on a tie the earlier one wins, as locales with a decimal comma use ";" or tabs.
+const DELIMITERS = ['\t', ';', ','];
+
+// How often each candidate appears outside quoted fields on one line.
+const countDelimiters = (line: string): Map<string, number> => {
+    const counts = new Map(DELIMITERS.map(d => [d, 0]));
+    let inQuotes = false;
+    for (const char of line) {
+        if (char === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+    }
+    return counts;
+};
+
+/**
+ * Guesses the field separator from the header: the candidate used most often outside quotes
+ * on the first line that has any. Later lines are not looked at, since free-text cells such
+ * as descriptions often hold commas or semicolons of their own.
+ */
+export const detectDelimiter = (text: string): string => {
+    // Some exporters write a line or two of preamble without separators above the table.
+    for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/, 10)) {
+        const counts = countDelimiters(line);
+        const best = DELIMITERS.reduce((a, b) => (counts.get(b)! > counts.get(a)! ? b : a));
+        if (counts.get(best)! > 0) return best;
+    }
+    return ',';
+};
+
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields with embedded delimiters,
+ * newlines and doubled quotes (RFC 4180). Blank lines are skipped.
+ * @param text - The file contents.
+ * @param delimiter - The field separator; detected from the first line when omitted.
+ */
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+    // Strip the byte order mark some spreadsheet programs write.
+    const source = text.replace(/^\uFEFF/, '');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) endRow();
+    return rows;
+};
+
+/**
+ * Parses a number that may use a decimal comma, as written by European spreadsheet exports.
+ * Returns NaN for anything that is not a plain number.
+ */
+export const parseLocaleNumber = (value: string): number => {
+    const trimmed = value.trim();
+    if (!/^[-+]?(\d+([.,]\d*)?|[.,]\d+)([eE][-+]?\d+)?$/.test(trimmed)) return NaN;
+    return parseFloat(trimmed.replace(',', '.'));
+};
+
+/**
+ * Formats one CSV row (RFC 4180): fields with the delimiter, quotes or line breaks are quoted,
+ * with embedded quotes doubled.
+ */
+export const formatCsvRow = (fields: (string | number | null | undefined)[], delimiter = ','): string =>
+    fields.map(field => {
+        const text = field == null ? '' : String(field);
+        return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(delimiter);
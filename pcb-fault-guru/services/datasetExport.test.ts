@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, Defect, InspectionRecord, PcbAnalysis, Triage } from '../types';
+import { buildClassMap, collectLabels, DatasetSample, isTriaged, splitInspections, toCoco, toYoloLabels } from './datasetExport';
+import { createTriage } from './triage';
+
+const bbox = { x: 0.1, y: 0.2, w: 0.2, h: 0.1 };
+
+const part = (designator: string, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9, bbox, ...extra,
+});
+
+const defect = (id: string, type: string, extra: Partial<Defect> = {}): Defect => ({
+    id, type, confidence: 0.9, bbox, ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[] = []): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const record = (a: PcbAnalysis) => ({ id: 'insp-1', name: 'Unit', analysis: a }) as InspectionRecord;
+
+const verdict = (v: Triage['verdict'], correctedClass?: string) => createTriage(v, correctedClass);
+
+describe('collectLabels', () => {
+    it('labels reviewed findings by their corrected class and leaves out false positives', () => {
+        const reviewed = record(analysis(
+            [part('R1', { triage: verdict('confirmed') }), part('X1', { triage: verdict('wrong_class', 'inductor') }), part('NEW1', { origin: 'human' })],
+            [defect('D1', 'solder_bridge', { triage: verdict('false_positive') }), defect('D2', 'bridge', { triage: verdict('wrong_class', 'Cold Joint') })],
+        ));
+        expect(collectLabels(reviewed, 'top', true)?.map(l => l.className)).toEqual(['cold_joint', 'component_resistor', 'component_inductor', 'component_other']);
+        expect(collectLabels(reviewed, 'top', false)?.map(l => l.className)).toEqual(['cold_joint']);
+        expect(isTriaged(reviewed)).toBe(true);
+    });
+
+    it('skips a side while any finding on it is unreviewed', () => {
+        const partly = record(analysis([part('R1'), part('J1', { side: 'bottom', triage: verdict('confirmed') })], [defect('D1', 'void', { triage: verdict('confirmed') })]));
+        expect(collectLabels(partly, 'top', true)).toBeNull();
+        expect(collectLabels(partly, 'top', false)).toHaveLength(1);
+        expect(collectLabels(partly, 'bottom', true)).toHaveLength(1);
+    });
+});
+
+describe('splitInspections', () => {
+    it('holds out a stable share of inspections, keeping at least one in each set', () => {
+        const ids = Array.from({ length: 10 }, (_, i) => `insp-${i}`);
+        const val = splitInspections(ids, 0.2);
+        expect(val.size).toBe(2);
+        expect(splitInspections([...ids].reverse(), 0.2)).toEqual(val);
+        expect(splitInspections(['a', 'b'], 0.9).size).toBe(1);
+        expect(splitInspections(['a'], 0.5).size).toBe(0);
+        expect(splitInspections(ids, 0).size).toBe(0);
+    });
+});
+
+describe('dataset formats', () => {
+    const sample: DatasetSample = {
+        inspectionId: 'insp-1', fileName: 'unit_top.jpg', file: new File([], 'top.jpg'), width: 1000, height: 500,
+        labels: [
+            { className: 'component_resistor', kind: 'component', bbox },
+            { className: 'solder_bridge', kind: 'defect', bbox },
+        ],
+    };
+    const classes = buildClassMap([sample]);
+
+    it('numbers defect types before part classes', () => {
+        expect(classes).toEqual(['solder_bridge', 'component_resistor']);
+    });
+
+    it('writes COCO boxes in pixels from the top-left corner', () => {
+        const coco = toCoco([sample], classes);
+        expect(coco.images).toEqual([{ id: 1, file_name: 'unit_top.jpg', width: 1000, height: 500 }]);
+        expect(coco.annotations[0]).toEqual({ id: 1, image_id: 1, category_id: 2, bbox: [100, 100, 200, 50], area: 10000, iscrowd: 0 });
+        expect(coco.categories.map(c => c.supercategory)).toEqual(['defect', 'component']);
+    });
+
+    it('writes YOLO boxes as normalized centers', () => {
+        expect(toYoloLabels(sample, classes)).toBe('1 0.200000 0.250000 0.200000 0.100000\n0 0.200000 0.250000 0.200000 0.100000');
+    });
+});
@@ -0,0 +1,222 @@
+import JSZip from 'jszip';
+import type { InspectionRecord, BoardSide, BoundingBox, Component, Defect } from '../types';
+import { BOARD_SIDES, getSide } from './analysisMerge';
+import { getComponentClass } from './componentClass';
+
+export type DatasetFormat = 'coco' | 'yolo' | 'both';
+
+export interface DatasetOptions {
+    format: DatasetFormat;
+    valFraction: number; // share of inspections held out for validation, 0–1
+    includeComponents: boolean; // label parts by class as well as defects
+}
+
+export interface DatasetLabel {
+    className: string;
+    kind: 'component' | 'defect';
+    bbox: BoundingBox; // normalized, as in the analysis
+}
+
+// One photo of one side of a triaged inspection.
+export interface DatasetSample {
+    inspectionId: string;
+    fileName: string;
+    file: File;
+    width: number; // pixels
+    height: number;
+    labels: DatasetLabel[];
+}
+
+export interface DatasetSummary {
+    images: number;
+    labels: number;
+    classes: string[];
+    skippedSides: number; // photographed sides with findings that still need a verdict
+}
+
+// Component classes share the label space with defect types, where "other" also exists.
+const componentLabel = (c: Component) => `component_${getComponentClass(c)}`;
+
+const normalizeType = (type: string) => type.trim().toLowerCase().replace(/\s+/g, '_');
+
+/**
+ * The label a reviewed finding gets in the dataset: its class as corrected by the reviewer.
+ * Findings drawn by hand count as confirmed.
+ * @returns Null for false positives and for findings nobody reviewed.
+ */
+const labelFor = (item: Component | Defect, kind: DatasetLabel['kind']): string | null | undefined => {
+    const verdict = item.triage?.verdict ?? (item.origin === 'human' ? 'confirmed' : undefined);
+    if (!verdict) return undefined;
+    if (verdict === 'false_positive') return null;
+    if (verdict === 'wrong_class' && item.triage?.correctedClass) {
+        return kind === 'component' ? `component_${item.triage.correctedClass}` : normalizeType(item.triage.correctedClass);
+    }
+    return kind === 'component' ? componentLabel(item as Component) : (item as Defect).type;
+};
+
+/**
+ * The labels of one side, or null when a finding on it has no verdict yet: an unreviewed
+ * model detection could be wrong, and leaving it out would teach that the spot is clean.
+ */
+export const collectLabels = (record: InspectionRecord, side: BoardSide, includeComponents: boolean): DatasetLabel[] | null => {
+    const items: [Component | Defect, DatasetLabel['kind']][] = [
+        ...record.analysis.defects.map(d => [d, 'defect'] as [Defect, 'defect']),
+        ...(includeComponents ? record.analysis.components.map(c => [c, 'component'] as [Component, 'component']) : []),
+    ];
+    const labels: DatasetLabel[] = [];
+    for (const [item, kind] of items) {
+        if (getSide(item) !== side) continue;
+        const className = labelFor(item, kind);
+        if (className === undefined) return null;
+        if (className) labels.push({ className, kind, bbox: item.bbox });
+    }
+    return labels;
+};
+
+export const isTriaged = (record: InspectionRecord): boolean =>
+    [...record.analysis.components, ...record.analysis.defects].some(item => item.triage);
+
+// FNV-1a, so an inspection always lands in the same split.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+};
+
+/**
+ * Splits by inspection, so both sides of a board stay together, in a stable pseudo-random order.
+ * At least one inspection is held out when there are two or more.
+ * @returns The ids of the inspections in the validation set.
+ */
+export const splitInspections = (inspectionIds: string[], valFraction: number): Set<string> => {
+    const ids = Array.from(new Set(inspectionIds)).sort((a, b) => hashString(a) - hashString(b) || a.localeCompare(b));
+    if (valFraction <= 0 || ids.length < 2) return new Set();
+    const count = Math.min(ids.length - 1, Math.max(1, Math.round(ids.length * valFraction)));
+    return new Set(ids.slice(0, count));
+};
+
+/**
+ * Classes in the order they get their ids: observed defect types first, then part classes.
+ */
+export const buildClassMap = (samples: DatasetSample[]): string[] => {
+    const names = (kind: DatasetLabel['kind']) =>
+        Array.from(new Set(samples.flatMap(s => s.labels.filter(l => l.kind === kind).map(l => l.className)))).sort();
+    return [...names('defect'), ...names('component')];
+};
+
+const roundPx = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * COCO instances JSON; boxes are `[x, y, width, height]` in pixels from the top-left corner.
+ */
+export const toCoco = (samples: DatasetSample[], classes: string[]) => {
+    let annotationId = 1;
+    return {
+        info: { description: 'PCB Guru triaged findings', date_created: new Date().toISOString() },
+        images: samples.map((s, i) => ({ id: i + 1, file_name: s.fileName, width: s.width, height: s.height })),
+        annotations: samples.flatMap((s, i) => s.labels.map(l => {
+            const bbox = [l.bbox.x * s.width, l.bbox.y * s.height, l.bbox.w * s.width, l.bbox.h * s.height].map(roundPx);
+            return {
+                id: annotationId++,
+                image_id: i + 1,
+                category_id: classes.indexOf(l.className) + 1,
+                bbox,
+                area: roundPx(bbox[2] * bbox[3]),
+                iscrowd: 0,
+            };
+        })),
+        categories: classes.map((name, i) => ({
+            id: i + 1,
+            name,
+            supercategory: name.startsWith('component_') ? 'component' : 'defect',
+        })),
+    };
+};
+
+/**
+ * YOLO label file: one `class cx cy w h` line per box, normalized to the image size.
+ */
+export const toYoloLabels = (sample: DatasetSample, classes: string[]): string =>
+    sample.labels.map(l => [
+        classes.indexOf(l.className),
+        ...[l.bbox.x + l.bbox.w / 2, l.bbox.y + l.bbox.h / 2, l.bbox.w, l.bbox.h].map(v => v.toFixed(6)),
+    ].join(' ')).join('\n');
+
+const sampleFileName = (record: InspectionRecord, side: BoardSide, file: File) => {
+    const extension = file.name.match(/\.[^.]+$/)?.[0]?.toLowerCase() ?? (file.type === 'image/png' ? '.png' : '.jpg');
+    return `${record.name.replace(/[^\w.-]+/g, '_')}_${record.id.slice(0, 8)}_${side}${extension}`;
+};
+
+const imageSize = async (file: File): Promise<{ width: number; height: number }> => {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+};
+
+/**
+ * Packs the triaged inspections into a zip with a train/val split:
+ * `images/{train,val}/`, COCO `annotations/instances_{train,val}.json`, YOLO
+ * `labels/{train,val}/` with `data.yaml`, and `class_map.json` for both.
+ * @param records - Inspections to export; those without any verdict are ignored.
+ */
+export const createDataset = async (records: InspectionRecord[], options: DatasetOptions): Promise<{ blob: Blob; summary: DatasetSummary }> => {
+    const samples: DatasetSample[] = [];
+    let skippedSides = 0;
+    for (const record of records.filter(isTriaged)) {
+        for (const side of BOARD_SIDES) {
+            const file = record.images[side];
+            if (!file) continue;
+            const labels = collectLabels(record, side, options.includeComponents);
+            if (!labels) {
+                skippedSides++;
+                continue;
+            }
+            samples.push({ inspectionId: record.id, fileName: sampleFileName(record, side, file), file, ...await imageSize(file), labels });
+        }
+    }
+    if (samples.length === 0) {
+        throw new Error(skippedSides > 0
+            ? "No side is fully triaged yet. Give every finding on a side a verdict to export it."
+            : "None of these inspections has been triaged.");
+    }
+
+    const classes = buildClassMap(samples);
+    const valIds = splitInspections(samples.map(s => s.inspectionId), options.valFraction);
+    const splits = {
+        train: samples.filter(s => !valIds.has(s.inspectionId)),
+        val: samples.filter(s => valIds.has(s.inspectionId)),
+    };
+
+    const zip = new JSZip();
+    for (const [split, splitSamples] of Object.entries(splits)) {
+        for (const sample of splitSamples) {
+            zip.file(`images/${split}/${sample.fileName}`, await sample.file.arrayBuffer());
+            if (options.format !== 'coco') {
+                zip.file(`labels/${split}/${sample.fileName.replace(/\.[^.]+$/, '.txt')}`, toYoloLabels(sample, classes));
+            }
+        }
+        if (options.format !== 'yolo') {
+            zip.file(`annotations/instances_${split}.json`, JSON.stringify(toCoco(splitSamples, classes), null, 2));
+        }
+    }
+    if (options.format !== 'coco') {
+        zip.file('data.yaml', [
+            'path: .',
+            'train: images/train',
+            'val: images/val',
+            `nc: ${classes.length}`,
+            'names:',
+            ...classes.map((name, i) => `  ${i}: ${name}`),
+        ].join('\n') + '\n');
+    }
+    zip.file('class_map.json', JSON.stringify(classes.map((name, i) => ({ name, yoloId: i, cocoId: i + 1 })), null, 2));
+
+    return {
+        blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+        summary: { images: samples.length, labels: samples.reduce((n, s) => n + s.labels.length, 0), classes, skippedSides },
+    };
+};
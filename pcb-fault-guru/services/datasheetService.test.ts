@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, DatasheetEntry, PcbAnalysis } from '../types';
+import { datasheetVoltageUpdates, extractRatings, findDatasheet, findDatasheetMpns, type DatasheetLine } from './datasheetService';
+
+const part = (designator: string, mpn: string, extra: Partial<Component> = {}): Component => ({
+    designator, mpn, presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+    ...extra,
+});
+
+const analysis = (components: Component[]): PcbAnalysis => ({
+    components, defects: [], summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const entry = (mpns: string[], maxVoltage?: { value: number; page: number }): DatasheetEntry => ({
+    id: mpns.join(), fileName: `${mpns[0]}.pdf`, mpns, addedAt: '', pageCount: 10,
+    ratings: maxVoltage ? { maxVoltage: { ...maxVoltage, excerpt: '' } } : {},
+    file: new Blob(),
+});
+
+const lines = (page: number, ...texts: string[]): DatasheetLine[] => texts.map(text => ({ page, text }));
+
+describe('extractRatings', () => {
+    const datasheet = [
+        ...lines(1, 'LM1117 800-mA Low-Dropout Linear Regulator', 'Absolute Maximum Ratings ........ 4', 'Available in SOT-223 and TO-252 packages'),
+        ...lines(4, 'Absolute Maximum Ratings', 'Output voltage VOUT + 0.3 V', 'Input voltage VIN 20 V', 'Storage temperature TSTG -65 150 °C',
+            'Operating junction temperature TJ 125 °C', 'Recommended Operating Conditions', 'Input voltage VIN 15 V'),
+    ];
+
+    it('reads the supply voltage from the absolute maximum table, skipping the contents and relative limits', () => {
+        expect(extractRatings(datasheet).maxVoltage).toEqual({ value: 20, page: 4, excerpt: 'Input voltage VIN 20 V' });
+    });
+
+    it('prefers the operating temperature over storage, and takes the first package named', () => {
+        const ratings = extractRatings(datasheet);
+        expect(ratings.maxTemperature?.value).toBe(125);
+        expect(ratings.package).toMatchObject({ value: 'SOT-223', page: 1 });
+    });
+
+    it('trusts only a named rating without the table, and plain numbers only as a stated size', () => {
+        const capacitor = lines(2, 'Rated voltage 1 kV', 'Size 0805', '0603 other parts in this series');
+        expect(extractRatings(capacitor)).toMatchObject({ maxVoltage: { value: 1000 }, package: { value: '0805' } });
+        expect(extractRatings(lines(1, 'Output 3.3 V at 25 °C', 'Reel of 0603'))).toEqual({});
+    });
+});
+
+describe('findDatasheetMpns', () => {
+    it('finds the board MPNs named in the first pages', () => {
+        const text = [...lines(1, 'LM358DR, LM358P (Dual Op-Amp)'), ...lines(5, 'Pin-compatible with NE5532')];
+        expect(findDatasheetMpns(text, ['LM358DR', 'lm358p', 'NE5532', ' '], 'x.pdf')).toEqual(['LM358DR', 'lm358p']);
+    });
+
+    it('does not take a family name for a part, and falls back to the file name', () => {
+        expect(findDatasheetMpns(lines(1, 'STM32 family reference'), ['STM32F103C8T6'], 'stm32f103c8.PDF')).toEqual(['stm32f103c8']);
+    });
+});
+
+describe('findDatasheet', () => {
+    it('matches MPNs with packaging suffixes and ignores blank ones', () => {
+        const library = [entry(['LM358']), entry(['NE555'])];
+        expect(findDatasheet(library, 'LM358DR')?.id).toBe('LM358');
+        expect(findDatasheet(library, '  ')).toBeUndefined();
+    });
+});
+
+describe('datasheetVoltageUpdates', () => {
+    it('replaces guesses and stale readings, leaving current readings alone', () => {
+        const library = [entry(['LM1117'], { value: 20, page: 4 }), entry(['GRM188'])];
+        const board = analysis([
+            part('U1', 'LM1117IMP-3.3', { maxVoltage: 15, maxVoltageSource: 'model' }),
+            part('U2', 'LM1117IMP-5.0', { maxVoltage: 20, maxVoltageSource: 'datasheet', maxVoltagePage: 4 }),
+            part('U3', 'LM1117IMP-ADJ', { maxVoltage: 20, maxVoltageSource: 'datasheet', maxVoltagePage: 3 }),
+            part('C1', 'GRM188R71C104KA01'),
+            part('R1', ''),
+        ]);
+        expect(datasheetVoltageUpdates(board, library)).toEqual([
+            { designator: 'U1', maxVoltage: 20, page: 4 },
+            { designator: 'U3', maxVoltage: 20, page: 4 },
+        ]);
+    });
+});
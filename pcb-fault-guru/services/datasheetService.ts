@@ -1,8 +1,211 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+// Bundled with the app, so datasheets can be read on a bench PC without internet access.
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { DatasheetEntry, DatasheetRating, DatasheetRatings, PcbAnalysis } from '../types';
+import { listDatasheets } from './historyStore';
+import { isSameMpn } from './bomCheck';
+import { newId } from './idUtils';
+import type { DatasheetVoltage } from './annotationEdits';
+
+// A line of text as it appears on a page.
+export interface DatasheetLine {
+    page: number; // 1-based
+    text: string;
+}
+
+// Items further apart vertically than this (PDF points) start a new line.
+const LINE_TOLERANCE = 2;
+
+// The part numbers a datasheet covers are named near the start.
+const MPN_SEARCH_PAGES = 3;
+
+// How far below its heading the absolute maximum ratings table is read.
+const SECTION_LINES = 60;
+
+// How long an opened datasheet's object URL is kept before it is released.
+const DATASHEET_URL_LIFETIME_MS = 60000;
+
 /**
- * Opens a web search for a component's datasheet.
+ * Reads the text of every page of a PDF as lines.
+ */
+export const extractPdfLines = async (data: ArrayBuffer): Promise<{ lines: DatasheetLine[]; pageCount: number }> => {
+    // Loaded on first use; most sessions never read a PDF.
+    const { getDocument, GlobalWorkerOptions } = await import('pdfjs-dist');
+    GlobalWorkerOptions.workerSrc = workerUrl;
+    const pdf = await getDocument({ data }).promise;
+    try {
+        const lines: DatasheetLine[] = [];
+        for (let page = 1; page <= pdf.numPages; page++) {
+            const content = await (await pdf.getPage(page)).getTextContent();
+            let text = '';
+            let lastY: number | null = null;
+            const endLine = () => {
+                const line = text.replace(/\s+/g, ' ').trim();
+                if (line) lines.push({ page, text: line });
+                text = '';
+                lastY = null;
+            };
+            content.items.forEach(item => {
+                if (!('str' in item)) return;
+                const { str, transform, hasEOL } = item as TextItem;
+                if (lastY !== null && Math.abs(transform[5] - lastY) > LINE_TOLERANCE) endLine();
+                // Table cells arrive as separate items; a space keeps their values apart.
+                text += `${str} `;
+                lastY = transform[5];
+                if (hasEOL) endLine();
+            });
+            endLine();
+        }
+        return { lines, pageCount: pdf.numPages };
+    } finally {
+        pdf.destroy();
+    }
+};
+
+// Dotted leaders mark the table of contents, which names the sections without their contents.
+const isContentsLine = (line: DatasheetLine) => /\.{4,}|…{2,}/.test(line.text);
+
+const rating = <T>(value: T, line: DatasheetLine): DatasheetRating<T> => ({ value, page: line.page, excerpt: line.text });
+
+const VOLTAGE_VALUE = /(\d+(?:\.\d+)?)\s*(kV|V)\b/g;
+const TEMPERATURE_VALUE = /([-–−+]?\d+(?:\.\d+)?)\s*[°º˚]\s*C\b/g;
+
+const voltages = (text: string) => Array.from(text.matchAll(VOLTAGE_VALUE), m => parseFloat(m[1]) * (m[2] === 'kV' ? 1000 : 1));
+const temperatures = (text: string) => Array.from(text.matchAll(TEMPERATURE_VALUE), m => parseFloat(m[1].replace(/[–−]/, '-')));
+
+// Supply and input pins, or the rating of a two-terminal part (diode reverse voltage, capacitor rating).
+const SUPPLY_VOLTAGE = /supply|input voltage|rated voltage|working voltage|\bV_?(CC|DD|IN|S|DS|DSS|CEO|CE|RRM|RWM|R|BR|Z)\b/i;
+// Limits relative to another pin ("VCC + 0.3 V") say nothing about the part on its own.
+const RELATIVE_LIMIT = /V_?\w*\s*\+\s*\d/i;
+
+/**
+ * The lines of the absolute maximum ratings table, which may run onto the next page.
+ */
+const absoluteMaximumSection = (lines: DatasheetLine[]): DatasheetLine[] => {
+    const start = lines.findIndex(line => /absolute\s+maximum/i.test(line.text) && !isContentsLine(line));
+    if (start < 0) return [];
+    const section = lines.slice(start + 1, start + 1 + SECTION_LINES);
+    const end = section.findIndex(line => /recommended operating|electrical characteristics|thermal (information|characteristics)|esd ratings/i.test(line.text));
+    return end < 0 ? section : section.slice(0, end);
+};
+
+const findMaxVoltage = (lines: DatasheetLine[]): DatasheetRating<number> | undefined => {
+    const usable = (line: DatasheetLine) => /voltage|\bV_?[A-Z]{1,4}\b/i.test(line.text) && !RELATIVE_LIMIT.test(line.text) && voltages(line.text).length > 0;
+    const section = absoluteMaximumSection(lines).filter(usable);
+    // Without the table, only an explicitly named rating is trusted.
+    const line = section.find(l => SUPPLY_VOLTAGE.test(l.text)) ?? section[0]
+        ?? lines.find(l => /rated voltage|working voltage|maximum (supply |input )?voltage|\bV_?(RRM|DSS|CEO)\b/i.test(l.text) && usable(l) && !isContentsLine(l));
+    return line && rating(Math.max(...voltages(line.text)), line);
+};
+
+const findMaxTemperature = (lines: DatasheetLine[]): DatasheetRating<number> | undefined => {
+    const withValue = lines.filter(line => temperatures(line.text).length > 0 && !isContentsLine(line));
+    const line = withValue.find(l => /operating|junction|\bT_?(J|A|OPR)\b/i.test(l.text))
+        ?? withValue.find(l => /storage|\bT_?STG\b/i.test(l.text));
+    return line && rating(Math.max(...temperatures(line.text)), line);
+};
+
+const PACKAGE = /\b(SOT-?23(?:-\d)?|SOT-?223|SOT-?89|SOIC-?\d+|SOP-?\d+|SSOP-?\d+|TSSOP-?\d+|MSOP-?\d+|QFN-?\d+|DFN-?\d+|LQFP-?\d+|TQFP-?\d+|BGA-?\d+|PDIP-?\d+|DIP-?\d+|TO-?220|TO-?92|TO-?263|TO-?252|TO-?247|D2PAK|DPAK|SOD-?\d+|SMA|SMB|SMC|DO-?41|DO-?214\w*)\b/i;
+// Chip sizes are plain numbers, so they only count where the text says it is giving a size.
+const CHIP_SIZE = /\b(?:case|size|package)\b.*?\b(0201|0402|0603|0805|1206|1210|1812|2010|2512)\b/i;
+
+const findPackage = (lines: DatasheetLine[]): DatasheetRating<string> | undefined => {
+    for (const line of lines) {
+        if (isContentsLine(line)) continue;
+        const match = line.text.match(PACKAGE) ?? line.text.match(CHIP_SIZE);
+        if (match) return rating(match[1].toUpperCase(), line);
+    }
+    return undefined;
+};
+
+/**
+ * Picks the key ratings out of a datasheet's text, each with the page it was read from:
+ * the absolute maximum (supply) voltage, the highest operating temperature and the package.
+ */
+export const extractRatings = (lines: DatasheetLine[]): DatasheetRatings => {
+    const ratings: DatasheetRatings = {};
+    const maxVoltage = findMaxVoltage(lines);
+    const maxTemperature = findMaxTemperature(lines);
+    const pkg = findPackage(lines);
+    if (maxVoltage && maxVoltage.value > 0) ratings.maxVoltage = maxVoltage;
+    if (maxTemperature) ratings.maxTemperature = maxTemperature;
+    if (pkg) ratings.package = pkg;
+    return ratings;
+};
+
+// A family name ("STM32") is a prefix of many MPNs, so a word only names a part when it is most of it.
+const namesPart = (word: string, mpn: string) =>
+    isSameMpn(word, mpn) && Math.min(word.length, mpn.length) >= Math.max(5, 0.6 * Math.max(word.length, mpn.length));
+
+/**
+ * The MPNs a datasheet covers: the ones given that appear in its first pages, or the
+ * file name when none do, as manufacturers name their PDFs after the part.
+ */
+export const findDatasheetMpns = (lines: DatasheetLine[], knownMpns: string[], fileName: string): string[] => {
+    const tokens = lines
+        .filter(line => line.page <= MPN_SEARCH_PAGES)
+        .flatMap(line => line.text.split(/[\s,;/()]+/))
+        .filter(token => token.length >= 4);
+    const found = Array.from(new Set(knownMpns.filter(mpn => mpn.trim() && tokens.some(token => namesPart(token, mpn.trim())))));
+    return found.length > 0 ? found : [fileName.replace(/\.pdf$/i, '')];
+};
+
+/**
+ * Reads a PDF into a library entry: its text is searched for the MPNs and ratings.
+ * @param knownMpns - MPNs on the current board, to recognize which parts the datasheet covers.
+ */
+export const readDatasheet = async (file: File, knownMpns: string[]): Promise<DatasheetEntry> => {
+    const { lines, pageCount } = await extractPdfLines(await file.arrayBuffer());
+    return {
+        id: newId(),
+        fileName: file.name,
+        mpns: findDatasheetMpns(lines, knownMpns, file.name),
+        addedAt: new Date().toISOString(),
+        pageCount,
+        ratings: extractRatings(lines),
+        file,
+    };
+};
+
+export const findDatasheet = (library: DatasheetEntry[], mpn: string): DatasheetEntry | undefined =>
+    mpn.trim() ? library.find(entry => entry.mpns.some(m => isSameMpn(m, mpn))) : undefined;
+
+/**
+ * The parts whose max voltage the library can supply, or correct: the model's guess is
+ * replaced, and an earlier reading is refreshed when the datasheet changed.
+ */
+export const datasheetVoltageUpdates = (analysis: PcbAnalysis, library: DatasheetEntry[]): DatasheetVoltage[] => {
+    const updates = new Map<string, DatasheetVoltage>();
+    analysis.components.forEach(c => {
+        const reading = findDatasheet(library, c.mpn)?.ratings.maxVoltage;
+        if (!reading || (c.maxVoltageSource === 'datasheet' && c.maxVoltage === reading.value && c.maxVoltagePage === reading.page)) return;
+        updates.set(c.designator, { designator: c.designator, maxVoltage: reading.value, page: reading.page });
+    });
+    return Array.from(updates.values());
+};
+
+/**
+ * Opens a PDF from the library in a new tab, at a page when given.
+ */
+export const openLibraryDatasheet = (entry: DatasheetEntry, page?: number): void => {
+    const url = URL.createObjectURL(entry.file);
+    window.open(page ? `${url}#page=${page}` : url, '_blank', 'noopener,noreferrer');
+    // The new tab has loaded the PDF by then; holding the URL longer keeps the whole file in memory.
+    setTimeout(() => URL.revokeObjectURL(url), DATASHEET_URL_LIFETIME_MS);
+};
+
+/**
+ * Opens a component's datasheet: the PDF from the local library when there is one,
+ * otherwise a web search.
  * @param mpn - The Manufacturer Part Number of the component.
+ * @param page - The page to open a local datasheet at.
  */
-export const openDatasheet = async (mpn: string): Promise<void> => {
+export const openDatasheet = async (mpn: string, page?: number): Promise<void> => {
+    const entry = findDatasheet(await listDatasheets(), mpn);
+    if (entry) {
+        openLibraryDatasheet(entry, page);
+        return;
+    }
     const query = encodeURIComponent(`${mpn} datasheet pdf`);
     // Using a privacy-focused search engine for the fallback
     window.open(`https://duckduckgo.com/?q=${query}`, '_blank', 'noopener,noreferrer');
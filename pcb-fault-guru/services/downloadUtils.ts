@@ -0,0 +1,14 @@
+/**
+ * Hands a file to the browser as a download. The object URL is released once the
+ * download has started, so large files (bundles, datasets) are not kept in memory.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
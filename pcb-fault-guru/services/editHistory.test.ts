@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { emptyHistory, recordEdit, redoEdit, undoEdit } from './editHistory';
+
+describe('editHistory', () => {
+    it('undoes and redoes in order, and a new edit drops the redo steps', () => {
+        let history = recordEdit(emptyHistory<number>(), 1);
+        history = recordEdit(history, 2);
+        const undone = undoEdit(history, 3)!;
+        expect(undone.value).toBe(2);
+        const redone = redoEdit(undone.history, 2)!;
+        expect(redone.value).toBe(3);
+        expect(recordEdit(undone.history, 2).future).toEqual([]);
+        expect(undoEdit(emptyHistory<number>(), 1)).toBeNull();
+        expect(redoEdit(history, 3)).toBeNull();
+    });
+
+    it('keeps only the last hundred steps', () => {
+        let history = emptyHistory<number>();
+        for (let value = 1; value <= 150; value++) history = recordEdit(history, value);
+        expect(history.past).toHaveLength(100);
+        expect(history.past[0]).toBe(51);
+
+        let current = 151;
+        let steps = 0;
+        for (let step = undoEdit(history, current); step; step = undoEdit(history, current)) {
+            ({ history, value: current } = step);
+            steps++;
+        }
+        expect([steps, current, history.future.length]).toEqual([100, 51, 100]);
+    });
+});
@@ -0,0 +1,39 @@
+// Older steps are dropped beyond this, so a long session cannot grow without bound.
+const MAX_HISTORY = 100;
+
+/**
+ * Undo and redo stacks around a value that lives elsewhere (e.g. in React state).
+ */
+export interface EditHistory<T> {
+    past: T[];
+    future: T[];
+}
+
+export const emptyHistory = <T>(): EditHistory<T> => ({ past: [], future: [] });
+
+/**
+ * Records `current` before it is replaced by an edit. Any redo steps are discarded.
+ */
+export const recordEdit = <T>(history: EditHistory<T>, current: T): EditHistory<T> => ({
+    past: [...history.past, current].slice(-MAX_HISTORY),
+    future: [],
+});
+
+/**
+ * Steps back: returns the value to restore, or null when there is nothing to undo.
+ */
+export const undoEdit = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; value: T } | null => {
+    if (history.past.length === 0) return null;
+    return {
+        history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+        value: history.past[history.past.length - 1],
+    };
+};
+
+export const redoEdit = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; value: T } | null => {
+    if (history.future.length === 0) return null;
+    return {
+        history: { past: [...history.past, current], future: history.future.slice(1) },
+        value: history.future[0],
+    };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Component, Defect, PcbAnalysis } from '../types';
+import type { AnalysisProvider } from './analysisProvider';
+import { createEnsembleProvider, formatAgreement, isUnstable, mergeEnsembleAnalyses } from './ensembleProvider';
+
+const part = (designator: string, x: number, confidence = 0.9): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence,
+    bbox: { x, y: 0.5, w: 0.1, h: 0.1 },
+});
+
+const defect = (id: string, x: number, type = 'solder_bridge'): Defect => ({
+    id, type, confidence: 0.8, bbox: { x, y: 0.2, w: 0.1, h: 0.1 },
+});
+
+const analysis = (components: Component[], defects: Defect[] = [], summary = ''): PcbAnalysis => ({
+    components, defects, summary, advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const options = { runs: 3, minAgreement: 0.6 };
+
+describe('mergeEnsembleAnalyses', () => {
+    it('scores each finding by the share of runs that reported it', () => {
+        const { analysis: merged } = mergeEnsembleAnalyses([
+            analysis([part('R1', 0.1, 0.9), part('U1', 0.5)], [defect('D1', 0.7)]),
+            analysis([part('R1', 0.12, 0.7)], [defect('D1', 0.7, 'cold_joint')]),
+            analysis([part('R1', 0.11, 0.8)]),
+        ], options);
+        expect(merged.components.map(c => [c.designator, c.agreement])).toEqual([['R1', 1], ['U1', 1 / 3]]);
+        expect(merged.components[0].bbox.x).toBeCloseTo(0.11);
+        expect(merged.components[0].confidence).toBeCloseTo(0.8);
+        expect(merged.defects.map(d => [d.id, d.type])).toEqual([['D1', 'solder_bridge'], ['D1-2', 'cold_joint']]);
+        expect(merged.ensemble).toEqual(options);
+    });
+
+    it('renames a designator the runs put in different places', () => {
+        const { analysis: merged, warnings } = mergeEnsembleAnalyses([analysis([part('R1', 0.1)]), analysis([part('R1', 0.7)])], options);
+        expect(merged.components.map(c => c.designator)).toEqual(['R1', 'R1-2']);
+        expect(warnings).toHaveLength(1);
+    });
+
+    it('takes the summary from the run that agrees most with the consensus', () => {
+        const { analysis: merged } = mergeEnsembleAnalyses([
+            analysis([part('X1', 0.9)], [], 'odd one out'),
+            analysis([part('R1', 0.1)], [], 'typical'),
+            analysis([part('R1', 0.1)], [], 'also typical'),
+        ], options);
+        expect(merged.summary).toBe('typical');
+    });
+});
+
+describe('isUnstable', () => {
+    it('flags findings below the agreement threshold of an ensemble only', () => {
+        expect(isUnstable({ agreement: 1 / 3 }, options)).toBe(true);
+        expect(isUnstable({ agreement: 2 / 3 }, options)).toBe(false);
+        expect(isUnstable({ agreement: 1 / 3 })).toBe(false);
+        expect(formatAgreement(2 / 3, options)).toBe('2/3');
+    });
+});
+
+describe('createEnsembleProvider', () => {
+    it('runs the inner provider once per run and labels its progress and warnings', async () => {
+        const inner: AnalysisProvider = {
+            id: 'fake', name: 'Fake', description: '',
+            analyze: vi.fn(async (_file, { onProgress } = {}) => {
+                onProgress?.({ stage: 'waiting' });
+                return { analysis: analysis([part('R1', 0.1)]), warnings: [{ path: 'summary', message: 'Missing summary.' }] };
+            }),
+        };
+        const onProgress = vi.fn();
+        const result = await createEnsembleProvider(inner, options).analyze(new File([], 'board.jpg'), { onProgress });
+        expect(inner.analyze).toHaveBeenCalledTimes(3);
+        expect(onProgress.mock.calls.map(([p]) => p.detail)).toEqual(['Run 1 of 3', 'Run 2 of 3', 'Run 3 of 3', 'Matching findings across 3 runs']);
+        expect(result.warnings.map(w => w.path)).toEqual(['run[1].summary', 'run[2].summary', 'run[3].summary']);
+        expect(result.analysis.components[0].agreement).toBe(1);
+    });
+
+    it('stops between runs when cancelled', async () => {
+        const controller = new AbortController();
+        const inner: AnalysisProvider = {
+            id: 'fake', name: 'Fake', description: '',
+            analyze: vi.fn(async () => {
+                controller.abort();
+                return { analysis: analysis([]), warnings: [] };
+            }),
+        };
+        await expect(createEnsembleProvider(inner, options).analyze(new File([], 'board.jpg'), { signal: controller.signal })).rejects.toThrow();
+        expect(inner.analyze).toHaveBeenCalledTimes(1);
+    });
+});
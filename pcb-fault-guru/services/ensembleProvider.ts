@@ -0,0 +1,162 @@
+import type { PcbAnalysis, Component, Defect, BoundingBox, ValidationWarning, AnalysisResult, EnsembleInfo } from '../types';
+import type { AnalysisProvider, AnalyzeOptions } from './analysisProvider';
+import { iou } from './bboxUtils';
+import { reserveDesignator } from './analysisValidator';
+
+export type EnsembleOptions = EnsembleInfo;
+
+export const DEFAULT_ENSEMBLE_OPTIONS: EnsembleOptions = {
+    runs: 3,
+    minAgreement: 0.6,
+};
+
+// Findings from two runs are the same finding above this IoU. Lower than the tile
+// seam threshold because independent runs draw noticeably different boxes.
+const MATCH_MIN_IOU = 0.4;
+
+interface Cluster<T> {
+    members: { run: number; item: T }[];
+}
+
+/**
+ * Groups findings from several runs so each group holds at most one finding per run.
+ * Each finding joins the first group it matches that has no finding from its run yet.
+ * @param runs - The findings of each run.
+ * @param isMatch - Whether two findings from different runs describe the same thing.
+ */
+const clusterFindings = <T extends { bbox: BoundingBox; confidence: number }>(
+    runs: T[][],
+    isMatch: (a: T, b: T) => boolean
+): Cluster<T>[] => {
+    const clusters: Cluster<T>[] = [];
+    runs.forEach((items, run) => {
+        // Confident findings claim their match first.
+        [...items].sort((a, b) => b.confidence - a.confidence).forEach(item => {
+            const cluster = clusters.find(c => !c.members.some(m => m.run === run) && c.members.some(m => isMatch(m.item, item)));
+            if (cluster) {
+                cluster.members.push({ run, item });
+            } else {
+                clusters.push({ members: [{ run, item }] });
+            }
+        });
+    });
+    return clusters;
+};
+
+const averageBBox = (boxes: BoundingBox[]): BoundingBox => {
+    const mean = (pick: (b: BoundingBox) => number) => boxes.reduce((sum, b) => sum + pick(b), 0) / boxes.length;
+    return { x: mean(b => b.x), y: mean(b => b.y), w: mean(b => b.w), h: mean(b => b.h) };
+};
+
+/**
+ * Collapses a cluster into one finding: the most confident member with the mean box and
+ * confidence of all members, plus the share of runs that reported it.
+ */
+const consensus = <T extends { bbox: BoundingBox; confidence: number; agreement?: number }>(cluster: Cluster<T>, runCount: number): T => {
+    const items = cluster.members.map(m => m.item);
+    const best = items.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+    return {
+        ...best,
+        bbox: averageBBox(items.map(i => i.bbox)),
+        confidence: items.reduce((sum, i) => sum + i.confidence, 0) / items.length,
+        agreement: items.length / runCount,
+    };
+};
+
+/**
+ * Combines repeated analyses of the same image into one, keeping every finding that
+ * appeared in any run and recording how many runs agreed on it.
+ * @param analyses - One analysis per run.
+ * @param options - Run count and the agreement below which findings are unstable.
+ */
+export const mergeEnsembleAnalyses = (analyses: PcbAnalysis[], options: EnsembleOptions): AnalysisResult => {
+    const warnings: ValidationWarning[] = [];
+    const runCount = analyses.length;
+
+    const componentClusters = clusterFindings<Component>(
+        analyses.map(a => a.components),
+        (a, b) => (a.designator === b.designator && iou(a.bbox, b.bbox) > 0) || iou(a.bbox, b.bbox) >= MATCH_MIN_IOU
+    );
+    const defectClusters = clusterFindings<Defect>(
+        analyses.map(a => a.defects),
+        (a, b) => a.type === b.type && iou(a.bbox, b.bbox) >= MATCH_MIN_IOU
+    );
+
+    const seenDesignators = new Set<string>();
+    const components = componentClusters.map(cluster => {
+        const merged = consensus(cluster, runCount);
+        const designator = reserveDesignator(merged.designator, seenDesignators);
+        if (designator !== merged.designator) {
+            warnings.push({ path: `components.${merged.designator}`, message: `Runs disagree on the position of this designator; renamed to "${designator}".` });
+        }
+        return { ...merged, designator };
+    });
+    const seenDefectIds = new Set<string>();
+    const defects = defectClusters.map(cluster => {
+        const merged = consensus(cluster, runCount);
+        return { ...merged, id: reserveDesignator(merged.id, seenDefectIds) };
+    });
+
+    // The summary and advice come from the run that agrees most with the consensus, since
+    // free text cannot be averaged and summing repair costs across runs would overstate them.
+    const runScore = (run: number) => [...componentClusters, ...defectClusters]
+        .filter(c => c.members.some(m => m.run === run))
+        .reduce((sum, c) => sum + c.members.length, 0);
+    const representative = analyses.reduce((best, _, run) => (runScore(run) > runScore(best) ? run : best), 0);
+
+    return {
+        analysis: {
+            components,
+            defects,
+            summary: analyses[representative].summary,
+            advice: analyses[representative].advice,
+            ensemble: { runs: runCount, minAgreement: options.minAgreement },
+        },
+        warnings,
+    };
+};
+
+/**
+ * Whether fewer ensemble runs agreed on a finding than the ensemble's threshold.
+ * Findings from single-run analyses are never unstable.
+ */
+export const isUnstable = (item: { agreement?: number }, ensemble?: EnsembleInfo): boolean =>
+    !!ensemble && item.agreement !== undefined && item.agreement < ensemble.minAgreement;
+
+/**
+ * Formats an agreement ratio as runs, e.g. "2/3".
+ */
+export const formatAgreement = (agreement: number, ensemble: EnsembleInfo): string =>
+    `${Math.round(agreement * ensemble.runs)}/${ensemble.runs}`;
+
+/**
+ * Wraps a provider so each image is analyzed several times and the runs merged into a
+ * consensus, with each finding scored by how many runs reported it.
+ * @param inner - The provider to run repeatedly.
+ * @param options - Number of runs and the agreement threshold.
+ */
+export const createEnsembleProvider = (inner: AnalysisProvider, options: EnsembleOptions = DEFAULT_ENSEMBLE_OPTIONS): AnalysisProvider => ({
+    id: `${inner.id}:ensemble`,
+    name: `${inner.name} (ensemble)`,
+    description: `Analyzes each image ${options.runs} times with ${inner.name} and keeps the consensus.`,
+    analyze: async (imageFile: File, analyzeOptions: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+        const { signal, onProgress } = analyzeOptions;
+        const analyses: PcbAnalysis[] = [];
+        const runWarnings: ValidationWarning[] = [];
+        // Runs go one after another to stay clear of API rate limits.
+        for (let run = 0; run < options.runs; run++) {
+            signal?.throwIfAborted();
+            const runLabel = `Run ${run + 1} of ${options.runs}`;
+            const result = await inner.analyze(imageFile, {
+                signal,
+                onProgress: p => onProgress?.({ ...p, detail: p.detail ? `${runLabel} · ${p.detail}` : runLabel }),
+            });
+            analyses.push(result.analysis);
+            result.warnings.forEach(w => runWarnings.push({ ...w, path: `run[${run + 1}].${w.path}` }));
+        }
+
+        onProgress?.({ stage: 'validating', detail: `Matching findings across ${options.runs} runs` });
+        const merged = mergeEnsembleAnalyses(analyses, options);
+        return { analysis: merged.analysis, warnings: [...runWarnings, ...merged.warnings] };
+    },
+});
@@ -1,6 +1,20 @@
 
 import { GoogleGenAI, GenerateContentResponse, Chat, Type } from "@google/genai";
-import { PcbAnalysis, ChatMessage, JumperSuggestion, Component } from '../types';
+import { AnalysisResult, ChatMessage, Component } from '../types';
+import type { AnalysisProvider, AnalyzeOptions } from './analysisProvider';
+import { parseAndValidateAnalysis } from './analysisValidator';
+import { withRetry } from './requestUtils';
+import { COMPONENT_CLASSES } from './componentClass';
+import { REWORK_ACTIONS } from './reworkPlan';
+
+const MAX_RETRIES = 3;
+
+const describeError = (err: unknown): string => {
+    const status = (err as { status?: unknown })?.status;
+    if (status === 429) return 'rate limited';
+    if (typeof status === 'number') return `HTTP ${status}`;
+    return 'network error';
+};
 
 /**
  * Converts a File object to a GoogleGenAI.Part object for the API.
@@ -23,7 +37,7 @@ You are an expert AI specializing in Printed Circuit Board (PCB) inspection. Ana
 
 **Your Task:**
 
-1.  **Identify Key Components:** Locate major components like ICs, capacitors, resistors. For each, identify its designator (e.g., U1), a plausible Manufacturer Part Number (MPN), its bounding box, presence, and condition.
+1.  **Identify Key Components:** Locate major components like ICs, capacitors, resistors. For each, identify its designator (e.g., U1), a plausible Manufacturer Part Number (MPN), its componentClass (resistor, capacitor, ic, ...), its bounding box, presence, and condition.
 2.  **Perform Thermal & Electrical Analysis:**
     *   For each component, estimate its operating **temperature** in Celsius. If a component appears to be a significant heat source (e.g., discolored, near a heatsink), assign a higher temperature.
     *   Provide a plausible **maxVoltage** in Volts for each component based on its type and a plausible **datasheetUrl**.
@@ -70,6 +84,7 @@ const pcbAnalysisSchema = {
                     temperature: { type: Type.NUMBER, description: "Estimated temperature in Celsius." },
                     datasheetUrl: { type: Type.STRING, description: "URL to the component's datasheet." },
                     maxVoltage: { type: Type.NUMBER, description: "Plausible maximum voltage in Volts." },
+                    componentClass: { type: Type.STRING, enum: COMPONENT_CLASSES.map(c => c.id), description: "What kind of part this is." },
                 },
                 required: ['designator', 'mpn', 'bbox', 'presence', 'condition', 'confidence']
             }
@@ -139,86 +154,129 @@ const pcbAnalysisSchema = {
     required: ['components', 'defects', 'summary', 'advice']
 };
 
-export const analyzePcbImage = async (imageFile: File): Promise<PcbAnalysis> => {
+export const analyzePcbImage = async (imageFile: File, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+    const { signal, onProgress } = options;
     if (!process.env.API_KEY) {
         throw new Error("API_KEY environment variable not set.");
     }
     const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
 
+    onProgress?.({ stage: 'preparing' });
     const imagePart = await fileToGenerativePart(imageFile);
+    signal?.throwIfAborted();
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: [{ parts: [imagePart, {text: pcbAnalysisPrompt}] }],
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: pcbAnalysisSchema,
-            temperature: 0.1, // Lower temperature for more deterministic JSON output
-        },
+    // Streaming lets us tell the upload apart from the model generating its answer.
+    const jsonText = await withRetry(async () => {
+        onProgress?.({ stage: 'uploading' });
+        const stream = await ai.models.generateContentStream({
+            model: 'gemini-2.5-flash',
+            contents: [{ parts: [imagePart, {text: pcbAnalysisPrompt}] }],
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: pcbAnalysisSchema,
+                temperature: 0.1, // Lower temperature for more deterministic JSON output
+                abortSignal: signal,
+            },
+        });
+        onProgress?.({ stage: 'waiting' });
+        let text = '';
+        for await (const chunk of stream) {
+            text += chunk.text ?? '';
+        }
+        return text.trim();
+    }, {
+        signal,
+        retries: MAX_RETRIES,
+        onRetry: (attempt, delayMs, err) => onProgress?.({
+            stage: 'uploading',
+            detail: `Request failed (${describeError(err)}); retry ${attempt} of ${MAX_RETRIES} in ${Math.ceil(delayMs / 1000)}s`,
+        }),
     });
-    
-    const jsonText = response.text.trim();
+
+    onProgress?.({ stage: 'validating' });
     
     try {
-        const parsed = JSON.parse(jsonText);
-        // Basic validation
-        if (!parsed.components || !parsed.defects) {
-             throw new Error("AI response is missing required fields.");
-        }
-        return parsed as PcbAnalysis;
+        return parseAndValidateAnalysis(jsonText);
     } catch (e) {
-        console.error("Failed to parse JSON response from AI:", jsonText);
-        console.error(e);
-        throw new Error("AI returned invalid data format. Please try again.");
+        console.error("Failed to validate JSON response from AI:", jsonText);
+        throw e;
     }
 };
 
+export const geminiProvider: AnalysisProvider = {
+    id: 'gemini',
+    name: 'Gemini 2.5 Flash',
+    description: 'Analyzes the image with the Gemini API. Requires network access and an API key.',
+    analyze: analyzePcbImage,
+};
+
 const chatSystemInstruction = `
 You are a helpful AI assistant for electronics repair. Your name is 'Guru'.
 You are having a conversation with an engineer about a specific Printed Circuit Board (PCB) they are analyzing.
 - Keep your answers concise and to the point.
 - If the user provides context about a selected component, focus your answer on that component.
 - The user might provide the board's operating voltage. Use this to assess risks.
-- If asked for a workaround that involves bypassing a component, you can suggest adding a jumper wire.
-- To suggest a jumper, you MUST output a JSON block with the 'jumper' key. The coordinates for the jumper must be normalized (0.0 to 1.0) and should be near component pins or pads, not in the middle of a component.
-- Example Jumper JSON:
+- If asked how to repair the board or for a workaround, you can propose a rework plan: an ordered list of steps.
+- To propose a plan, you MUST output a JSON block with the 'plan' key. Each step has an "action" (one of ${REWORK_ACTIONS.map(a => a.id).join(', ')}), an "instruction", and optionally the "designator" it concerns and the "mpn" to fit.
+- Jumper and cut_trace steps need "from" and "to" points; a jumper's ends should be on component pins or pads, not in the middle of a component. Other steps can mark a region with a "bbox". All coordinates are normalized (0.0 to 1.0).
+- Example Plan JSON:
 \`\`\`json
 {
-  "jumper": {
-    "from": { "x": 0.25, "y": 0.35 },
-    "to": { "x": 0.28, "y": 0.55 }
+  "plan": {
+    "title": "Bypass the failed regulator",
+    "steps": [
+      { "action": "remove", "designator": "U3", "instruction": "Desolder U3." },
+      { "action": "cut_trace", "from": { "x": 0.41, "y": 0.30 }, "to": { "x": 0.43, "y": 0.30 }, "instruction": "Cut the trace from U3 pin 2 to the enable line." },
+      { "action": "jumper", "from": { "x": 0.25, "y": 0.35 }, "to": { "x": 0.28, "y": 0.55 }, "instruction": "Fit a jumper from C12 to R4." }
+    ]
   }
 }
 \`\`\`
-- Do not add the JSON block unless you are specifically suggesting a jumper wire.
+- Do not add the JSON block unless you are specifically proposing rework.
 `;
 
 
-export const createChat = (apiKey: string): Chat => {
+// Per-request chat config replaces the chat-level one, so both use this.
+const chatConfig = {
+    systemInstruction: chatSystemInstruction,
+    temperature: 0.4,
+};
+
+/**
+ * Starts a repair chat, optionally continuing an earlier conversation.
+ * @param apiKey - The Gemini API key.
+ * @param history - Messages to restore; failed replies and the questions they answer are left out.
+ */
+export const createChat = (apiKey: string, history: ChatMessage[] = []): Chat => {
     const ai = new GoogleGenAI({apiKey});
     return ai.chats.create({
         model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: chatSystemInstruction,
-            temperature: 0.4,
-        }
+        config: chatConfig,
+        history: history
+            .filter((m, i) => !m.failed && !history[i + 1]?.failed)
+            .map(m => ({ role: m.role, parts: [{ text: m.text }] })),
     });
 };
 
 export const sendMessage = async (
     chat: Chat, 
     message: string, 
-    context: { component?: Component; boardVoltage?: number }
+    context: { component?: Component; boardVoltage?: number },
+    signal?: AbortSignal
 ): Promise<GenerateContentResponse> => {
     let contextualMessage = message;
     if (context.component) {
-        contextualMessage = `Context: I have selected component ${context.component.designator} (${context.component.mpn}). Its condition is '${getStatusText(context.component)}'.\n\nMy question: ${message}`;
+        const corrected = context.component.origin === 'human' ? ' These details were corrected by the technician, so trust them over the original analysis.' : '';
+        contextualMessage = `Context: I have selected component ${context.component.designator} (${context.component.mpn}). Its condition is '${getStatusText(context.component)}'.${corrected}\n\nMy question: ${message}`;
     }
     if (context.boardVoltage) {
         contextualMessage += `\n(Note: The board voltage is set to ${context.boardVoltage}V).`;
     }
 
-    return await chat.sendMessage({ message: contextualMessage });
+    return await withRetry(
+        () => chat.sendMessage({ message: contextualMessage, config: { ...chatConfig, abortSignal: signal } }),
+        { signal, retries: MAX_RETRIES }
+    );
 };
 
 const getStatusText = (component: Component): string => {
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Component, Defect, GoldenReference, PcbAnalysis } from '../types';
+import { clearGoldenReference, compareWithGolden, countDiffFindings, loadGoldenReference, matchComponents } from './goldenService';
+
+const part = (designator: string, x: number, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x, y: 0.5, w: 0.04, h: 0.04 },
+    ...extra,
+});
+
+const defect = (id: string, x: number, extra: Partial<Defect> = {}): Defect => ({
+    id, type: 'solder_bridge', confidence: 0.9, bbox: { x, y: 0.2, w: 0.02, h: 0.02 }, ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[] = []): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const reference = (a: PcbAnalysis): GoldenReference => ({ name: 'Known good', savedAt: '', imageDataUrl: '', analysis: a });
+
+const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+    };
+};
+
+describe('matchComponents', () => {
+    it('pairs by designator first, then by location on the same side', () => {
+        const { pairs, unmatchedReference, unmatchedSuspect } = matchComponents(
+            [part('R1', 0.1), part('R2', 0.3), part('U1', 0.6, { side: 'bottom' })],
+            [part('R1', 0.8), part('R7', 0.3), part('U9', 0.6)],
+        );
+        expect(pairs.map(p => [p.reference.designator, p.suspect.designator])).toEqual([['R1', 'R1'], ['R2', 'R7']]);
+        expect(unmatchedReference.map(c => c.designator)).toEqual(['U1']);
+        expect(unmatchedSuspect.map(c => c.designator)).toEqual(['U9']);
+    });
+});
+
+describe('compareWithGolden', () => {
+    it('reports missing, extra, changed parts and new defects', () => {
+        const golden = reference(analysis(
+            [part('R1', 0.1, { mpn: 'RC0603' }), part('C1', 0.3), part('U1', 0.5), part('J1', 0.7)],
+            [defect('D1', 0.5)],
+        ));
+        const suspect = analysis(
+            [part('R1', 0.1, { mpn: 'rc0603 ' }), part('C1', 0.3, { presence: 'missing' }), part('U1', 0.5, { mpn: 'NE555', condition: 'burnt' }), part('Q1', 0.9)],
+            [defect('D1', 0.5), defect('D2', 0.9)],
+        );
+        const diff = compareWithGolden(golden, suspect);
+        expect(diff.referenceName).toBe('Known good');
+        expect(diff.missing.map(c => c.designator)).toEqual(['J1', 'C1']);
+        expect(diff.extra.map(c => c.designator)).toEqual(['Q1']);
+        expect(diff.mpnChanged).toEqual([]);
+        expect(diff.conditionChanged.map(p => p.suspect.designator)).toEqual(['U1']);
+        expect(diff.newDefects.map(d => d.id)).toEqual(['D2']);
+        expect(countDiffFindings(diff)).toBe(5);
+    });
+
+    it('flags a different MPN only when both boards have one', () => {
+        const diff = compareWithGolden(reference(analysis([part('U1', 0.5, { mpn: 'LM358' }), part('U2', 0.1)])), analysis([part('U1', 0.5, { mpn: 'LM324' }), part('U2', 0.1, { mpn: 'NE555' })]));
+        expect(diff.mpnChanged.map(p => p.suspect.designator)).toEqual(['U1']);
+    });
+});
+
+describe('loadGoldenReference', () => {
+    beforeEach(() => vi.stubGlobal('localStorage', memoryStorage()));
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('reads the stored reference and tolerates a corrupt one', () => {
+        expect(loadGoldenReference()).toBeNull();
+        localStorage.setItem('pcb-guru:golden-reference', JSON.stringify(reference(analysis([part('R1', 0.1)]))));
+        expect(loadGoldenReference()?.name).toBe('Known good');
+        clearGoldenReference();
+        expect(loadGoldenReference()).toBeNull();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        localStorage.setItem('pcb-guru:golden-reference', '{');
+        expect(loadGoldenReference()).toBeNull();
+    });
+});
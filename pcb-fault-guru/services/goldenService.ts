@@ -0,0 +1,130 @@
+import type { PcbAnalysis, Component, Defect, GoldenReference, BoardDiff, ComponentChange, BoundingBox } from '../types';
+import { iou, centerDistance } from './bboxUtils';
+import { getSide } from './analysisMerge';
+
+const GOLDEN_REFERENCE_KEY = 'pcb-guru:golden-reference';
+
+// The reference image is downscaled so it fits in localStorage.
+const REFERENCE_IMAGE_MAX_EDGE = 1600;
+
+// Two boxes on different photos of the same board are the same part above this IoU
+// or below this center distance; photos are never perfectly aligned.
+const MATCH_MIN_IOU = 0.3;
+const MATCH_MAX_CENTER_DISTANCE = 0.03;
+
+const downscaleToDataUrl = async (imageFile: File): Promise<string> => {
+    const bitmap = await createImageBitmap(imageFile);
+    const scale = Math.min(1, REFERENCE_IMAGE_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+/**
+ * Stores an analysis and its image as the known-good reference for later comparisons.
+ * Replaces any previous reference.
+ * @param name - A label for the reference, e.g. the board name.
+ * @param analysis - The analysis of the known-good board.
+ * @param imageFile - The photo of the known-good board.
+ */
+export const saveGoldenReference = async (name: string, analysis: PcbAnalysis, imageFile: File): Promise<GoldenReference> => {
+    const reference: GoldenReference = {
+        name,
+        savedAt: new Date().toISOString(),
+        analysis,
+        imageDataUrl: await downscaleToDataUrl(imageFile),
+    };
+    try {
+        localStorage.setItem(GOLDEN_REFERENCE_KEY, JSON.stringify(reference));
+    } catch (e) {
+        console.error("Failed to store golden reference:", e);
+        throw new Error("Could not store the golden reference. The browser storage may be full.");
+    }
+    return reference;
+};
+
+export const loadGoldenReference = (): GoldenReference | null => {
+    try {
+        const stored = localStorage.getItem(GOLDEN_REFERENCE_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        console.error("Failed to load golden reference:", e);
+        return null;
+    }
+};
+
+export const clearGoldenReference = (): void => {
+    localStorage.removeItem(GOLDEN_REFERENCE_KEY);
+};
+
+export const isSameLocation = (a: BoundingBox, b: BoundingBox) =>
+    iou(a, b) >= MATCH_MIN_IOU || centerDistance(a, b) <= MATCH_MAX_CENTER_DISTANCE;
+
+/**
+ * Pairs reference components with suspect components on the same side, first by
+ * designator and then, for the rest, by location, since the model does not always
+ * name the same part the same way twice.
+ */
+export const matchComponents = (reference: Component[], suspect: Component[]) => {
+    const pairs: ComponentChange[] = [];
+    const unmatchedSuspect = new Set(suspect);
+    const unmatchedReference: Component[] = [];
+
+    reference.forEach(ref => {
+        const byName = suspect.find(s => unmatchedSuspect.has(s) && s.designator === ref.designator && getSide(s) === getSide(ref));
+        if (byName) {
+            pairs.push({ reference: ref, suspect: byName });
+            unmatchedSuspect.delete(byName);
+        } else {
+            unmatchedReference.push(ref);
+        }
+    });
+
+    const stillUnmatched = unmatchedReference.filter(ref => {
+        const byLocation = Array.from(unmatchedSuspect).find(s => getSide(s) === getSide(ref) && isSameLocation(s.bbox, ref.bbox));
+        if (!byLocation) return true;
+        pairs.push({ reference: ref, suspect: byLocation });
+        unmatchedSuspect.delete(byLocation);
+        return false;
+    });
+
+    return { pairs, unmatchedReference: stillUnmatched, unmatchedSuspect: Array.from(unmatchedSuspect) };
+};
+
+/**
+ * Whether a defect on the suspect board already existed on the reference.
+ */
+const existsOnReference = (defect: Defect, referenceDefects: Defect[]) =>
+    referenceDefects.some(r => r.type === defect.type && getSide(r) === getSide(defect) && isSameLocation(r.bbox, defect.bbox));
+
+const normalizeMpn = (mpn: string) => mpn.trim().toUpperCase();
+
+/**
+ * Compares a suspect board against the golden reference.
+ * @param reference - The golden reference.
+ * @param suspect - The analysis of the board under test.
+ */
+export const compareWithGolden = (reference: GoldenReference, suspect: PcbAnalysis): BoardDiff => {
+    const { pairs, unmatchedReference, unmatchedSuspect } = matchComponents(reference.analysis.components, suspect.components);
+
+    const missing = [
+        ...unmatchedReference.filter(c => c.presence === 'ok'),
+        ...pairs.filter(p => p.reference.presence === 'ok' && p.suspect.presence === 'missing').map(p => p.reference),
+    ];
+    const present = pairs.filter(p => !(p.reference.presence === 'ok' && p.suspect.presence === 'missing'));
+
+    return {
+        referenceName: reference.name,
+        missing,
+        extra: unmatchedSuspect.filter(c => c.presence === 'ok'),
+        mpnChanged: present.filter(p => p.reference.mpn && p.suspect.mpn && normalizeMpn(p.reference.mpn) !== normalizeMpn(p.suspect.mpn)),
+        conditionChanged: present.filter(p => p.reference.condition !== p.suspect.condition || p.reference.presence !== p.suspect.presence),
+        newDefects: suspect.defects.filter(d => !existsOnReference(d, reference.analysis.defects)),
+    };
+};
+
+export const countDiffFindings = (diff: BoardDiff): number =>
+    diff.missing.length + diff.extra.length + diff.mpnChanged.length + diff.conditionChanged.length + diff.newDefects.length;
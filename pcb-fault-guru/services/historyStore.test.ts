@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { InspectionRecord, PcbAnalysis } from '../types';
+import {
+    deleteInspection, listInspections, listProjects, loadInspection, loadUnitInspections, renameInspection, saveInspection, saveProject,
+} from './historyStore';
+
+const analysis = (summary: string): PcbAnalysis => ({
+    components: [], defects: [], summary, advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const record = (id: string, extra: Partial<InspectionRecord> = {}) =>
+    ({ id, name: id, images: {}, analysis: analysis(id), warnings: [], chatHistory: [], boardVoltage: null, ...extra }) as InspectionRecord;
+
+// The database is shared by the whole file, so each test removes what it saved.
+const saved: string[] = [];
+const save = async (r: InspectionRecord, now: string) => {
+    vi.setSystemTime(new Date(now));
+    await saveInspection(r);
+    saved.push(r.id);
+};
+
+afterEach(async () => {
+    vi.useRealTimers();
+    await Promise.all(saved.splice(0).map(deleteInspection));
+});
+
+describe('saveInspection', () => {
+    it('keeps the name and creation time of the first save', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        await save(record('a', { name: 'First' }), '2024-01-01T00:00:00.000Z');
+        await renameInspection('a', 'Renamed');
+        await save(record('a', { name: 'Autosave', analysis: analysis('later') }), '2024-01-02T00:00:00.000Z');
+        expect(await loadInspection('a')).toMatchObject({
+            name: 'Renamed', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-02T00:00:00.000Z', analysis: { summary: 'later' },
+        });
+    });
+});
+
+describe('listInspections', () => {
+    it('lists the most recently changed first and forgets deleted ones', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        await save(record('old'), '2024-01-01T00:00:00.000Z');
+        await save(record('new'), '2024-01-03T00:00:00.000Z');
+        await save(record('gone'), '2024-01-02T00:00:00.000Z');
+        await deleteInspection('gone');
+        expect((await listInspections()).map(s => [s.id, s.summary])).toEqual([['new', 'new'], ['old', 'old']]);
+        expect(await loadInspection('gone')).toBeUndefined();
+    });
+});
+
+describe('loadUnitInspections', () => {
+    it('finds a unit by serial within its project, oldest first', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        await save(record('second', { projectId: 'p1', serial: 'SN-1 ' }), '2024-02-01T00:00:00.000Z');
+        await save(record('first', { projectId: 'p1', serial: 'sn-1' }), '2024-01-01T00:00:00.000Z');
+        await save(record('other unit', { projectId: 'p1', serial: 'SN-2' }), '2024-01-01T00:00:00.000Z');
+        await save(record('other board', { projectId: 'p2', serial: 'SN-1' }), '2024-01-01T00:00:00.000Z');
+        expect((await loadUnitInspections('p1', 'SN-1')).map(r => r.id)).toEqual(['first', 'second']);
+    });
+});
+
+describe('listProjects', () => {
+    it('sorts projects by name, then revision', async () => {
+        const project = (id: string, name: string, revision: string) => ({ id, name, revision, expectedVoltage: null, createdAt: '' });
+        await saveProject(project('1', 'Motor driver', 'B'));
+        await saveProject(project('2', 'Motor driver', 'A'));
+        await saveProject(project('3', 'LED panel', 'C'));
+        expect((await listProjects()).map(p => p.id)).toEqual(['3', '2', '1']);
+    });
+});
@@ -0,0 +1,173 @@
+import type { InspectionRecord, InspectionSummary, BoardProject, DatasheetEntry } from '../types';
+
+const DB_NAME = 'pcb-fault-guru';
+const DB_VERSION = 3;
+const INSPECTIONS = 'inspections';
+const PROJECTS = 'projects';
+const DATASHEETS = 'datasheets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+
+/**
+ * Opens (and on first use creates or upgrades) the app's database. The connection is shared.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                const upgrade = request.transaction!;
+                // Each step upgrades from the previous version, so new installs run them all.
+                if (event.oldVersion < 1) {
+                    const store = db.createObjectStore(INSPECTIONS, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+                if (event.oldVersion < 2) {
+                    db.createObjectStore(PROJECTS, { keyPath: 'id' });
+                    upgrade.objectStore(INSPECTIONS).createIndex('projectId', 'projectId');
+                }
+                if (event.oldVersion < 3) {
+                    db.createObjectStore(DATASHEETS, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Runs `work` in a transaction on one store and resolves once the transaction commits.
+ */
+const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, mode);
+    const done = transactionDone(tx);
+    const result = await work(tx.objectStore(storeName));
+    await done;
+    return result;
+};
+
+const toSummary = (record: InspectionRecord): InspectionSummary => ({
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    projectId: record.projectId,
+    serial: record.serial,
+    summary: record.analysis.summary,
+    componentCount: record.analysis.components.length,
+    defectCount: record.analysis.defects.length,
+    triagedCount: [...record.analysis.components, ...record.analysis.defects].filter(item => item.triage).length,
+    thumbnail: record.images.top,
+});
+
+/**
+ * Saves an inspection, keeping the name and creation time of an earlier save with the same id
+ * so autosaves never undo a rename.
+ * @param record - The inspection; `name` and `createdAt` are only used the first time,
+ * and `createdAt` defaults to now.
+ */
+export const saveInspection = (record: Omit<InspectionRecord, 'createdAt' | 'updatedAt'> & { createdAt?: string }): Promise<void> =>
+    withStore(INSPECTIONS, 'readwrite', async store => {
+        const existing = await promisifyRequest<InspectionRecord | undefined>(store.get(record.id));
+        const now = new Date().toISOString();
+        store.put({
+            ...record,
+            name: existing?.name ?? record.name,
+            createdAt: existing?.createdAt ?? record.createdAt ?? now,
+            updatedAt: now,
+        });
+    });
+
+/**
+ * All saved inspections, most recently changed first.
+ */
+export const listInspections = (): Promise<InspectionSummary[]> =>
+    withStore(INSPECTIONS, 'readonly', async store => {
+        const records = await promisifyRequest<InspectionRecord[]>(store.index('updatedAt').getAll());
+        return records.reverse().map(toSummary);
+    });
+
+export const loadInspection = (id: string): Promise<InspectionRecord | undefined> =>
+    withStore(INSPECTIONS, 'readonly', store => promisifyRequest<InspectionRecord | undefined>(store.get(id)));
+
+export const renameInspection = (id: string, name: string): Promise<void> =>
+    withStore(INSPECTIONS, 'readwrite', async store => {
+        const existing = await promisifyRequest<InspectionRecord | undefined>(store.get(id));
+        if (existing) store.put({ ...existing, name });
+    });
+
+export const deleteInspection = (id: string): Promise<void> =>
+    withStore(INSPECTIONS, 'readwrite', async store => {
+        await promisifyRequest(store.delete(id));
+    });
+
+/**
+ * Every saved inspection of one unit, oldest first.
+ * @param projectId - The board project.
+ * @param serial - The unit's serial number; compared ignoring case and surrounding spaces.
+ */
+export const loadUnitInspections = (projectId: string, serial: string): Promise<InspectionRecord[]> =>
+    withStore(INSPECTIONS, 'readonly', async store => {
+        const records = await promisifyRequest<InspectionRecord[]>(store.index('projectId').getAll(projectId));
+        const wanted = serial.trim().toLowerCase();
+        return records
+            .filter(r => r.serial?.trim().toLowerCase() === wanted)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    });
+
+export const listProjects = (): Promise<BoardProject[]> =>
+    withStore(PROJECTS, 'readonly', async store => {
+        const projects = await promisifyRequest<BoardProject[]>(store.getAll());
+        return projects.sort((a, b) => a.name.localeCompare(b.name) || a.revision.localeCompare(b.revision));
+    });
+
+export const saveProject = (project: BoardProject): Promise<void> =>
+    withStore(PROJECTS, 'readwrite', async store => {
+        await promisifyRequest(store.put(project));
+    });
+
+/**
+ * The local datasheet library, in the order the files were added.
+ */
+export const listDatasheets = (): Promise<DatasheetEntry[]> =>
+    withStore(DATASHEETS, 'readonly', async store => {
+        const entries = await promisifyRequest<DatasheetEntry[]>(store.getAll());
+        return entries.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+    });
+
+export const saveDatasheet = (entry: DatasheetEntry): Promise<void> =>
+    withStore(DATASHEETS, 'readwrite', async store => {
+        await promisifyRequest(store.put(entry));
+    });
+
+export const deleteDatasheet = (id: string): Promise<void> =>
+    withStore(DATASHEETS, 'readwrite', async store => {
+        await promisifyRequest(store.delete(id));
+    });
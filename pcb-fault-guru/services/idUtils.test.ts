@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { newId } from './idUtils';
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('newId', () => {
+    it('uses randomUUID where the browser has it', () => {
+        expect(newId()).toMatch(UUID_V4);
+    });
+
+    it('builds a version 4 UUID from random bytes outside a secure context', () => {
+        const { getRandomValues } = crypto;
+        vi.stubGlobal('crypto', { getRandomValues: getRandomValues.bind(crypto) });
+        const ids = new Set([newId(), newId(), newId()]);
+        expect(ids.size).toBe(3);
+        ids.forEach(id => expect(id).toMatch(UUID_V4));
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { applyHomography, readExifOrientation, solveHomography, Point } from './imageProcessing';
+
+const UNIT_SQUARE: Point[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+describe('solveHomography', () => {
+    it('maps each corner onto its target', () => {
+        const outline: Point[] = [{ x: 0.1, y: 0.2 }, { x: 0.9, y: 0.1 }, { x: 0.8, y: 0.95 }, { x: 0.15, y: 0.8 }];
+        const h = solveHomography(UNIT_SQUARE, outline);
+        UNIT_SQUARE.forEach((corner, i) => {
+            const mapped = applyHomography(h, corner);
+            expect(mapped.x).toBeCloseTo(outline[i].x, 9);
+            expect(mapped.y).toBeCloseTo(outline[i].y, 9);
+        });
+    });
+
+    it('keeps straight lines straight', () => {
+        const h = solveHomography(UNIT_SQUARE, [{ x: 0, y: 0 }, { x: 2, y: 0.2 }, { x: 1.8, y: 1.5 }, { x: 0.1, y: 1 }]);
+        const [a, m, b] = [{ x: 0, y: 0.5 }, { x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }].map(p => applyHomography(h, p));
+        // Cross product of (m - a) and (b - a) is zero for collinear points.
+        expect((m.x - a.x) * (b.y - a.y) - (m.y - a.y) * (b.x - a.x)).toBeCloseTo(0, 9);
+    });
+
+    it('rejects corners with three in a line', () => {
+        expect(() => solveHomography([{ x: 0, y: 0 }, { x: 0.5, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }], UNIT_SQUARE)).toThrow(/usable outline/);
+    });
+});
+
+// A JPEG start with one APP1 segment holding a TIFF header and a single orientation entry.
+const jpegWithOrientation = (orientation: number, little: boolean): Blob => {
+    const tiff = new DataView(new ArrayBuffer(8 + 2 + 12 + 4));
+    tiff.setUint16(0, little ? 0x4949 : 0x4D4D);
+    tiff.setUint16(2, 42, little);
+    tiff.setUint32(4, 8, little);
+    tiff.setUint16(8, 1, little);
+    tiff.setUint16(10, 0x0112, little);
+    tiff.setUint16(12, 3, little); // SHORT
+    tiff.setUint32(14, 1, little);
+    tiff.setUint16(18, orientation, little);
+    const head = new DataView(new ArrayBuffer(2 + 4 + 6));
+    head.setUint16(0, 0xFFD8);
+    head.setUint16(2, 0xFFE1);
+    head.setUint16(4, 2 + 6 + tiff.byteLength);
+    head.setUint32(6, 0x45786966); // "Exif"
+    return new Blob([head.buffer, tiff.buffer, new Uint8Array([0xFF, 0xDA, 0, 2])]);
+};
+
+describe('readExifOrientation', () => {
+    it('reads the tag in either byte order', async () => {
+        expect(await readExifOrientation(jpegWithOrientation(6, true))).toBe(6);
+        expect(await readExifOrientation(jpegWithOrientation(8, false))).toBe(8);
+    });
+
+    it('reports upright for files without EXIF', async () => {
+        expect(await readExifOrientation(new Blob([new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A])]))).toBe(1);
+        expect(await readExifOrientation(new Blob([new Uint8Array([0xFF, 0xD8, 0xFF, 0xDA, 0, 2])]))).toBe(1);
+    });
+});
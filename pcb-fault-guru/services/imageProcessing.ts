@@ -0,0 +1,243 @@
+import type { BoundingBox } from '../types';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Corners of the board outline, normalized to the image: top-left, top-right, bottom-right, bottom-left.
+export type Quad = [Point, Point, Point, Point];
+
+// Share of pixels clipped at each end when stretching contrast.
+const CONTRAST_CLIP = 0.01;
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a canvas to process the image.");
+    return [canvas, ctx];
+};
+
+/**
+ * Decodes an image with its EXIF orientation applied, so photos taken with a rotated
+ * phone come out the way they were shot rather than the way the sensor stored them.
+ */
+export const loadOrientedImage = async (file: Blob): Promise<HTMLCanvasElement> => {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const [canvas, ctx] = createCanvas(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas;
+};
+
+/**
+ * Rotates an image by quarter turns.
+ * @param quarterTurns - 1 for 90° clockwise, -1 for counter-clockwise, 2 for 180°.
+ */
+export const rotateCanvas = (source: HTMLCanvasElement, quarterTurns: number): HTMLCanvasElement => {
+    const turns = ((quarterTurns % 4) + 4) % 4;
+    const sideways = turns % 2 === 1;
+    const [canvas, ctx] = createCanvas(sideways ? source.height : source.width, sideways ? source.width : source.height);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate((turns * Math.PI) / 2);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+    return canvas;
+};
+
+/**
+ * Crops an image to a box normalized to its size.
+ */
+export const cropCanvas = (source: HTMLCanvasElement, bbox: BoundingBox): HTMLCanvasElement => {
+    const x = Math.round(bbox.x * source.width);
+    const y = Math.round(bbox.y * source.height);
+    const w = Math.max(1, Math.round(bbox.w * source.width));
+    const h = Math.max(1, Math.round(bbox.h * source.height));
+    const [canvas, ctx] = createCanvas(w, h);
+    ctx.drawImage(source, x, y, w, h, 0, 0, w, h);
+    return canvas;
+};
+
+/**
+ * Solves the 3×3 homography (h8 = 1) mapping each of four `from` points onto the matching `to` point.
+ */
+export const solveHomography = (from: Point[], to: Point[]): number[] => {
+    // Eight linear equations in h0..h7, two per correspondence.
+    const rows: number[][] = [];
+    from.forEach(({ x: u, y: v }, i) => {
+        const { x, y } = to[i];
+        rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+        rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+    });
+
+    // Gaussian elimination with partial pivoting.
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < 8; r++) {
+            if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+        }
+        if (Math.abs(rows[pivot][col]) < 1e-10) {
+            throw new Error("The corner points do not form a usable outline. Make sure no three corners are in a line.");
+        }
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        for (let r = 0; r < 8; r++) {
+            if (r === col) continue;
+            const factor = rows[r][col] / rows[col][col];
+            for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+        }
+    }
+    return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+export const applyHomography = (h: number[], { x: u, y: v }: Point): Point => {
+    const w = h[6] * u + h[7] * v + h[8];
+    return { x: (h[0] * u + h[1] * v + h[2]) / w, y: (h[3] * u + h[4] * v + h[5]) / w };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Straightens a photographed board: the four outline corners are mapped onto the
+ * corners of a rectangle sized to the longer of each pair of opposite edges.
+ * @param source - The image.
+ * @param corners - The board outline, normalized to the image.
+ */
+export const warpPerspective = (source: HTMLCanvasElement, corners: Quad): HTMLCanvasElement => {
+    const px = corners.map(c => ({ x: c.x * source.width, y: c.y * source.height }));
+    const [tl, tr, br, bl] = px;
+    const width = Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br))));
+    const height = Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br))));
+
+    // Map each output pixel back into the source (inverse warp) so there are no holes.
+    const h = solveHomography(
+        [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }],
+        px
+    );
+
+    const src = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+    const [canvas, ctx] = createCanvas(width, height);
+    const out = ctx.createImageData(width, height);
+    const sw = source.width;
+    const sh = source.height;
+
+    for (let v = 0; v < height; v++) {
+        for (let u = 0; u < width; u++) {
+            const w = h[6] * u + h[7] * v + h[8];
+            const x = (h[0] * u + h[1] * v + h[2]) / w;
+            const y = (h[3] * u + h[4] * v + h[5]) / w;
+            const o = (v * width + u) * 4;
+            if (x < 0 || y < 0 || x > sw - 1 || y > sh - 1) {
+                out.data[o + 3] = 255; // outside the photo: opaque black
+                continue;
+            }
+            // Bilinear sampling.
+            const x0 = Math.floor(x);
+            const y0 = Math.floor(y);
+            const x1 = Math.min(x0 + 1, sw - 1);
+            const y1 = Math.min(y0 + 1, sh - 1);
+            const fx = x - x0;
+            const fy = y - y0;
+            const i00 = (y0 * sw + x0) * 4;
+            const i10 = (y0 * sw + x1) * 4;
+            const i01 = (y1 * sw + x0) * 4;
+            const i11 = (y1 * sw + x1) * 4;
+            for (let c = 0; c < 4; c++) {
+                const top = src.data[i00 + c] * (1 - fx) + src.data[i10 + c] * fx;
+                const bottom = src.data[i01 + c] * (1 - fx) + src.data[i11 + c] * fx;
+                out.data[o + c] = top * (1 - fy) + bottom * fy;
+            }
+        }
+    }
+    ctx.putImageData(out, 0, 0);
+    return canvas;
+};
+
+/**
+ * Evens out color casts and flat lighting: gray-world white balance followed by a
+ * contrast stretch that clips the darkest and brightest 1% of pixels.
+ */
+export const normalizeColors = (source: HTMLCanvasElement): HTMLCanvasElement => {
+    const [canvas, ctx] = createCanvas(source.width, source.height);
+    ctx.drawImage(source, 0, 0);
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data } = image;
+    const pixelCount = data.length / 4;
+
+    const sums = [0, 0, 0];
+    for (let i = 0; i < data.length; i += 4) {
+        sums[0] += data[i];
+        sums[1] += data[i + 1];
+        sums[2] += data[i + 2];
+    }
+    const means = sums.map(s => s / pixelCount);
+    const gray = (means[0] + means[1] + means[2]) / 3;
+    const gains = means.map(m => (m > 0 ? gray / m : 1));
+
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < data.length; i += 4) {
+        const luma = 0.299 * data[i] * gains[0] + 0.587 * data[i + 1] * gains[1] + 0.114 * data[i + 2] * gains[2];
+        histogram[Math.min(255, Math.round(luma))]++;
+    }
+    const percentile = (share: number) => {
+        let seen = 0;
+        for (let level = 0; level < 256; level++) {
+            seen += histogram[level];
+            if (seen >= share * pixelCount) return level;
+        }
+        return 255;
+    };
+    const low = percentile(CONTRAST_CLIP);
+    const high = Math.max(low + 1, percentile(1 - CONTRAST_CLIP));
+    const scale = 255 / (high - low);
+
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            data[i + c] = Math.max(0, Math.min(255, (data[i + c] * gains[c] - low) * scale));
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+};
+
+/**
+ * Encodes a processed image as a file for analysis, keeping the original name and PNG
+ * when the original was PNG.
+ */
+export const canvasToFile = async (canvas: HTMLCanvasElement, original: File): Promise<File> => {
+    const mimeType = original.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, 0.92));
+    if (!blob) throw new Error("Could not encode the processed image.");
+    return new File([blob], original.name, { type: mimeType, lastModified: Date.now() });
+};
+
+/**
+ * Reads the EXIF orientation tag of a JPEG (1 = upright). Other formats report 1.
+ * Used to tell whether decoding with orientation applied changes the image at all.
+ */
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+    const view = new DataView(await file.slice(0, 65536).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+            const tiff = offset + 10;
+            const little = view.getUint16(tiff) === 0x4949; // "II"
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            if (ifd + 2 > view.byteLength) return 1;
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) return 1;
+                if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+            }
+            return 1;
+        }
+        if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return 1; // start of scan: no more metadata
+        offset += 2 + length;
+    }
+    return 1;
+};
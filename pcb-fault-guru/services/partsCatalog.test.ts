@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CatalogPart } from '../types';
+import { catalogSize, clearCatalog, importCatalog, localCatalogProvider, unitPriceAt } from './partsCatalog';
+
+const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+    };
+};
+
+const jsonFile = (value: unknown, name = 'catalog.json') => new File([JSON.stringify(value)], name);
+
+describe('importCatalog', () => {
+    beforeEach(() => vi.stubGlobal('localStorage', memoryStorage()));
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('reads JSON parts, skipping entries without an MPN', async () => {
+        const count = await importCatalog(jsonFile({ parts: [
+            { mpn: ' LM358DR ', priceBreaks: [{ quantity: 100, unitPrice: '0.20' }, { quantity: 1, unitPrice: 0.35 }, { quantity: 'x' }], stock: '1200' },
+            { mpn: 'NE555', price: '$0.50', description: 'Timer' },
+            { price: 1 }, 'RC0603', null,
+        ] }));
+        expect(count).toBe(2);
+        const found = await localCatalogProvider.lookup(['lm358dr', 'NE555P', 'ABC']);
+        expect(found.get('lm358dr')).toEqual({ mpn: 'LM358DR', priceBreaks: [{ quantity: 1, unitPrice: 0.35 }, { quantity: 100, unitPrice: 0.2 }], stock: 1200, leadTimeDays: null });
+        expect(found.get('NE555P')).toMatchObject({ mpn: 'NE555', description: 'Timer', priceBreaks: [{ quantity: 1, unitPrice: 0.5 }] });
+        expect(found.has('ABC')).toBe(false);
+    });
+
+    it('reads one price break per CSV row and merges with what is stored', async () => {
+        await importCatalog(jsonFile([{ mpn: 'NE555', price: 0.5 }, { mpn: 'LM358', price: 0.3 }]));
+        await importCatalog(new File(['MPN;Qty;Unit Price;Stock\nLM358;1;0,40;50\nLM358;10;0,30;50\n'], 'catalog.csv'));
+        expect(catalogSize()).toBe(2);
+        const found = await localCatalogProvider.lookup(['LM358']);
+        expect(found.get('LM358')?.priceBreaks).toEqual([{ quantity: 1, unitPrice: 0.4 }, { quantity: 10, unitPrice: 0.3 }]);
+        clearCatalog();
+        expect(catalogSize()).toBe(0);
+    });
+
+    it('rejects files without priced parts', async () => {
+        await expect(importCatalog(jsonFile([{ description: 'nothing' }]))).rejects.toThrow(/priced parts/);
+        await expect(importCatalog(new File(['MPN,Stock\nLM358,5'], 'catalog.csv'))).rejects.toThrow(/price column/);
+    });
+
+    it('reports a full storage as a readable error', async () => {
+        vi.stubGlobal('localStorage', {
+            ...memoryStorage(),
+            setItem: () => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); },
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await expect(importCatalog(jsonFile([{ mpn: 'NE555', price: 0.5 }]))).rejects.toThrow(/storage may be full/);
+    });
+});
+
+describe('unitPriceAt', () => {
+    const part: CatalogPart = { mpn: 'LM358', priceBreaks: [{ quantity: 10, unitPrice: 0.3 }, { quantity: 100, unitPrice: 0.2 }], stock: null, leadTimeDays: null };
+
+    it('uses the largest break not above the quantity, or the first below every break', () => {
+        expect(unitPriceAt(part, 5)).toBe(0.3);
+        expect(unitPriceAt(part, 99)).toBe(0.3);
+        expect(unitPriceAt(part, 100)).toBe(0.2);
+        expect(unitPriceAt({ ...part, priceBreaks: [] }, 1)).toBeNull();
+    });
+});
@@ -0,0 +1,163 @@
+import type { CatalogPart, PriceBreak } from '../types';
+import { parseCsv, parseLocaleNumber } from './csvUtils';
+import { isSameMpn } from './bomCheck';
+
+/**
+ * A source of part prices, stock and lead times. Estimates only talk to this
+ * interface, so a distributor API can replace the local catalog later.
+ */
+export interface PartsCatalogProvider {
+    id: string;
+    name: string;
+    description: string;
+    // Resolves to the parts found, keyed by the MPN as asked for; unknown MPNs are left out.
+    lookup: (mpns: string[]) => Promise<Map<string, CatalogPart>>;
+}
+
+const LOCAL_CATALOG_KEY = 'pcb-guru:catalog';
+
+const loadLocalCatalog = (): CatalogPart[] => {
+    try {
+        const stored = localStorage.getItem(LOCAL_CATALOG_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+        console.error("Failed to load the parts catalog:", e);
+        return [];
+    }
+};
+
+const toNumber = (value: unknown): number | null => {
+    const n = typeof value === 'number' ? value : typeof value === 'string' ? parseLocaleNumber(value.replace(/[$€£\s]/g, '')) : NaN;
+    return Number.isFinite(n) ? n : null;
+};
+
+const sortBreaks = (breaks: PriceBreak[]): PriceBreak[] =>
+    breaks.filter(b => b.quantity > 0 && b.unitPrice >= 0).sort((a, b) => a.quantity - b.quantity);
+
+// A part as written in a JSON catalog; only the MPN is required.
+type RawPart = { mpn: string } & Partial<Record<'description' | 'priceBreaks' | 'price' | 'stock' | 'leadTimeDays', unknown>>;
+
+const isRawPart = (value: unknown): value is RawPart =>
+    typeof value === 'object' && value !== null && typeof (value as { mpn?: unknown }).mpn === 'string';
+
+const parsePriceBreak = (value: unknown): PriceBreak => {
+    const b = value as Partial<Record<keyof PriceBreak, unknown>> | null;
+    return { quantity: toNumber(b?.quantity) ?? 0, unitPrice: toNumber(b?.unitPrice) ?? -1 };
+};
+
+/**
+ * Reads catalog parts from JSON: an array of `{ mpn, priceBreaks: [{ quantity, unitPrice }], stock, leadTimeDays }`,
+ * or the same under a `parts` key. A single `price` stands for one break at quantity 1.
+ */
+const parseJsonCatalog = (text: string): CatalogPart[] => {
+    const parsed: unknown = JSON.parse(text);
+    const wrapped = (parsed as { parts?: unknown } | null)?.parts;
+    const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(wrapped) ? wrapped : [];
+    return items.flatMap((item): CatalogPart[] => {
+        if (!isRawPart(item) || !item.mpn.trim()) return [];
+        const breaks: PriceBreak[] = Array.isArray(item.priceBreaks)
+            ? item.priceBreaks.map(parsePriceBreak)
+            : toNumber(item.price) !== null ? [{ quantity: 1, unitPrice: toNumber(item.price)! }] : [];
+        return [{
+            mpn: item.mpn.trim(),
+            ...(typeof item.description === 'string' ? { description: item.description } : {}),
+            priceBreaks: sortBreaks(breaks),
+            stock: toNumber(item.stock),
+            leadTimeDays: toNumber(item.leadTimeDays),
+        }];
+    });
+};
+
+const CSV_COLUMNS = {
+    mpn: /^(mpn|manufacturer ?part ?(number|no\.?)|part ?(number|no\.?)|p\/?n)$/i,
+    quantity: /^(qty|quantity|break|price ?break|min(imum)? ?qty|moq)$/i,
+    price: /^(price|unit ?price|cost|unit ?cost)$/i,
+    stock: /^(stock|in ?stock|available|availability)$/i,
+    leadTime: /^(lead ?time( ?\(?days\)?)?|lead ?time ?days)$/i,
+    description: /^(description|desc)$/i,
+};
+
+/**
+ * Reads catalog parts from CSV with a header row. Each row is one price break, so a part
+ * with several breaks repeats its MPN; without a quantity column every row is a break at 1.
+ */
+const parseCsvCatalog = (text: string): CatalogPart[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const column = (pattern: RegExp) => header.findIndex(h => pattern.test(h.trim()));
+    const cols = Object.fromEntries(Object.entries(CSV_COLUMNS).map(([key, pattern]) => [key, column(pattern)])) as Record<keyof typeof CSV_COLUMNS, number>;
+    if (cols.mpn < 0 || cols.price < 0) {
+        throw new Error('The catalog needs an MPN and a price column.');
+    }
+    const parts = new Map<string, CatalogPart>();
+    rows.forEach(row => {
+        const mpn = row[cols.mpn]?.trim();
+        const unitPrice = toNumber(row[cols.price]);
+        if (!mpn || unitPrice === null) return;
+        const key = mpn.toUpperCase();
+        const part = parts.get(key) ?? { mpn, priceBreaks: [], stock: null, leadTimeDays: null };
+        part.priceBreaks.push({ quantity: cols.quantity >= 0 ? toNumber(row[cols.quantity]) ?? 1 : 1, unitPrice });
+        if (cols.stock >= 0) part.stock = toNumber(row[cols.stock]) ?? part.stock;
+        if (cols.leadTime >= 0) part.leadTimeDays = toNumber(row[cols.leadTime]) ?? part.leadTimeDays;
+        if (cols.description >= 0 && row[cols.description]?.trim()) part.description = row[cols.description].trim();
+        parts.set(key, part);
+    });
+    return Array.from(parts.values()).map(part => ({ ...part, priceBreaks: sortBreaks(part.priceBreaks) }));
+};
+
+/**
+ * Imports a catalog file (JSON or CSV), replacing the parts it lists and keeping the rest.
+ * The catalog is kept in localStorage so it survives a reload.
+ * @returns The number of parts imported.
+ * @throws {Error} If the file holds no priced parts or the catalog cannot be stored.
+ */
+export const importCatalog = async (file: File): Promise<number> => {
+    const text = await file.text();
+    const incoming = /\.json$/i.test(file.name) || text.trimStart().startsWith('[') || text.trimStart().startsWith('{')
+        ? parseJsonCatalog(text)
+        : parseCsvCatalog(text);
+    if (incoming.length === 0) {
+        throw new Error("The file does not contain any priced parts.");
+    }
+    const merged = new Map(loadLocalCatalog().map(p => [p.mpn.toUpperCase(), p]));
+    incoming.forEach(p => merged.set(p.mpn.toUpperCase(), p));
+    try {
+        localStorage.setItem(LOCAL_CATALOG_KEY, JSON.stringify(Array.from(merged.values())));
+    } catch (e) {
+        console.error("Failed to store the parts catalog:", e);
+        throw new Error("Could not store the catalog. The browser storage may be full; clear the catalog or import fewer parts.");
+    }
+    return incoming.length;
+};
+
+export const clearCatalog = (): void => {
+    localStorage.removeItem(LOCAL_CATALOG_KEY);
+};
+
+export const catalogSize = (): number => loadLocalCatalog().length;
+
+export const localCatalogProvider: PartsCatalogProvider = {
+    id: 'local',
+    name: 'Local catalog',
+    description: 'Prices, stock and lead times imported from a JSON or CSV file.',
+    lookup: async (mpns) => {
+        const catalog = loadLocalCatalog();
+        const found = new Map<string, CatalogPart>();
+        mpns.forEach(mpn => {
+            // An exact match wins over one that differs only by a packaging suffix.
+            const part = catalog.find(p => p.mpn.toUpperCase() === mpn.trim().toUpperCase()) ?? catalog.find(p => isSameMpn(p.mpn, mpn));
+            if (part) found.set(mpn, part);
+        });
+        return found;
+    },
+};
+
+/**
+ * The unit price for buying `quantity`: the largest break not above it, or the first break
+ * when the quantity is below every break.
+ */
+export const unitPriceAt = (part: CatalogPart, quantity: number): number | null => {
+    if (part.priceBreaks.length === 0) return null;
+    const applicable = part.priceBreaks.filter(b => b.quantity <= quantity);
+    return (applicable.length > 0 ? applicable[applicable.length - 1] : part.priceBreaks[0]).unitPrice;
+};
@@ -1,19 +1,93 @@
 import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
 import html2canvas from 'html2canvas';
-import type { PcbAnalysis, ChatMessage, Component } from '../types';
+import type { PcbAnalysis, ChatMessage, Component, BoardSide, BoardDiff, ConfidenceThresholds, FindingOrigin, ReworkPlan, RepairJob, BoundingBox, RepairVerification, VerifiedFinding, RepairEstimate } from '../types';
+import { getSide, isTwoSided } from './analysisMerge';
+import { describeThresholds } from './confidenceFilter';
+import { getActionInfo, getStepWarnings, countDoneSteps } from './reworkPlan';
+import { getStatusLabel, isSuggestedPart, partsTotal, compareCost, formatUsd, isJobFinished } from './repairJob';
+import { getOutcomeInfo, countOutcomes, currentFinding, verifiedSides, isRepairVerified } from './verificationService';
+import { describeFinding } from './timelineService';
+
+export interface ReportVisual {
+    title: string;
+    canvas: HTMLCanvasElement;
+}
+
+export interface PdfReportOptions {
+    visuals?: ReportVisual[]; // defaults to a screenshot of the current view
+    boardDiff?: BoardDiff | null;
+    confidenceThresholds?: ConfidenceThresholds; // listed in the report when findings were filtered
+    hiddenCount?: number;
+    reworkPlan?: ReworkPlan | null; // with jumpers already checked against the nets
+    repairJob?: RepairJob | null;
+    repairEstimate?: RepairEstimate | null; // priced from the parts catalog, shown next to the model's figure
+}
+
+// Findings drawn or corrected by hand are starred, with a note under the summary.
+const withOrigin = (label: string, item: { origin?: FindingOrigin }): string =>
+    item.origin === 'human' ? `${label} *` : label;
+
+// Measured temperatures are marked so estimates from the photo are not mistaken for readings.
+const formatTemperature = (c: Component): string =>
+    c.temperature === undefined ? 'N/A' : `${c.temperature.toFixed(1)}${c.temperatureSource === 'thermal' ? ' (measured)' : ''}`;
+
+/**
+ * Screenshots the analysis viewer as it is currently rendered, overlays included.
+ * @returns The captured canvas, or null if the viewer is not on screen.
+ */
+export const captureAnalysisView = async (): Promise<HTMLCanvasElement | null> => {
+    const imageContainer = document.getElementById('analysis-image-container');
+    if (!imageContainer) return null;
+    // After switching sides the new image may still be decoding.
+    await imageContainer.querySelector('img')?.decode().catch(() => undefined);
+    try {
+        return await html2canvas(imageContainer, {
+            useCORS: true,
+            backgroundColor: '#1f2937', // bg-gray-800
+            scale: 2, // Increase resolution for better quality
+        });
+    } catch (e) {
+        console.error("html2canvas failed:", e);
+        throw new Error("SCREENSHOT_FAILED"); 
+    }
+};
+
+const sideLabel = (side: BoardSide) => side === 'top' ? 'Top' : 'Bottom';
+
+const PHOTO_THUMB_SIZE = 90; // px on the page
+
+// Repair photos are straight off a camera; shrink them so the report stays small.
+const photoThumbnail = async (file: File): Promise<{ data: string; width: number; height: number } | null> => {
+    try {
+        const bitmap = await createImageBitmap(file);
+        const scale = Math.min(1, (PHOTO_THUMB_SIZE * 3) / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        return { data: canvas.toDataURL('image/jpeg', 0.8), width: canvas.width, height: canvas.height };
+    } catch (e) {
+        console.error("Could not read repair photo:", e);
+        return null;
+    }
+};
 
 /**
  * Generates a comprehensive PDF report of the PCB analysis.
  * @param analysis - The PcbAnalysis object.
  * @param chatHistory - The array of chat messages.
  * @param boardVoltage - The current board voltage.
+ * @param options - Optional sections: per-side screenshots, the golden-board diff, applied confidence thresholds, the rework plan and the repair job log.
  */
 export const generatePdfReport = async (
     analysis: PcbAnalysis,
     chatHistory: ChatMessage[],
-    boardVoltage: number | null
+    boardVoltage: number | null,
+    options: PdfReportOptions = {}
 ): Promise<void> => {
+    const { visuals, boardDiff, confidenceThresholds, hiddenCount = 0, reworkPlan, repairJob, repairEstimate } = options;
     // 1. Setup PDF document
     const doc = new jsPDF({
         orientation: 'p',
@@ -36,28 +110,36 @@ export const generatePdfReport = async (
     doc.setFontSize(12);
     doc.text(analysis.summary, pageWidth/2, yPos, {align: 'center', maxWidth: contentWidth});
     yPos += 25;
+    if (confidenceThresholds) {
+        doc.setFontSize(9);
+        const thresholdLine = `Confidence thresholds applied - ${describeThresholds(confidenceThresholds).join('; ')}. ${hiddenCount} finding${hiddenCount === 1 ? '' : 's'} below threshold omitted.`;
+        const lines = doc.splitTextToSize(thresholdLine, contentWidth);
+        doc.text(lines, pageWidth / 2, yPos, { align: 'center' });
+        yPos += lines.length * 10 + 10;
+    }
+    if (analysis.components.some(c => c.origin === 'human') || analysis.defects.some(d => d.origin === 'human')) {
+        doc.setFontSize(9);
+        doc.text("* Drawn or corrected by hand during review.", pageWidth / 2, yPos, { align: 'center' });
+        yPos += 20;
+    }
 
 
-    // 3. Page 1: Visual Analysis (Screenshot)
-    const imageContainer = document.getElementById('analysis-image-container');
-    if (imageContainer) {
-        let canvas;
-        try {
-            canvas = await html2canvas(imageContainer, {
-                useCORS: true,
-                backgroundColor: '#1f2937', // bg-gray-800
-                scale: 2, // Increase resolution for better quality
-            });
-        } catch (e) {
-            console.error("html2canvas failed:", e);
-            throw new Error("SCREENSHOT_FAILED"); 
-        }
-
+    // 3. Page 1: Visual Analysis (Screenshots)
+    let reportVisuals = visuals;
+    if (!reportVisuals) {
+        const canvas = await captureAnalysisView();
+        reportVisuals = canvas ? [{ title: "Visual Analysis", canvas }] : [];
+    }
+    reportVisuals.forEach(({ title, canvas }, index) => {
         const imgData = canvas.toDataURL('image/png');
         const imgHeight = (canvas.height * contentWidth) / canvas.width;
+        if (index > 0 && yPos + imgHeight + 15 > pageHeight - margin) {
+            doc.addPage();
+            yPos = margin;
+        }
         
         doc.setFontSize(16);
-        doc.text("Visual Analysis", margin, yPos);
+        doc.text(title, margin, yPos);
         yPos += 15;
         doc.addImage(imgData, 'PNG', margin, yPos, contentWidth, imgHeight);
         
@@ -67,7 +149,7 @@ export const generatePdfReport = async (
         } else {
              yPos += imgHeight + 20;
         }
-    }
+    });
     
     const checkPageBreak = (heightNeeded: number) => {
         if (yPos + heightNeeded > pageHeight - margin) {
@@ -85,12 +167,43 @@ export const generatePdfReport = async (
         doc.text("Repair Advice", margin, yPos);
         yPos += 20;
 
-        if (analysis.advice.repair_cost) {
+        if (analysis.advice.repair_cost || repairEstimate) {
             doc.setFontSize(10);
-            doc.text(`Estimated Repair Cost: $${analysis.advice.repair_cost.toFixed(2)}`, margin, yPos);
+            const costs = [
+                analysis.advice.repair_cost ? `Estimated Repair Cost: ${formatUsd(analysis.advice.repair_cost)} (model)` : null,
+                repairEstimate ? `Itemized: ${formatUsd(repairEstimate.total)}${repairEstimate.unpricedCount > 0 ? ` + ${repairEstimate.unpricedCount} unpriced part(s)` : ''}` : null,
+            ].filter(Boolean);
+            doc.text(costs.join(' | '), margin, yPos);
             yPos += 15;
         }
 
+        if (repairEstimate) {
+            checkPageBreak(50);
+            (doc as any).autoTable({
+                startY: yPos,
+                head: [['Replaces', 'Designators', 'Part', 'Qty', 'Unit', 'Total', 'Availability']],
+                body: [
+                    ...repairEstimate.lines.map(line => [
+                        line.originalMpn,
+                        line.designators.join(', ') || '-',
+                        line.mpn ?? 'Not in catalog',
+                        line.quantity,
+                        line.unitPrice !== null ? formatUsd(line.unitPrice) : '-',
+                        line.lineTotal !== null ? formatUsd(line.lineTotal) : '-',
+                        [line.stock !== null ? `${line.stock} in stock` : '', line.leadTimeDays !== null ? `${line.leadTimeDays} d lead` : ''].filter(Boolean).join(', ') || '-',
+                    ]),
+                    ['Labor', '', `${Math.round(repairEstimate.laborHours * 10) / 10} h`, '', '', formatUsd(repairEstimate.laborCost), ''],
+                    ['Margin', '', '', '', '', formatUsd(repairEstimate.margin), ''],
+                    [{ content: 'Total', styles: { fontStyle: 'bold' } }, '', '', '', '', { content: formatUsd(repairEstimate.total), styles: { fontStyle: 'bold' } }, ''],
+                ],
+                theme: 'grid',
+                headStyles: { fillColor: '#1D4ED8' }, // blue-700
+                styles: { fontSize: 8 },
+                margin: { left: margin, right: margin }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 20;
+        }
+
         if (analysis.advice.quick_actions?.length > 0) {
             doc.setFontSize(12);
             doc.text("Quick Actions:", margin, yPos);
@@ -125,6 +238,123 @@ export const generatePdfReport = async (
         }
     }
 
+    // Rework Plan
+    if (reworkPlan && reworkPlan.steps.length > 0) {
+        checkPageBreak(50);
+        doc.setFontSize(16);
+        doc.text(`Rework Plan: ${reworkPlan.title}`, margin, yPos);
+        yPos += 12;
+        doc.setFontSize(9);
+        doc.text(`${countDoneSteps(reworkPlan)} of ${reworkPlan.steps.length} steps done.`, margin, yPos);
+        yPos += 8;
+        (doc as any).autoTable({
+            startY: yPos,
+            head: [['#', 'Action', 'Instruction', 'Side', 'Status']],
+            body: reworkPlan.steps.map((step, index) => [
+                index + 1,
+                getActionInfo(step.action).label,
+                [step.instruction, ...getStepWarnings(step).map(w => `WARNING: ${w}`)].join('\n'),
+                sideLabel(step.side),
+                step.doneAt ? `Done ${new Date(step.doneAt).toLocaleString()}` : 'Pending',
+            ]),
+            theme: 'grid',
+            headStyles: { fillColor: '#0EA5E9' }, // sky-500
+            styles: { fontSize: 8 },
+            columnStyles: { 0: { cellWidth: 18 } },
+            margin: { left: margin, right: margin }
+        });
+        yPos = (doc as any).lastAutoTable.finalY + 20;
+    }
+
+    // Repair Job Log
+    if (repairJob) {
+        const formatTime = (iso?: string) => iso ? new Date(iso).toLocaleString() : '';
+        checkPageBreak(50);
+        doc.setFontSize(16);
+        doc.text("Repair Job Log", margin, yPos);
+        yPos += 12;
+        doc.setFontSize(9);
+        doc.text(`Started ${formatTime(repairJob.createdAt)}.`, margin, yPos);
+        yPos += 8;
+        (doc as any).autoTable({
+            startY: yPos,
+            head: [['Task', 'Status', 'Technician', 'Started', 'Finished', 'Notes']],
+            body: repairJob.tasks.map(task => [
+                task.title,
+                getStatusLabel(task.status),
+                task.technician,
+                formatTime(task.startedAt),
+                formatTime(task.finishedAt),
+                task.notes,
+            ]),
+            theme: 'grid',
+            headStyles: { fillColor: '#0D9488' }, // teal-600
+            styles: { fontSize: 8 },
+            margin: { left: margin, right: margin }
+        });
+        yPos = (doc as any).lastAutoTable.finalY + 15;
+
+        if (repairJob.partsUsed.length > 0) {
+            checkPageBreak(50);
+            doc.setFontSize(12);
+            doc.text("Parts Used:", margin, yPos);
+            yPos += 8;
+            (doc as any).autoTable({
+                startY: yPos,
+                head: [['Original MPN', 'Fitted MPN', 'Qty', 'Unit Cost', 'Suggested']],
+                body: repairJob.partsUsed.map(p => [
+                    p.originalMpn,
+                    p.usedMpn,
+                    p.quantity,
+                    p.unitCost === null ? '' : formatUsd(p.unitCost),
+                    isSuggestedPart(p, analysis.advice?.alternatives ?? []) ? 'Yes' : 'No (substitute)',
+                ]),
+                theme: 'grid',
+                headStyles: { fillColor: '#EA580C' }, // orange-600
+                styles: { fontSize: 8 },
+                margin: { left: margin, right: margin }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 15;
+        }
+
+        const costLines = [
+            analysis.advice?.repair_cost ? `Estimated: ${formatUsd(analysis.advice.repair_cost)}` : null,
+            repairJob.finalCost !== null ? `Final: ${formatUsd(repairJob.finalCost)}` : null,
+            partsTotal(repairJob) !== null ? `Parts recorded: ${formatUsd(partsTotal(repairJob)!)}` : null,
+        ].filter(Boolean);
+        const comparison = analysis.advice && compareCost(repairJob, analysis.advice);
+        if (costLines.length > 0) {
+            checkPageBreak(20);
+            doc.setFontSize(10);
+            const difference = comparison && comparison.difference !== 0
+                ? ` (${formatUsd(Math.abs(comparison.difference))} ${comparison.difference > 0 ? 'over' : 'under'} estimate)`
+                : '';
+            doc.text(`${costLines.join(' | ')}${difference}`, margin, yPos);
+            yPos += 20;
+        }
+
+        for (const task of repairJob.tasks.filter(t => t.photos.length > 0)) {
+            checkPageBreak(PHOTO_THUMB_SIZE + 20);
+            doc.setFontSize(9);
+            doc.text(doc.splitTextToSize(`Photos - ${task.title}`, contentWidth)[0], margin, yPos);
+            yPos += 6;
+            let x = margin;
+            for (const photo of task.photos) {
+                const thumb = await photoThumbnail(photo.file);
+                if (!thumb) continue;
+                const ratio = Math.min(PHOTO_THUMB_SIZE / thumb.width, PHOTO_THUMB_SIZE / thumb.height);
+                const width = thumb.width * ratio;
+                if (x + width > pageWidth - margin) {
+                    x = margin;
+                    yPos += PHOTO_THUMB_SIZE + 5;
+                    checkPageBreak(PHOTO_THUMB_SIZE);
+                }
+                doc.addImage(thumb.data, 'JPEG', x, yPos, width, thumb.height * ratio);
+                x += width + 5;
+            }
+            yPos += PHOTO_THUMB_SIZE + 15;
+        }
+    }
 
     const componentsWithIssues = analysis.components.filter(c => 
         c.presence !== 'ok' || c.condition !== 'ok' || (boardVoltage && c.maxVoltage && boardVoltage > c.maxVoltage)
@@ -133,12 +363,20 @@ export const generatePdfReport = async (
         c.presence === 'ok' && c.condition === 'ok' && !(boardVoltage && c.maxVoltage && boardVoltage > c.maxVoltage)
     );
 
+    // Two-sided inspections get an extra Side column in every item table.
+    const twoSided = isTwoSided(analysis);
+    const sideHead = twoSided ? ['Side'] : [];
+    const sideCell = (item: { side?: BoardSide }) => twoSided ? [sideLabel(getSide(item))] : [];
+
     const getComponentStatus = (c: Component): string => {
         if (c.condition === 'burnt') return 'Burnt';
         if (c.condition === 'corroded') return 'Corroded';
         if (c.presence === 'missing') return 'Missing';
         const voltageMismatch = boardVoltage && c.maxVoltage && boardVoltage > c.maxVoltage;
-        if (voltageMismatch) return `Voltage Mismatch (${boardVoltage}V > ${c.maxVoltage}V)`;
+        if (voltageMismatch) {
+            const source = c.maxVoltageSource === 'datasheet' ? `, datasheet p. ${c.maxVoltagePage}` : '';
+            return `Voltage Mismatch (${boardVoltage}V > ${c.maxVoltage}V${source})`;
+        }
         return 'OK';
     }
 
@@ -150,9 +388,10 @@ export const generatePdfReport = async (
         yPos += 15;
         (doc as any).autoTable({
             startY: yPos,
-            head: [['ID', 'Type', 'Description', 'Confidence']],
+            head: [['ID', ...sideHead, 'Type', 'Description', 'Confidence']],
             body: analysis.defects.map(d => [
-                d.id,
+                withOrigin(d.id, d),
+                ...sideCell(d),
                 d.type.replace(/_/g, ' '),
                 d.description || '-',
                 `${(d.confidence * 100).toFixed(0)}%`
@@ -165,6 +404,40 @@ export const generatePdfReport = async (
         yPos = (doc as any).lastAutoTable.finalY + 20;
     }
 
+    // Table: Golden Board Comparison
+    if (boardDiff) {
+        checkPageBreak(50);
+        doc.setFontSize(16);
+        doc.text("Golden Board Comparison", margin, yPos);
+        yPos += 12;
+        doc.setFontSize(9);
+        doc.text(`Reference: ${boardDiff.referenceName}`, margin, yPos);
+        yPos += 8;
+        const diffRows = [
+            ...boardDiff.missing.map(c => ['Missing', c.designator, ...sideCell(c), `Expected ${c.mpn || 'part'}`]),
+            ...boardDiff.extra.map(c => ['Extra', c.designator, ...sideCell(c), `Not on reference (${c.mpn || 'unknown MPN'})`]),
+            ...boardDiff.mpnChanged.map(ch => ['MPN Changed', ch.suspect.designator, ...sideCell(ch.suspect), `${ch.reference.mpn} -> ${ch.suspect.mpn}`]),
+            ...boardDiff.conditionChanged.map(ch => ['Condition Changed', ch.suspect.designator, ...sideCell(ch.suspect), `${getComponentStatus(ch.reference)} -> ${getComponentStatus(ch.suspect)}`]),
+            ...boardDiff.newDefects.map(d => ['New Defect', d.id, ...sideCell(d), d.description || d.type.replace(/_/g, ' ')]),
+        ];
+        if (diffRows.length > 0) {
+            (doc as any).autoTable({
+                startY: yPos,
+                head: [['Change', 'Item', ...sideHead, 'Details']],
+                body: diffRows,
+                theme: 'grid',
+                headStyles: { fillColor: '#0891B2' }, // cyan-600
+                styles: { fontSize: 8 },
+                margin: { left: margin, right: margin }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 20;
+        } else {
+            yPos += 4;
+            doc.text("No differences from the reference board were found.", margin, yPos);
+            yPos += 20;
+        }
+    }
+
     // Table: Component Issues
     if (componentsWithIssues.length > 0) {
         checkPageBreak(50);
@@ -173,12 +446,13 @@ export const generatePdfReport = async (
         yPos += 15;
         (doc as any).autoTable({
             startY: yPos,
-            head: [['Designator', 'MPN', 'Status', 'Temp (°C)']],
+            head: [['Designator', ...sideHead, 'MPN', 'Status', 'Temp (°C)']],
             body: componentsWithIssues.map(c => [
-                c.designator,
+                withOrigin(c.designator, c),
+                ...sideCell(c),
                 c.mpn,
                 getComponentStatus(c),
-                c.temperature?.toFixed(1) ?? 'N/A',
+                formatTemperature(c),
             ]),
             theme: 'grid',
             headStyles: { fillColor: '#F97316' }, // orange-500
@@ -196,12 +470,13 @@ export const generatePdfReport = async (
         yPos += 15;
         (doc as any).autoTable({
             startY: yPos,
-            head: [['Designator', 'MPN', 'Status', 'Temp (°C)']],
+            head: [['Designator', ...sideHead, 'MPN', 'Status', 'Temp (°C)']],
             body: okComponents.map(c => [
-                c.designator,
+                withOrigin(c.designator, c),
+                ...sideCell(c),
                 c.mpn,
                 'OK',
-                c.temperature?.toFixed(1) ?? 'N/A',
+                formatTemperature(c),
             ]),
             theme: 'grid',
             headStyles: { fillColor: '#22C55E' }, // green-500
@@ -220,7 +495,11 @@ export const generatePdfReport = async (
 
         chatHistory.forEach(msg => {
             const prefix = msg.role === 'user' ? "You: " : "Guru: ";
-            const text = prefix + msg.text;
+            const warnings = [
+                ...(msg.jumperSuggestion?.warning ? [msg.jumperSuggestion.warning] : []),
+                ...(msg.reworkPlan?.steps.flatMap(getStepWarnings) ?? []),
+            ];
+            const text = prefix + msg.text + warnings.map(w => `\n[Suggested jumper not safe: ${w}]`).join('');
             const lines = doc.splitTextToSize(text, contentWidth);
             
             checkPageBreak(lines.length * 12 + 5);
@@ -233,4 +512,143 @@ export const generatePdfReport = async (
 
     // 5. Save the PDF
     doc.save("pcb_report.pdf");
-};
\ No newline at end of file
+};
+
+const VERIFICATION_IMAGE_MAX_EDGE = 1200;
+
+// A photo with boxes drawn on it, downscaled for the report.
+const renderBoxedImage = async (file: File, boxes: { bbox: BoundingBox; color: string }[]): Promise<{ data: string; width: number; height: number }> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, VERIFICATION_IMAGE_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    ctx.lineWidth = Math.max(2, canvas.width / 300);
+    boxes.forEach(({ bbox, color }) => {
+        ctx.strokeStyle = color;
+        ctx.strokeRect(bbox.x * canvas.width, bbox.y * canvas.height, bbox.w * canvas.width, bbox.h * canvas.height);
+    });
+    return { data: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Generates the before/after report of a post-repair verification.
+ * @param original - The inspection the repair was planned from.
+ * @param originalImages - Its photos.
+ * @param verification - The photos and analysis of the repaired board.
+ * @param findings - Every original and new finding with its outcome.
+ * @param repairJob - The job being closed out, if one was tracked.
+ */
+export const generateVerificationReport = async (
+    original: PcbAnalysis,
+    originalImages: Partial<Record<BoardSide, File>>,
+    verification: RepairVerification,
+    findings: VerifiedFinding[],
+    repairJob: RepairJob | null
+): Promise<void> => {
+    const doc = new jsPDF({ orientation: 'p', unit: 'px', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 20;
+    const contentWidth = pageWidth - margin * 2;
+    let yPos = margin;
+    const checkPageBreak = (heightNeeded: number) => {
+        if (yPos + heightNeeded > pageHeight - margin) {
+            doc.addPage();
+            yPos = margin;
+        }
+    };
+
+    doc.setFontSize(22);
+    doc.text("PCB Guru - Repair Verification", pageWidth / 2, yPos, { align: 'center' });
+    yPos += 20;
+    doc.setFontSize(10);
+    doc.text(`Repaired board photographed: ${new Date(verification.verifiedAt).toLocaleString()}`, pageWidth / 2, yPos, { align: 'center' });
+    yPos += 20;
+
+    const counts = countOutcomes(findings);
+    doc.setFontSize(12);
+    doc.text(
+        isRepairVerified(findings)
+            ? `All ${counts.resolved} original findings resolved.`
+            : `${counts.resolved} resolved, ${counts.still_present} still present, ${counts.new} new.`,
+        pageWidth / 2, yPos, { align: 'center' }
+    );
+    yPos += 25;
+
+    // Before and after, side by side, for every side that was photographed again.
+    const halfWidth = (contentWidth - 10) / 2;
+    for (const side of verifiedSides(verification)) {
+        const boxesFor = (key: 'before' | 'after') => findings.flatMap(f => {
+            const finding = f[key];
+            return finding && finding.side === side ? [{ bbox: finding.bbox, color: getOutcomeInfo(f.outcome).color }] : [];
+        });
+        const before = originalImages[side] ? await renderBoxedImage(originalImages[side]!, boxesFor('before')) : null;
+        const after = await renderBoxedImage(verification.images[side]!, boxesFor('after'));
+        const height = Math.max(...[before, after].map(img => img ? (img.height * halfWidth) / img.width : 0));
+        checkPageBreak(height + 30);
+        doc.setFontSize(14);
+        doc.text(`${sideLabel(side)} Side`, margin, yPos);
+        yPos += 12;
+        doc.setFontSize(9);
+        doc.text("Before", margin, yPos);
+        doc.text("After", margin + halfWidth + 10, yPos);
+        yPos += 4;
+        if (before) doc.addImage(before.data, 'JPEG', margin, yPos, halfWidth, (before.height * halfWidth) / before.width);
+        doc.addImage(after.data, 'JPEG', margin + halfWidth + 10, yPos, halfWidth, (after.height * halfWidth) / after.width);
+        yPos += height + 20;
+    }
+
+    checkPageBreak(50);
+    doc.setFontSize(16);
+    doc.text("Findings", margin, yPos);
+    yPos += 8;
+    (doc as any).autoTable({
+        startY: yPos,
+        head: [['Finding', 'Side', 'Outcome']],
+        body: findings.map(f => {
+            const finding = currentFinding(f);
+            return [describeFinding(finding), sideLabel(finding.side), getOutcomeInfo(f.outcome).label];
+        }),
+        theme: 'grid',
+        headStyles: { fillColor: '#0D9488' }, // teal-600
+        styles: { fontSize: 8 },
+        didParseCell: (data: any) => {
+            if (data.section === 'body' && data.column.index === 2) {
+                data.cell.styles.textColor = getOutcomeInfo(findings[data.row.index].outcome).color;
+            }
+        },
+        margin: { left: margin, right: margin }
+    });
+    yPos = (doc as any).lastAutoTable.finalY + 20;
+
+    if (repairJob) {
+        checkPageBreak(60);
+        doc.setFontSize(16);
+        doc.text("Repair Job", margin, yPos);
+        yPos += 15;
+        doc.setFontSize(10);
+        const finished = repairJob.tasks.filter(t => t.status === 'done' || t.status === 'skipped').length;
+        const comparison = compareCost(repairJob, original.advice);
+        const lines = [
+            `Started ${new Date(repairJob.createdAt).toLocaleString()}; ${finished} of ${repairJob.tasks.length} tasks finished${isJobFinished(repairJob) ? '' : ' - some tasks are still open'}.`,
+            ...(repairJob.partsUsed.length > 0 ? [`Parts fitted: ${repairJob.partsUsed.map(p => `${p.quantity} x ${p.usedMpn}`).join(', ')}.`] : []),
+            ...(comparison ? [`Final cost ${formatUsd(comparison.actual)} against an estimate of ${formatUsd(comparison.estimate)}.`] : []),
+        ];
+        lines.forEach(line => {
+            const wrapped = doc.splitTextToSize(line, contentWidth);
+            checkPageBreak(wrapped.length * 12);
+            doc.text(wrapped, margin, yPos);
+            yPos += wrapped.length * 12 + 3;
+        });
+    }
+
+    checkPageBreak(20);
+    doc.setFontSize(10);
+    doc.text(`Job closed out: ${new Date(verification.closedAt ?? Date.now()).toLocaleString()}`, margin, yPos + 5);
+
+    doc.save("pcb_verification_report.pdf");
+};
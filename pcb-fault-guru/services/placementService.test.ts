@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { BoardPlacement, Component, PcbAnalysis } from '../types';
+import { boardToPhoto, designatorAnchors, findUnexpected, importPlacement, likelyMissing, matchPlacement } from './placementService';
+
+const part = (designator: string, x: number, y: number, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x: x - 0.02, y: y - 0.02, w: 0.04, h: 0.04 },
+    ...extra,
+});
+
+const analysis = (components: Component[]): PcbAnalysis => ({
+    components, defects: [], summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+// Y points up in centroid files, so these parts sit at y = 10, 30 and 20 on the board.
+const CENTROID = [
+    'Designator,Mid X(mm),Mid Y(mm),Layer,Rotation,MPN',
+    'R1,10,-10,Top,0,RC0603FR-0710KL',
+    'C1,30,-30,Top,90,',
+    'J1,20,-20,Bottom,0,',
+].join('\n');
+
+describe('importPlacement', () => {
+    it('reads a centroid file and draws the outline around the parts', () => {
+        const placement = importPlacement(CENTROID, 'pnp.csv');
+        expect(placement.parts.map(p => [p.designator, p.side, p.x, p.y])).toEqual([['R1', 'top', 10, 10], ['C1', 'top', 30, 30], ['J1', 'bottom', 20, 20]]);
+        expect(placement.parts[0].mpn).toBe('RC0603FR-0710KL');
+        expect(placement.outline).toEqual({ x: 8, y: 8, width: 24, height: 24 });
+    });
+
+    it('reads a KiCad board, skipping footprints that are never fitted', () => {
+        const board = `(kicad_pcb
+            (footprint "Resistor_SMD:R_0603" (layer "B.Cu") (at 10 20 90)
+                (property "Reference" "R1") (property "Value" "10k") (property "MPN" "RC0603"))
+            (footprint "Logo:OSHW" (layer "F.Cu") (at 5 5) (property "Reference" "G1") (attr board_only))
+            (gr_rect (start 0 0) (end 40 30) (layer "Edge.Cuts")))`;
+        const placement = importPlacement(board, 'board.kicad_pcb');
+        expect(placement.parts).toEqual([{ designator: 'R1', footprint: 'R_0603', value: '10k', mpn: 'RC0603', side: 'bottom', x: 10, y: 20, rotation: 90 }]);
+        expect(placement.outline).toEqual({ x: 0, y: 0, width: 40, height: 30 });
+    });
+
+    it('rejects files without placed parts', () => {
+        expect(() => importPlacement('Designator,X,Y\n', 'empty.csv')).toThrow(/No placed parts/);
+        expect(() => importPlacement('Name,Value\nR1,10k', 'bom.csv')).toThrow(/columns/);
+    });
+});
+
+describe('boardToPhoto', () => {
+    const placement = importPlacement(CENTROID, 'pnp.csv');
+
+    it('maps the outline onto the photo, mirrored for the bottom', () => {
+        expect(boardToPhoto(placement, 'top')(8, 8)).toEqual({ x: 0, y: 0 });
+        expect(boardToPhoto(placement, 'bottom')(8, 8)).toEqual({ x: 1, y: 0 });
+    });
+
+    it('maps the outline corners onto the registered corners', () => {
+        const corners = [{ x: 0.1, y: 0.2 }, { x: 0.9, y: 0.1 }, { x: 0.8, y: 0.95 }, { x: 0.15, y: 0.8 }];
+        const toPhoto = boardToPhoto({ ...placement, registration: { top: corners } }, 'top');
+        const topLeft = toPhoto(8, 8);
+        const bottomRight = toPhoto(32, 32);
+        expect(topLeft.x).toBeCloseTo(0.1, 9);
+        expect(topLeft.y).toBeCloseTo(0.2, 9);
+        expect(bottomRight.x).toBeCloseTo(0.8, 9);
+        expect(bottomRight.y).toBeCloseTo(0.95, 9);
+    });
+});
+
+describe('matchPlacement', () => {
+    const placement: BoardPlacement = importPlacement(CENTROID, 'pnp.csv');
+    // R1 is at (2/24, 2/24) on the top photo and C1 at (22/24, 22/24).
+    const board = analysis([part('R7', 2 / 24, 2 / 24), part('R9', 2 / 24 + 0.01, 2 / 24), part('U1', 0.5, 0.5)]);
+    const matches = matchPlacement(placement, board, ['top']);
+
+    it('pairs each expected part with the closest detection on the photographed sides', () => {
+        expect(matches.map(m => [m.part.designator, m.component?.designator ?? null])).toEqual([['R1', 'R7'], ['C1', null]]);
+        expect(likelyMissing(matches).map(m => m.part.designator)).toEqual(['C1']);
+        expect(findUnexpected(matches, board, ['top']).map(c => c.designator)).toEqual(['R9', 'U1']);
+    });
+
+    it('renames matched detections and fills in a missing MPN', () => {
+        expect(designatorAnchors(matches)).toEqual([{ from: 'R7', to: 'R1', mpn: 'RC0603FR-0710KL' }]);
+        const named = matchPlacement(placement, analysis([part('R1', 2 / 24, 2 / 24, { mpn: 'ERJ-3' })]), ['top']);
+        expect(designatorAnchors(named)).toEqual([]);
+    });
+});
@@ -0,0 +1,323 @@
+import type { BoardPlacement, BoardOutline, BoardSide, PlacedPart, PcbAnalysis, Component } from '../types';
+import { Point, solveHomography, applyHomography } from './imageProcessing';
+import { bboxCenter } from './bboxUtils';
+import { getSide } from './analysisMerge';
+import { parseCsv, parseLocaleNumber } from './csvUtils';
+import type { DesignatorAnchor } from './annotationEdits';
+
+// A detection is the expected part when its center is this close (normalized) or its box covers the position.
+const MATCH_RADIUS = 0.03;
+
+// Pick-and-place files carry no outline, so one is drawn this far (mm) around the outermost parts.
+const PART_BOUNDS_MARGIN = 2;
+
+const UNIT_SQUARE: Point[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+// ---- KiCad board files ----
+
+type SExpr = string | SExpr[];
+
+const SEXPR_TOKEN = /\(|\)|"((?:[^"\\]|\\.)*)"|[^\s()"]+/g;
+
+const parseSExpr = (text: string): SExpr[] => {
+    const root: SExpr[] = [];
+    const stack: SExpr[][] = [root];
+    for (const match of text.matchAll(SEXPR_TOKEN)) {
+        const token = match[0];
+        if (token === '(') {
+            const list: SExpr[] = [];
+            stack[stack.length - 1].push(list);
+            stack.push(list);
+        } else if (token === ')') {
+            if (stack.length > 1) stack.pop();
+        } else {
+            stack[stack.length - 1].push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : token);
+        }
+    }
+    return root;
+};
+
+const children = (list: SExpr[], name: string): SExpr[][] =>
+    list.filter((item): item is SExpr[] => Array.isArray(item) && item[0] === name);
+
+const child = (list: SExpr[], name: string): SExpr[] | undefined => children(list, name)[0];
+
+const text = (value: SExpr | undefined): string => (typeof value === 'string' ? value : '');
+
+const numberAt = (list: SExpr[] | undefined, index: number): number => (list ? parseFloat(text(list[index])) : NaN);
+
+const MPN_FIELD = /^(mpn|manufacturer ?part ?(number|no\.?)?|mfr\.? ?(part ?)?(number|no\.?)?|mfg\.? ?(part ?)?(number|no\.?)?|part ?number|p\/?n)$/i;
+
+// Footprints that never get fitted, e.g. logos and mounting holes; KiCad leaves them out of its position files too.
+const NOT_PLACED = new Set(['virtual', 'board_only', 'exclude_from_pos_files']);
+
+const parseFootprint = (node: SExpr[]): PlacedPart | null => {
+    const at = child(node, 'at');
+    // KiCad 8 stores fields as properties; earlier versions as fp_text.
+    const field = (name: string) =>
+        text(children(node, 'property').find(p => text(p[1]).toLowerCase() === name)?.[2])
+        || text(children(node, 'fp_text').find(t => t[1] === name)?.[2]);
+    const designator = field('reference').trim();
+    const attributes = child(node, 'attr')?.slice(1) ?? [];
+    if (!at || !designator || designator.includes('*') || attributes.some(a => NOT_PLACED.has(text(a)))) return null;
+
+    const mpnProperty = children(node, 'property').find(p => MPN_FIELD.test(text(p[1]).trim()));
+    return {
+        designator,
+        footprint: text(node[1]).replace(/^[^:]*:/, ''), // without the library name
+        value: field('value'),
+        mpn: text(mpnProperty?.[2]).trim(),
+        side: text(child(node, 'layer')?.[1]).startsWith('B.') ? 'bottom' : 'top',
+        x: numberAt(at, 1),
+        y: numberAt(at, 2),
+        rotation: numberAt(at, 3) || 0,
+    };
+};
+
+// Points on the board edge; arcs are sampled so their bulge counts toward the outline.
+const edgePoints = (node: SExpr[]): Point[] => {
+    const point = (name: string) => {
+        const p = child(node, name);
+        return p ? [{ x: numberAt(p, 1), y: numberAt(p, 2) }] : [];
+    };
+    const start = point('start');
+    const end = point('end');
+    const center = point('center');
+    if (node[0] === 'gr_circle' && center.length && end.length) {
+        const r = Math.hypot(end[0].x - center[0].x, end[0].y - center[0].y);
+        return [{ x: center[0].x - r, y: center[0].y - r }, { x: center[0].x + r, y: center[0].y + r }];
+    }
+    // KiCad 5 arcs are a center (`start`), one end and a sweep angle.
+    const angle = numberAt(child(node, 'angle'), 1);
+    if (node[0] === 'gr_arc' && !child(node, 'mid') && start.length && end.length && !isNaN(angle)) {
+        const c = start[0];
+        const r = Math.hypot(end[0].x - c.x, end[0].y - c.y);
+        const from = Math.atan2(end[0].y - c.y, end[0].x - c.x);
+        return Array.from({ length: 17 }, (_, i) => {
+            const a = from + (angle * Math.PI / 180) * (i / 16);
+            return { x: c.x + r * Math.cos(a), y: c.y + r * Math.sin(a) };
+        });
+    }
+    const polygon = children(child(node, 'pts') ?? [], 'xy').map(xy => ({ x: numberAt(xy, 1), y: numberAt(xy, 2) }));
+    return [...start, ...point('mid'), ...end, ...center, ...polygon];
+};
+
+const boundsOf = (points: Point[], margin = 0): BoardOutline | null => {
+    const valid = points.filter(p => isFinite(p.x) && isFinite(p.y));
+    if (valid.length === 0) return null;
+    const xs = valid.map(p => p.x);
+    const ys = valid.map(p => p.y);
+    const x = Math.min(...xs) - margin;
+    const y = Math.min(...ys) - margin;
+    return { x, y, width: Math.max(...xs) + margin - x, height: Math.max(...ys) + margin - y };
+};
+
+const parseKicadBoard = (source: string): { parts: PlacedPart[]; outline: BoardOutline | null } => {
+    const board = parseSExpr(source)[0];
+    if (!Array.isArray(board) || board[0] !== 'kicad_pcb') {
+        throw new Error('The file is not a KiCad board.');
+    }
+    const footprints = [...children(board, 'footprint'), ...children(board, 'module')];
+    const edges = board.filter((item): item is SExpr[] =>
+        Array.isArray(item) && /^gr_(line|rect|arc|circle|poly|curve)$/.test(text(item[0])) && text(child(item, 'layer')?.[1]) === 'Edge.Cuts');
+    return {
+        parts: footprints.map(parseFootprint).filter((p): p is PlacedPart => !!p),
+        outline: boundsOf(edges.flatMap(edgePoints)),
+    };
+};
+
+// ---- Pick-and-place (centroid) files ----
+
+type Unit = 'mm' | 'mil' | 'in';
+
+const MM_PER: Record<Unit, number> = { mm: 1, mil: 0.0254, in: 25.4 };
+
+const UNIT_SUFFIX = /\s*\(?\s*(mm|mils?|in|inch|inches)\s*\)?\s*$/i;
+
+const toUnit = (suffix: string): Unit => (/^mil/i.test(suffix) ? 'mil' : /^in/i.test(suffix) ? 'in' : 'mm');
+
+const DESIGNATOR_COLUMN = [/^(designator|ref|reference|refdes|ref ?des(ignator)?)$/i];
+// Centroid columns win over reference-point ones, which are often a pad rather than the middle of the part.
+const X_COLUMN = [/^(mid ?x|cent(er|re)[- ]?x|pos ?x|x)$/i, /^ref ?x$/i];
+const Y_COLUMN = [/^(mid ?y|cent(er|re)[- ]?y|pos ?y|y)$/i, /^ref ?y$/i];
+const SIDE_COLUMN = [/^(side|layer|tb)$/i];
+const ROTATION_COLUMN = [/^(rot|rotation|angle)$/i];
+const FOOTPRINT_COLUMN = [/^(footprint|package|pattern)$/i];
+const VALUE_COLUMN = [/^(val|value|comment)$/i];
+
+const findColumn = (headers: string[], patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+        const index = headers.findIndex(h => pattern.test(h));
+        if (index >= 0) return index;
+    }
+    return -1;
+};
+
+/**
+ * Reads the rows of a centroid table. Exporters write Y pointing up, so it is flipped to match
+ * board files, and lengths may be in mm, mil or inches, per column or per value.
+ */
+const parsePlacementRows = (rows: string[][], defaultUnit: Unit): PlacedPart[] => {
+    // Altium and others put a few lines of preamble above the table.
+    const headerIndex = rows.findIndex(row => {
+        const headers = row.map(h => h.trim().replace(UNIT_SUFFIX, ''));
+        return findColumn(headers, DESIGNATOR_COLUMN) >= 0 && findColumn(headers, X_COLUMN) >= 0 && findColumn(headers, Y_COLUMN) >= 0;
+    });
+    if (headerIndex < 0) {
+        throw new Error('The placement file needs "Designator", "X" and "Y" columns (e.g. "Mid X", "PosX" or "Center-X(mm)").');
+    }
+    const rawHeaders = rows[headerIndex].map(h => h.trim());
+    const headers = rawHeaders.map(h => h.replace(UNIT_SUFFIX, ''));
+    const column = (patterns: RegExp[]) => findColumn(headers, patterns);
+    const [designator, xColumn, yColumn, side, rotation, footprint, value] =
+        [DESIGNATOR_COLUMN, X_COLUMN, Y_COLUMN, SIDE_COLUMN, ROTATION_COLUMN, FOOTPRINT_COLUMN, VALUE_COLUMN].map(column);
+    const mpn = findColumn(headers, [MPN_FIELD]);
+    const columnUnit = (index: number) => {
+        const suffix = rawHeaders[index].match(UNIT_SUFFIX)?.[1];
+        return suffix ? toUnit(suffix) : defaultUnit;
+    };
+    const length = (cell: string | undefined, index: number) => {
+        const raw = cell?.trim() ?? '';
+        const suffix = raw.match(UNIT_SUFFIX)?.[1];
+        return parseLocaleNumber(raw.replace(UNIT_SUFFIX, '')) * MM_PER[suffix ? toUnit(suffix) : columnUnit(index)];
+    };
+    const cell = (row: string[], index: number) => (index >= 0 ? row[index]?.trim() ?? '' : '');
+
+    return rows.slice(headerIndex + 1).flatMap((row): PlacedPart[] => {
+        const x = length(row[xColumn], xColumn);
+        const y = length(row[yColumn], yColumn);
+        const ref = cell(row, designator);
+        if (!ref || isNaN(x) || isNaN(y)) return [];
+        return [{
+            designator: ref,
+            footprint: cell(row, footprint),
+            value: cell(row, value),
+            mpn: cell(row, mpn),
+            side: /^b/i.test(cell(row, side)) ? 'bottom' : 'top',
+            x,
+            y: -y,
+            rotation: parseLocaleNumber(cell(row, rotation)) || 0,
+        }];
+    });
+};
+
+// KiCad's plain-text .pos export: "## Unit = mm" and a "# Ref Val Package PosX PosY Rot Side" header.
+const parseKicadPos = (source: string): PlacedPart[] => {
+    const lines = source.split(/\r?\n/);
+    const unit = source.match(/^##\s*Unit\s*=\s*(\w+)/m)?.[1] ?? 'mm';
+    const header = lines.find(line => /^#\s*Ref\b/i.test(line))!;
+    const rows = [
+        header.replace(/^#\s*/, '').trim().split(/\s+/),
+        ...lines.filter(line => line.trim() && !line.startsWith('#') && !/^##/.test(line)).map(line => line.trim().split(/\s+/)),
+    ];
+    return parsePlacementRows(rows, toUnit(unit));
+};
+
+/**
+ * Reads where every part should be: a KiCad `.kicad_pcb` board, a KiCad `.pos` file or a
+ * pick-and-place CSV (KiCad, Altium, JLCPCB and similar). Board files supply the outline from
+ * their Edge.Cuts layer; for the others it is drawn around the parts and can be adjusted.
+ * @throws {Error} If the file holds no placed parts.
+ */
+export const importPlacement = (source: string, fileName: string): BoardPlacement => {
+    const isBoard = /^\s*\(kicad_pcb\b/.test(source);
+    const board = isBoard ? parseKicadBoard(source) : null;
+    const parts = board?.parts
+        ?? (/^#\s*Ref\b/im.test(source) ? parseKicadPos(source) : parsePlacementRows(parseCsv(source), 'mm'));
+    if (parts.length === 0) {
+        throw new Error('No placed parts were found in the file.');
+    }
+    const outline = board?.outline ?? boundsOf(parts.map(p => ({ x: p.x, y: p.y })), PART_BOUNDS_MARGIN)!;
+    return { source: fileName, importedAt: new Date().toISOString(), parts, outline, registration: {} };
+};
+
+// ---- Registration and matching ----
+
+export const defaultCorners = (): Point[] => UNIT_SQUARE.map(p => ({ ...p }));
+
+/**
+ * Turns the registration a quarter turn, for a photo taken with the board rotated.
+ */
+export const rotateCorners = (corners: Point[]): Point[] => [...corners.slice(1), corners[0]];
+
+/**
+ * Maps board coordinates (mm) onto one side's photo, normalized like bounding boxes.
+ * @throws {Error} If the registered corners do not form a usable outline.
+ */
+export const boardToPhoto = (placement: BoardPlacement, side: BoardSide): ((x: number, y: number) => Point) => {
+    const { outline } = placement;
+    const corners = placement.registration[side];
+    const h = corners?.length === 4 ? solveHomography(UNIT_SQUARE, corners) : null;
+    return (x, y) => {
+        const u = (x - outline.x) / outline.width;
+        // The bottom is photographed with the board flipped over, so its layout is seen mirrored.
+        const view = { x: side === 'bottom' ? 1 - u : u, y: (y - outline.y) / outline.height };
+        return h ? applyHomography(h, view) : view;
+    };
+};
+
+export interface PlacementMatch {
+    part: PlacedPart;
+    position: Point; // on the photo of the part's side
+    component: Component | null; // the detection at that spot; null when the part is likely missing
+}
+
+const covers = (component: Component, p: Point) =>
+    p.x >= component.bbox.x && p.x <= component.bbox.x + component.bbox.w && p.y >= component.bbox.y && p.y <= component.bbox.y + component.bbox.h;
+
+/**
+ * Pairs the expected parts with detected components on each photographed side, closest first,
+ * so every detection stands for at most one part.
+ * @param sides - The sides that have a photo; parts on other sides are left out.
+ */
+export const matchPlacement = (placement: BoardPlacement, analysis: PcbAnalysis, sides: BoardSide[]): PlacementMatch[] =>
+    sides.flatMap(side => {
+        const toPhoto = boardToPhoto(placement, side);
+        const expected = placement.parts.filter(p => p.side === side).map(part => ({ part, position: toPhoto(part.x, part.y) }));
+        const detected = analysis.components.filter(c => getSide(c) === side);
+
+        const candidates = expected.flatMap((e, index) => detected.flatMap(component => {
+            const center = bboxCenter(component.bbox);
+            const distance = Math.hypot(center.x - e.position.x, center.y - e.position.y);
+            return distance <= MATCH_RADIUS || covers(component, e.position) ? [{ index, component, distance }] : [];
+        })).sort((a, b) => a.distance - b.distance);
+
+        const byExpected = new Map<number, Component>();
+        const taken = new Set<Component>();
+        candidates.forEach(({ index, component }) => {
+            if (byExpected.has(index) || taken.has(component)) return;
+            byExpected.set(index, component);
+            taken.add(component);
+        });
+        return expected.map((e, index) => ({ ...e, component: byExpected.get(index) ?? null }));
+    });
+
+export const likelyMissing = (matches: PlacementMatch[]): PlacementMatch[] => matches.filter(m => !m.component);
+
+/**
+ * Detections on the photographed sides that no part of the layout accounts for.
+ */
+export const findUnexpected = (matches: PlacementMatch[], analysis: PcbAnalysis, sides: BoardSide[]): Component[] => {
+    const matched = new Set(matches.map(m => m.component));
+    return analysis.components.filter(c => sides.includes(getSide(c)) && !matched.has(c));
+};
+
+/**
+ * The renames that give matched detections their real designators, plus the MPN from the
+ * layout where the model read none. A through-hole part seen on both sides is renamed once.
+ */
+export const designatorAnchors = (matches: PlacementMatch[]): DesignatorAnchor[] => {
+    const from = new Set<string>();
+    const to = new Set<string>();
+    return matches.flatMap(({ part, component }): DesignatorAnchor[] => {
+        if (!component || from.has(component.designator) || to.has(part.designator)) return [];
+        from.add(component.designator);
+        to.add(part.designator);
+        const mpn = !component.mpn.trim() && part.mpn ? part.mpn : undefined;
+        if (component.designator === part.designator && !mpn) return [];
+        return [{ from: component.designator, to: part.designator, ...(mpn ? { mpn } : {}) }];
+    });
+};
+
+export const describePlacedPart = (part: PlacedPart): string =>
+    [part.designator, part.mpn || part.value, part.footprint].filter(Boolean).join(' · ');
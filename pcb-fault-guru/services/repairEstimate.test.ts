@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { Advice, CatalogPart, Component, EstimateSettings } from '../types';
+import { buildRepairEstimate, priceReplacement, replacementMpns } from './repairEstimate';
+
+const part = (designator: string, mpn: string, extra: Partial<Component> = {}): Component => ({
+    designator, mpn, presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+    ...extra,
+});
+
+const catalogPart = (mpn: string, breaks: [number, number][], stock: number | null = null): CatalogPart => ({
+    mpn, priceBreaks: breaks.map(([quantity, unitPrice]) => ({ quantity, unitPrice })), stock, leadTimeDays: null,
+});
+
+const advice = (alternatives: [string, string[]][]): Advice => ({
+    quick_actions: [], next_steps: [],
+    alternatives: alternatives.map(([original_mpn, mpns]) => ({ original_mpn, replacements: mpns.map(mpn => ({ mpn, reason: '' })) })),
+});
+
+const settings: EstimateSettings = { hourlyRate: 60, baseMinutes: 30, minutesPerPart: 15, marginPercent: 10 };
+
+describe('replacementMpns', () => {
+    it('lists each suggested MPN once', () => {
+        expect(replacementMpns(advice([['LM358', ['LM358DR', ' TL072 ']], ['NE555', ['LM358DR', '']]]))).toEqual(['LM358DR', 'TL072']);
+    });
+});
+
+describe('priceReplacement', () => {
+    it('buys the minimum order below the first break', () => {
+        expect(priceReplacement(catalogPart('R', [[10, 0.015]]), 2)).toEqual({ unitPrice: 0.015, lineTotal: 0.15 });
+        expect(priceReplacement(catalogPart('R', []), 2)).toBeNull();
+    });
+});
+
+describe('buildRepairEstimate', () => {
+    it('prices the cheapest part in stock, then labor and margin on top', () => {
+        const prices = new Map([
+            ['LM358DR', catalogPart('LM358DR', [[1, 0.5]], 100)],
+            ['TL072', catalogPart('TL072', [[1, 0.2]], 0)],
+        ]);
+        const components = [part('U1', 'LM358', { side: 'top', throughHole: true }), part('U1', 'LM358', { side: 'bottom', throughHole: true }), part('U2', 'LM358')];
+        const estimate = buildRepairEstimate(advice([['LM358', ['TL072', 'LM358DR']], ['NE555', ['ICM7555']]]), components, prices, settings);
+        expect(estimate.lines).toEqual([
+            { originalMpn: 'LM358', designators: ['U1', 'U2'], quantity: 2, mpn: 'LM358DR', unitPrice: 0.5, lineTotal: 1, stock: 100, leadTimeDays: null },
+            { originalMpn: 'NE555', designators: [], quantity: 1, mpn: null, unitPrice: null, lineTotal: null, stock: null, leadTimeDays: null },
+        ]);
+        // 30 minutes plus 15 for each of the three parts is 75 minutes at $60/h.
+        expect(estimate).toMatchObject({ partsTotal: 1, laborHours: 1.25, laborCost: 75, margin: 7.6, total: 83.6, unpricedCount: 1 });
+    });
+
+    it('falls back to a part on order when none is in stock', () => {
+        const prices = new Map([['TL072', catalogPart('TL072', [[1, 0.2]], 0)]]);
+        const estimate = buildRepairEstimate(advice([['LM358', ['TL072']]]), [part('U1', 'LM358')], prices, settings);
+        expect(estimate.lines[0].mpn).toBe('TL072');
+    });
+});
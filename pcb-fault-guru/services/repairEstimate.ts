@@ -0,0 +1,77 @@
+import type { Advice, CatalogPart, Component, EstimateLine, EstimateSettings, RepairEstimate } from '../types';
+import { unitPriceAt } from './partsCatalog';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Every replacement MPN the advice suggests, for looking them up in a catalog at once.
+ */
+export const replacementMpns = (advice: Advice): string[] =>
+    Array.from(new Set(advice.alternatives.flatMap(alt => alt.replacements.map(r => r.mpn.trim())).filter(Boolean)));
+
+/**
+ * What one replacement costs for the parts it replaces. Below the first price break the
+ * minimum order is what gets bought.
+ */
+export const priceReplacement = (part: CatalogPart, quantity: number): { unitPrice: number; lineTotal: number } | null => {
+    const unitPrice = unitPriceAt(part, quantity);
+    if (unitPrice === null) return null;
+    const ordered = Math.max(quantity, part.priceBreaks[0].quantity);
+    return { unitPrice, lineTotal: roundCents(unitPrice * ordered) };
+};
+
+// In-stock parts first, then the cheapest; a part on order is only worth it when nothing is in stock.
+const chooseReplacement = (mpns: string[], prices: Map<string, CatalogPart>, quantity: number) => {
+    const priced = mpns.flatMap(mpn => {
+        const part = prices.get(mpn);
+        const price = part && priceReplacement(part, quantity);
+        return part && price ? [{ mpn, part, ...price }] : [];
+    });
+    const available = priced.filter(p => p.part.stock === null || p.part.stock >= quantity);
+    return (available.length > 0 ? available : priced).sort((a, b) => a.lineTotal - b.lineTotal)[0];
+};
+
+/**
+ * Builds an itemized estimate from the advice: each part with suggested replacements is
+ * priced from the catalog, labor is the bench time at the hourly rate, and the margin
+ * goes on top of both.
+ * @param components - The detected parts, to count how many of each MPN are replaced.
+ * @param prices - Catalog entries keyed by replacement MPN, as returned by a provider's lookup.
+ */
+export const buildRepairEstimate = (
+    advice: Advice,
+    components: Component[],
+    prices: Map<string, CatalogPart>,
+    settings: EstimateSettings
+): RepairEstimate => {
+    const lines = advice.alternatives.filter(alt => alt.replacements.length > 0).map((alt): EstimateLine => {
+        // Through-hole parts appear on both sides but are replaced once.
+        const designators = Array.from(new Set(components.filter(c => c.mpn && c.mpn === alt.original_mpn).map(c => c.designator)));
+        const quantity = Math.max(1, designators.length);
+        const choice = chooseReplacement(alt.replacements.map(r => r.mpn.trim()), prices, quantity);
+        return {
+            originalMpn: alt.original_mpn,
+            designators,
+            quantity,
+            mpn: choice?.mpn ?? null,
+            unitPrice: choice?.unitPrice ?? null,
+            lineTotal: choice?.lineTotal ?? null,
+            stock: choice?.part.stock ?? null,
+            leadTimeDays: choice?.part.leadTimeDays ?? null,
+        };
+    });
+    const partsTotal = roundCents(lines.reduce((sum, line) => sum + (line.lineTotal ?? 0), 0));
+    const partCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+    const laborHours = (settings.baseMinutes + settings.minutesPerPart * partCount) / 60;
+    const laborCost = roundCents(laborHours * settings.hourlyRate);
+    const margin = roundCents((partsTotal + laborCost) * settings.marginPercent / 100);
+    return {
+        lines,
+        partsTotal,
+        laborHours,
+        laborCost,
+        margin,
+        total: roundCents(partsTotal + laborCost + margin),
+        unpricedCount: lines.filter(line => line.lineTotal === null).length,
+    };
+};
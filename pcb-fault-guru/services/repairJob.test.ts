@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { Advice } from '../types';
+import {
+    addTasks, compareCost, createRepairJob, findUntrackedAdvice, isJobFinished, isSuggestedPart, partsTotal, recordPartUsed, removePartUsed, updateTask,
+} from './repairJob';
+
+const advice = (extra: Partial<Advice> = {}): Advice => ({
+    quick_actions: ['Reflow U1'], alternatives: [], next_steps: ['Replace C3'], ...extra,
+});
+
+describe('createRepairJob', () => {
+    it('makes a task of every quick action and next step', () => {
+        const job = createRepairJob(advice());
+        expect(job.tasks.map(t => [t.title, t.source, t.status])).toEqual([['Reflow U1', 'quick_action', 'todo'], ['Replace C3', 'next_step', 'todo']]);
+        expect(isJobFinished(job)).toBe(false);
+        expect(isJobFinished(createRepairJob(advice({ quick_actions: [], next_steps: [] })))).toBe(false);
+    });
+
+    it('adds the advice that has no task yet', () => {
+        const job = createRepairJob(advice());
+        const untracked = findUntrackedAdvice(job, advice({ quick_actions: ['Reflow U1', 'Clean J2'] }));
+        expect(untracked).toEqual([{ title: 'Clean J2', source: 'quick_action' }]);
+        expect(addTasks(job, untracked).tasks.map(t => t.title)).toEqual(['Reflow U1', 'Replace C3', 'Clean J2']);
+    });
+});
+
+describe('updateTask', () => {
+    it('stamps when a task was started and finished, and clears both when reopened', () => {
+        let job = createRepairJob(advice());
+        const [first, second] = job.tasks;
+        job = updateTask(job, first.id, { status: 'in_progress', technician: 'AB' });
+        const startedAt = job.tasks[0].startedAt;
+        expect(startedAt).toBeDefined();
+        job = updateTask(job, first.id, { status: 'done' });
+        expect(job.tasks[0]).toMatchObject({ status: 'done', technician: 'AB', startedAt });
+        expect(job.tasks[0].finishedAt).toBeDefined();
+        job = updateTask(job, second.id, { status: 'skipped' });
+        expect(job.tasks[1].startedAt).toBeUndefined();
+        expect(isJobFinished(job)).toBe(true);
+        job = updateTask(job, first.id, { status: 'todo' });
+        expect(job.tasks[0]).not.toHaveProperty('startedAt');
+        expect(job.tasks[0]).not.toHaveProperty('finishedAt');
+    });
+});
+
+describe('parts and cost', () => {
+    const alternatives = [{ original_mpn: 'LM358', replacements: [{ mpn: 'TL072', reason: '' }] }];
+
+    it('totals the priced parts and compares the final cost with the estimate', () => {
+        let job = recordPartUsed(createRepairJob(advice()), { originalMpn: 'lm358', usedMpn: 'tl072', quantity: 2, unitCost: 0.5 });
+        job = recordPartUsed(job, { originalMpn: 'C3', usedMpn: 'GRM188', quantity: 1, unitCost: null });
+        expect(isSuggestedPart(job.partsUsed[0], alternatives)).toBe(true);
+        expect(isSuggestedPart(job.partsUsed[1], alternatives)).toBe(false);
+        expect(partsTotal(job)).toBe(1);
+        expect(partsTotal(removePartUsed(job, job.partsUsed[0].id))).toBeNull();
+
+        expect(compareCost(job, advice({ repair_cost: 40 }))).toBeNull();
+        expect(compareCost({ ...job, finalCost: 50 }, advice({ repair_cost: 40 }))).toEqual({ estimate: 40, actual: 50, difference: 10, ratio: 1.25 });
+        expect(compareCost({ ...job, finalCost: 50 }, advice())).toBeNull();
+    });
+});
@@ -0,0 +1,134 @@
+import type { Advice, Alternative, RepairJob, JobTask, JobTaskStatus, PartUsage } from '../types';
+import { newId } from './idUtils';
+
+export const JOB_TASK_STATUSES: { id: JobTaskStatus; label: string }[] = [
+    { id: 'todo', label: 'To Do' },
+    { id: 'in_progress', label: 'In Progress' },
+    { id: 'done', label: 'Done' },
+    { id: 'skipped', label: 'Skipped' },
+];
+
+export const getStatusLabel = (status: JobTaskStatus): string =>
+    JOB_TASK_STATUSES.find(s => s.id === status)?.label ?? status;
+
+const newTask = (title: string, source: JobTask['source'], createdAt: string): JobTask => ({
+    id: newId(),
+    title,
+    source,
+    status: 'todo',
+    technician: '',
+    notes: '',
+    photos: [],
+    createdAt,
+});
+
+/**
+ * Starts a repair job with one task per quick action and next step of the advice.
+ */
+export const createRepairJob = (advice: Advice): RepairJob => {
+    const now = new Date().toISOString();
+    return {
+        id: newId(),
+        createdAt: now,
+        tasks: [
+            ...(advice.quick_actions ?? []).map(title => newTask(title, 'quick_action', now)),
+            ...(advice.next_steps ?? []).map(title => newTask(title, 'next_step', now)),
+        ],
+        partsUsed: [],
+        finalCost: null,
+    };
+};
+
+/**
+ * Advice items that have no task yet, e.g. after the other side of the board was analyzed.
+ */
+export const findUntrackedAdvice = (job: RepairJob, advice: Advice): { title: string; source: JobTask['source'] }[] => {
+    const tracked = new Set(job.tasks.map(t => t.title));
+    return [
+        ...(advice.quick_actions ?? []).map(title => ({ title, source: 'quick_action' as const })),
+        ...(advice.next_steps ?? []).map(title => ({ title, source: 'next_step' as const })),
+    ].filter(item => !tracked.has(item.title));
+};
+
+export const addTasks = (job: RepairJob, items: { title: string; source: JobTask['source'] }[]): RepairJob => {
+    const now = new Date().toISOString();
+    return { ...job, tasks: [...job.tasks, ...items.map(item => newTask(item.title, item.source, now))] };
+};
+
+export type JobTaskChanges = Partial<Pick<JobTask, 'status' | 'technician' | 'notes' | 'photos'>>;
+
+/**
+ * Applies changes to one task. A status change stamps the time it was started and
+ * finished; moving a task back to "To Do" clears both.
+ */
+export const updateTask = (job: RepairJob, taskId: string, changes: JobTaskChanges): RepairJob => ({
+    ...job,
+    tasks: job.tasks.map(task => {
+        if (task.id !== taskId) return task;
+        const updated = { ...task, ...changes };
+        if (!changes.status || changes.status === task.status) return updated;
+        const now = new Date().toISOString();
+        const { startedAt: _startedAt, finishedAt: _finishedAt, ...rest } = updated;
+        switch (changes.status) {
+            case 'todo':
+                return rest;
+            case 'in_progress':
+                return { ...rest, startedAt: task.startedAt ?? now };
+            default:
+                return { ...rest, ...(task.startedAt && { startedAt: task.startedAt }), finishedAt: now };
+        }
+    }),
+});
+
+export const isJobFinished = (job: RepairJob): boolean =>
+    job.tasks.length > 0 && job.tasks.every(t => t.status === 'done' || t.status === 'skipped');
+
+export const recordPartUsed = (job: RepairJob, usage: Omit<PartUsage, 'id'>): RepairJob => ({
+    ...job,
+    partsUsed: [...job.partsUsed, { id: newId(), ...usage }],
+});
+
+export const removePartUsed = (job: RepairJob, usageId: string): RepairJob => ({
+    ...job,
+    partsUsed: job.partsUsed.filter(p => p.id !== usageId),
+});
+
+/**
+ * Whether the fitted part is one of the replacements the advice suggested for it.
+ */
+export const isSuggestedPart = (usage: PartUsage, alternatives: Alternative[]): boolean =>
+    alternatives.some(alt =>
+        alt.original_mpn.toLowerCase() === usage.originalMpn.toLowerCase() &&
+        alt.replacements.some(r => r.mpn.toLowerCase() === usage.usedMpn.toLowerCase())
+    );
+
+/**
+ * Cost of the recorded parts, or null when none of them has a price.
+ */
+export const partsTotal = (job: RepairJob): number | null => {
+    const priced = job.partsUsed.filter(p => p.unitCost !== null);
+    return priced.length > 0 ? priced.reduce((sum, p) => sum + p.quantity * p.unitCost!, 0) : null;
+};
+
+export interface CostComparison {
+    estimate: number;
+    actual: number;
+    difference: number; // positive when the repair cost more than estimated
+    ratio: number; // actual / estimate
+}
+
+/**
+ * Compares the final cost with the estimate from the advice.
+ * @returns Null until both are known.
+ */
+export const compareCost = (job: RepairJob, advice: Advice): CostComparison | null => {
+    if (job.finalCost === null || !advice.repair_cost) return null;
+    return {
+        estimate: advice.repair_cost,
+        actual: job.finalCost,
+        difference: job.finalCost - advice.repair_cost,
+        ratio: job.finalCost / advice.repair_cost,
+    };
+};
+
+export const formatUsd = (value: number): string => `$${value.toFixed(2)}`;
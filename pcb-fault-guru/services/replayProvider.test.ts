@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashImageFile, importFixtures, replayProvider, sha256 } from './replayProvider';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+const bytesOf = (text: string) => new TextEncoder().encode(text);
+
+const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+    };
+};
+
+describe('sha256', () => {
+    it('matches the standard test vectors', () => {
+        expect(hex(sha256(bytesOf('')))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+        expect(hex(sha256(bytesOf('abc')))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        expect(hex(sha256(bytesOf('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))))
+            .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    it('matches crypto.subtle across block boundaries', async () => {
+        for (const length of [55, 56, 63, 64, 65, 1000]) {
+            const data = Uint8Array.from({ length }, (_, i) => (i * 31) % 256);
+            const expected = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+            expect(hex(sha256(data))).toBe(hex(expected));
+        }
+    });
+});
+
+describe('hashImageFile', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('gives the same hash without crypto.subtle', async () => {
+        const image = new Blob([bytesOf('not really a jpeg')]);
+        const secure = await hashImageFile(image);
+        vi.stubGlobal('crypto', undefined);
+        expect(await hashImageFile(image)).toBe(secure);
+    });
+});
+
+describe('replayProvider', () => {
+    beforeEach(() => vi.stubGlobal('localStorage', memoryStorage()));
+    afterEach(() => vi.unstubAllGlobals());
+
+    const image = new File([bytesOf('board photo')], 'board.jpg', { type: 'image/jpeg' });
+    const fixtureFile = async (analysis: unknown) =>
+        new File([JSON.stringify({ imageHash: await hashImageFile(image), recordedAt: '2024-01-01T00:00:00Z', analysis })], 'fixture.json');
+
+    it('replays an imported fixture for the same image', async () => {
+        const analysis = {
+            components: [{ designator: 'R1', mpn: 'RC0603', presence: 'ok', condition: 'ok', bbox: { x: 0.1, y: 0.1, w: 0.1, h: 0.1 }, confidence: 0.9 }],
+            defects: [],
+            advice: { quick_actions: [], alternatives: [], next_steps: [] },
+        };
+        expect(await importFixtures(await fixtureFile(analysis))).toBe(1);
+        const result = await replayProvider.analyze(image);
+        expect(result.analysis.components.map(c => c.designator)).toEqual(['R1']);
+    });
+
+    it('rejects an image without a fixture', async () => {
+        await expect(replayProvider.analyze(new File([bytesOf('other')], 'other.jpg'))).rejects.toThrow(/No recorded analysis/);
+    });
+
+    it('rejects files without fixtures', async () => {
+        await expect(importFixtures(new File(['[{"foo": 1}]'], 'x.json'))).rejects.toThrow(/does not contain/);
+    });
+});
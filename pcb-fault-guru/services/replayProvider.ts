@@ -0,0 +1,163 @@
+import type { PcbAnalysis, AnalysisResult } from '../types';
+import type { AnalysisProvider, AnalyzeOptions } from './analysisProvider';
+import { validatePcbAnalysis } from './analysisValidator';
+import { downloadBlob } from './downloadUtils';
+
+/**
+ * A recorded analysis for one specific image, identified by the SHA-256 of its bytes.
+ */
+export interface AnalysisFixture {
+    imageHash: string;
+    imageName?: string;
+    recordedAt: string;
+    analysis: PcbAnalysis;
+}
+
+const IMPORTED_FIXTURES_KEY = 'pcb-guru:fixtures';
+
+// Fixtures committed under /fixtures are bundled into the app at build time.
+const bundledFixtures = Object.values(
+    import.meta.glob<AnalysisFixture>('../fixtures/*.json', { eager: true, import: 'default' })
+);
+
+const loadImportedFixtures = (): AnalysisFixture[] => {
+    try {
+        const stored = localStorage.getItem(IMPORTED_FIXTURES_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+        console.error("Failed to load imported fixtures:", e);
+        return [];
+    }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFixture = (value: unknown): value is AnalysisFixture =>
+    isObject(value) && typeof value.imageHash === 'string'
+    && isObject(value.analysis) && Array.isArray(value.analysis.components) && Array.isArray(value.analysis.defects);
+
+const SHA256_K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * SHA-256 in plain JavaScript, for when `crypto.subtle` is missing: browsers only
+ * provide it in a secure context, so not on a LAN address during `vite --host`.
+ * Slower, but gives the same digest, so fixtures recorded either way still match.
+ */
+export const sha256 = (data: Uint8Array): Uint8Array => {
+    const length = data.length;
+    // Message, the 0x80 marker and the 64-bit bit length, padded to whole 64-byte blocks.
+    const padded = new Uint8Array(Math.ceil((length + 9) / 64) * 64);
+    padded.set(data);
+    padded[length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, Math.floor(length / 0x20000000));
+    view.setUint32(padded.length - 4, (length * 8) >>> 0);
+
+    const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+    const w = new Uint32Array(64);
+    const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+        let [a, b, c, d, e, f, g, hh] = h;
+        for (let i = 0; i < 64; i++) {
+            const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+            const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+            hh = g; g = f; f = e; e = (d + t1) >>> 0;
+            d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+        }
+        [a, b, c, d, e, f, g, hh].forEach((value, i) => { h[i] += value; });
+    }
+    const digest = new Uint8Array(32);
+    const out = new DataView(digest.buffer);
+    h.forEach((value, i) => out.setUint32(i * 4, value));
+    return digest;
+};
+
+/**
+ * Computes the hex SHA-256 digest of an image file. Used as the fixture key.
+ * @param file - The image file to hash.
+ */
+export const hashImageFile = async (file: Blob): Promise<string> => {
+    const bytes = await file.arrayBuffer();
+    const digest = globalThis.crypto?.subtle
+        ? new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+        : sha256(new Uint8Array(bytes));
+    return Array.from(digest).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Returns every known fixture. Imported fixtures win over bundled ones with the same hash.
+ */
+export const getFixtures = (): AnalysisFixture[] => {
+    const byHash = new Map<string, AnalysisFixture>();
+    [...bundledFixtures, ...loadImportedFixtures()].forEach(f => byHash.set(f.imageHash, f));
+    return Array.from(byHash.values());
+};
+
+/**
+ * Imports fixtures from a JSON file holding either a single fixture or an array of them.
+ * Imported fixtures are kept in localStorage so they survive a reload.
+ * @param file - The fixture JSON file.
+ * @returns The number of fixtures imported.
+ */
+export const importFixtures = async (file: File): Promise<number> => {
+    const parsed: unknown = JSON.parse(await file.text());
+    const incoming = (Array.isArray(parsed) ? parsed : [parsed]).filter(isFixture);
+    if (incoming.length === 0) {
+        throw new Error("The file does not contain any analysis fixtures.");
+    }
+    const merged = new Map(loadImportedFixtures().map(f => [f.imageHash, f]));
+    incoming.forEach(f => merged.set(f.imageHash, f));
+    localStorage.setItem(IMPORTED_FIXTURES_KEY, JSON.stringify(Array.from(merged.values())));
+    return incoming.length;
+};
+
+/**
+ * Records the current analysis as a fixture and downloads it as JSON,
+ * so the exact result can be replayed later or attached to a bug report.
+ * @param imageFile - The analyzed image.
+ * @param analysis - The analysis to record.
+ */
+export const downloadFixture = async (imageFile: File, analysis: PcbAnalysis): Promise<void> => {
+    const fixture: AnalysisFixture = {
+        imageHash: await hashImageFile(imageFile),
+        imageName: imageFile.name,
+        recordedAt: new Date().toISOString(),
+        analysis,
+    };
+    const blob = new Blob([JSON.stringify(fixture, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `fixture_${fixture.imageHash.slice(0, 12)}.json`);
+};
+
+export const replayProvider: AnalysisProvider = {
+    id: 'replay',
+    name: 'Offline replay',
+    description: 'Replays recorded analyses for known images. No network required.',
+    analyze: async (imageFile: File, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+        options.onProgress?.({ stage: 'preparing' });
+        const hash = await hashImageFile(imageFile);
+        options.signal?.throwIfAborted();
+        const fixture = getFixtures().find(f => f.imageHash === hash);
+        if (!fixture) {
+            throw new Error(`No recorded analysis for this image (hash ${hash.slice(0, 12)}). Import a fixture or switch to the Gemini provider.`);
+        }
+        options.onProgress?.({ stage: 'validating' });
+        // Fixtures go through the same validation as live responses; the copy it
+        // makes also keeps later edits from mutating the stored fixture.
+        return validatePcbAnalysis(structuredClone(fixture.analysis));
+    },
+};
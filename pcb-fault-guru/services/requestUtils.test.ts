@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { abortableDelay, isAbortError, isRateLimitError, isRetryableError, withRetry } from './requestUtils';
+
+const withStatus = (status: number) => Object.assign(new Error('failed'), { status });
+
+describe('isRetryableError', () => {
+    it('retries overload, rate limits and dropped connections but not bad requests or cancellation', () => {
+        expect(isRetryableError(withStatus(503))).toBe(true);
+        expect(isRetryableError(withStatus(400))).toBe(false);
+        expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+        expect(isRetryableError(new Error('AI response is not valid JSON.'))).toBe(false);
+        expect(isRetryableError(new DOMException('Aborted', 'AbortError'))).toBe(false);
+        expect(isAbortError(new DOMException('Aborted', 'AbortError'))).toBe(true);
+        expect(isRateLimitError(new Error('RESOURCE_EXHAUSTED: quota'))).toBe(true);
+    });
+});
+
+describe('withRetry', () => {
+    it('repeats retryable failures and reports each retry', async () => {
+        const fn = vi.fn()
+            .mockRejectedValueOnce(withStatus(503))
+            .mockRejectedValueOnce(withStatus(429))
+            .mockResolvedValue('done');
+        const onRetry = vi.fn();
+        await expect(withRetry(fn, { baseDelayMs: 1, onRetry })).resolves.toBe('done');
+        expect(fn.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1, 2]);
+        expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+    });
+
+    it('gives up after the last retry or on an error not worth repeating', async () => {
+        const overloaded = vi.fn().mockRejectedValue(withStatus(503));
+        await expect(withRetry(overloaded, { retries: 2, baseDelayMs: 1 })).rejects.toMatchObject({ status: 503 });
+        expect(overloaded).toHaveBeenCalledTimes(3);
+
+        const invalid = vi.fn().mockRejectedValue(withStatus(400));
+        await expect(withRetry(invalid, { baseDelayMs: 1 })).rejects.toMatchObject({ status: 400 });
+        expect(invalid).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting when cancelled', async () => {
+        const controller = new AbortController();
+        const fn = vi.fn().mockRejectedValue(withStatus(503));
+        // Cancel once the backoff has started.
+        const result = withRetry(fn, { signal: controller.signal, baseDelayMs: 60000, maxDelayMs: 60000, onRetry: () => controller.abort() });
+        await expect(result).rejects.toSatisfy(isAbortError);
+        expect(fn).toHaveBeenCalledTimes(1);
+        await expect(abortableDelay(10, controller.signal)).rejects.toSatisfy(isAbortError);
+    });
+});
@@ -0,0 +1,72 @@
+export interface RetryOptions {
+    signal?: AbortSignal;
+    retries?: number; // attempts after the first one
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_MESSAGE = /rate limit|resource_exhausted|unavailable|overloaded|deadline|timed? ?out|failed to fetch|network/i;
+
+/**
+ * Whether an error comes from the user (or code) cancelling the request.
+ */
+export const isAbortError = (err: unknown): boolean =>
+    err instanceof DOMException ? err.name === 'AbortError' : err instanceof Error && err.name === 'AbortError';
+
+/**
+ * Whether a failed request is worth repeating: rate limits, server overload,
+ * timeouts and dropped connections. Bad input and bad output are not.
+ */
+export const isRetryableError = (err: unknown): boolean => {
+    if (isAbortError(err)) return false;
+    const status = (err as { status?: unknown })?.status;
+    if (typeof status === 'number') return RETRYABLE_STATUS.has(status);
+    return err instanceof Error && RETRYABLE_MESSAGE.test(err.message);
+};
+
+export const isRateLimitError = (err: unknown): boolean =>
+    (err as { status?: unknown })?.status === 429 || (err instanceof Error && /rate limit|resource_exhausted/i.test(err.message));
+
+/**
+ * Waits for `ms` milliseconds, rejecting early with an AbortError if the signal fires.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Runs `fn`, repeating it with exponential backoff and jitter while it fails with a
+ * retryable error. Rate-limit errors wait twice as long. Cancellation is never retried.
+ * @param fn - The request to run; receives the attempt number, starting at 0.
+ * @param options - Retry count, delays, abort signal and a callback before each retry.
+ */
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { signal, retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, onRetry } = options;
+    for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return await fn(attempt);
+        } catch (err) {
+            if (attempt >= retries || !isRetryableError(err) || signal?.aborted) throw err;
+            const backoff = baseDelayMs * 2 ** attempt * (isRateLimitError(err) ? 2 : 1);
+            const delayMs = Math.min(maxDelayMs, backoff) * (0.75 + Math.random() * 0.5);
+            onRetry?.(attempt + 1, delayMs, err);
+            await abortableDelay(delayMs, signal);
+        }
+    }
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, Defect, PcbAnalysis } from '../types';
+import { countDoneSteps, draftPlanFromAnalysis, parseReworkPlan, planFromJumper, setStepDone } from './reworkPlan';
+
+const part = (designator: string, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+    ...extra,
+});
+
+const defect = (id: string, type: string, extra: Partial<Defect> = {}): Defect => ({
+    id, type, confidence: 0.9, bbox: { x: 0.5, y: 0.5, w: 0.05, h: 0.05 }, ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[] = []): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+describe('parseReworkPlan', () => {
+    it('drops steps without an instruction and anything that is not a step', () => {
+        const plan = parseReworkPlan({ steps: [null, 'reflow', { action: 'reflow' }, { instruction: '  ' }, { instruction: 'Reflow U1', action: 'Resolder' }] }, null, 'top');
+        expect(plan?.title).toBe('Rework plan');
+        expect(plan?.steps.map(s => [s.action, s.instruction])).toEqual([['reflow', 'Reflow U1']]);
+        expect(parseReworkPlan({ steps: [{ action: 'remove' }] }, null, 'top')).toBeNull();
+        expect(parseReworkPlan('not a plan', null, 'top')).toBeNull();
+    });
+
+    it('reads markers from the geometry given, ignoring malformed points', () => {
+        const plan = parseReworkPlan({ title: 'Fix', steps: [
+            { instruction: 'Cut here', action: 'cut', from: { x: 0.1, y: 0.2 }, to: { x: 1.5, y: 0.2 } },
+            { instruction: 'Wire it', action: 'wire', from: { x: 0.1 }, to: { x: 0.3, y: 0.3 } },
+        ] }, null, 'bottom')!;
+        expect(plan.steps[0]).toMatchObject({ action: 'cut_trace', side: 'bottom', markers: [{ type: 'cut', from: { x: 0.1, y: 0.2 }, to: { x: 1, y: 0.2 } }] });
+        expect(plan.steps[1].markers).toEqual([]);
+    });
+
+    it('points a step that only names a part at that part, on its own side', () => {
+        const board = analysis([part('U1', { side: 'bottom', bbox: { x: 0.4, y: 0.4, w: 0.1, h: 0.1 } })]);
+        const plan = parseReworkPlan({ steps: [{ instruction: 'Replace it', action: 'replace', designator: 'u1', mpn: ' LM358 ' }] }, board, 'top')!;
+        expect(plan.steps[0]).toMatchObject({ designator: 'U1', mpn: 'LM358', side: 'bottom', markers: [{ type: 'area', bbox: board.components[0].bbox }] });
+    });
+});
+
+describe('planFromJumper', () => {
+    it('turns a jumper into a one-step plan on its side', () => {
+        const plan = planFromJumper({ from: { x: 0.1, y: 0.1 }, to: { x: 0.2, y: 0.2 }, side: 'bottom' }, '2024-01-01T00:00:00.000Z');
+        expect(plan.createdAt).toBe('2024-01-01T00:00:00.000Z');
+        expect(plan.steps).toEqual([expect.objectContaining({ action: 'jumper', side: 'bottom' })]);
+    });
+});
+
+describe('draftPlanFromAnalysis', () => {
+    it('drafts steps for burnt, missing and corroded parts and solder defects', () => {
+        const board = analysis(
+            [part('R1', { condition: 'burnt', mpn: 'RC0603' }), part('C1', { presence: 'missing' }), part('U1', { condition: 'corroded' }), part('J1', { throughHole: true, condition: 'burnt' }), part('J1', { side: 'bottom', throughHole: true, condition: 'burnt' })],
+            [defect('D1', 'solder_bridge'), defect('D2', 'overheating')],
+        );
+        board.advice.alternatives = [{ original_mpn: 'rc0603', replacements: [{ mpn: 'ERJ-3', reason: '' }] }];
+        const plan = draftPlanFromAnalysis(board);
+        expect(plan.steps.map(s => `${s.action}:${s.designator ?? ''}`)).toEqual([
+            'remove:R1', 'replace:R1', 'replace:C1', 'clean:U1', 'reflow:U1', 'remove:J1', 'replace:J1', 'reflow:',
+        ]);
+        expect(plan.steps[1].mpn).toBe('ERJ-3');
+    });
+});
+
+describe('setStepDone', () => {
+    it('marks and unmarks steps', () => {
+        const plan = draftPlanFromAnalysis(analysis([part('U1', { condition: 'corroded' })]));
+        const done = setStepDone(plan, plan.steps[0].id, true);
+        expect(countDoneSteps(done)).toBe(1);
+        expect(countDoneSteps(setStepDone(done, plan.steps[0].id, false))).toBe(0);
+    });
+});
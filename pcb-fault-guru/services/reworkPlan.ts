@@ -0,0 +1,200 @@
+import type { PcbAnalysis, Component, ReworkPlan, ReworkStep, ReworkAction, ReworkMarker, BoardSide, BoundingBox, JumperSuggestion, Connectivity } from '../types';
+import { getSide } from './analysisMerge';
+import { clampBBox } from './analysisValidator';
+import { checkJumper } from './connectivity';
+import { newId } from './idUtils';
+
+export interface ReworkActionInfo {
+    id: ReworkAction;
+    label: string;
+    color: string; // step badge and overlay color
+}
+
+export const REWORK_ACTIONS: ReworkActionInfo[] = [
+    { id: 'remove', label: 'Remove', color: '#f59e0b' },
+    { id: 'replace', label: 'Replace', color: '#22c55e' },
+    { id: 'jumper', label: 'Jumper', color: '#38bdf8' },
+    { id: 'cut_trace', label: 'Cut Trace', color: '#f97316' },
+    { id: 'reflow', label: 'Reflow', color: '#e879f9' },
+    { id: 'clean', label: 'Clean', color: '#2dd4bf' },
+    { id: 'other', label: 'Other', color: '#9ca3af' },
+];
+
+const ACTION_INFO = new Map(REWORK_ACTIONS.map(a => [a.id, a]));
+
+export const getActionInfo = (action: ReworkAction): ReworkActionInfo => ACTION_INFO.get(action) ?? ACTION_INFO.get('other')!;
+
+const ACTION_ALIASES: Record<string, ReworkAction> = {
+    desolder: 'remove', lift: 'remove',
+    swap: 'replace', fit: 'replace', install: 'replace', solder: 'replace',
+    wire: 'jumper', bodge: 'jumper', bypass: 'jumper',
+    cut: 'cut_trace', isolate: 'cut_trace',
+    rework: 'reflow', retouch: 'reflow', resolder: 'reflow',
+    wash: 'clean',
+};
+
+const parseAction = (value: unknown): ReworkAction => {
+    const key = typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+    if (ACTION_INFO.has(key as ReworkAction)) return key as ReworkAction;
+    return ACTION_ALIASES[key] ?? ACTION_ALIASES[key.split('_')[0]] ?? 'other';
+};
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const parsePoint = (value: unknown): { x: number; y: number } | null => {
+    const p = value as { x?: unknown; y?: unknown } | null;
+    return p && typeof p.x === 'number' && typeof p.y === 'number' && isFinite(p.x) && isFinite(p.y)
+        ? { x: clamp01(p.x), y: clamp01(p.y) }
+        : null;
+};
+
+const parseBBox = (value: unknown): BoundingBox | null => {
+    const b = value as Partial<Record<keyof BoundingBox, unknown>> | null;
+    return b && [b.x, b.y, b.w, b.h].every(v => typeof v === 'number' && isFinite(v))
+        ? clampBBox(b as BoundingBox)
+        : null;
+};
+
+// A step as the chat model wrote it; only the instruction is required.
+type RawStep = { instruction: string } & Partial<Record<'action' | 'designator' | 'mpn' | 'from' | 'to' | 'bbox', unknown>>;
+
+const isRawStep = (value: unknown): value is RawStep =>
+    typeof value === 'object' && value !== null && typeof (value as { instruction?: unknown }).instruction === 'string';
+
+const findComponent = (analysis: PcbAnalysis | null, designator: string | undefined, side: BoardSide): Component | undefined => {
+    if (!analysis || !designator) return undefined;
+    const matches = analysis.components.filter(c => c.designator.toLowerCase() === designator.toLowerCase());
+    return matches.find(c => getSide(c) === side) ?? matches[0];
+};
+
+const newStep = (fields: Omit<ReworkStep, 'id'>): ReworkStep => ({ id: newId(), ...fields });
+
+const newPlan = (title: string, source: ReworkPlan['source'], steps: ReworkStep[]): ReworkPlan => ({
+    id: newId(),
+    title,
+    source,
+    createdAt: new Date().toISOString(),
+    steps,
+});
+
+/**
+ * Reads a plan from the chat model's `plan` JSON. Steps without an instruction are dropped;
+ * a step that names a part but gives no geometry is pointed at that part's box.
+ * @param raw - The value of the `plan` key.
+ * @param analysis - Used to look up the parts the steps name.
+ * @param side - The side the model was looking at; coordinates refer to its photo.
+ * @returns The plan, or null if no usable step is left.
+ */
+export const parseReworkPlan = (raw: unknown, analysis: PcbAnalysis | null, side: BoardSide): ReworkPlan | null => {
+    const plan = raw as { title?: unknown; steps?: unknown } | null;
+    if (!plan || !Array.isArray(plan.steps)) return null;
+    const steps = plan.steps.flatMap((item: unknown): ReworkStep[] => {
+        if (!isRawStep(item) || !item.instruction.trim()) return [];
+        const instruction = item.instruction.trim();
+        const action = parseAction(item.action);
+        const designator = typeof item.designator === 'string' && item.designator.trim() ? item.designator.trim() : undefined;
+        const component = findComponent(analysis, designator, side);
+        const from = parsePoint(item.from);
+        const to = parsePoint(item.to);
+        const bbox = parseBBox(item.bbox);
+        const markers: ReworkMarker[] = [];
+        if (from && to) markers.push({ type: action === 'cut_trace' ? 'cut' : 'line', from, to });
+        if (bbox) markers.push({ type: 'area', bbox });
+        // Coordinates refer to the photo on screen; a named part can also be on the other side.
+        const stepSide = markers.length > 0 || !component ? side : getSide(component);
+        if (markers.length === 0 && component) markers.push({ type: 'area', bbox: component.bbox });
+        return [newStep({
+            action,
+            instruction,
+            side: stepSide,
+            designator: component?.designator ?? designator,
+            mpn: typeof item.mpn === 'string' && item.mpn.trim() ? item.mpn.trim() : undefined,
+            markers,
+        })];
+    });
+    if (steps.length === 0) return null;
+    const title = typeof plan.title === 'string' && plan.title.trim() ? plan.title.trim() : 'Rework plan';
+    return newPlan(title, 'chat', steps);
+};
+
+/**
+ * Turns a single jumper, as suggested before rework plans existed, into a one-step plan.
+ */
+export const planFromJumper = (jumper: JumperSuggestion, createdAt?: string): ReworkPlan => ({
+    ...newPlan('Jumper wire', 'chat', [newStep({
+        action: 'jumper',
+        instruction: 'Fit a jumper wire between the marked points.',
+        side: getSide(jumper),
+        markers: [{ type: 'line', from: jumper.from, to: jumper.to }],
+    })]),
+    ...(createdAt && { createdAt }),
+});
+
+// Defects that are fixed by reflowing the joint; overheating is a symptom, not a repair.
+const REFLOW_DEFECTS = /bridge|cold|insufficient|crack|lifted|tombston|void/i;
+
+/**
+ * Drafts a plan from the findings: missing parts are fitted, burnt parts removed and
+ * replaced, corroded parts cleaned and reflowed, and solder defects reflowed.
+ * @param analysis - The findings to repair, usually after confidence filtering.
+ */
+export const draftPlanFromAnalysis = (analysis: PcbAnalysis): ReworkPlan => {
+    const replacementFor = (mpn: string) =>
+        analysis.advice.alternatives.find(a => a.original_mpn.toLowerCase() === mpn.toLowerCase())?.replacements[0]?.mpn;
+    const steps: ReworkStep[] = [];
+    const seen = new Set<string>(); // through-hole parts are listed once per side
+    analysis.components.forEach(c => {
+        if (seen.has(c.designator)) return;
+        seen.add(c.designator);
+        const base = { side: getSide(c), designator: c.designator, markers: [{ type: 'area' as const, bbox: c.bbox }] };
+        const label = c.mpn ? `${c.designator} (${c.mpn})` : c.designator;
+        if (c.condition === 'burnt') {
+            const mpn = replacementFor(c.mpn) ?? c.mpn;
+            steps.push(newStep({ ...base, action: 'remove', instruction: `Remove burnt ${label}.` }));
+            steps.push(newStep({ ...base, action: 'replace', mpn, instruction: `Fit ${mpn || 'a replacement'} at ${c.designator}.` }));
+        } else if (c.presence === 'missing') {
+            steps.push(newStep({ ...base, action: 'replace', mpn: c.mpn, instruction: `Fit the missing ${label}.` }));
+        } else if (c.condition === 'corroded') {
+            steps.push(newStep({ ...base, action: 'clean', instruction: `Clean the corrosion around ${label}.` }));
+            steps.push(newStep({ ...base, action: 'reflow', instruction: `Reflow the joints of ${c.designator}.` }));
+        }
+    });
+    analysis.defects.filter(d => REFLOW_DEFECTS.test(d.type)).forEach(d => {
+        steps.push(newStep({
+            action: 'reflow',
+            side: getSide(d),
+            markers: [{ type: 'area', bbox: d.bbox }],
+            instruction: `Reflow to fix the ${d.type.replace(/_/g, ' ')}${d.description ? `: ${d.description}` : ''}.`,
+        }));
+    });
+    return newPlan('Repair of reported findings', 'analysis', steps);
+};
+
+/**
+ * Snaps every jumper in the plan to the known pads and flags those that would short two nets.
+ */
+export const checkReworkPlan = (plan: ReworkPlan, connectivity: Connectivity): ReworkPlan => ({
+    ...plan,
+    steps: plan.steps.map(step => ({
+        ...step,
+        markers: step.markers.map(marker => {
+            if (marker.type !== 'line') return marker;
+            const { from, to, fromNet, toNet, warning } = checkJumper({ from: marker.from, to: marker.to, side: step.side }, connectivity);
+            return { type: 'line', from, to, ...(fromNet && { fromNet }), ...(toNet && { toNet }), ...(warning && { warning }) };
+        }),
+    })),
+});
+
+export const getStepWarnings = (step: ReworkStep): string[] =>
+    step.markers.flatMap(m => (m.type === 'line' && m.warning ? [m.warning] : []));
+
+export const setStepDone = (plan: ReworkPlan, stepId: string, done: boolean): ReworkPlan => ({
+    ...plan,
+    steps: plan.steps.map(step => {
+        if (step.id !== stepId) return step;
+        const { doneAt: _doneAt, ...rest } = step;
+        return done ? { ...rest, doneAt: new Date().toISOString() } : rest;
+    }),
+});
+
+export const countDoneSteps = (plan: ReworkPlan): number => plan.steps.filter(s => s.doneAt).length;
@@ -0,0 +1,45 @@
+import type { AppSettings } from '../types';
+
+const SETTINGS_KEY = 'pcb-guru:settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    confidence: {
+        minConfidence: 0,
+        defectTypes: {},
+    },
+    estimate: {
+        hourlyRate: 60,
+        baseMinutes: 30,
+        minutesPerPart: 15,
+        marginPercent: 20,
+    },
+};
+
+/**
+ * Loads the saved settings, filling anything missing (e.g. settings added in a later
+ * version) from the defaults.
+ */
+export const loadSettings = (): AppSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        if (!stored) return DEFAULT_SETTINGS;
+        const parsed = JSON.parse(stored) as Partial<AppSettings>;
+        return {
+            ...DEFAULT_SETTINGS,
+            ...parsed,
+            confidence: { ...DEFAULT_SETTINGS.confidence, ...parsed.confidence },
+            estimate: { ...DEFAULT_SETTINGS.estimate, ...parsed.estimate },
+        };
+    } catch (e) {
+        console.error("Failed to load settings:", e);
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Failed to save settings:", e);
+    }
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, Defect, PcbAnalysis } from '../types';
+import {
+    applyThermalMeasurements, buildPhotoToThermal, decodeGrayscalePng, grayscaleToMatrix, measureRegion, parseThermalCsv, ThermalMatrix,
+} from './thermalService';
+
+const part = (designator: string, x: number, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x, y: 0, w: 0.25, h: 0.5 },
+    ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[] = []): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+// 4×2 pixels, hottest in the right-hand column.
+const matrix: ThermalMatrix = { width: 4, height: 2, data: Float32Array.from([20, 30, 40, 90, 20, 30, 40, 80]), min: 20, max: 90 };
+
+const chunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(12 + data.length);
+    new DataView(out.buffer).setUint32(0, data.length);
+    out.set([...type].map(c => c.charCodeAt(0)), 4);
+    out.set(data, 8);
+    return out; // the CRC is left zero; the decoder does not check it
+};
+
+const grayscalePng = async (width: number, height: number, bitDepth: 8 | 16, rows: number[][]): Promise<Blob> => {
+    const ihdr = new Uint8Array(13);
+    const view = new DataView(ihdr.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    ihdr[8] = bitDepth;
+    // Each row starts with its filter type, here "sub" on the first row and "up" on the rest.
+    const raw = rows.flatMap((row, y) => [y === 0 ? 1 : 2, ...row]);
+    const compressed = new Uint8Array(await new Response(
+        new Blob([Uint8Array.from(raw)]).stream().pipeThrough(new CompressionStream('deflate'))
+    ).arrayBuffer());
+    return new Blob([
+        Uint8Array.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+        chunk('IHDR', ihdr), chunk('IDAT', compressed), chunk('IEND', new Uint8Array()),
+    ]);
+};
+
+describe('parseThermalCsv', () => {
+    it('reads the matrix between camera header and footer lines', () => {
+        const parsed = parseThermalCsv('Camera export\nFrame 1;\n21,5;22,0;23,5;\n24,0;25,5;30,0;\nEnd\n');
+        expect([parsed.width, parsed.height, parsed.min, parsed.max]).toEqual([3, 2, 21.5, 30]);
+    });
+
+    it('rejects files without a rectangular matrix', () => {
+        expect(() => parseThermalCsv('a,b\nc,d')).toThrow(/No temperature matrix/);
+        expect(() => parseThermalCsv('1,2,3\n4,5')).toThrow(/different lengths/);
+    });
+});
+
+describe('decodeGrayscalePng', () => {
+    it('undoes the row filters of an 8-bit image', async () => {
+        // Filtered: the first row stores differences to the left, the second to the row above.
+        const image = await decodeGrayscalePng(await grayscalePng(3, 2, 8, [[10, 10, 10], [5, 5, 5]]));
+        expect(Array.from(image.samples)).toEqual([10, 20, 30, 15, 25, 35]);
+        expect(image.maxSample).toBe(255);
+    });
+
+    it('keeps the full precision of a 16-bit image', async () => {
+        const image = await decodeGrayscalePng(await grayscalePng(1, 2, 16, [[0x12, 0x34], [0, 1]]));
+        expect(Array.from(image.samples)).toEqual([0x1234, 0x1235]);
+        expect(grayscaleToMatrix(image, 0, 65535).data[0]).toBeCloseTo(0x1234);
+    });
+
+    it('rejects files that are not PNGs', async () => {
+        await expect(decodeGrayscalePng(new Blob([Uint8Array.from([0xFF, 0xD8, 0xFF])]))).rejects.toThrow(/must be PNG/);
+    });
+});
+
+describe('buildPhotoToThermal', () => {
+    it('scales straight across without registration', () => {
+        expect(buildPhotoToThermal({ photo: [], thermal: [] }, { width: 800, height: 400 }, matrix)({ x: 0.5, y: 0.5 })).toEqual({ x: 2, y: 1 });
+    });
+
+    it('fits two point pairs with a similarity transform', () => {
+        const toThermal = buildPhotoToThermal(
+            { photo: [{ x: 0.25, y: 0.5 }, { x: 0.75, y: 0.5 }], thermal: [{ x: 0, y: 0 }, { x: 1, y: 0 }] },
+            { width: 800, height: 400 }, matrix,
+        );
+        const mid = toThermal({ x: 0.5, y: 0.5 });
+        expect(mid.x).toBeCloseTo(2);
+        expect(mid.y).toBeCloseTo(0);
+        expect(() => buildPhotoToThermal({ photo: [{ x: 0, y: 0 }], thermal: [{ x: 0, y: 0 }] }, { width: 1, height: 1 }, matrix)).toThrow(/two or four/);
+    });
+});
+
+describe('measureRegion', () => {
+    const toThermal = buildPhotoToThermal({ photo: [], thermal: [] }, { width: 4, height: 2 }, matrix);
+
+    it('reads the peak and mean inside a box', () => {
+        // The right-hand column holds 90 and 80.
+        const reading = measureRegion(matrix, toThermal, { x: 0.75, y: 0, w: 0.25, h: 1 })!;
+        expect(reading.max).toBe(90);
+        expect(reading.mean).toBeGreaterThan(80);
+        expect(reading.mean).toBeLessThan(90);
+        expect(measureRegion(matrix, toThermal, { x: 1.2, y: 0, w: 0.1, h: 0.1 })).toBeNull();
+    });
+});
+
+describe('applyThermalMeasurements', () => {
+    const toThermal = buildPhotoToThermal({ photo: [], thermal: [] }, { width: 4, height: 2 }, matrix);
+
+    it('replaces estimates on the measured side and rebuilds its overheating defects', () => {
+        const stale: Defect = { id: 'D1', type: 'overheating', confidence: 0.6, bbox: { x: 0, y: 0, w: 0.1, h: 0.1 } };
+        const { analysis: measured, warnings } = applyThermalMeasurements(
+            analysis([part('R1', 0, { temperature: 95 }), part('U1', 0.75), part('J1', 0.75, { side: 'bottom', temperature: 50 })], [stale]),
+            matrix, toThermal, { statistic: 'max', overheatThreshold: 70, side: 'top' },
+        );
+        expect(measured.components.map(c => [c.designator, c.temperature, c.temperatureSource])).toEqual([
+            ['R1', 20, 'thermal'], ['U1', 90, 'thermal'], ['J1', 50, undefined],
+        ]);
+        expect(measured.defects).toEqual([expect.objectContaining({ id: 'TH-U1', type: 'overheating', side: 'top', confidence: 1 })]);
+        expect(warnings).toEqual([]);
+    });
+});
@@ -0,0 +1,344 @@
+import type { PcbAnalysis, Component, Defect, BoundingBox, BoardSide, ValidationWarning, AnalysisResult } from '../types';
+import { Point, solveHomography, applyHomography } from './imageProcessing';
+import { parseCsv, parseLocaleNumber } from './csvUtils';
+import { clampBBox, reserveDesignator } from './analysisValidator';
+import { getSide, isTwoSided } from './analysisMerge';
+
+/**
+ * A radiometric capture: one temperature in °C per thermal pixel, row by row.
+ */
+export interface ThermalMatrix {
+    width: number;
+    height: number;
+    data: Float32Array;
+    min: number;
+    max: number;
+}
+
+/**
+ * Raw samples of a grayscale PNG, before they are mapped to temperatures.
+ */
+export interface GrayscaleImage {
+    width: number;
+    height: number;
+    samples: Uint16Array;
+    maxSample: number; // 255 or 65535
+}
+
+export type ThermalStatistic = 'max' | 'mean';
+
+/**
+ * Matching points picked on the photo and on the thermal capture, both normalized.
+ * No pairs means the two frames show exactly the same area.
+ */
+export interface ThermalRegistration {
+    photo: Point[];
+    thermal: Point[];
+}
+
+export interface ThermalMeasurementOptions {
+    statistic: ThermalStatistic;
+    overheatThreshold: number; // °C
+    side: BoardSide; // the side the capture shows
+}
+
+// Maps a point normalized to the photo to a point in thermal pixels.
+export type PhotoToThermal = (point: Point) => Point;
+
+export const DEFAULT_OVERHEAT_THRESHOLD = 70;
+
+// Overheating defects are drawn a little larger than the part to show the heat zone.
+const HEAT_ZONE_MARGIN = 0.1;
+
+// Samples per bbox edge; enough to hit every thermal pixel of typical 320×240 captures.
+const MAX_SAMPLES_PER_EDGE = 32;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+const toMatrix = (width: number, height: number, data: Float32Array): ThermalMatrix => {
+    let min = Infinity;
+    let max = -Infinity;
+    data.forEach(t => {
+        if (t < min) min = t;
+        if (t > max) max = t;
+    });
+    return { width, height, data, min, max };
+};
+
+/**
+ * Parses a temperature matrix exported as CSV, one row of °C values per line.
+ * Header and footer lines that are not all numbers, as written by camera software, are skipped.
+ */
+export const parseThermalCsv = (text: string): ThermalMatrix => {
+    const rows = parseCsv(text)
+        .map(row => {
+            // Many exports end each line with a delimiter.
+            const fields = row[row.length - 1].trim() === '' ? row.slice(0, -1) : row;
+            return fields.map(parseLocaleNumber);
+        })
+        .filter(values => values.length > 1 && values.every(v => !isNaN(v)));
+
+    if (rows.length < 2) {
+        throw new Error("No temperature matrix found. The CSV should contain one row of temperatures per line.");
+    }
+    const width = rows[0].length;
+    if (rows.some(r => r.length !== width)) {
+        throw new Error("The temperature matrix rows have different lengths.");
+    }
+    return toMatrix(width, rows.length, Float32Array.from(rows.flat()));
+};
+
+const paeth = (a: number, b: number, c: number) => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+};
+
+/**
+ * Decodes an 8- or 16-bit grayscale PNG without losing precision. Browsers only hand
+ * canvases 8 bits per channel, which is too coarse for temperatures.
+ */
+export const decodeGrayscalePng = async (file: Blob): Promise<GrayscaleImage> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+        throw new Error("Thermal images must be PNG files.");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let width = 0;
+    let height = 0;
+    let bitDepth = 0;
+    const idat: Uint8Array[] = [];
+    for (let offset = 8; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'IHDR') {
+            width = view.getUint32(offset + 8);
+            height = view.getUint32(offset + 12);
+            bitDepth = data[8];
+            const colorType = data[9];
+            const interlace = data[12];
+            if (colorType !== 0 || (bitDepth !== 8 && bitDepth !== 16)) {
+                throw new Error("Thermal images must be 8- or 16-bit grayscale PNGs, not color images.");
+            }
+            if (interlace !== 0) {
+                throw new Error("Interlaced PNGs are not supported for thermal data.");
+            }
+        } else if (type === 'IDAT') {
+            idat.push(data);
+        } else if (type === 'IEND') {
+            break;
+        }
+        offset += 12 + length;
+    }
+    if (!width || idat.length === 0) throw new Error("The PNG file is incomplete.");
+
+    const inflated = new Uint8Array(await new Response(
+        new Blob(idat).stream().pipeThrough(new DecompressionStream('deflate'))
+    ).arrayBuffer());
+
+    const bytesPerPixel = bitDepth / 8;
+    const stride = width * bytesPerPixel;
+    const pixels = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = inflated[y * (stride + 1)];
+        const line = inflated.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const out = y * stride;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= bytesPerPixel ? pixels[out + x - bytesPerPixel] : 0;
+            const up = y > 0 ? pixels[out - stride + x] : 0;
+            const upLeft = y > 0 && x >= bytesPerPixel ? pixels[out - stride + x - bytesPerPixel] : 0;
+            const predictor = filter === 1 ? left
+                : filter === 2 ? up
+                : filter === 3 ? (left + up) >> 1
+                : filter === 4 ? paeth(left, up, upLeft)
+                : 0;
+            pixels[out + x] = (line[x] + predictor) & 0xFF;
+        }
+    }
+
+    const samples = new Uint16Array(width * height);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = bitDepth === 16 ? (pixels[i * 2] << 8) | pixels[i * 2 + 1] : pixels[i];
+    }
+    return { width, height, samples, maxSample: bitDepth === 16 ? 65535 : 255 };
+};
+
+/**
+ * Converts grayscale samples to temperatures, with black at `minTemp` and white at `maxTemp`.
+ */
+export const grayscaleToMatrix = (image: GrayscaleImage, minTemp: number, maxTemp: number): ThermalMatrix => {
+    const scale = (maxTemp - minTemp) / image.maxSample;
+    return toMatrix(image.width, image.height, Float32Array.from(image.samples, s => minTemp + s * scale));
+};
+
+/**
+ * The similarity transform (scale, rotation, translation) taking two points onto two others.
+ */
+const similarityFromPairs = (from: Point[], to: Point[]): ((p: Point) => Point) => {
+    // As complex numbers: to = a * from + b.
+    const dx = from[1].x - from[0].x;
+    const dy = from[1].y - from[0].y;
+    const ex = to[1].x - to[0].x;
+    const ey = to[1].y - to[0].y;
+    const denom = dx * dx + dy * dy;
+    if (denom === 0) throw new Error("The two registration points on the photo must be different.");
+    const ar = (ex * dx + ey * dy) / denom;
+    const ai = (ey * dx - ex * dy) / denom;
+    const br = to[0].x - (ar * from[0].x - ai * from[0].y);
+    const bi = to[0].y - (ar * from[0].y + ai * from[0].x);
+    return ({ x, y }) => ({ x: ar * x - ai * y + br, y: ai * x + ar * y + bi });
+};
+
+/**
+ * Builds the mapping from photo coordinates to thermal pixels from the picked point pairs.
+ * Two pairs fix position, scale and rotation; four also correct for a different viewing angle.
+ * @param registration - Matching points on the photo and the capture.
+ * @param photoSize - Photo size in pixels, so the fit is not skewed by differing aspect ratios.
+ * @param matrix - The thermal capture.
+ */
+export const buildPhotoToThermal = (
+    registration: ThermalRegistration,
+    photoSize: { width: number; height: number },
+    matrix: ThermalMatrix
+): PhotoToThermal => {
+    const toPhotoPx = (p: Point) => ({ x: p.x * photoSize.width, y: p.y * photoSize.height });
+    const toThermalPx = (p: Point) => ({ x: p.x * matrix.width, y: p.y * matrix.height });
+    const pairs = Math.min(registration.photo.length, registration.thermal.length);
+
+    if (pairs === 0) return toThermalPx;
+    if (pairs >= 4) {
+        const h = solveHomography(registration.photo.slice(0, 4).map(toPhotoPx), registration.thermal.slice(0, 4).map(toThermalPx));
+        return p => applyHomography(h, toPhotoPx(p));
+    }
+    if (pairs >= 2) {
+        const map = similarityFromPairs(registration.photo.slice(0, 2).map(toPhotoPx), registration.thermal.slice(0, 2).map(toThermalPx));
+        return p => map(toPhotoPx(p));
+    }
+    throw new Error("Registration needs two or four point pairs.");
+};
+
+/**
+ * Reads the temperatures inside a photo bbox by sampling a grid across it.
+ * Returns null when the box lies entirely outside the thermal frame.
+ */
+export const measureRegion = (
+    matrix: ThermalMatrix,
+    photoToThermal: PhotoToThermal,
+    bbox: BoundingBox
+): { max: number; mean: number } | null => {
+    // Size the grid to the box's footprint on the capture so small parts are not oversampled.
+    const a = photoToThermal({ x: bbox.x, y: bbox.y });
+    const b = photoToThermal({ x: bbox.x + bbox.w, y: bbox.y + bbox.h });
+    const steps = Math.max(2, Math.min(MAX_SAMPLES_PER_EDGE, Math.ceil(Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y))) + 1));
+
+    let max = -Infinity;
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < steps; i++) {
+        for (let j = 0; j < steps; j++) {
+            const p = photoToThermal({ x: bbox.x + (bbox.w * (i + 0.5)) / steps, y: bbox.y + (bbox.h * (j + 0.5)) / steps });
+            const tx = Math.floor(p.x);
+            const ty = Math.floor(p.y);
+            if (tx < 0 || ty < 0 || tx >= matrix.width || ty >= matrix.height) continue;
+            const t = matrix.data[ty * matrix.width + tx];
+            if (t > max) max = t;
+            sum += t;
+            count++;
+        }
+    }
+    return count > 0 ? { max, mean: sum / count } : null;
+};
+
+const heatZone = (bbox: BoundingBox): BoundingBox =>
+    clampBBox({
+        x: bbox.x - bbox.w * HEAT_ZONE_MARGIN,
+        y: bbox.y - bbox.h * HEAT_ZONE_MARGIN,
+        w: bbox.w * (1 + 2 * HEAT_ZONE_MARGIN),
+        h: bbox.h * (1 + 2 * HEAT_ZONE_MARGIN),
+    }) ?? bbox;
+
+/**
+ * Replaces model-estimated temperatures on one side with measured ones and rebuilds the
+ * overheating defects of that side from the measurements. Parts outside the thermal frame
+ * keep their estimate and are reported as warnings.
+ * @param analysis - The current inspection.
+ * @param matrix - The thermal capture.
+ * @param photoToThermal - Registration of the photo of `options.side` onto the capture.
+ * @param options - Which statistic to use, the overheating limit and the side shown.
+ */
+export const applyThermalMeasurements = (
+    analysis: PcbAnalysis,
+    matrix: ThermalMatrix,
+    photoToThermal: PhotoToThermal,
+    options: ThermalMeasurementOptions
+): AnalysisResult => {
+    const warnings: ValidationWarning[] = [];
+    const twoSided = isTwoSided(analysis);
+    const overheated: Component[] = [];
+
+    const components = analysis.components.map(c => {
+        if (getSide(c) !== options.side) return c;
+        const reading = measureRegion(matrix, photoToThermal, c.bbox);
+        if (!reading) {
+            warnings.push({ path: `thermal.components.${c.designator}`, message: "Outside the thermal frame; temperature not measured." });
+            return c;
+        }
+        const measured: Component = { ...c, temperature: reading[options.statistic], temperatureSource: 'thermal' };
+        if (measured.temperature! >= options.overheatThreshold) overheated.push(measured);
+        return measured;
+    });
+
+    const kept = analysis.defects.filter(d => d.type !== 'overheating' || getSide(d) !== options.side);
+    const ids = new Set(kept.map(d => d.id));
+    const statisticLabel = options.statistic === 'max' ? 'peak' : 'average';
+    const measuredDefects: Defect[] = overheated.map(c => ({
+        id: reserveDesignator(`TH-${c.designator}`, ids),
+        type: 'overheating',
+        bbox: heatZone(c.bbox),
+        confidence: 1,
+        description: `${c.designator} measured ${c.temperature!.toFixed(1)}°C (${statisticLabel}), above the ${options.overheatThreshold}°C limit.`,
+        ...(twoSided ? { side: options.side } : {}),
+    }));
+
+    return {
+        analysis: { ...analysis, components, defects: [...kept, ...measuredDefects] },
+        warnings,
+    };
+};
+
+// Ironbow-style palette stops: black, purple, red, orange, yellow, white.
+const PALETTE: [number, number, number][] = [[0, 0, 0], [80, 0, 130], [200, 30, 40], [245, 120, 0], [255, 220, 40], [255, 255, 255]];
+
+const paletteColor = (t: number): [number, number, number] => {
+    const position = Math.max(0, Math.min(1, t)) * (PALETTE.length - 1);
+    const i = Math.min(PALETTE.length - 2, Math.floor(position));
+    const f = position - i;
+    return [0, 1, 2].map(c => PALETTE[i][c] + (PALETTE[i + 1][c] - PALETTE[i][c]) * f) as [number, number, number];
+};
+
+/**
+ * Renders a capture in false color for on-screen registration.
+ */
+export const renderThermalMatrix = (matrix: ThermalMatrix): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = matrix.width;
+    canvas.height = matrix.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a canvas to show the thermal image.");
+    const image = ctx.createImageData(matrix.width, matrix.height);
+    const range = matrix.max - matrix.min || 1;
+    matrix.data.forEach((t, i) => {
+        const [r, g, b] = paletteColor((t - matrix.min) / range);
+        image.data[i * 4] = r;
+        image.data[i * 4 + 1] = g;
+        image.data[i * 4 + 2] = b;
+        image.data[i * 4 + 3] = 255;
+    });
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Advice, Component, PcbAnalysis } from '../types';
+import { computeTiles, mergeTileAnalyses } from './tiledProvider';
+
+const WIDTH = 3000;
+const HEIGHT = 1000;
+const [left, right] = computeTiles(WIDTH, HEIGHT, { tileSize: 2048, overlap: 0.2 });
+
+const advice = (repair_cost?: number): Advice => ({ quick_actions: [], alternatives: [], next_steps: [], repair_cost });
+
+const part = (designator: string, mpn: string, x: number, w: number, extra: Partial<Component> = {}): Component => ({
+    designator, mpn, presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x, y: 0.4, w, h: 0.2 },
+    ...extra,
+});
+
+const analysis = (components: Component[], cost?: number): PcbAnalysis => ({ components, defects: [], summary: '', advice: advice(cost) });
+
+// Converts a box in full-image pixels to one normalized to the tile.
+const inTile = (tile: typeof left, xPx: number, wPx: number) => ({ x: (xPx - tile.x) / tile.w, w: wPx / tile.w });
+
+describe('computeTiles', () => {
+    it('covers the image with overlapping tiles ending at the edge', () => {
+        expect(computeTiles(WIDTH, HEIGHT, { tileSize: 2048, overlap: 0.2 }).map(t => [t.x, t.w])).toEqual([[0, 2048], [952, 2048]]);
+        expect(computeTiles(1000, 800, { tileSize: 2048, overlap: 0.2 })).toHaveLength(1);
+    });
+});
+
+describe('mergeTileAnalyses', () => {
+    it('merges a part seen by both tiles in their shared area', () => {
+        const a = inTile(left, 1500, 100);
+        const b = inTile(right, 1500, 100);
+        const { analysis: merged } = mergeTileAnalyses([
+            { tile: left, analysis: analysis([part('U1', 'STM32F103', a.x, a.w)]) },
+            { tile: right, analysis: analysis([part('U1', 'STM32F103', b.x, b.w, { confidence: 0.8 })]) },
+        ], WIDTH, HEIGHT);
+        expect(merged.components).toHaveLength(1);
+    });
+
+    it('keeps a part inside a larger outline from the same tile', () => {
+        const connector = inTile(left, 200, 400);
+        const resistor = inTile(left, 300, 40);
+        const { analysis: merged } = mergeTileAnalyses([
+            { tile: left, analysis: analysis([part('J1', 'Molex 53047', connector.x, connector.w), part('R5', '', resistor.x, resistor.w)]) },
+            { tile: right, analysis: analysis([]) },
+        ], WIDTH, HEIGHT);
+        expect(merged.components.map(c => c.designator).sort()).toEqual(['J1', 'R5']);
+        expect(merged.components.find(c => c.designator === 'J1')!.bbox.w).toBeCloseTo(400 / WIDTH);
+    });
+
+    it('does not merge different kinds of parts across the seam', () => {
+        const shield = inTile(left, 1400, 400);
+        const cap = inTile(right, 1500, 60);
+        const { analysis: merged } = mergeTileAnalyses([
+            { tile: left, analysis: analysis([part('SH1', '', shield.x, shield.w, { componentClass: 'other' })]) },
+            { tile: right, analysis: analysis([part('C7', '', cap.x, cap.w, { componentClass: 'capacitor' })]) },
+        ], WIDTH, HEIGHT);
+        expect(merged.components).toHaveLength(2);
+    });
+
+    it('takes the largest tile estimate instead of summing overlapping tiles', () => {
+        const { analysis: merged } = mergeTileAnalyses([
+            { tile: left, analysis: analysis([], 40) },
+            { tile: right, analysis: analysis([], 25) },
+        ], WIDTH, HEIGHT);
+        expect(merged.advice.repair_cost).toBe(40);
+    });
+});
@@ -0,0 +1,242 @@
+import type { PcbAnalysis, Component, Defect, BoundingBox, ValidationWarning, AnalysisResult } from '../types';
+import type { AnalysisProvider, AnalyzeOptions } from './analysisProvider';
+import { iou, overlapOfSmaller, unionBBox, intersectionArea } from './bboxUtils';
+import { clampBBox, reserveDesignator } from './analysisValidator';
+import { mergeAdvice } from './analysisMerge';
+import { getComponentClass } from './componentClass';
+
+export interface TilingOptions {
+    tileSize: number; // tile edge in source pixels
+    overlap: number; // fraction of the tile shared with its neighbour, 0–0.5
+}
+
+export const DEFAULT_TILING_OPTIONS: TilingOptions = {
+    tileSize: 2048,
+    overlap: 0.2,
+};
+
+interface Tile {
+    row: number;
+    col: number;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// A finding in full-image coordinates, with the tile that reported it.
+export interface TileFinding<T> {
+    item: T;
+    tile: Tile;
+}
+
+// Boxes from neighbouring tiles are treated as the same finding above these ratios.
+const IOU_THRESHOLD = 0.5;
+const CONTAINMENT_THRESHOLD = 0.8;
+
+/**
+ * Evenly spaced tile origins along one axis so the last tile ends at the image edge.
+ */
+const tileOrigins = (length: number, tileSize: number, overlap: number): number[] => {
+    if (length <= tileSize) return [0];
+    const step = tileSize * (1 - overlap);
+    const count = Math.ceil((length - tileSize) / step) + 1;
+    const spacing = (length - tileSize) / (count - 1);
+    return Array.from({ length: count }, (_, i) => Math.round(i * spacing));
+};
+
+/**
+ * Splits an image into overlapping tiles.
+ * @param width - Image width in pixels.
+ * @param height - Image height in pixels.
+ * @param options - Tile size and overlap.
+ */
+export const computeTiles = (width: number, height: number, options: TilingOptions): Tile[] => {
+    const xs = tileOrigins(width, options.tileSize, options.overlap);
+    const ys = tileOrigins(height, options.tileSize, options.overlap);
+    return ys.flatMap((y, row) => xs.map((x, col) => ({
+        row,
+        col,
+        x,
+        y,
+        w: Math.min(options.tileSize, width - x),
+        h: Math.min(options.tileSize, height - y),
+    })));
+};
+
+const cropTile = async (bitmap: ImageBitmap, tile: Tile, source: File): Promise<File> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = tile.w;
+    canvas.height = tile.h;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a canvas to crop image tiles.");
+    ctx.drawImage(bitmap, tile.x, tile.y, tile.w, tile.h, 0, 0, tile.w, tile.h);
+
+    const mimeType = source.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, 0.92));
+    if (!blob) throw new Error("Could not encode an image tile.");
+    return new File([blob], `tile_r${tile.row}_c${tile.col}.${mimeType === 'image/png' ? 'png' : 'jpg'}`, { type: mimeType });
+};
+
+/**
+ * Maps a box normalized to a tile back to coordinates normalized to the full image.
+ */
+const tileToImage = (bbox: BoundingBox, tile: Tile, width: number, height: number): BoundingBox => ({
+    x: (tile.x + bbox.x * tile.w) / width,
+    y: (tile.y + bbox.y * tile.h) / height,
+    w: (bbox.w * tile.w) / width,
+    h: (bbox.h * tile.h) / height,
+});
+
+const isSameFinding = (a: BoundingBox, b: BoundingBox) =>
+    iou(a, b) >= IOU_THRESHOLD || overlapOfSmaller(a, b) >= CONTAINMENT_THRESHOLD;
+
+/**
+ * The part of the image two tiles share, normalized to the full image, or null for tiles that do not overlap.
+ */
+const sharedArea = (a: Tile, b: Tile, width: number, height: number): BoundingBox | null => {
+    const x = Math.max(a.x, b.x);
+    const y = Math.max(a.y, b.y);
+    const w = Math.min(a.x + a.w, b.x + b.w) - x;
+    const h = Math.min(a.y + a.h, b.y + b.h) - y;
+    return w > 0 && h > 0 ? { x: x / width, y: y / height, w: w / width, h: h / height } : null;
+};
+
+/**
+ * Overlap suppression across tile seams. Two findings are only the same one when they come
+ * from different tiles, both reach into the area those tiles share, and they are of the same
+ * kind; findings within one tile are the model's own and are never merged, so a part inside
+ * a connector or shield outline stays a part. Matching findings are collapsed into the most
+ * confident one, whose box grows to cover both so a part cut by a seam is whole again.
+ * @param findings - Findings from all tiles, in full-image coordinates.
+ * @param sameKind - Only findings of the same kind may be merged.
+ * @param width - Full image width in pixels.
+ * @param height - Full image height in pixels.
+ */
+export const suppressDuplicates = <T extends { bbox: BoundingBox; confidence: number }>(
+    findings: TileFinding<T>[],
+    sameKind: (a: T, b: T) => boolean,
+    width: number,
+    height: number
+): T[] => {
+    const inSeam = (a: TileFinding<T>, b: TileFinding<T>) => {
+        if (a.tile === b.tile) return false;
+        const seam = sharedArea(a.tile, b.tile, width, height);
+        return !!seam && intersectionArea(a.item.bbox, seam) > 0 && intersectionArea(b.item.bbox, seam) > 0;
+    };
+    const sorted = [...findings].sort((a, b) => b.item.confidence - a.item.confidence);
+    const kept: TileFinding<T>[] = [];
+    sorted.forEach(finding => {
+        const match = kept.find(k => inSeam(k, finding) && sameKind(k.item, finding.item) && isSameFinding(k.item.bbox, finding.item.bbox));
+        if (match) {
+            match.item.bbox = unionBBox(match.item.bbox, finding.item.bbox);
+        } else {
+            kept.push({ ...finding, item: { ...finding.item, bbox: { ...finding.item.bbox } } });
+        }
+    });
+    return kept.map(k => k.item);
+};
+
+/**
+ * Combines per-tile analyses into one analysis of the full image.
+ * @param tileResults - Each tile with its analysis, boxes still relative to the tile.
+ * @param width - Full image width in pixels.
+ * @param height - Full image height in pixels.
+ */
+export const mergeTileAnalyses = (
+    tileResults: { tile: Tile; analysis: PcbAnalysis }[],
+    width: number,
+    height: number
+): AnalysisResult => {
+    const warnings: ValidationWarning[] = [];
+
+    const mapped = <T extends { bbox: BoundingBox }>(items: T[], tile: Tile): TileFinding<T>[] =>
+        items.flatMap(item => {
+            const bbox = clampBBox(tileToImage(item.bbox, tile, width, height));
+            return bbox ? [{ item: { ...item, bbox }, tile }] : [];
+        });
+
+    // A part cut by a seam keeps its designator or at least its class in both tiles.
+    const components = suppressDuplicates(
+        tileResults.flatMap(({ tile, analysis }) => mapped(analysis.components, tile)),
+        (a, b) => a.designator === b.designator || getComponentClass(a) === getComponentClass(b),
+        width,
+        height
+    );
+    const defects = suppressDuplicates(
+        tileResults.flatMap(({ tile, analysis }) => mapped(analysis.defects, tile)),
+        (a, b) => a.type === b.type,
+        width,
+        height
+    );
+
+    // Each tile names its parts independently, so "U1" can come back from several tiles.
+    const seenDesignators = new Set<string>();
+    const uniqueComponents: Component[] = components.map(c => {
+        const designator = reserveDesignator(c.designator, seenDesignators);
+        if (designator !== c.designator) {
+            warnings.push({ path: `components.${c.designator}`, message: `Designator reused by another tile; renamed to "${designator}".` });
+        }
+        return { ...c, designator };
+    });
+    const seenDefectIds = new Set<string>();
+    const uniqueDefects: Defect[] = defects.map(d => ({ ...d, id: reserveDesignator(d.id, seenDefectIds) }));
+
+    const busiest = [...tileResults].sort((a, b) => b.analysis.defects.length - a.analysis.defects.length)[0];
+    const summary = `Tiled analysis of ${tileResults.length} tiles found ${uniqueComponents.length} components and ${uniqueDefects.length} defects. ${busiest?.analysis.summary ?? ''}`.trim();
+
+    return {
+        analysis: {
+            components: uniqueComponents,
+            defects: uniqueDefects,
+            summary,
+            // Tiles overlap, so a defect seen in two of them would be priced twice if costs were summed.
+            advice: mergeAdvice(tileResults.map(r => r.analysis.advice), 'max'),
+        },
+        warnings,
+    };
+};
+
+/**
+ * Wraps a provider so large images are analyzed as overlapping tiles and the
+ * results merged back into a single PcbAnalysis for the whole board.
+ * Images that fit in one tile are passed straight through.
+ * @param inner - The provider that analyzes each tile.
+ * @param options - Tile size and overlap.
+ */
+export const createTiledProvider = (inner: AnalysisProvider, options: TilingOptions = DEFAULT_TILING_OPTIONS): AnalysisProvider => ({
+    id: `${inner.id}:tiled`,
+    name: `${inner.name} (tiled)`,
+    description: `Splits large images into ${options.tileSize}px tiles and analyzes each with ${inner.name}.`,
+    analyze: async (imageFile: File, analyzeOptions: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+        const { signal, onProgress } = analyzeOptions;
+        onProgress?.({ stage: 'preparing' });
+        const bitmap = await createImageBitmap(imageFile);
+        try {
+            const tiles = computeTiles(bitmap.width, bitmap.height, options);
+            if (tiles.length === 1) {
+                return await inner.analyze(imageFile, analyzeOptions);
+            }
+
+            const tileResults: { tile: Tile; analysis: PcbAnalysis }[] = [];
+            const tileWarnings: ValidationWarning[] = [];
+            // Tiles run one after another to stay clear of API rate limits.
+            for (const [index, tile] of tiles.entries()) {
+                signal?.throwIfAborted();
+                const tileLabel = `Tile ${index + 1} of ${tiles.length}`;
+                const result = await inner.analyze(await cropTile(bitmap, tile, imageFile), {
+                    signal,
+                    onProgress: p => onProgress?.({ ...p, detail: p.detail ? `${tileLabel} · ${p.detail}` : tileLabel }),
+                });
+                tileResults.push({ tile, analysis: result.analysis });
+                result.warnings.forEach(w => tileWarnings.push({ ...w, path: `tile[${tile.row},${tile.col}].${w.path}` }));
+            }
+
+            onProgress?.({ stage: 'validating', detail: `Merging ${tiles.length} tiles` });
+            const merged = mergeTileAnalyses(tileResults, bitmap.width, bitmap.height);
+            return { analysis: merged.analysis, warnings: [...tileWarnings, ...merged.warnings] };
+        } finally {
+            bitmap.close();
+        }
+    },
+});
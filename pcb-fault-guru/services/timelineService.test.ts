@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, Defect, InspectionRecord, PcbAnalysis } from '../types';
+import { buildUnitTimeline, collectFindings, matchFindings } from './timelineService';
+
+const part = (designator: string, x: number, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x, y: 0.5, w: 0.04, h: 0.04 },
+    ...extra,
+});
+
+const defect = (id: string, x: number, extra: Partial<Defect> = {}): Defect => ({
+    id, type: 'solder_bridge', confidence: 0.9, bbox: { x, y: 0.5, w: 0.02, h: 0.02 }, ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[] = []): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+const visit = (id: string, createdAt: string, a: PcbAnalysis) => ({ id, name: id, createdAt, analysis: a }) as InspectionRecord;
+
+describe('collectFindings', () => {
+    it('ties a defect to the part under it', () => {
+        const findings = collectFindings(analysis([part('U1', 0.5)], [defect('D1', 0.51)]));
+        expect(findings).toEqual([expect.objectContaining({ kind: 'defect', designator: 'U1', key: 'top:U1:solder_bridge' })]);
+    });
+
+    it('leaves out findings triaged as false positives', () => {
+        const triage = { verdict: 'false_positive' as const, triagedAt: '' };
+        const findings = collectFindings(analysis([part('R1', 0.1, { condition: 'burnt', triage })], [defect('D1', 0.8, { triage })]));
+        expect(findings).toHaveLength(0);
+    });
+});
+
+describe('matchFindings', () => {
+    it('matches a part renamed between visits by its location', () => {
+        const before = collectFindings(analysis([part('R12', 0.3, { condition: 'burnt' })]));
+        const after = collectFindings(analysis([part('R13', 0.3, { condition: 'burnt' })]));
+        const { pairs, unmatchedBefore, unmatchedAfter } = matchFindings(before, after);
+        expect(pairs.size).toBe(1);
+        expect(unmatchedBefore).toHaveLength(0);
+        expect(unmatchedAfter).toHaveLength(0);
+    });
+
+    it('prefers the designator over a neighbour at the same spot', () => {
+        const before = collectFindings(analysis([part('R1', 0.3, { condition: 'burnt' }), part('R2', 0.31, { condition: 'burnt' })]));
+        const after = collectFindings(analysis([part('R2', 0.31, { condition: 'burnt' })]));
+        const { pairs, unmatchedBefore } = matchFindings(before, after);
+        expect(pairs.get(before[1])?.designator).toBe('R2');
+        expect(unmatchedBefore.map(f => f.designator)).toEqual(['R1']);
+    });
+
+    it('does not match different problems at the same spot', () => {
+        const before = collectFindings(analysis([part('R1', 0.3, { condition: 'burnt' })]));
+        const after = collectFindings(analysis([part('R1', 0.3, { condition: 'corroded' })]));
+        expect(matchFindings(before, after).pairs.size).toBe(0);
+    });
+});
+
+describe('buildUnitTimeline', () => {
+    it('reports what was added and fixed between visits, in date order', () => {
+        const timeline = buildUnitTimeline([
+            visit('second', '2024-02-01', analysis([part('R13', 0.3, { condition: 'burnt' }), part('C4', 0.7, { presence: 'missing' })])),
+            visit('first', '2024-01-01', analysis([part('R12', 0.3, { condition: 'burnt' }), part('U1', 0.1, { condition: 'corroded' })])),
+        ]);
+        expect(timeline.visits.map(v => v.inspectionId)).toEqual(['first', 'second']);
+        const [, second] = timeline.visits;
+        expect(second.added.map(f => f.designator)).toEqual(['C4']);
+        expect(second.fixed.map(f => f.designator)).toEqual(['U1']);
+    });
+
+    it('counts designators that fail on more than one visit', () => {
+        const timeline = buildUnitTimeline([
+            visit('a', '2024-01-01', analysis([part('U1', 0.1, { condition: 'burnt' })])),
+            visit('b', '2024-02-01', analysis([part('U1', 0.1)])),
+            visit('c', '2024-03-01', analysis([part('U1', 0.1, { condition: 'burnt' })])),
+        ]);
+        expect(timeline.repeatFailures).toEqual([{ designator: 'U1', count: 2 }]);
+    });
+});
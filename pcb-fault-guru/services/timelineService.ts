@@ -0,0 +1,126 @@
+import type { PcbAnalysis, Component, InspectionRecord, UnitFinding, TimelineVisit, UnitTimeline, Triage } from '../types';
+import { overlapOfSmaller } from './bboxUtils';
+import { getSide } from './analysisMerge';
+import { isSameLocation } from './goldenService';
+
+// A defect belongs to a part when this much of the smaller box overlaps it.
+const DEFECT_ON_PART_OVERLAP = 0.5;
+
+const componentIssues = (c: Component): string[] => [
+    ...(c.presence === 'missing' ? ['missing'] : []),
+    ...(c.condition !== 'ok' ? [c.condition] : []),
+];
+
+/**
+ * The part a defect sits on: the one it overlaps most, on the same side.
+ */
+const partUnder = (analysis: PcbAnalysis, defect: PcbAnalysis['defects'][number]): Component | null => {
+    let best: Component | null = null;
+    let bestOverlap = DEFECT_ON_PART_OVERLAP;
+    analysis.components.forEach(c => {
+        if (getSide(c) !== getSide(defect)) return;
+        const overlap = overlapOfSmaller(c.bbox, defect.bbox);
+        if (overlap >= bestOverlap) {
+            best = c;
+            bestOverlap = overlap;
+        }
+    });
+    return best;
+};
+
+// A finding a reviewer marked as a false positive was never wrong with the board.
+const isFalsePositive = (item: { triage?: Triage }) => item.triage?.verdict === 'false_positive';
+
+/**
+ * Everything wrong with the board on one visit, each tied to a designator where possible.
+ */
+export const collectFindings = (analysis: PcbAnalysis): UnitFinding[] => {
+    const fromComponents = analysis.components.filter(c => !isFalsePositive(c)).flatMap(c => componentIssues(c).map((type): UnitFinding => ({
+        key: `${getSide(c)}:${c.designator}:${type}`,
+        kind: 'component',
+        type,
+        designator: c.designator,
+        side: getSide(c),
+        bbox: c.bbox,
+    })));
+    const fromDefects = analysis.defects.filter(d => !isFalsePositive(d)).map((d): UnitFinding => {
+        const part = partUnder(analysis, d);
+        return {
+            key: part ? `${getSide(d)}:${part.designator}:${d.type}` : `${getSide(d)}:${d.id}:${d.type}`,
+            kind: 'defect',
+            type: d.type,
+            designator: part?.designator ?? null,
+            side: getSide(d),
+            bbox: d.bbox,
+        };
+    });
+    return [...fromComponents, ...fromDefects];
+};
+
+const sameDesignator = (a: UnitFinding, b: UnitFinding) => !!a.designator && !!b.designator && a.key === b.key;
+
+const sameSpot = (a: UnitFinding, b: UnitFinding) =>
+    a.kind === b.kind && a.type === b.type && a.side === b.side && isSameLocation(a.bbox, b.bbox);
+
+/**
+ * Pairs the findings of two visits one to one: first by designator, then the rest by type
+ * and location, since the model does not always name the same part the same way twice
+ * (R12 on one photo, R13 on the next).
+ * @param before - The findings of the earlier visit.
+ * @param after - The findings of the later visit.
+ */
+export const matchFindings = (before: UnitFinding[], after: UnitFinding[]) => {
+    const pairs = new Map<UnitFinding, UnitFinding>(); // earlier finding to later finding
+    const unmatchedAfter = new Set(after);
+    const pass = (candidates: UnitFinding[], isSame: (a: UnitFinding, b: UnitFinding) => boolean) =>
+        candidates.filter(finding => {
+            const match = Array.from(unmatchedAfter).find(a => isSame(finding, a));
+            if (!match) return true;
+            pairs.set(finding, match);
+            unmatchedAfter.delete(match);
+            return false;
+        });
+    const unmatchedBefore = pass(pass(before, sameDesignator), sameSpot);
+    return { pairs, unmatchedBefore, unmatchedAfter: Array.from(unmatchedAfter) };
+};
+
+/**
+ * Builds a unit's history from its inspections: what was added and fixed between
+ * consecutive visits, and which designators failed on more than one visit.
+ * @param records - Every inspection of the unit, in any order.
+ */
+export const buildUnitTimeline = (records: InspectionRecord[]): UnitTimeline => {
+    const sorted = [...records].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const failuresByDesignator = new Map<string, number>();
+
+    const visits = sorted.map((record, i): TimelineVisit => {
+        const findings = collectFindings(record.analysis);
+        const previous = i > 0 ? collectFindings(sorted[i - 1].analysis) : [];
+        const { unmatchedBefore: fixed, unmatchedAfter: added } = matchFindings(previous, findings);
+
+        // Count each visit once per designator, however many new problems it brought.
+        new Set(added.flatMap(f => (f.designator ? [f.designator] : []))).forEach(designator => {
+            failuresByDesignator.set(designator, (failuresByDesignator.get(designator) ?? 0) + 1);
+        });
+
+        return {
+            inspectionId: record.id,
+            name: record.name,
+            createdAt: record.createdAt,
+            findings,
+            added,
+            fixed,
+        };
+    });
+
+    const repeatFailures = Array.from(failuresByDesignator, ([designator, count]) => ({ designator, count }))
+        .filter(r => r.count > 1)
+        .sort((a, b) => b.count - a.count || a.designator.localeCompare(b.designator));
+
+    return { visits, repeatFailures };
+};
+
+export const describeFinding = (finding: UnitFinding): string => {
+    const type = finding.type.replace(/_/g, ' ');
+    return finding.designator ? `${finding.designator} ${type}` : type;
+};
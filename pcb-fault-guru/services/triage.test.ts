@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Component, Defect, PcbAnalysis } from '../types';
+import { countTriaged, createTriage, getVerdictInfo, TRIAGE_VERDICTS } from './triage';
+
+const bbox = { x: 0.1, y: 0.2, w: 0.2, h: 0.1 };
+
+const part = (designator: string, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9, bbox, ...extra,
+});
+
+const defect = (id: string, extra: Partial<Defect> = {}): Defect => ({
+    id, type: 'void', confidence: 0.9, bbox, ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[] = []): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('createTriage', () => {
+    it('keeps a corrected class only for wrong-class verdicts', () => {
+        expect(createTriage('wrong_class', 'cold_joint')).toMatchObject({ verdict: 'wrong_class', correctedClass: 'cold_joint' });
+        expect(createTriage('wrong_class', '')).not.toHaveProperty('correctedClass');
+        expect(createTriage('confirmed', 'cold_joint')).not.toHaveProperty('correctedClass');
+    });
+
+    it('records when the verdict was given', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-03-01T12:00:00.000Z'));
+        expect(createTriage('false_positive')).toEqual({ verdict: 'false_positive', triagedAt: '2024-03-01T12:00:00.000Z' });
+    });
+});
+
+describe('getVerdictInfo', () => {
+    it('describes every verdict', () => {
+        expect(TRIAGE_VERDICTS.map(v => getVerdictInfo(v.id).id)).toEqual(['confirmed', 'false_positive', 'wrong_class']);
+        expect(getVerdictInfo('false_positive').label).toBe('False Positive');
+    });
+});
+
+describe('countTriaged', () => {
+    it('counts the parts and defects with a verdict', () => {
+        const triage = createTriage('confirmed');
+        expect(countTriaged(analysis([part('R1', { triage }), part('R2')], [defect('D1'), defect('D2', { triage })]))).toEqual({ triaged: 2, total: 4 });
+        expect(countTriaged(analysis([]))).toEqual({ triaged: 0, total: 0 });
+    });
+});
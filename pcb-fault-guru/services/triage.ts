@@ -0,0 +1,31 @@
+import type { PcbAnalysis, Triage, TriageVerdict } from '../types';
+
+export interface TriageVerdictInfo {
+    id: TriageVerdict;
+    label: string;
+    color: string; // badge color
+}
+
+export const TRIAGE_VERDICTS: TriageVerdictInfo[] = [
+    { id: 'confirmed', label: 'Confirmed', color: '#22c55e' },
+    { id: 'false_positive', label: 'False Positive', color: '#ef4444' },
+    { id: 'wrong_class', label: 'Wrong Class', color: '#f59e0b' },
+];
+
+const VERDICT_INFO = new Map(TRIAGE_VERDICTS.map(v => [v.id, v]));
+
+export const getVerdictInfo = (verdict: TriageVerdict): TriageVerdictInfo => VERDICT_INFO.get(verdict)!;
+
+export const createTriage = (verdict: TriageVerdict, correctedClass?: string): Triage => ({
+    verdict,
+    ...(verdict === 'wrong_class' && correctedClass && { correctedClass }),
+    triagedAt: new Date().toISOString(),
+});
+
+/**
+ * How many findings of the analysis have a verdict, out of how many could have one.
+ */
+export const countTriaged = (analysis: PcbAnalysis): { triaged: number; total: number } => {
+    const items = [...analysis.components, ...analysis.defects];
+    return { triaged: items.filter(item => item.triage).length, total: items.length };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Component, Defect, PcbAnalysis } from '../types';
+import { countOutcomes, isRepairVerified, recordRepairedSide, verifiedSides, verifyRepair } from './verificationService';
+
+const part = (designator: string, x: number, extra: Partial<Component> = {}): Component => ({
+    designator, mpn: '', presence: 'ok', condition: 'ok', confidence: 0.9,
+    bbox: { x, y: 0.5, w: 0.04, h: 0.04 },
+    ...extra,
+});
+
+const defect = (id: string, x: number, extra: Partial<Defect> = {}): Defect => ({
+    id, type: 'solder_bridge', confidence: 0.9, bbox: { x, y: 0.2, w: 0.02, h: 0.02 }, ...extra,
+});
+
+const analysis = (components: Component[], defects: Defect[] = []): PcbAnalysis => ({
+    components, defects, summary: '', advice: { quick_actions: [], alternatives: [], next_steps: [] },
+});
+
+describe('verifyRepair', () => {
+    it('sorts findings into resolved, still present and new', () => {
+        const original = analysis([part('R1', 0.1, { condition: 'burnt' }), part('C1', 0.5, { presence: 'missing' })]);
+        const repaired = analysis([part('R1', 0.1), part('C1', 0.5, { presence: 'missing' })], [defect('D1', 0.8)]);
+        const findings = verifyRepair(original, repaired, ['top']);
+        expect(countOutcomes(findings)).toEqual({ resolved: 1, still_present: 1, new: 1 });
+        expect(isRepairVerified(findings)).toBe(false);
+    });
+
+    it('does not report a part renamed on the re-photo as resolved', () => {
+        const original = analysis([part('R12', 0.3, { condition: 'burnt' })]);
+        const repaired = analysis([part('R13', 0.3, { condition: 'burnt' })]);
+        const findings = verifyRepair(original, repaired, ['top']);
+        expect(findings.map(f => f.outcome)).toEqual(['still_present']);
+    });
+
+    it('only compares the sides photographed again', () => {
+        const original = analysis([part('U1', 0.1, { condition: 'burnt', side: 'top' }), part('U2', 0.5, { condition: 'burnt', side: 'bottom' })]);
+        const findings = verifyRepair(original, analysis([part('U1', 0.1, { side: 'top' })]), ['top']);
+        expect(findings.map(f => [f.before?.designator, f.outcome])).toEqual([['U1', 'resolved']]);
+        expect(isRepairVerified(findings)).toBe(true);
+    });
+});
+
+describe('recordRepairedSide', () => {
+    it('adds sides and replaces a side photographed again', () => {
+        const image = new File([], 'after.jpg');
+        const first = recordRepairedSide(null, image, analysis([part('U1', 0.1)]), 'top');
+        const both = recordRepairedSide(first, image, analysis([part('U9', 0.2)]), 'bottom');
+        const again = recordRepairedSide(both, image, analysis([part('U3', 0.1)]), 'top');
+        expect(verifiedSides(again)).toEqual(['top', 'bottom']);
+        expect(again.analysis.components.map(c => `${c.side}:${c.designator}`).sort()).toEqual(['bottom:U9', 'top:U3']);
+        expect(again.id).toBe(first.id);
+    });
+});
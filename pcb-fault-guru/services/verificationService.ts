@@ -0,0 +1,88 @@
+import type { PcbAnalysis, BoardSide, UnitFinding, VerificationOutcome, VerifiedFinding, RepairVerification } from '../types';
+import { mergeBoardSide } from './analysisMerge';
+import { collectFindings, matchFindings } from './timelineService';
+import { newId } from './idUtils';
+
+export interface VerificationOutcomeInfo {
+    id: VerificationOutcome;
+    label: string;
+    color: string; // badge and box color in the before/after images
+}
+
+export const VERIFICATION_OUTCOMES: VerificationOutcomeInfo[] = [
+    { id: 'resolved', label: 'Resolved', color: '#22c55e' },
+    { id: 'still_present', label: 'Still Present', color: '#f59e0b' },
+    { id: 'new', label: 'New', color: '#ef4444' },
+];
+
+const OUTCOME_INFO = new Map(VERIFICATION_OUTCOMES.map(o => [o.id, o]));
+
+export const getOutcomeInfo = (outcome: VerificationOutcome): VerificationOutcomeInfo => OUTCOME_INFO.get(outcome)!;
+
+/**
+ * Adds the analysis of one re-photographed side to the repaired board's analysis.
+ * @param existing - The repaired board so far, or null for its first photo.
+ */
+export const addRepairedSide = (existing: PcbAnalysis | null, incoming: PcbAnalysis, side: BoardSide): PcbAnalysis =>
+    existing
+        ? mergeBoardSide(existing, incoming, side).analysis
+        : {
+            ...incoming,
+            components: incoming.components.map(c => ({ ...c, side })),
+            defects: incoming.defects.map(d => ({ ...d, side })),
+            sideSummaries: { [side]: incoming.summary },
+            sideAdvice: { [side]: incoming.advice },
+        };
+
+/**
+ * Starts or extends a verification with a photo of the repaired board.
+ * Photographing a side again replaces that side.
+ */
+export const recordRepairedSide = (
+    verification: RepairVerification | null,
+    image: File,
+    analysis: PcbAnalysis,
+    side: BoardSide
+): RepairVerification => ({
+    id: verification?.id ?? newId(),
+    verifiedAt: new Date().toISOString(),
+    images: { ...verification?.images, [side]: image },
+    analysis: addRepairedSide(verification?.analysis ?? null, analysis, side),
+});
+
+/**
+ * Matches the findings of the original inspection with those on the repaired board,
+ * by designator first and then by type and location, so a part the model names
+ * differently on the re-photo is not reported as resolved. Only sides that were
+ * photographed again are compared.
+ * @param original - The inspection the repair was planned from.
+ * @param repaired - The analysis of the repaired board.
+ * @param sides - The sides of the repaired board that were photographed.
+ */
+export const verifyRepair = (original: PcbAnalysis, repaired: PcbAnalysis, sides: BoardSide[]): VerifiedFinding[] => {
+    const onVerifiedSide = (f: UnitFinding) => sides.includes(f.side);
+    const before = collectFindings(original).filter(onVerifiedSide);
+    const { pairs, unmatchedAfter } = matchFindings(before, collectFindings(repaired).filter(onVerifiedSide));
+
+    const fromOriginal = before.map((finding): VerifiedFinding => {
+        const match = pairs.get(finding);
+        return match ? { outcome: 'still_present', before: finding, after: match } : { outcome: 'resolved', before: finding, after: null };
+    });
+    const added = unmatchedAfter.map((finding): VerifiedFinding => ({ outcome: 'new', before: null, after: finding }));
+    return [...fromOriginal, ...added];
+};
+
+export const countOutcomes = (findings: VerifiedFinding[]): Record<VerificationOutcome, number> => {
+    const counts: Record<VerificationOutcome, number> = { resolved: 0, still_present: 0, new: 0 };
+    findings.forEach(f => { counts[f.outcome]++; });
+    return counts;
+};
+
+// The finding as it is best seen: on the repaired board unless it is gone.
+export const currentFinding = (finding: VerifiedFinding): UnitFinding => (finding.after ?? finding.before)!;
+
+export const verifiedSides = (verification: RepairVerification): BoardSide[] =>
+    (Object.keys(verification.images) as BoardSide[]).filter(side => verification.images[side]);
+
+export const isRepairVerified = (findings: VerifiedFinding[]): boolean =>
+    findings.every(f => f.outcome === 'resolved');
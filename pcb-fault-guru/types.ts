@@ -8,6 +8,23 @@ export interface BoundingBox {
 export type Presence = "missing" | "ok";
 export type Condition = "burnt" | "corroded" | "ok";
 export type DefectType = string;
+export type BoardSide = "top" | "bottom";
+
+// Whether a finding is as the model reported it or was drawn or corrected by a person.
+export type FindingOrigin = 'model' | 'human';
+
+// A reviewer's verdict on a finding, kept so corrections can become training data.
+export type TriageVerdict = 'confirmed' | 'false_positive' | 'wrong_class';
+
+export interface Triage {
+  verdict: TriageVerdict;
+  correctedClass?: string; // wrong_class only: a ComponentClass for parts, a DefectType for defects
+  triagedAt: string;
+}
+
+export type ComponentClass =
+  | 'resistor' | 'capacitor' | 'inductor' | 'diode' | 'led' | 'transistor' | 'ic' | 'connector'
+  | 'fuse' | 'crystal' | 'switch' | 'relay' | 'transformer' | 'battery' | 'test_point' | 'other';
 
 export interface Component {
   designator: string;
@@ -18,8 +35,19 @@ export interface Component {
   confidence: number;
   // New fields for thermal & datasheet
   temperature?: number; // in Celsius
+  temperatureSource?: 'model' | 'thermal'; // estimated from the photo unless measured from a thermal capture
   datasheetUrl?: string;
   maxVoltage?: number; // in Volts
+  maxVoltageSource?: 'model' | 'datasheet'; // a guess from the photo unless read from a datasheet in the library
+  maxVoltagePage?: number; // page of that datasheet, for checking the reading
+  // Two-sided inspections
+  side?: BoardSide; // omitted on single-sided inspections, where everything is "top"
+  throughHole?: boolean; // same designator found on both sides
+  agreement?: number; // share of ensemble runs that reported this part, 0–1
+  origin?: FindingOrigin; // omitted on model output
+  componentClass?: ComponentClass; // as reported by the model; otherwise inferred from the designator or MPN
+  classOverride?: ComponentClass; // set by hand, wins over everything else
+  triage?: Triage;
 }
 
 export interface Defect {
@@ -28,6 +56,10 @@ export interface Defect {
   bbox: BoundingBox;
   confidence: number;
   description?: string;
+  side?: BoardSide;
+  agreement?: number; // share of ensemble runs that reported this defect, 0–1
+  origin?: FindingOrigin;
+  triage?: Triage;
 }
 
 export interface Replacement {
@@ -52,16 +84,369 @@ export interface PcbAnalysis {
   defects: Defect[];
   summary: string;
   advice: Advice;
+  sideSummaries?: Partial<Record<BoardSide, string>>;
+  sideAdvice?: Partial<Record<BoardSide, Advice>>; // kept per side, so analyzing a side again replaces its advice
+  ensemble?: EnsembleInfo; // set when the analysis is the consensus of several runs
+}
+
+export interface EnsembleInfo {
+  runs: number;
+  minAgreement: number; // findings reported by a smaller share of runs are unstable
 }
 
 // For Chat feature
 export interface JumperSuggestion {
     from: { x: number; y: number };
     to: { x: number; y: number };
+    side?: BoardSide; // image the coordinates refer to
+    // Set once the ends are snapped to known pads; see services/connectivity.ts.
+    fromNet?: string;
+    toNet?: string;
+    warning?: string; // the jumper would join two different nets
+}
+
+// Net connectivity, drawn on the photos by hand or imported from a netlist.
+export type NetKind = 'power' | 'ground' | 'signal';
+
+export interface Net {
+    id: string;
+    name: string; // e.g. "GND", "+3V3", "SDA"
+    kind: NetKind;
+}
+
+export interface PadLocation {
+    side: BoardSide;
+    x: number; // normalized, like bounding boxes
+    y: number;
+}
+
+export interface Pad {
+    id: string;
+    netId: string;
+    location: PadLocation | null; // null until placed on a photo
+    designator?: string; // e.g. "U3" with pin "4" when imported from a netlist
+    pin?: string;
+}
+
+export interface Connectivity {
+    nets: Net[];
+    pads: Pad[];
+}
+
+// The board as designed: where each part should be, from a pick-and-place file or a KiCad board.
+export interface PlacedPart {
+    designator: string; // the real reference designator, as on the silkscreen
+    footprint: string;
+    value: string;
+    mpn: string; // empty when the file has none
+    side: BoardSide;
+    x: number; // board coordinates in mm, seen from the top with Y pointing down
+    y: number;
+    rotation: number; // degrees
+}
+
+export interface BoardOutline {
+    x: number; // in mm, like part positions
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface BoardPlacement {
+    source: string; // file name
+    importedAt: string;
+    parts: PlacedPart[];
+    outline: BoardOutline;
+    // Corners of the outline on each photo, normalized and clockwise from the board's top-left
+    // corner as seen in that photo. Sides without them are assumed to be cropped to the outline.
+    registration: Partial<Record<BoardSide, { x: number; y: number }[]>>;
+}
+
+// An ordered repair procedure, suggested in the chat or drafted from the analysis.
+export type ReworkAction = 'remove' | 'replace' | 'jumper' | 'cut_trace' | 'reflow' | 'clean' | 'other';
+
+// What a step points at on the photo. Points and boxes are normalized like bounding boxes.
+export type ReworkMarker =
+    | { type: 'line'; from: { x: number; y: number }; to: { x: number; y: number }; fromNet?: string; toNet?: string; warning?: string } // a jumper wire, checked like a JumperSuggestion
+    | { type: 'cut'; from: { x: number; y: number }; to: { x: number; y: number } } // the stretch of trace to cut
+    | { type: 'area'; bbox: BoundingBox }; // a part or region to work on
+
+export interface ReworkStep {
+    id: string;
+    action: ReworkAction;
+    instruction: string;
+    side: BoardSide;
+    designator?: string;
+    mpn?: string; // the part to fit, for 'replace'
+    markers: ReworkMarker[];
+    doneAt?: string; // set when the technician marks the step done
+}
+
+export interface ReworkPlan {
+    id: string;
+    title: string;
+    source: 'chat' | 'analysis';
+    createdAt: string;
+    steps: ReworkStep[];
+}
+
+// A repair job tracks the advice as tasks, the parts actually fitted and the final cost.
+export type JobTaskStatus = 'todo' | 'in_progress' | 'done' | 'skipped';
+
+export interface JobPhoto {
+    id: string;
+    file: File; // a close-up taken during the repair
+    addedAt: string;
+}
+
+export interface JobTask {
+    id: string;
+    title: string;
+    source: 'quick_action' | 'next_step';
+    status: JobTaskStatus;
+    technician: string;
+    notes: string;
+    photos: JobPhoto[];
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string; // when it was done or skipped
+}
+
+export interface PartUsage {
+    id: string;
+    originalMpn: string; // the part replaced, as named in an Alternative
+    usedMpn: string;
+    quantity: number;
+    unitCost: number | null; // in USD
+}
+
+export interface RepairJob {
+    id: string;
+    createdAt: string;
+    tasks: JobTask[];
+    partsUsed: PartUsage[];
+    finalCost: number | null; // in USD, compared with Advice.repair_cost
 }
 
 export interface ChatMessage {
     role: "user" | "model";
     text: string;
-    jumperSuggestion?: JumperSuggestion;
-}
\ No newline at end of file
+    jumperSuggestion?: JumperSuggestion; // single jumpers, from before rework plans
+    reworkPlan?: ReworkPlan; // as suggested, with jumpers checked against the nets known at the time
+    failed?: boolean; // model reply that errored or was cancelled; can be retried
+}
+
+// For model output validation
+export interface ValidationWarning {
+    path: string; // e.g., "components[3].bbox"
+    message: string;
+}
+
+export interface AnalysisResult {
+    analysis: PcbAnalysis;
+    warnings: ValidationWarning[];
+}
+
+// For golden-board comparison
+export interface GoldenReference {
+    name: string;
+    savedAt: string; // ISO timestamp
+    analysis: PcbAnalysis;
+    imageDataUrl: string; // downscaled top-side image
+}
+
+export interface ComponentChange {
+    reference: Component;
+    suspect: Component;
+}
+
+export interface BoardDiff {
+    referenceName: string;
+    missing: Component[]; // present on the reference, absent on the suspect
+    extra: Component[]; // on the suspect only
+    mpnChanged: ComponentChange[];
+    conditionChanged: ComponentChange[];
+    newDefects: Defect[];
+}
+
+// The official parts list of a board, imported to check the detected parts against it.
+export interface BomLine {
+  designators: string[]; // one line often covers several parts, e.g. "C1, C3-C5"
+  mpn: string;
+  value: string;
+  quantity: number;
+}
+
+export interface ExpectedBom {
+  source: string; // file name, and sheet for workbooks
+  importedAt: string;
+  lines: BomLine[];
+}
+
+export interface BomCheck {
+  matched: number; // designators found with the expected part, or with an unreadable marking
+  mpnMismatches: { designator: string; line: BomLine; component: Component }[]; // possible counterfeit or wrong part
+  missing: { designator: string; line: BomLine; component: Component | null }[]; // component set when the model saw the spot empty
+  extra: Component[]; // detected, but not on the BOM
+  quantities: { mpn: string; expected: number; detected: number }[];
+}
+
+// A rating read from a datasheet, with where it was found so it can be checked.
+export interface DatasheetRating<T> {
+  value: T;
+  page: number; // 1-based
+  excerpt: string; // the line it was read from
+}
+
+export interface DatasheetRatings {
+  maxVoltage?: DatasheetRating<number>; // absolute maximum, in volts
+  maxTemperature?: DatasheetRating<number>; // in °C
+  package?: DatasheetRating<string>;
+}
+
+// A PDF in the local datasheet library, found by the MPNs it covers.
+export interface DatasheetEntry {
+  id: string;
+  fileName: string;
+  mpns: string[];
+  addedAt: string;
+  pageCount: number;
+  ratings: DatasheetRatings;
+  file: Blob;
+}
+
+// Findings below these confidences are hidden everywhere: viewer, lists, BOM and report.
+export interface ConfidenceThresholds {
+    minConfidence: number; // 0–1, applies to components and to defect types without their own threshold
+    defectTypes: Partial<Record<DefectType, number>>;
+}
+
+export interface AppSettings {
+    confidence: ConfidenceThresholds;
+    estimate: EstimateSettings;
+}
+
+// How an itemized repair estimate turns parts and bench time into a price.
+export interface EstimateSettings {
+    hourlyRate: number; // USD
+    baseMinutes: number; // diagnosis and setup, once per repair
+    minutesPerPart: number; // removing and fitting one part
+    marginPercent: number; // added on top of parts and labor
+}
+
+// A catalog price from this quantity up.
+export interface PriceBreak {
+    quantity: number;
+    unitPrice: number; // USD
+}
+
+export interface CatalogPart {
+    mpn: string;
+    description?: string;
+    priceBreaks: PriceBreak[]; // ascending by quantity
+    stock: number | null; // null when the catalog does not say
+    leadTimeDays: number | null;
+}
+
+// One replaced part in an itemized estimate, priced with the cheapest suggestion the catalog has.
+export interface EstimateLine {
+    originalMpn: string;
+    designators: string[];
+    quantity: number;
+    mpn: string | null; // the replacement priced; null when the catalog has none of them
+    unitPrice: number | null;
+    lineTotal: number | null;
+    stock: number | null;
+    leadTimeDays: number | null;
+}
+
+export interface RepairEstimate {
+    lines: EstimateLine[];
+    partsTotal: number; // priced lines only
+    laborHours: number;
+    laborCost: number;
+    margin: number;
+    total: number;
+    unpricedCount: number; // lines the catalog could not price, so the total is a lower bound
+}
+
+// A board model that is repaired repeatedly; inspections of its units are grouped under it.
+export interface BoardProject {
+    id: string;
+    name: string; // board model
+    revision: string;
+    expectedVoltage: number | null;
+    createdAt: string;
+}
+
+// A saved inspection, restored without calling the model again.
+export interface InspectionRecord {
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    projectId?: string;
+    serial?: string; // unit serial number within the project
+    images: Partial<Record<BoardSide, File>>;
+    analysis: PcbAnalysis;
+    warnings: ValidationWarning[];
+    chatHistory: ChatMessage[];
+    jumperSuggestion?: JumperSuggestion | null; // replaced by reworkPlan; only read to upgrade older inspections
+    reworkPlan?: ReworkPlan | null;
+    repairJob?: RepairJob | null;
+    verification?: RepairVerification | null;
+    connectivity?: Connectivity; // absent in inspections saved before nets existed
+    placement?: BoardPlacement | null;
+    expectedBom?: ExpectedBom | null;
+    boardVoltage: number | null;
+    settings: AppSettings;
+}
+
+export type InspectionSummary = Pick<InspectionRecord, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'projectId' | 'serial'> & {
+    summary: string;
+    componentCount: number;
+    defectCount: number;
+    triagedCount: number; // findings with a triage verdict
+    thumbnail?: Blob;
+};
+
+// A problem seen on one visit of a unit: a missing or damaged part, or a defect.
+export interface UnitFinding {
+    key: string; // stable across visits when tied to a designator
+    kind: 'component' | 'defect';
+    type: string; // "missing", a condition, or a defect type
+    designator: string | null; // the part a defect sits on, if any
+    side: BoardSide;
+    bbox: BoundingBox;
+}
+
+export interface TimelineVisit {
+    inspectionId: string;
+    name: string;
+    createdAt: string;
+    findings: UnitFinding[];
+    added: UnitFinding[]; // not seen on the previous visit
+    fixed: UnitFinding[]; // seen on the previous visit, gone now
+}
+
+export interface UnitTimeline {
+    visits: TimelineVisit[]; // oldest first
+    repeatFailures: { designator: string; count: number }[]; // designators that failed on more than one visit
+}
+
+// After a repair the board is photographed again and its findings matched with the original ones.
+export type VerificationOutcome = 'resolved' | 'still_present' | 'new';
+
+export interface VerifiedFinding {
+    outcome: VerificationOutcome;
+    before: UnitFinding | null; // null for new findings
+    after: UnitFinding | null; // null for resolved findings
+}
+
+export interface RepairVerification {
+    id: string;
+    verifiedAt: string; // when the last photo of the repaired board was analyzed
+    images: Partial<Record<BoardSide, File>>; // the repaired board
+    analysis: PcbAnalysis; // of the repaired board
+    closedAt?: string; // set when the verification report closed out the job
+}